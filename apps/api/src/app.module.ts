@@ -1,9 +1,15 @@
 import { Module } from '@nestjs/common';
+import { LoggerModule } from '@hl8/logger';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 
 @Module({
-  imports: [],
+  imports: [
+    LoggerModule.forRoot({
+      enableRequestLogging: true,
+      enableResponseLogging: true,
+    }),
+  ],
   controllers: [AppController],
   providers: [AppService],
 })
@@ -1,8 +1,19 @@
 import { NestFactory } from '@nestjs/core';
+import {
+  FastifyAdapter,
+  NestFastifyApplication,
+} from '@nestjs/platform-fastify';
+import { useFastifyLogger } from '@hl8/logger';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  await app.listen(process.env.PORT ?? 3000);
+  // 启动日志先缓存，LoggerModule 初始化后由根日志器输出
+  const app = await NestFactory.create<NestFastifyApplication>(
+    AppModule,
+    new FastifyAdapter(),
+    { bufferLogs: true },
+  );
+  await useFastifyLogger(app);
+  await app.listen(process.env.PORT ?? 3000, '0.0.0.0');
 }
 bootstrap();
@@ -1,25 +1,45 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { INestApplication } from '@nestjs/common';
-import * as request from 'supertest';
-import { App } from 'supertest/types';
+import {
+  FastifyAdapter,
+  NestFastifyApplication,
+} from '@nestjs/platform-fastify';
+import { useFastifyLogger } from '@hl8/logger';
 import { AppModule } from './../src/app.module';
 
 describe('AppController (e2e)', () => {
-  let app: INestApplication<App>;
+  let app: NestFastifyApplication;
 
   beforeEach(async () => {
     const moduleFixture: TestingModule = await Test.createTestingModule({
       imports: [AppModule],
     }).compile();
 
-    app = moduleFixture.createNestApplication();
+    // 与 main.ts 相同的启动方式
+    app = moduleFixture.createNestApplication<NestFastifyApplication>(
+      new FastifyAdapter(),
+      { bufferLogs: true },
+    );
+    await useFastifyLogger(app);
     await app.init();
+    await app.getHttpAdapter().getInstance().ready();
   });
 
-  it('/ (GET)', () => {
-    return request(app.getHttpServer())
-      .get('/')
-      .expect(200)
-      .expect('Hello World!');
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('/ (GET)', async () => {
+    const result = await app.inject({ method: 'GET', url: '/' });
+
+    expect(result.statusCode).toBe(200);
+    expect(result.payload).toBe('Hello World!');
+  });
+
+  it('应该由日志插件处理请求并返回追踪上下文', async () => {
+    const result = await app.inject({ method: 'GET', url: '/' });
+
+    expect(result.headers['traceparent']).toMatch(
+      /^00-[0-9a-f]{32}-[0-9a-f]{16}-0[01]$/,
+    );
   });
 });
@@ -8,7 +8,7 @@ import { HttpAdapterHost } from '@nestjs/core';
 import { ErrorResponse } from '../vo/error-response.dto.js';
 import { AbstractHttpException } from '../core/abstract-http.exception.js';
 import type { ExceptionMessageProvider } from '../config/exception-message.provider.js';
-import { PinoLogger } from '@hl8/logger';
+import { loggerRegistry, PinoLogger } from '@hl8/logger';
 // import { PinoLogger } from '@hl8/logger';
 
 /**
@@ -28,6 +28,7 @@ import { PinoLogger } from '@hl8/logger';
  * ### 日志记录规则
  * - 使用结构化日志记录异常信息
  * - 包含请求上下文和错误详情
+ * - 请求头和请求体经 PinoLogger 默认脱敏规则处理，不记录认证信息、Cookie 和密码
  * - 支持错误级别分类
  * - 提供错误追踪信息
  *
@@ -62,11 +63,7 @@ export class AnyExceptionFilter implements ExceptionFilter {
     private readonly messageProvider?: ExceptionMessageProvider,
     private readonly documentationUrl?: string,
   ) {
-    this.logger = new PinoLogger({
-      destination: {
-        type: 'console',
-      },
-    });
+    this.logger = loggerRegistry.getLogger('AnyExceptionFilter');
   }
 
   /**
@@ -81,7 +81,7 @@ export default [
         'error',
         { selector: 'class', format: ['PascalCase'] },
         { selector: 'variable', format: ['camelCase', 'UPPER_CASE'] },
-        { selector: 'function', format: ['camelCase'] },
+        { selector: 'function', format: ['camelCase', 'PascalCase'] }, // 装饰器工厂使用 PascalCase
         { selector: 'parameter', format: ['camelCase'], leadingUnderscore: 'allow' },
       ],
     },
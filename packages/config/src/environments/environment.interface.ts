@@ -62,6 +62,7 @@ export interface FileSystem {
  * HL8平台功能配置接口
  *
  * @description 定义HL8 SAAS平台的核心功能配置
+ * 每一项对应配置 flags 配置段中的同名功能开关，通过 ConfigService.isFeatureEnabled() 或 @FeatureFlag() 判断
  */
 export interface IHl8Features {
   /** 是否启用多租户功能 */
@@ -1,6 +1,9 @@
 // 核心配置模块
 export * from './lib/config.module.js';
+export * from './lib/config-feature.module.js';
 export { ConfigService } from './lib/config.service.js';
+export * from './lib/constants.js';
+export * from './lib/types.js';
 
 // 配置验证模块
 export * from './lib/validation/dto/index.js';
@@ -12,7 +15,30 @@ export * from './lib/memory-config/memory-config.service.js';
 export * from './lib/memory-config/compatibility-adapter.js';
 export * from './lib/memory-config/hybrid-config.service.js';
 export * from './lib/memory-config/config-monitor.service.js';
+export * from './lib/memory-config/tenant-config.service.js';
+export * from './lib/memory-config/config-change.js';
+export * from './lib/memory-config/config-history.js';
+export * from './lib/memory-config/config-access-metrics.js';
+export * from './lib/memory-config/environment-profile.js';
+export * from './lib/memory-config/config-namespace.js';
 export * from './lib/memory-config/config-classes/application-memory-config.js';
+export * from './lib/memory-config/config-classes/config-path.types.js';
+export * from './lib/memory-config/config-classes/sensitive.decorator.js';
+
+// 配置源
+export * from './lib/memory-config/sources/index.js';
+
+// 密钥管理
+export * from './lib/memory-config/secrets/index.js';
+
+// 功能开关
+export * from './lib/feature-flags/index.js';
+
+// 配置管理接口
+export * from './lib/admin/index.js';
+
+// 配置文档导出
+export * from './lib/schema-export/index.js';
 
 // 环境配置接口
 export * from './environments/environment.interface.js';
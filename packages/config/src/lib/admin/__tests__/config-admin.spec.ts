@@ -0,0 +1,218 @@
+import { BadRequestException, ExecutionContext, ForbiddenException, INestApplicationContext, Module, NotFoundException } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { logLevelManager } from '@hl8/logger';
+import { ConfigModule } from '../../config.module';
+import { ConfigService } from '../../config.service';
+import { ConfigModuleOptions } from '../../types';
+import { ObjectConfigSource } from '../../memory-config/sources';
+import { ConfigAdminController } from '../config-admin.controller';
+import { ConfigAdminGuard } from '../config-admin.guard';
+import { LoggingAdminController } from '../logging-admin.controller';
+
+async function createApp(options: ConfigModuleOptions): Promise<INestApplicationContext> {
+  @Module({ imports: [ConfigModule.forRoot(options)] })
+  class AppModule {}
+
+  return NestFactory.createApplicationContext(AppModule, { logger: false, abortOnError: false });
+}
+
+function createContext(request: Record<string, unknown>): ExecutionContext {
+  return { switchToHttp: () => ({ getRequest: () => request }) } as unknown as ExecutionContext;
+}
+
+describe('Config admin endpoints', () => {
+  let data: Record<string, any>;
+  let app: INestApplicationContext;
+
+  beforeEach(() => {
+    data = {
+      environment: 'development',
+      api: { port: 4000 },
+      auth: { jwtSecret: 'admin-secret-value-with-32-characters' }
+    };
+  });
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  it('should not register the controller unless enabled', async () => {
+    app = await createApp({ sources: [new ObjectConfigSource(data, 'app')] });
+
+    expect(() => app.get(ConfigAdminController)).toThrow();
+  });
+
+  describe('ConfigAdminController', () => {
+    let controller: ConfigAdminController;
+
+    beforeEach(async () => {
+      app = await createApp({ sources: [new ObjectConfigSource(data, 'app')], admin: true });
+      controller = app.get(ConfigAdminController);
+    });
+
+    it('should return the redacted effective config with sources', () => {
+      const report = controller.getEffectiveConfig();
+
+      expect(report.environment).toBe('development');
+      expect(report.sources).toEqual(['defaults', 'defaults:development', 'app']);
+      expect(report.entries).toContainEqual({ path: 'api.port', value: 4000, source: 'app' });
+      expect(report.entries).toContainEqual({ path: 'auth.jwtSecret', value: '******', source: 'app' });
+      expect(report.entries.find(entry => entry.path === 'api.host')?.source).toBe('defaults');
+      expect(JSON.stringify(report)).not.toContain('admin-secret');
+    });
+
+    it('should return the status without per-key sources', () => {
+      const report = controller.getStatus();
+
+      expect(report.status).toMatchObject({ isLoaded: true, environment: 'development', snapshotVersion: 1 });
+      expect(report.status).not.toHaveProperty('keySources');
+      expect(report.monitoring.healthRate).toBeDefined();
+    });
+
+    it('should run a health check and return the history', async () => {
+      await controller.getHealth(50);
+      const report = await controller.getHealth(1);
+
+      expect(report.current.isHealthy).toBe(true);
+      expect(report.history).toHaveLength(1);
+    });
+
+    it('should report a valid config', async () => {
+      await expect(controller.getValidationReport()).resolves.toEqual({ isValid: true, errors: [] });
+    });
+
+    it('should export the config access metrics', () => {
+      app.get(ConfigService).get('api.port');
+
+      const text = controller.getMetrics();
+
+      expect(text).toContain('hl8_config_access_total{path="api.port",result="hit"} 1');
+      expect(text).toContain('hl8_config_unused{path="database.host"} 1');
+    });
+
+    it('should reload the config', async () => {
+      data.api.port = 5000;
+
+      const report = await controller.reload();
+
+      expect(report.status.snapshotVersion).toBe(2);
+      expect(controller.getEffectiveConfig().entries).toContainEqual({ path: 'api.port', value: 5000, source: 'app' });
+    });
+
+    it('should reject a reload that fails validation', async () => {
+      data.api.port = 'not-a-port';
+
+      const error = await controller.reload().catch(rejection => rejection);
+
+      expect(error).toBeInstanceOf(BadRequestException);
+      expect(error.getStatus()).toBe(400);
+      expect(error.message).toContain('api.port');
+      expect(controller.getStatus().status.snapshotVersion).toBe(1);
+    });
+  });
+
+  describe('LoggingAdminController', () => {
+    let controller: LoggingAdminController;
+
+    beforeEach(async () => {
+      data.logging = { levels: 'DatabaseConnectionManager=debug', debugSecret: 'debug-secret' };
+      app = await createApp({ sources: [new ObjectConfigSource(data, 'app')], admin: true });
+      controller = app.get(LoggingAdminController);
+    });
+
+    afterEach(() => {
+      logLevelManager.reset();
+    });
+
+    it('should apply the configured levels and request debugging', () => {
+      expect(controller.getLevels()).toEqual({
+        levels: { DatabaseConnectionManager: 'debug' },
+        requestDebug: { enabled: true, header: 'x-debug-token', level: 'trace' }
+      });
+    });
+
+    it('should change and remove context levels at runtime', () => {
+      expect(controller.setLevel('Cache*', { level: 'warn' }).levels).toEqual({
+        DatabaseConnectionManager: 'debug',
+        'Cache*': 'warn'
+      });
+      expect(logLevelManager.getContextLevel('CacheService')).toBe('warn');
+      expect(() => controller.setLevel('Cache*', { level: 'loud' as never })).toThrow(BadRequestException);
+
+      controller.removeLevel('Cache*');
+      expect(logLevelManager.getContextLevel('CacheService')).toBeUndefined();
+      expect(() => controller.removeLevel('Cache*')).toThrow(NotFoundException);
+    });
+
+    it('should keep runtime changes until the configured levels change', async () => {
+      const configAdmin = app.get(ConfigAdminController);
+      controller.setLevel('UserService', { level: 'trace' });
+
+      data.api.port = 5000;
+      await configAdmin.reload();
+      expect(controller.getLevels().levels).toHaveProperty('UserService', 'trace');
+
+      data.logging.levels = 'UserService=warn';
+      await configAdmin.reload();
+      expect(controller.getLevels().levels).toEqual({ UserService: 'warn' });
+    });
+
+    it('should reject invalid configured levels', async () => {
+      data.logging.levels = 'UserService=loud';
+
+      await expect(app.get(ConfigAdminController).reload()).rejects.toBeInstanceOf(BadRequestException);
+      expect(controller.getLevels().levels).toEqual({ DatabaseConnectionManager: 'debug' });
+    });
+  });
+
+  it('should attribute validation errors to their source', async () => {
+    data.api.port = 'not-a-port';
+    app = await createApp({ sources: [new ObjectConfigSource(data, 'app')], validationMode: 'warn', admin: true });
+
+    const report = await app.get(ConfigAdminController).getValidationReport();
+
+    expect(report.isValid).toBe(false);
+    expect(report.errors).toContainEqual(expect.objectContaining({ property: 'api.port', source: 'app' }));
+  });
+
+  describe('ConfigAdminGuard', () => {
+    it('should allow users with the admin role by default', async () => {
+      app = await createApp({ sources: [new ObjectConfigSource(data, 'app')], admin: true });
+      const guard = app.get(ConfigAdminGuard);
+
+      await expect(guard.canActivate(createContext({ user: { roles: ['admin'] } }))).resolves.toBe(true);
+      await expect(guard.canActivate(createContext({ user: { roles: ['user'] } }))).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(guard.canActivate(createContext({}))).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('should let a custom authorize function replace the role check', async () => {
+      app = await createApp({
+        sources: [new ObjectConfigSource(data, 'app')],
+        admin: { authorize: request => (request as { headers: Record<string, string> }).headers['x-admin'] === 'yes' }
+      });
+      const guard = app.get(ConfigAdminGuard);
+
+      await expect(guard.canActivate(createContext({ headers: { 'x-admin': 'yes' } }))).resolves.toBe(true);
+      await expect(guard.canActivate(createContext({ headers: {}, user: { roles: ['admin'] } }))).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('should hide the endpoints in production unless explicitly enabled', async () => {
+      data.environment = 'production';
+      data.auth.sessionSecret = 'session-secret-value-with-32-chars';
+      data.database = { password: 'database-password' };
+      data.mongodb = { password: 'mongodb-password' };
+      const request = createContext({ user: { roles: ['admin'] } });
+
+      app = await createApp({ sources: [new ObjectConfigSource(data, 'app')], validationMode: 'off', admin: true });
+      await expect(app.get(ConfigAdminGuard).canActivate(request)).rejects.toBeInstanceOf(NotFoundException);
+      await app.close();
+
+      app = await createApp({
+        sources: [new ObjectConfigSource(data, 'app')],
+        validationMode: 'off',
+        admin: { enableInProduction: true }
+      });
+      await expect(app.get(ConfigAdminGuard).canActivate(request)).resolves.toBe(true);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { BadRequestException, Controller, DefaultValuePipe, Get, Header, HttpCode, HttpStatus, ParseIntPipe, Post, Query, UseGuards } from '@nestjs/common';
+import { MemoryConfigService } from '../memory-config/memory-config.service.js';
+import { ConfigMonitorService } from '../memory-config/config-monitor.service.js';
+import { getValueAtPath } from '../memory-config/config-change.js';
+import { flattenConfigPaths } from '../memory-config/sources/layered-config.loader.js';
+import { ConfigValidationError } from '../validation/config-validation-error.js';
+import { ConfigAdminGuard } from './config-admin.guard.js';
+import type {
+  ConfigAdminEffectiveConfig,
+  ConfigAdminHealthReport,
+  ConfigAdminStatusReport,
+  ConfigAdminValidationReport
+} from './config-admin.types.js';
+
+/**
+ * 配置管理控制器
+ *
+ * @description 通过 HTTP 暴露配置状态、生效配置、健康检查和验证报告，并支持触发重新加载
+ * 仅在 ConfigModule.forRoot({ admin }) 启用时注册，所有路由由 ConfigAdminGuard 保护
+ *
+ * ## 路由
+ * - GET /_admin/config：脱敏后的生效配置及每项配置的来源
+ * - GET /_admin/config/status：配置服务状态和监控摘要
+ * - GET /_admin/config/health：执行健康检查并返回历史记录
+ * - GET /_admin/config/validation：按当前验证规则验证生效配置
+ * - GET /_admin/config/metrics：Prometheus 格式的配置访问指标
+ * - POST /_admin/config/reload：重新加载配置，验证失败时返回 400 且当前配置保持不变
+ *
+ * @since 1.0.0
+ */
+@Controller('_admin/config')
+@UseGuards(ConfigAdminGuard)
+export class ConfigAdminController {
+  constructor(
+    private readonly memoryConfig: MemoryConfigService,
+    private readonly configMonitor: ConfigMonitorService
+  ) {}
+
+  /**
+   * 获取生效配置
+   *
+   * @returns {ConfigAdminEffectiveConfig} 脱敏后的生效配置
+   *
+   * @since 1.0.0
+   */
+  @Get()
+  getEffectiveConfig(): ConfigAdminEffectiveConfig {
+    const config = this.memoryConfig.getAllConfig().toSafeJSON();
+    const status = this.memoryConfig.getConfigStatus();
+
+    return {
+      environment: status.environment,
+      configHash: status.configHash,
+      sources: status.sources ?? [],
+      entries: flattenConfigPaths(config)
+        .sort()
+        .map(path => ({
+          path,
+          value: getValueAtPath(config, path),
+          source: this.memoryConfig.getConfigSource(path)
+        }))
+    };
+  }
+
+  /**
+   * 获取配置状态
+   *
+   * @returns {ConfigAdminStatusReport} 配置服务状态和监控摘要
+   *
+   * @since 1.0.0
+   */
+  @Get('status')
+  getStatus(): ConfigAdminStatusReport {
+    const status = this.memoryConfig.getConfigStatus();
+    delete status.keySources;
+    return {
+      status,
+      monitoring: this.configMonitor.getMonitoringSummary()
+    };
+  }
+
+  /**
+   * 获取健康检查报告
+   *
+   * @param {number} limit - 返回的历史记录数量，默认为 50
+   * @returns {Promise<ConfigAdminHealthReport>} 本次检查结果和历史记录
+   *
+   * @since 1.0.0
+   */
+  @Get('health')
+  async getHealth(
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number
+  ): Promise<ConfigAdminHealthReport> {
+    const current = await this.configMonitor.checkConfigHealth();
+    return {
+      current,
+      history: this.configMonitor.getHealthCheckHistory(limit)
+    };
+  }
+
+  /**
+   * 获取验证报告
+   *
+   * @returns {Promise<ConfigAdminValidationReport>} 验证结果，错误中的敏感配置值已脱敏
+   *
+   * @since 1.0.0
+   */
+  @Get('validation')
+  async getValidationReport(): Promise<ConfigAdminValidationReport> {
+    const result = await this.memoryConfig.validateCurrentConfig();
+    return {
+      isValid: result.isValid,
+      errors: result.errors.map(error => ({
+        ...error,
+        source: this.memoryConfig.getConfigSource(error.property)
+      }))
+    };
+  }
+
+  /**
+   * 导出配置访问指标
+   *
+   * @returns {string} Prometheus 文本格式的指标
+   *
+   * @since 1.0.0
+   */
+  @Get('metrics')
+  @Header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8')
+  getMetrics(): string {
+    return this.configMonitor.exportPrometheusMetrics();
+  }
+
+  /**
+   * 重新加载配置
+   *
+   * @returns {Promise<ConfigAdminStatusReport>} 重新加载后的配置状态
+   * @throws {BadRequestException} 新配置验证失败时抛出，消息为完整的验证报告
+   *
+   * @since 1.0.0
+   */
+  @Post('reload')
+  @HttpCode(HttpStatus.OK)
+  async reload(): Promise<ConfigAdminStatusReport> {
+    try {
+      await this.memoryConfig.reloadConfig();
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+    return this.getStatus();
+  }
+}
@@ -0,0 +1,75 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Inject, Injectable, NotFoundException, Optional } from '@nestjs/common';
+import { MemoryConfigService } from '../memory-config/memory-config.service.js';
+import { CONFIG_MODULE_OPTIONS } from '../constants.js';
+import type { ConfigModuleOptions } from '../types.js';
+import { ConfigAdminOptions } from './config-admin.types.js';
+
+/**
+ * 默认允许访问配置管理接口的角色
+ *
+ * @since 1.0.0
+ */
+export const DEFAULT_CONFIG_ADMIN_ROLES = ['admin'];
+
+/**
+ * 配置管理接口守卫
+ *
+ * @description 保护 /_admin/config 下的配置管理接口
+ *
+ * ## 访问规则
+ * - 生产环境中默认禁用，返回 404，避免暴露接口的存在
+ * - 设置了 authorize 时由该函数决定是否允许访问
+ * - 否则要求 request.user.roles 包含允许的角色之一
+ *
+ * @since 1.0.0
+ */
+@Injectable()
+export class ConfigAdminGuard implements CanActivate {
+  /**
+   * 配置管理接口选项
+   */
+  private readonly adminOptions: ConfigAdminOptions;
+
+  constructor(
+    private readonly memoryConfig: MemoryConfigService,
+    @Optional() @Inject(CONFIG_MODULE_OPTIONS) options?: ConfigModuleOptions
+  ) {
+    this.adminOptions = typeof options?.admin === 'object' ? options.admin : {};
+  }
+
+  /**
+   * 检查是否允许访问配置管理接口
+   *
+   * @param {ExecutionContext} context - 执行上下文
+   * @returns {Promise<boolean>} 允许访问时返回 true
+   * @throws {NotFoundException} 生产环境未启用配置管理接口时抛出
+   * @throws {ForbiddenException} 当前用户无权访问时抛出
+   *
+   * @since 1.0.0
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    if (this.memoryConfig.getConfigStatus().environment === 'production' && !this.adminOptions.enableInProduction) {
+      throw new NotFoundException();
+    }
+
+    const request = context.switchToHttp().getRequest<{ user?: { roles?: string[] } }>();
+    const allowed = this.adminOptions.authorize
+      ? await this.adminOptions.authorize(request)
+      : this.hasAdminRole(request.user?.roles);
+
+    if (!allowed) {
+      throw new ForbiddenException('无权访问配置管理接口');
+    }
+    return true;
+  }
+
+  /**
+   * 检查用户角色
+   *
+   * @private
+   */
+  private hasAdminRole(roles: string[] | undefined): boolean {
+    const allowedRoles = this.adminOptions.roles ?? DEFAULT_CONFIG_ADMIN_ROLES;
+    return Array.isArray(roles) && roles.some(role => allowedRoles.includes(role));
+  }
+}
@@ -0,0 +1,120 @@
+import { ConfigStatus } from '../memory-config/memory-config.service.js';
+import { ConfigHealthStatus, HealthCheckRecord, MonitoringSummary } from '../memory-config/config-monitor.service.js';
+import { FormattedValidationError } from '../validation/config-validation.service.js';
+
+/**
+ * 配置管理接口选项
+ *
+ * @description ConfigModule.forRoot({ admin }) 的配置选项
+ * 配置管理接口挂载在 /_admin/config 下，默认仅允许具有 admin 角色的用户访问
+ *
+ * @example
+ * ```typescript
+ * ConfigModule.forRoot({
+ *   admin: {
+ *     roles: ['ops'],
+ *     enableInProduction: true
+ *   }
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export interface ConfigAdminOptions {
+  /**
+   * 生产环境是否启用
+   *
+   * @description 默认为 false，生产环境中配置管理接口返回 404
+   */
+  enableInProduction?: boolean;
+
+  /**
+   * 允许访问的角色
+   *
+   * @description 从 request.user.roles 读取用户角色，命中任意一个即可访问，默认为 ['admin']
+   */
+  roles?: string[];
+
+  /**
+   * 自定义授权函数
+   *
+   * @description 设置后替代角色检查，返回 false 时拒绝访问
+   */
+  authorize?: (request: unknown) => boolean | Promise<boolean>;
+}
+
+/**
+ * 配置状态报告
+ *
+ * @description GET /_admin/config/status 的响应
+ */
+export interface ConfigAdminStatusReport {
+  /** 配置服务状态，不含逐项的配置来源 */
+  status: Omit<ConfigStatus, 'keySources'>;
+  /** 配置监控摘要 */
+  monitoring: MonitoringSummary;
+}
+
+/**
+ * 生效配置项
+ *
+ * @description 带来源标注的叶子配置项，敏感配置值已脱敏
+ */
+export interface ConfigAdminEntry {
+  /** 配置路径 */
+  path: string;
+  /** 配置值 */
+  value: unknown;
+  /** 提供该值的配置源名称 */
+  source?: string;
+}
+
+/**
+ * 生效配置报告
+ *
+ * @description GET /_admin/config 的响应
+ */
+export interface ConfigAdminEffectiveConfig {
+  /** 运行环境 */
+  environment: string;
+  /** 当前配置的内容哈希 */
+  configHash?: string;
+  /** 参与合并的配置源名称，按优先级从低到高排列 */
+  sources: string[];
+  /** 生效配置项，按路径排序 */
+  entries: ConfigAdminEntry[];
+}
+
+/**
+ * 健康检查报告
+ *
+ * @description GET /_admin/config/health 的响应
+ */
+export interface ConfigAdminHealthReport {
+  /** 本次请求执行的健康检查结果 */
+  current: ConfigHealthStatus;
+  /** 健康检查历史，按时间倒序 */
+  history: HealthCheckRecord[];
+}
+
+/**
+ * 验证错误
+ *
+ * @description 带来源标注的配置验证错误，敏感配置值已脱敏
+ */
+export interface ConfigAdminValidationError extends FormattedValidationError {
+  /** 提供该值的配置源名称 */
+  source?: string;
+}
+
+/**
+ * 验证报告
+ *
+ * @description GET /_admin/config/validation 的响应
+ */
+export interface ConfigAdminValidationReport {
+  /** 验证是否通过 */
+  isValid: boolean;
+  /** 验证错误列表 */
+  errors: ConfigAdminValidationError[];
+}
@@ -0,0 +1,4 @@
+export * from './config-admin.types.js';
+export * from './config-admin.guard.js';
+export * from './config-admin.controller.js';
+export * from './logging-admin.controller.js';
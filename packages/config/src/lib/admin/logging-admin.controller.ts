@@ -0,0 +1,71 @@
+import { BadRequestException, Body, Controller, Delete, Get, HttpCode, HttpStatus, NotFoundException, Param, Put, UseGuards } from '@nestjs/common';
+import { logLevelManager } from '@hl8/logger';
+import type { LogLevel, LogLevelOverrides } from '@hl8/logger';
+import { ConfigAdminGuard } from './config-admin.guard.js';
+
+/**
+ * 日志级别管理控制器
+ *
+ * @description 在运行时查看和调整按日志器上下文覆盖的日志级别，调整立即生效且无需重启
+ * 与 ConfigAdminController 一起在 ConfigModule.forRoot({ admin }) 启用时注册，由 ConfigAdminGuard 保护
+ *
+ * ## 路由
+ * - GET /_admin/logging/levels：当前的上下文级别覆盖和单请求调试状态
+ * - PUT /_admin/logging/levels/:context：覆盖上下文的日志级别，请求体为 { "level": "debug" }
+ * - DELETE /_admin/logging/levels/:context：移除上下文的日志级别覆盖
+ *
+ * 通过接口做出的调整保存在进程内存中，logging.levels 配置变化并重新加载后会被配置中的规则替换
+ *
+ * @since 1.0.0
+ */
+@Controller('_admin/logging')
+@UseGuards(ConfigAdminGuard)
+export class LoggingAdminController {
+  /**
+   * 获取日志级别覆盖
+   *
+   * @returns {LogLevelOverrides} 上下文级别覆盖和单请求调试状态，不包含签名密钥
+   *
+   * @since 1.0.0
+   */
+  @Get('levels')
+  getLevels(): LogLevelOverrides {
+    return logLevelManager.getOverrides();
+  }
+
+  /**
+   * 覆盖上下文的日志级别
+   *
+   * @param {string} context - 日志器上下文名称，以 * 结尾时按前缀匹配
+   * @param {{ level: LogLevel }} body - 日志级别
+   * @returns {LogLevelOverrides} 调整后的覆盖状态
+   * @throws {BadRequestException} 日志级别无效时抛出
+   *
+   * @since 1.0.0
+   */
+  @Put('levels/:context')
+  setLevel(@Param('context') context: string, @Body() body: { level: LogLevel }): LogLevelOverrides {
+    try {
+      logLevelManager.setContextLevel(context, body?.level);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : String(error));
+    }
+    return logLevelManager.getOverrides();
+  }
+
+  /**
+   * 移除上下文的日志级别覆盖
+   *
+   * @param {string} context - 日志器上下文名称
+   * @throws {NotFoundException} 上下文没有覆盖级别时抛出
+   *
+   * @since 1.0.0
+   */
+  @Delete('levels/:context')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeLevel(@Param('context') context: string): void {
+    if (!logLevelManager.removeContextLevel(context)) {
+      throw new NotFoundException(`上下文 ${context} 没有覆盖日志级别`);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+
+/**
+ * 配置功能模块
+ *
+ * @description ConfigModule.forFeature() 返回的动态模块的宿主类
+ * 每次调用 forFeature() 都会生成一个独立的模块实例，只提供并导出对应配置模式类的注入令牌
+ * MemoryConfigService 由全局的 ConfigModule 提供，无需在此重复注册
+ *
+ * @since 1.0.0
+ */
+@Module({})
+export class ConfigFeatureModule {}
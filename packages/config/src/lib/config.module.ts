@@ -1,9 +1,20 @@
-import { Global, Module } from '@nestjs/common';
+import { DynamicModule, Global, Module } from '@nestjs/common';
 import { ConfigService } from './config.service.js';
 import { MemoryConfigService } from './memory-config/memory-config.service.js';
 import { ConfigCompatibilityAdapter } from './memory-config/compatibility-adapter.js';
 import { HybridConfigService } from './memory-config/hybrid-config.service.js';
 import { ConfigMonitorService } from './memory-config/config-monitor.service.js';
+import { TenantConfigService } from './memory-config/tenant-config.service.js';
+import { ConfigValidationService } from './validation/config-validation.service.js';
+import { FeatureFlagService } from './feature-flags/feature-flag.service.js';
+import { FeatureFlagGuard } from './feature-flags/feature-flag.guard.js';
+import { ConfigFeatureModule } from './config-feature.module.js';
+import { ConfigAdminController } from './admin/config-admin.controller.js';
+import { ConfigAdminGuard } from './admin/config-admin.guard.js';
+import { LoggingAdminController } from './admin/logging-admin.controller.js';
+import { ConfigSchemaClass, getConfigToken } from './memory-config/config-namespace.js';
+import { CONFIG_MODULE_OPTIONS } from './constants.js';
+import { ConfigModuleOptions } from './types.js';
 
 /**
  * 配置模块
@@ -37,6 +48,20 @@ import { ConfigMonitorService } from './memory-config/config-monitor.service.js'
  * })
  * export class AppModule {}
  *
+ * // 声明配置源及其优先级（后声明的优先级更高）
+ * @Module({
+ *   imports: [
+ *     ConfigModule.forRoot({
+ *       sources: [
+ *         new YamlFileConfigSource('config/default.yaml'),
+ *         new DotenvConfigSource('.env', { optional: true }),
+ *         new EnvConfigSource()
+ *       ]
+ *     })
+ *   ]
+ * })
+ * export class AppModule {}
+ *
  * // 在服务中使用
  * @Injectable()
  * export class MyService {
@@ -83,14 +108,110 @@ import { ConfigMonitorService } from './memory-config/config-monitor.service.js'
 		MemoryConfigService,
 		ConfigCompatibilityAdapter,
 		HybridConfigService,
-		ConfigMonitorService
+		ConfigMonitorService,
+		TenantConfigService,
+		FeatureFlagService,
+		FeatureFlagGuard,
+		ConfigValidationService
 	],
 	exports: [
 		ConfigService,
 		MemoryConfigService,
 		ConfigCompatibilityAdapter,
 		HybridConfigService,
-		ConfigMonitorService
+		ConfigMonitorService,
+		TenantConfigService,
+		FeatureFlagService,
+		FeatureFlagGuard,
+		ConfigValidationService
 	]
 })
-export class ConfigModule {}
+export class ConfigModule {
+	/**
+	 * 配置根模块
+	 *
+	 * @description 使用指定选项配置全局配置模块
+	 * 未传入配置源时与直接导入 ConfigModule 的行为一致，仅读取进程环境变量
+	 * 设置 admin 后注册 /_admin/config 配置管理接口和 /_admin/logging 日志级别管理接口
+	 *
+	 * @param {ConfigModuleOptions} options - 配置模块选项
+	 * @returns {DynamicModule} 动态模块配置
+	 *
+	 * @example
+	 * ```typescript
+	 * @Module({
+	 *   imports: [
+	 *     ConfigModule.forRoot({
+	 *       sources: [new JsonFileConfigSource('config/app.json'), new EnvConfigSource()]
+	 *     })
+	 *   ]
+	 * })
+	 * export class AppModule {}
+	 * ```
+	 */
+	static forRoot(options: ConfigModuleOptions = {}): DynamicModule {
+		return {
+			module: ConfigModule,
+			global: true,
+			controllers: options.admin ? [ConfigAdminController, LoggingAdminController] : [],
+			providers: [
+				{
+					provide: CONFIG_MODULE_OPTIONS,
+					useValue: options
+				},
+				...(options.admin ? [ConfigAdminGuard] : [])
+			],
+			exports: [CONFIG_MODULE_OPTIONS]
+		};
+	}
+
+	/**
+	 * 注册模块配置
+	 *
+	 * @description 为功能库注册带验证的命名空间配置
+	 * 配置源中与 namespace 同名的顶层配置段按 schema 验证，并可通过 @InjectConfig(schema) 注入
+	 * 命名空间配置会出现在 getConfigKeys()、配置验证和健康检查中
+	 *
+	 * @param {string} namespace - 配置命名空间，即配置源中的顶层配置键
+	 * @param {ConfigSchemaClass<T>} schema - 配置模式类
+	 * @returns {DynamicModule} 动态模块配置
+	 *
+	 * @example
+	 * ```typescript
+	 * export class PaymentsConfigSchema {
+	 *   @IsString()
+	 *   provider = 'stripe';
+	 *
+	 *   @IsInt()
+	 *   @Min(1)
+	 *   retries = 3;
+	 * }
+	 *
+	 * @Module({
+	 *   imports: [ConfigModule.forFeature('payments', PaymentsConfigSchema)],
+	 *   providers: [PaymentsService]
+	 * })
+	 * export class PaymentsModule {}
+	 *
+	 * @Injectable()
+	 * export class PaymentsService {
+	 *   constructor(@InjectConfig(PaymentsConfigSchema) private readonly config: PaymentsConfigSchema) {}
+	 * }
+	 * ```
+	 */
+	static forFeature<T extends object>(namespace: string, schema: ConfigSchemaClass<T>): DynamicModule {
+		const token = getConfigToken(schema);
+
+		return {
+			module: ConfigFeatureModule,
+			providers: [
+				{
+					provide: token,
+					useFactory: (memoryConfig: MemoryConfigService) => memoryConfig.registerNamespace(namespace, schema),
+					inject: [MemoryConfigService]
+				}
+			],
+			exports: [token]
+		};
+	}
+}
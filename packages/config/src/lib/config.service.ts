@@ -1,8 +1,17 @@
-import { Injectable } from '@nestjs/common';
-import { PinoLogger } from '@hl8/logger';
+import { Injectable, Optional } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { loggerRegistry } from '@hl8/logger';
 import { MemoryConfigService } from './memory-config/memory-config.service.js';
 import { ConfigCompatibilityAdapter } from './memory-config/compatibility-adapter.js';
+import { ConfigPath, ConfigPathValue } from './memory-config/config-classes/config-path.types.js';
+import { getSensitiveConfigPaths } from './memory-config/config-classes/application-memory-config.js';
+import { toSafeJSON } from './memory-config/config-classes/sensitive.decorator.js';
+import { ConfigChangeEvent, ConfigPathChange } from './memory-config/config-change.js';
+import { ConfigSnapshot } from './memory-config/config-history.js';
+import { EnvironmentProfile } from './memory-config/environment-profile.js';
 import { ConfigValidationService, ValidationResult } from './validation/config-validation.service.js';
+import { FeatureFlagService } from './feature-flags/feature-flag.service.js';
+import { FeatureFlagContext } from './feature-flags/feature-flag.types.js';
 
 /**
  * 配置健康状态接口
@@ -70,15 +79,22 @@ export class ConfigService {
    * 日志记录器
    * 
    * @description 用于记录配置服务的日志信息
-   * 使用 Pino 日志库，提供高性能的日志记录功能
+   * 使用 LoggerModule 根日志器的子日志器，遵循 LoggerModule.forRoot 中的日志配置
    */
-  private readonly logger = new PinoLogger({
-    level: 'info',
-    destination: { type: 'console' }
-  });
+  private readonly logger = loggerRegistry.getLogger('ConfigService');
 
   // 不再需要存储配置对象，使用内存配置服务
 
+  /**
+   * 功能开关服务
+   */
+  private readonly featureFlags: FeatureFlagService;
+
+  /**
+   * 敏感配置路径
+   */
+  private readonly sensitivePaths = new Set(getSensitiveConfigPaths());
+
   /**
    * 构造函数
    * 
@@ -88,22 +104,35 @@ export class ConfigService {
   constructor(
     private readonly memoryConfig: MemoryConfigService,
     private readonly compatibilityAdapter: ConfigCompatibilityAdapter,
-    private readonly configValidationService: ConfigValidationService
+    private readonly configValidationService: ConfigValidationService,
+    @Optional() featureFlags?: FeatureFlagService
   ) {
+    this.featureFlags = featureFlags ?? new FeatureFlagService(memoryConfig);
     this.logConfiguration();
   }
 
+  /**
+   * 脱敏配置段
+   *
+   * @description 配置段中 @Sensitive() 标记的配置项替换为脱敏占位值，其他配置值原样返回
+   *
+   * @private
+   */
+  private redactSection<T>(value: T): T {
+    return (value !== null && typeof value === 'object' ? toSafeJSON(value) : value) as T;
+  }
+
   /**
    * 记录配置信息
    *
    * @description 在服务启动时记录关键配置信息，便于调试和监控
-   * 记录API端口、数据库类型、日志级别等核心配置项
+   * 记录API端口、数据库类型、日志级别等核心配置项，完整配置仅以脱敏形式输出
    * 
    * ## 记录内容
    * - API端口配置
    * - 数据库类型和连接信息
    * - 日志级别设置
-   * - 其他关键配置项
+   * - 其他关键配置项（调试级别，敏感配置已脱敏）
    * 
    * @private
    */
@@ -117,6 +146,7 @@ export class ConfigService {
       this.logger.log(`API端口: ${apiConfig.port}`);
       this.logger.log(`数据库类型: ${dbConfig.type}`);
       this.logger.log(`日志级别: ${loggingConfig.level}`);
+      this.logger.debug('完整配置（已脱敏）', { config: this.memoryConfig.getAllConfig().toSafeJSON() });
     } catch (error) {
       this.logger.warn('配置服务初始化时无法获取配置信息');
     }
@@ -131,38 +161,117 @@ export class ConfigService {
    * 
    * ## 路径格式
    * - 支持点号分隔的嵌套路径
-   * - 例如：'api.port', 'database.host', 'auth.jwt.secret'
+   * - 例如：'api.port', 'database.host', 'auth.jwtSecret'
    * - 路径不区分大小写
    * 
+   * ## 租户配置
+   * - 在请求作用域内，自动读取叠加当前租户覆盖后的配置
+   * - 当前租户来自 @hl8/logger 请求上下文中的 tenantId
+   * 
+   * ## 敏感配置
+   * - 读取 @Sensitive() 标记的叶子配置（如 'auth.jwtSecret'）时经由 getSecret() 读取，每次读取都会记录审计事件
+   * - 读取包含敏感配置的配置段（如 'auth'）时返回脱敏后的副本，敏感配置项被替换为脱敏占位值
+   * 
    * ## 类型安全
    * - 支持泛型类型推断
    * - 提供编译时类型检查
    * - 避免运行时类型错误
    * 
-   * @param {string} path - 配置路径，支持点号分隔的嵌套路径
-   * @returns {T} 配置值，支持泛型类型推断
+   * @param {P} path - 配置路径，支持点号分隔的嵌套路径
+   * @param {ConfigPathValue<P>} defaultValue - 可选的默认值，配置不存在时返回
+   * @returns {ConfigPathValue<P>} 配置值，类型由配置路径推导
    * 
    * @example
    * ```typescript
-   * // 获取API端口
-   * const port = this.configService.get<number>('api.port');
+   * // 获取API端口，返回 number
+   * const port = this.configService.get('api.port');
    * 
-   * // 获取数据库配置
+   * // 获取数据库配置，返回 DatabaseMemoryConfig
    * const dbConfig = this.configService.get('database');
    * 
-   * // 获取嵌套配置
-   * const jwtSecret = this.configService.get<string>('auth.jwt.secret');
+   * // 带默认值
+   * const poolSize = this.configService.get('database.poolSize', 10);
+   * 
+   * // 路径拼写错误在编译期报错
+   * this.configService.get('api.prot'); // ❌
    * ```
    * 
    * @since 1.0.0
    */
-  get<T = unknown>(path: string): T {
+  get<P extends ConfigPath>(path: P, defaultValue?: ConfigPathValue<P>): ConfigPathValue<P> {
+    if (this.sensitivePaths.has(path)) {
+      return this.getSecret(path, 'ConfigService.get') ?? (defaultValue as ConfigPathValue<P>);
+    }
+
     // 使用兼容适配器获取配置值
-    return this.compatibilityAdapter.get<T>(path);
+    return this.redactSection(this.compatibilityAdapter.get(path, defaultValue));
   }
 
   // 不再需要getNestedValue方法，使用兼容适配器
 
+  /**
+   * 配置变更事件流
+   *
+   * @description 配置重新加载并产生实际变化时发出事件，包含新旧配置和变更列表
+   * 
+   * @returns {Observable<ConfigChangeEvent>} 配置变更事件流
+   * 
+   * @example
+   * ```typescript
+   * this.configService.changes$.subscribe(event => {
+   *   console.log('变更的配置键:', event.changes.map(change => change.path));
+   * });
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  get changes$(): Observable<ConfigChangeEvent> {
+    return this.memoryConfig.changes$;
+  }
+
+  /**
+   * 观察配置路径变化
+   *
+   * @description 返回指定配置路径的变更事件流，路径和值类型与 get() 一致
+   * 
+   * @param {P} path - 配置路径，可以是配置段或叶子配置键
+   * @returns {Observable<ConfigPathChange<P>>} 配置路径变更事件流
+   * 
+   * @example
+   * ```typescript
+   * this.configService.observe('database.poolSize').subscribe(({ newValue }) => {
+   *   pool.resize(newValue);
+   * });
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  observe<P extends ConfigPath>(path: P): Observable<ConfigPathChange<P>> {
+    return this.memoryConfig.observe(path);
+  }
+
+  /**
+   * 注册配置变更回调
+   *
+   * @description 指定配置路径发生变化时调用回调，无需重启应用即可响应配置变化
+   * 
+   * @param {P} path - 配置路径
+   * @param {(change: ConfigPathChange<P>) => void} handler - 变更回调
+   * @returns {() => void} 取消订阅的函数
+   * 
+   * @example
+   * ```typescript
+   * this.configService.onChange('logging.level', ({ newValue }) => {
+   *   this.logger.setLevel(newValue as LogLevel);
+   * });
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  onChange<P extends ConfigPath>(path: P, handler: (change: ConfigPathChange<P>) => void): () => void {
+    return this.memoryConfig.onChange(path, handler);
+  }
+
   /**
    * 获取API配置
    *
@@ -188,7 +297,7 @@ export class ConfigService {
    * 获取数据库配置
    *
    * @description 获取数据库相关的完整配置信息
-   * 包含数据库类型、连接参数、认证信息等配置
+   * 包含数据库类型、连接参数、认证信息等配置，数据库密码已脱敏，原始值请使用 getSecret() 读取
    * 
    * @returns {Object} 数据库配置对象
    * 
@@ -202,28 +311,31 @@ export class ConfigService {
    * @since 1.0.0
    */
   getDatabaseConfig() {
-    return this.memoryConfig.getDatabaseConfig();
+    return this.redactSection(this.memoryConfig.getDatabaseConfig());
   }
 
   /**
    * 获取认证配置
    *
    * @description 获取认证相关的完整配置信息
-   * 包含JWT密钥、过期时间、密码加密等认证配置
+   * 包含JWT密钥、过期时间、密码加密等认证配置，JWT密钥和会话密钥已脱敏，原始值请使用 getSecret() 读取
    * 
    * @returns {Object} 认证配置对象
    * 
    * @example
    * ```typescript
    * const authConfig = this.configService.getAuthConfig();
-   * console.log(authConfig.jwtSecret); // secretKey
-   * console.log(authConfig.jwtExpirationTime); // 86400
+   * console.log(authConfig.jwtSecret); // ******
+   * console.log(authConfig.jwtExpiresIn); // 24h
+   * 
+   * // 读取密钥原始值
+   * const jwtSecret = this.configService.getSecret('auth.jwtSecret', 'AuthModule');
    * ```
    * 
    * @since 1.0.0
    */
   getAuthConfig() {
-    return this.memoryConfig.getAuthConfig();
+    return this.redactSection(this.memoryConfig.getAuthConfig());
   }
 
   /**
@@ -251,21 +363,81 @@ export class ConfigService {
    * 获取功能开关配置
    *
    * @description 获取功能开关相关的完整配置信息
-   * 包含多租户、用户注册、组织管理等功能的开关配置
+   * 包含 Swagger、指标监控、跨域、限流、健康检查等功能的开关配置
+   * 在请求作用域内返回叠加当前租户覆盖后的配置
    * 
-   * @returns {Object} 功能开关配置对象
+   * @returns {FeaturesMemoryConfig} 功能开关配置对象
    * 
    * @example
    * ```typescript
    * const featuresConfig = this.configService.getFeaturesConfig();
-   * console.log(featuresConfig.multiTenant); // true
-   * console.log(featuresConfig.userRegistration); // true
+   * console.log(featuresConfig.enableSwagger); // true
    * ```
    * 
    * @since 1.0.0
    */
   getFeaturesConfig() {
-    return this.memoryConfig.getFeaturesConfig();
+    return this.get('features');
+  }
+
+  /**
+   * 获取使用限额配置
+   *
+   * @description 获取最大用户数、最大存储空间、每分钟请求数等使用限额
+   * 在请求作用域内返回叠加当前租户覆盖后的配置
+   * 
+   * @returns {LimitsMemoryConfig} 使用限额配置对象
+   * 
+   * @example
+   * ```typescript
+   * const { maxUsers } = this.configService.getLimitsConfig();
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  getLimitsConfig() {
+    return this.get('limits');
+  }
+
+  /**
+   * 获取品牌配置
+   *
+   * @description 获取应用名称、Logo、主题色等品牌展示配置
+   * 在请求作用域内返回叠加当前租户覆盖后的配置
+   * 
+   * @returns {BrandingMemoryConfig} 品牌配置对象
+   * 
+   * @example
+   * ```typescript
+   * const { appName, primaryColor } = this.configService.getBrandingConfig();
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  getBrandingConfig() {
+    return this.get('branding');
+  }
+
+  /**
+   * 获取命名空间配置
+   *
+   * @description 获取 ConfigModule.forFeature() 注册的命名空间配置
+   * 在功能库内部优先使用 @InjectConfig() 注入
+   * 
+   * @param {string} namespace - 配置命名空间
+   * @returns {T} 配置模式类实例
+   * @throws {Error} 命名空间未注册时抛出
+   * 
+   * @example
+   * ```typescript
+   * const payments = this.configService.getNamespaceConfig<PaymentsConfigSchema>('payments');
+   * console.log(payments.provider);
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  getNamespaceConfig<T extends object>(namespace: string): T {
+    return this.memoryConfig.getNamespaceConfig<T>(namespace);
   }
 
   /**
@@ -292,93 +464,110 @@ export class ConfigService {
   /**
    * 检查功能是否启用
    *
-   * @description 检查指定功能是否启用
-   * 提供便捷的功能开关检查方法，支持布尔值判断
-   * 
-   * ## 支持的功能
-   * - multiTenant: 多租户功能
-   * - userRegistration: 用户注册功能
-   * - emailPasswordLogin: 邮箱密码登录
-   * - magicLogin: 魔法登录
-   * - organizationManagement: 组织管理
-   * - departmentManagement: 部门管理
-   * - userManagement: 用户管理
-   * - permissionManagement: 权限管理
-   * 
-   * @param {string} feature - 功能名称
+   * @description 检查指定功能是否启用，由 FeatureFlagService 评估
+   * 在请求作用域内按当前租户、用户的定向规则和百分比灰度判断
+   * 
+   * ## 功能开关来源
+   * - flags 配置段：带定向规则、百分比灰度和紧急关闭的功能开关（如 multiTenant）
+   * - features 配置段：flags 中没有定义时使用的同名布尔开关
+   *   - enableSwagger: Swagger 文档
+   *   - enableMetrics: 指标监控
+   *   - enableCors: 跨域支持
+   *   - enableRateLimit: 请求限流
+   *   - enableHealthCheck: 健康检查
+   * 
+   * @param {string} feature - 功能名称，未知功能视为未启用
+   * @param {FeatureFlagContext} context - 可选的评估上下文，未提供的字段从当前请求补全
    * @returns {boolean} 是否启用该功能
    * 
    * @example
    * ```typescript
-   * // 检查多租户功能是否启用
-   * const isMultiTenantEnabled = this.configService.isFeatureEnabled('multiTenant');
-   * 
-   * // 检查用户注册功能是否启用
-   * const isUserRegistrationEnabled = this.configService.isFeatureEnabled('userRegistration');
+   * // 检查 Swagger 是否启用
+   * const isSwaggerEnabled = this.configService.isFeatureEnabled('enableSwagger');
+   *
+   * // 按指定用户检查灰度开关
+   * this.configService.isFeatureEnabled('new-dashboard', { userId: 'user-1' });
    * ```
    * 
    * @since 1.0.0
    */
-  isFeatureEnabled(feature: string): boolean {
-    return this.get(`features.${feature}`) === true;
+  isFeatureEnabled(feature: string, context?: FeatureFlagContext): boolean {
+    return this.featureFlags.isEnabled(feature, context);
   }
 
   /**
    * 获取环境信息
    *
-   * @description 获取当前运行环境的详细信息
-   * 提供环境类型判断和标识符，便于环境相关的逻辑处理
+   * @description 获取当前运行环境，环境名称来自已加载配置中的 environment（NODE_ENV）
+   * 提供环境类型判断，便于环境相关的逻辑处理
    * 
    * ## 环境类型
    * - development: 开发环境
-   * - production: 生产环境
+   * - production: 生产环境，加载时执行生产环境规则检查
    * - test: 测试环境
+   * - staging 等其他环境使用生产环境的默认值
    * 
-   * @returns {Object} 环境信息对象
+   * @returns {EnvironmentProfile} 运行环境
    * 
    * @example
    * ```typescript
    * const env = this.configService.getEnvironment();
-   * console.log(env.nodeEnv); // development
-   * console.log(env.isDevelopment); // true
-   * console.log(env.isProduction); // false
+   * console.log(env.name); // development
+   * console.log(env.isDevelopment()); // true
+   * console.log(env.isProduction()); // false
    * ```
    * 
    * @since 1.0.0
    */
-  getEnvironment() {
-    return {
-      nodeEnv: process.env.NODE_ENV || 'development',
-      isDevelopment: process.env.NODE_ENV === 'development',
-      isProduction: process.env.NODE_ENV === 'production',
-      isTest: process.env.NODE_ENV === 'test'
-    };
+  getEnvironment(): EnvironmentProfile {
+    const status = this.memoryConfig.getConfigStatus();
+    return new EnvironmentProfile(status.isLoaded ? status.environment : process.env.NODE_ENV || 'development');
   }
 
   /**
    * 获取完整配置
    *
    * @description 获取应用程序的完整配置对象
-   * 包含所有配置项，用于调试和配置验证
+   * 包含所有配置项，用于调试、诊断和配置验证
    * 
    * ## 注意事项
-   * - 返回的配置对象包含敏感信息，请谨慎使用
-   * - 建议仅在调试和开发环境中使用
-   * - 生产环境中应避免直接暴露完整配置
+   * - 返回脱敏后的普通对象，@Sensitive() 标记的配置项被替换为脱敏占位值
+   * - 读取密钥原始值请使用 getSecret()
    * 
-   * @returns {Object} 完整配置对象
+   * @returns {Record<string, unknown>} 脱敏后的完整配置
    * 
    * @example
    * ```typescript
-   * // 获取完整配置（仅用于调试）
    * const allConfig = this.configService.getAll();
    * console.log(JSON.stringify(allConfig, null, 2));
    * ```
    * 
    * @since 1.0.0
    */
-  getAll() {
-    return this.memoryConfig.getAllConfig();
+  getAll(): Record<string, unknown> {
+    return this.memoryConfig.getAllConfig().toSafeJSON();
+  }
+
+  /**
+   * 读取敏感配置
+   *
+   * @description 读取 @Sensitive() 标记的配置项原始值，如 JWT 密钥和数据库密码
+   * 每次读取都会记录审计日志并通过 MemoryConfigService.secretAccess$ 发出事件
+   * 
+   * @param {P} path - 敏感配置路径
+   * @param {string} accessor - 可选的访问方标识，用于审计
+   * @returns {ConfigPathValue<P>} 配置原始值
+   * @throws {Error} 路径不是敏感配置时抛出
+   * 
+   * @example
+   * ```typescript
+   * const jwtSecret = this.configService.getSecret('auth.jwtSecret', 'AuthModule');
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  getSecret<P extends ConfigPath>(path: P, accessor?: string): ConfigPathValue<P> {
+    return this.memoryConfig.getSecret(path, accessor);
   }
 
   /**
@@ -392,9 +581,11 @@ export class ConfigService {
    * - 业务规则验证
    * - 必需字段检查
    * - 格式和范围验证
+   * - ConfigModule.forFeature() 注册的命名空间配置
    * 
    * @param {boolean} throwOnError - 验证失败时是否抛出错误，默认为false
    * @returns {Promise<ValidationResult>} 验证结果
+   * @throws {ConfigValidationError} throwOnError 为 true 且验证失败时抛出，错误消息为多行错误报告
    * 
    * @example
    * ```typescript
@@ -411,7 +602,16 @@ export class ConfigService {
    * @since 1.0.0
    */
   async validateConfig(throwOnError = false): Promise<ValidationResult> {
-    return await this.configValidationService.validateApplicationConfig(throwOnError);
+    const result = await this.memoryConfig.validateCurrentConfig();
+
+    if (throwOnError && !result.isValid) {
+      throw this.configValidationService.createValidationException(
+        result.errors,
+        this.memoryConfig.getConfigStatus().keySources
+      );
+    }
+
+    return result;
   }
 
   /**
@@ -500,7 +700,7 @@ export class ConfigService {
       }
 
       // 检查关键配置项
-      const criticalConfigs = [
+      const criticalConfigs: { path: ConfigPath; name: string }[] = [
         { path: 'api.port', name: 'API端口' },
         { path: 'database.type', name: '数据库类型' },
         { path: 'auth.jwtSecret', name: 'JWT密钥' }
@@ -515,14 +715,14 @@ export class ConfigService {
       }
 
       // 检查端口号范围
-      const apiPort = this.get<number>('api.port');
+      const apiPort = this.get('api.port');
       if (apiPort && (apiPort < 1 || apiPort > 65535)) {
         isHealthy = false;
         issues.push(`API端口号超出有效范围: ${apiPort}`);
       }
 
       // 检查数据库类型
-      const dbType = this.get<string>('database.type');
+      const dbType = this.get('database.type');
       const validDbTypes = ['postgresql', 'mysql', 'sqlite', 'mongodb'];
       if (dbType && !validDbTypes.includes(dbType)) {
         isHealthy = false;
@@ -551,25 +751,25 @@ export class ConfigService {
   /**
    * 获取MongoDB配置（内存配置）
    * 
-   * @description 获取MongoDB相关的配置，使用内存配置
+   * @description 获取MongoDB相关的配置，使用内存配置，密码已脱敏
    * @returns {MongoDbMemoryConfig} MongoDB配置
    * 
    * @since 1.0.0
    */
   getMongoDbConfig() {
-    return this.memoryConfig.getMongoDbConfig();
+    return this.redactSection(this.memoryConfig.getMongoDbConfig());
   }
 
   /**
    * 获取Redis配置（内存配置）
    * 
-   * @description 获取Redis相关的配置，使用内存配置
+   * @description 获取Redis相关的配置，使用内存配置，密码已脱敏
    * @returns {RedisMemoryConfig} Redis配置
    * 
    * @since 1.0.0
    */
   getRedisConfig() {
-    return this.memoryConfig.getRedisConfig();
+    return this.redactSection(this.memoryConfig.getRedisConfig());
   }
 
   /**
@@ -626,4 +826,46 @@ export class ConfigService {
   async reloadConfig(): Promise<void> {
     return await this.memoryConfig.reloadConfig();
   }
+
+  /**
+   * 获取配置历史
+   *
+   * @description 获取最近的配置快照，每个快照包含版本号、内容哈希、时间、触发方式、配置源和脱敏后的变更
+   * 
+   * @param {number} limit - 返回的最大数量，默认返回全部保留的快照
+   * @returns {ConfigSnapshot[]} 配置快照，最新的在前
+   * 
+   * @example
+   * ```typescript
+   * const [latest] = configService.getConfigHistory(1);
+   * console.log(latest.version, latest.trigger, latest.changes);
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  getConfigHistory(limit?: number): ConfigSnapshot[] {
+    return this.memoryConfig.getHistory(limit);
+  }
+
+  /**
+   * 回滚配置
+   *
+   * @description 将配置恢复为指定快照的内容，用于撤销有问题的热重载
+   * 回滚只替换内存中的配置，下一次重新加载会重新读取配置源
+   * 
+   * @param {number} version - 快照版本号
+   * @returns {Promise<ConfigSnapshot>} 回滚后生成的快照
+   * @throws {Error} 快照不存在或没有可用的原始配置时抛出
+   * @throws {ConfigValidationError} 快照配置验证失败时抛出
+   * 
+   * @example
+   * ```typescript
+   * await configService.rollbackTo(3);
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  async rollbackTo(version: number): Promise<ConfigSnapshot> {
+    return await this.memoryConfig.rollbackTo(version);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+/**
+ * 配置模块常量定义
+ *
+ * @description 定义配置模块中使用的常量
+ * 用于依赖注入和模块配置
+ *
+ * @fileoverview 配置模块常量定义文件
+ * @author HL8 Team
+ * @since 1.0.0
+ */
+
+/**
+ * 配置模块选项提供者令牌
+ *
+ * @description 用于依赖注入的令牌，用于获取 ConfigModule.forRoot() 传入的选项
+ *
+ * @example
+ * ```typescript
+ * @Optional() @Inject(CONFIG_MODULE_OPTIONS)
+ * private readonly options?: ConfigModuleOptions
+ * ```
+ */
+export const CONFIG_MODULE_OPTIONS = 'CONFIG_MODULE_OPTIONS';
@@ -0,0 +1,256 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { withRequestContext } from '@hl8/logger';
+import { MemoryConfigService } from '../../memory-config/memory-config.service';
+import { TenantConfigService } from '../../memory-config/tenant-config.service';
+import { ObjectConfigSource, YamlFileConfigSource } from '../../memory-config/sources';
+import { ConfigValidationError } from '../../validation/config-validation-error';
+import { FeatureFlagService } from '../feature-flag.service';
+import { FeatureFlagGuard } from '../feature-flag.guard';
+import { FeatureFlag } from '../feature-flag.decorator';
+import { evaluateFeatureFlag, getRolloutBucket } from '../feature-flag.evaluator';
+import { FeatureFlagDefinition } from '../feature-flag.types';
+
+describe('Feature flags', () => {
+  describe('evaluateFeatureFlag', () => {
+    const definition: FeatureFlagDefinition = {
+      enabled: false,
+      rules: [
+        { name: 'beta-tenants', tenants: ['tenant-a'] },
+        { name: 'blocked-user', users: ['user-9'], enabled: false },
+        { name: 'staging-admins', roles: ['admin'], environments: ['staging'] }
+      ]
+    };
+
+    it('should use the first matching rule', () => {
+      const result = evaluateFeatureFlag('beta', definition, { tenantId: 'tenant-a', userId: 'user-9' });
+
+      expect(result).toMatchObject({ enabled: true, reason: 'rule', rule: 'beta-tenants' });
+    });
+
+    it('should require every declared condition of a rule to match', () => {
+      expect(evaluateFeatureFlag('beta', definition, { roles: ['admin'], environment: 'staging' }).enabled).toBe(true);
+      expect(evaluateFeatureFlag('beta', definition, { roles: ['admin'], environment: 'production' })).toMatchObject({
+        enabled: false,
+        reason: 'default'
+      });
+    });
+
+    it('should let a matching rule disable the flag', () => {
+      const result = evaluateFeatureFlag('beta', { ...definition, enabled: true }, { userId: 'user-9' });
+
+      expect(result).toMatchObject({ enabled: false, reason: 'rule', rule: 'blocked-user' });
+    });
+
+    it('should turn the flag off when the kill switch is set', () => {
+      const result = evaluateFeatureFlag('beta', { ...definition, killSwitch: true }, { tenantId: 'tenant-a' });
+
+      expect(result).toMatchObject({ enabled: false, reason: 'kill-switch' });
+      expect(result.trace).toHaveLength(1);
+    });
+
+    it('should record every step in the trace', () => {
+      const result = evaluateFeatureFlag('beta', definition, { tenantId: 'tenant-b', roles: ['admin'], environment: 'staging' });
+
+      expect(result.rule).toBe('staging-admins');
+      expect(result.trace).toEqual([
+        expect.stringContaining('规则 beta-tenants 未命中'),
+        expect.stringContaining('规则 blocked-user 未命中'),
+        '规则 staging-admins 命中',
+        '规则结果: 启用'
+      ]);
+    });
+  });
+
+  describe('percentage rollout', () => {
+    it('should put the same id in the same bucket every time', () => {
+      expect(getRolloutBucket('beta', 'user-1')).toBe(getRolloutBucket('beta', 'user-1'));
+      expect(getRolloutBucket('beta', 'user-1')).toBeGreaterThanOrEqual(0);
+      expect(getRolloutBucket('beta', 'user-1')).toBeLessThan(100);
+    });
+
+    it('should enable roughly the configured share of users', () => {
+      const definition: FeatureFlagDefinition = { enabled: true, rollout: { percentage: 30 } };
+      let enabled = 0;
+      for (let i = 0; i < 2000; i++) {
+        if (evaluateFeatureFlag('beta', definition, { userId: `user-${i}` }).enabled) {
+          enabled++;
+        }
+      }
+
+      expect(enabled / 2000).toBeGreaterThan(0.25);
+      expect(enabled / 2000).toBeLessThan(0.35);
+    });
+
+    it('should hash on the tenant id when rolling out by tenant', () => {
+      const definition: FeatureFlagDefinition = { enabled: true, rollout: { percentage: 50, by: 'tenant' } };
+      const first = evaluateFeatureFlag('beta', definition, { tenantId: 'tenant-a', userId: 'user-1' });
+      const second = evaluateFeatureFlag('beta', definition, { tenantId: 'tenant-a', userId: 'user-2' });
+
+      expect(first.bucket).toBe(getRolloutBucket('beta', 'tenant-a'));
+      expect(second.enabled).toBe(first.enabled);
+    });
+
+    it('should leave the flag off when the rollout id is missing', () => {
+      const result = evaluateFeatureFlag('beta', { enabled: true, rollout: { percentage: 100 } }, {});
+
+      expect(result.enabled).toBe(false);
+      expect(result.bucket).toBeUndefined();
+    });
+  });
+
+  describe('FeatureFlagService', () => {
+    let memoryConfig: MemoryConfigService;
+    let featureFlags: FeatureFlagService;
+
+    beforeEach(async () => {
+      memoryConfig = new MemoryConfigService({
+        sources: [
+          new ObjectConfigSource(
+            {
+              environment: 'test',
+              features: { enableSwagger: true },
+              flags: {
+                'new-dashboard': { enabled: false, rules: [{ tenants: ['tenant-a'] }] },
+                'test-only': { enabled: false, rules: [{ environments: ['test'] }] }
+              }
+            },
+            'flags'
+          )
+        ]
+      });
+      await memoryConfig.onModuleInit();
+      featureFlags = new FeatureFlagService(memoryConfig);
+    });
+
+    afterEach(() => {
+      memoryConfig.onModuleDestroy();
+    });
+
+    it('should read the tenant and user from the request context', async () => {
+      expect(featureFlags.isEnabled('new-dashboard')).toBe(false);
+
+      await withRequestContext({ requestId: 'req-1', tenantId: 'tenant-a', userId: 'user-1' }, async () => {
+        const result = featureFlags.evaluate('new-dashboard');
+        expect(result.enabled).toBe(true);
+        expect(result.context).toMatchObject({ tenantId: 'tenant-a', userId: 'user-1' });
+      });
+    });
+
+    it('should default the environment to the configured one', () => {
+      expect(featureFlags.isEnabled('test-only')).toBe(true);
+      expect(featureFlags.isEnabled('test-only', { environment: 'production' })).toBe(false);
+    });
+
+    it('should fall back to the features section for undefined flags', () => {
+      expect(featureFlags.evaluate('enableSwagger')).toMatchObject({ enabled: true, reason: 'features' });
+      expect(featureFlags.evaluate('missing')).toMatchObject({ enabled: false, reason: 'unknown' });
+      expect(featureFlags.hasFlag('enableSwagger')).toBe(true);
+      expect(featureFlags.hasFlag('missing')).toBe(false);
+      expect(Object.keys(featureFlags.listFlags())).toEqual(['new-dashboard', 'test-only']);
+    });
+
+    it('should use tenant feature overrides when a tenant config service is given', async () => {
+      const tenantConfig = new TenantConfigService(memoryConfig);
+      const tenantFlags = new FeatureFlagService(memoryConfig, tenantConfig);
+      await tenantConfig.setOverrides('tenant-b', { features: { enableSwagger: false } });
+
+      expect(tenantFlags.isEnabled('enableSwagger', { tenantId: 'tenant-b' })).toBe(false);
+      expect(tenantFlags.isEnabled('enableSwagger', { tenantId: 'tenant-c' })).toBe(true);
+    });
+  });
+
+  describe('flag sources', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'hl8-flags-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should load flags from a YAML file and pick up changes on reload', async () => {
+      const file = join(dir, 'flags.yaml');
+      writeFileSync(file, 'flags:\n  beta:\n    enabled: true\n');
+      const memoryConfig = new MemoryConfigService({ sources: [new YamlFileConfigSource(file)] });
+      await memoryConfig.onModuleInit();
+      const featureFlags = new FeatureFlagService(memoryConfig);
+
+      expect(featureFlags.isEnabled('beta')).toBe(true);
+
+      writeFileSync(file, 'flags:\n  beta:\n    enabled: true\n    killSwitch: true\n');
+      await memoryConfig.reloadConfig();
+
+      expect(featureFlags.evaluate('beta').reason).toBe('kill-switch');
+      memoryConfig.onModuleDestroy();
+    });
+
+    it('should reject malformed flag definitions', async () => {
+      const memoryConfig = new MemoryConfigService({
+        sources: [
+          new ObjectConfigSource({ flags: { beta: { enabled: 'yes', rollout: { percentage: 150 } } } }, 'flags')
+        ]
+      });
+
+      await expect(memoryConfig.onModuleInit()).rejects.toThrow(ConfigValidationError);
+      await expect(memoryConfig.onModuleInit()).rejects.toThrow(/beta\.rollout\.percentage/);
+    });
+  });
+
+  describe('@FeatureFlag()', () => {
+    class DashboardController {
+      @FeatureFlag('new-dashboard')
+      getDashboard(): string {
+        return 'ok';
+      }
+
+      getHome(): string {
+        return 'ok';
+      }
+    }
+
+    let memoryConfig: MemoryConfigService;
+    let guard: FeatureFlagGuard;
+
+    const createContext = (handler: () => string, user?: Record<string, unknown>): ExecutionContext =>
+      ({
+        getHandler: () => handler,
+        getClass: () => DashboardController,
+        getType: () => 'http',
+        switchToHttp: () => ({ getRequest: () => ({ user }) })
+      }) as unknown as ExecutionContext;
+
+    beforeEach(async () => {
+      memoryConfig = new MemoryConfigService({
+        sources: [
+          new ObjectConfigSource(
+            { flags: { 'new-dashboard': { enabled: false, rules: [{ roles: ['beta-tester'] }] } } },
+            'flags'
+          )
+        ]
+      });
+      await memoryConfig.onModuleInit();
+      guard = new FeatureFlagGuard(new Reflector(), new FeatureFlagService(memoryConfig));
+    });
+
+    afterEach(() => {
+      memoryConfig.onModuleDestroy();
+    });
+
+    it('should allow routes without a feature flag', () => {
+      expect(guard.canActivate(createContext(DashboardController.prototype.getHome))).toBe(true);
+    });
+
+    it('should evaluate the flag against request.user', () => {
+      const handler = DashboardController.prototype.getDashboard;
+
+      expect(guard.canActivate(createContext(handler, { id: 1, roles: ['beta-tester'] }))).toBe(true);
+      expect(() => guard.canActivate(createContext(handler, { id: 2, roles: [] }))).toThrow(ForbiddenException);
+    });
+  });
+});
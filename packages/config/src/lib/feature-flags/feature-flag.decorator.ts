@@ -0,0 +1,29 @@
+import { SetMetadata, UseGuards, applyDecorators } from '@nestjs/common';
+import { FEATURE_FLAG_METADATA, FeatureFlagGuard } from './feature-flag.guard.js';
+
+/**
+ * 功能开关装饰器
+ *
+ * @description 声明控制器或路由处理器依赖的功能开关，开关关闭时返回 403
+ * 用于控制器时作用于所有路由，处理器上的声明优先
+ *
+ * @param {string} flag - 功能开关名称
+ * @returns {ClassDecorator & MethodDecorator} 装饰器
+ *
+ * @example
+ * ```typescript
+ * @Controller('dashboard')
+ * export class DashboardController {
+ *   @Get('v2')
+ *   @FeatureFlag('new-dashboard')
+ *   getDashboard() {
+ *     // ...
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function FeatureFlag(flag: string): ClassDecorator & MethodDecorator {
+  return applyDecorators(SetMetadata(FEATURE_FLAG_METADATA, flag), UseGuards(FeatureFlagGuard));
+}
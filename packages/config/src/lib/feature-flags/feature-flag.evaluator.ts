@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import {
+  FeatureFlagContext,
+  FeatureFlagDefinition,
+  FeatureFlagEvaluation,
+  FeatureFlagRollout,
+  FeatureFlagRule
+} from './feature-flag.types.js';
+
+/**
+ * 计算灰度分桶
+ *
+ * @description 对 '<flag>:<id>' 做 SHA-256 哈希并映射到 [0, 100) 区间
+ * 不同功能开关使用不同的分桶，避免同一批用户总是先拿到所有新功能
+ *
+ * @param {string} flag - 功能开关名称
+ * @param {string} id - 用户或租户ID
+ * @returns {number} 分桶值，保留两位小数
+ *
+ * @example
+ * ```typescript
+ * getRolloutBucket('new-dashboard', 'user-1'); // 如 42.17，同一输入结果不变
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function getRolloutBucket(flag: string, id: string): number {
+  const hash = createHash('sha256').update(`${flag}:${id}`).digest();
+  return (hash.readUInt32BE(0) % 10000) / 100;
+}
+
+/**
+ * 评估功能开关
+ *
+ * @description 按以下顺序评估功能开关并记录每一步的追踪信息：
+ * 1. killSwitch 为 true 时直接关闭
+ * 2. 按声明顺序匹配规则，第一个命中的规则决定结果（可带百分比灰度）
+ * 3. 没有规则命中时使用 enabled，并应用开关级百分比灰度
+ *
+ * @param {string} flag - 功能开关名称
+ * @param {FeatureFlagDefinition} definition - 功能开关定义
+ * @param {FeatureFlagContext} context - 评估上下文
+ * @returns {FeatureFlagEvaluation} 评估结果
+ *
+ * @example
+ * ```typescript
+ * const result = evaluateFeatureFlag('new-dashboard', definition, { tenantId: 'tenant-a' });
+ * console.log(result.enabled, result.reason, result.trace);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function evaluateFeatureFlag(
+  flag: string,
+  definition: FeatureFlagDefinition,
+  context: FeatureFlagContext
+): FeatureFlagEvaluation {
+  const trace: string[] = [];
+
+  if (definition.killSwitch) {
+    trace.push('紧急关闭开关已打开，强制关闭');
+    return { flag, enabled: false, reason: 'kill-switch', context, trace };
+  }
+
+  const rules = definition.rules ?? [];
+  for (const [index, rule] of rules.entries()) {
+    const ruleName = rule.name ?? `#${index + 1}`;
+    const mismatch = findRuleMismatch(rule, context);
+    if (mismatch) {
+      trace.push(`规则 ${ruleName} 未命中: ${mismatch}`);
+      continue;
+    }
+
+    trace.push(`规则 ${ruleName} 命中`);
+    const enabled = rule.enabled ?? true;
+    if (!enabled || !rule.rollout) {
+      trace.push(`规则结果: ${enabled ? '启用' : '关闭'}`);
+      return { flag, enabled, reason: 'rule', rule: ruleName, context, trace };
+    }
+
+    const rollout = applyRollout(flag, rule.rollout, context, trace);
+    return { flag, enabled: rollout.enabled, reason: 'rule', rule: ruleName, bucket: rollout.bucket, context, trace };
+  }
+
+  if (!definition.enabled || !definition.rollout) {
+    trace.push(`没有规则命中，使用默认值: ${definition.enabled ? '启用' : '关闭'}`);
+    return { flag, enabled: definition.enabled, reason: 'default', context, trace };
+  }
+
+  trace.push('没有规则命中，应用默认灰度');
+  const rollout = applyRollout(flag, definition.rollout, context, trace);
+  return { flag, enabled: rollout.enabled, reason: 'default', bucket: rollout.bucket, context, trace };
+}
+
+/**
+ * 查找规则未命中的条件
+ *
+ * @returns 未命中条件的描述，全部命中时返回 undefined
+ * @private
+ */
+function findRuleMismatch(rule: FeatureFlagRule, context: FeatureFlagContext): string | undefined {
+  if (rule.tenants && !(context.tenantId && rule.tenants.includes(context.tenantId))) {
+    return `租户 ${context.tenantId ?? '(无)'} 不在 [${rule.tenants.join(', ')}] 中`;
+  }
+  if (rule.users && !(context.userId && rule.users.includes(context.userId))) {
+    return `用户 ${context.userId ?? '(无)'} 不在 [${rule.users.join(', ')}] 中`;
+  }
+  if (rule.roles && !(context.roles ?? []).some(role => rule.roles?.includes(role))) {
+    return `角色 [${(context.roles ?? []).join(', ')}] 与 [${rule.roles.join(', ')}] 无交集`;
+  }
+  if (rule.environments && !(context.environment && rule.environments.includes(context.environment))) {
+    return `环境 ${context.environment ?? '(无)'} 不在 [${rule.environments.join(', ')}] 中`;
+  }
+  return undefined;
+}
+
+/**
+ * 应用百分比灰度
+ *
+ * @private
+ */
+function applyRollout(
+  flag: string,
+  rollout: FeatureFlagRollout,
+  context: FeatureFlagContext,
+  trace: string[]
+): { enabled: boolean; bucket?: number } {
+  const by = rollout.by ?? 'user';
+  const id = by === 'tenant' ? context.tenantId : context.userId;
+  if (!id) {
+    trace.push(`灰度按${by === 'tenant' ? '租户' : '用户'}分桶，但上下文中没有对应ID，关闭`);
+    return { enabled: false };
+  }
+
+  const bucket = getRolloutBucket(flag, id);
+  const enabled = bucket < rollout.percentage;
+  trace.push(`灰度分桶 ${bucket} ${enabled ? '<' : '>='} ${rollout.percentage}%，${enabled ? '启用' : '关闭'}`);
+  return { enabled, bucket };
+}
@@ -0,0 +1,103 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { FeatureFlagService } from './feature-flag.service.js';
+import { FeatureFlagContext } from './feature-flag.types.js';
+
+/**
+ * 功能开关元数据键
+ *
+ * @description @FeatureFlag() 装饰器写入的元数据键，值为功能开关名称
+ *
+ * @since 1.0.0
+ */
+export const FEATURE_FLAG_METADATA = 'hl8:feature-flag';
+
+/**
+ * 请求中的用户信息
+ *
+ * @description 认证中间件挂载到 request.user 上的用户信息，字段均为可选
+ */
+interface FeatureFlagRequestUser {
+  id?: string | number;
+  userId?: string | number;
+  tenantId?: string;
+  roles?: string[];
+}
+
+/**
+ * 功能开关守卫
+ *
+ * @description 功能开关关闭时拒绝访问控制器或路由处理器
+ * 通常通过 @FeatureFlag() 装饰器使用，无需直接引用
+ *
+ * ## 评估上下文
+ * - 用户、租户和角色优先从 request.user 读取
+ * - request.user 中没有的字段从 @hl8/logger 的请求上下文补全
+ * - 处理器上的 @FeatureFlag() 优先于控制器上的声明
+ *
+ * @example
+ * ```typescript
+ * @Controller('reports')
+ * @UseGuards(FeatureFlagGuard)
+ * @SetMetadata(FEATURE_FLAG_METADATA, 'new-reports')
+ * export class ReportsController {}
+ * ```
+ *
+ * @since 1.0.0
+ */
+@Injectable()
+export class FeatureFlagGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly featureFlags: FeatureFlagService
+  ) {}
+
+  /**
+   * 检查功能开关
+   *
+   * @param {ExecutionContext} context - 执行上下文
+   * @returns {boolean} 未声明功能开关或开关已启用时返回 true
+   * @throws {ForbiddenException} 功能开关关闭时抛出
+   *
+   * @since 1.0.0
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const flag = this.reflector.getAllAndOverride<string | undefined>(FEATURE_FLAG_METADATA, [
+      context.getHandler(),
+      context.getClass()
+    ]);
+    if (!flag) {
+      return true;
+    }
+
+    const evaluation = this.featureFlags.evaluate(flag, this.getFlagContext(context));
+    if (!evaluation.enabled) {
+      throw new ForbiddenException(`功能未启用: ${flag}`);
+    }
+    return true;
+  }
+
+  /**
+   * 从请求中提取评估上下文
+   *
+   * @private
+   */
+  private getFlagContext(context: ExecutionContext): FeatureFlagContext {
+    if (context.getType() !== 'http') {
+      return {};
+    }
+
+    const request = context.switchToHttp().getRequest<{ user?: FeatureFlagRequestUser }>();
+    const user = request.user;
+    if (!user) {
+      return {};
+    }
+
+    const userId = user.id ?? user.userId;
+    return {
+      userId: userId !== undefined ? String(userId) : undefined,
+      tenantId: user.tenantId,
+      roles: user.roles
+    };
+  }
+}
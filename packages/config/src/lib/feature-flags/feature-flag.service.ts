@@ -0,0 +1,177 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { getCurrentTenantId, getCurrentUserId, loggerRegistry } from '@hl8/logger';
+import { MemoryConfigService } from '../memory-config/memory-config.service.js';
+import { TenantConfigService } from '../memory-config/tenant-config.service.js';
+import { ApplicationMemoryConfig } from '../memory-config/config-classes/application-memory-config.js';
+import { evaluateFeatureFlag } from './feature-flag.evaluator.js';
+import { FeatureFlagContext, FeatureFlagDefinition, FeatureFlagEvaluation } from './feature-flag.types.js';
+
+/**
+ * 功能开关服务
+ *
+ * @description 按租户、用户、角色和运行环境评估功能开关
+ *
+ * ## 主要功能
+ *
+ * ### 开关来源
+ * - 功能开关定义位于 flags 配置段，与其他配置一样可以来自 YAML、JSON、对象等任意配置源
+ * - 配置重新加载后立即使用新的开关定义，无需重启
+ * - 没有定义的开关回退到 features 配置段中的同名布尔开关（如 enableSwagger）
+ *
+ * ### 评估规则
+ * - killSwitch 紧急关闭优先于所有规则
+ * - 定向规则按声明顺序匹配，第一个命中的规则生效
+ * - 百分比灰度按用户或租户ID哈希分桶，同一标识的结果稳定
+ *
+ * ### 上下文
+ * - 未显式传入的租户和用户从 @hl8/logger 的请求上下文读取
+ * - 运行环境默认为当前配置的 environment
+ * - 注入 TenantConfigService 时使用当前租户的生效配置
+ *
+ * ### 评估追踪
+ * - evaluate() 返回逐步的评估追踪，便于排查开关为何开启或关闭
+ *
+ * @example
+ * ```typescript
+ * if (featureFlags.isEnabled('new-dashboard')) {
+ *   // ...
+ * }
+ *
+ * const evaluation = featureFlags.evaluate('new-dashboard', { userId: 'user-1' });
+ * console.log(evaluation.reason, evaluation.trace);
+ * ```
+ *
+ * @since 1.0.0
+ */
+@Injectable()
+export class FeatureFlagService {
+  /**
+   * 日志记录器
+   */
+  private readonly logger = loggerRegistry.getLogger('FeatureFlagService');
+
+  constructor(
+    private readonly memoryConfig: MemoryConfigService,
+    @Optional() private readonly tenantConfig?: TenantConfigService
+  ) {}
+
+  /**
+   * 检查功能开关是否启用
+   *
+   * @param {string} flag - 功能开关名称
+   * @param {FeatureFlagContext} context - 评估上下文，未提供的字段从当前请求补全
+   * @returns {boolean} 是否启用，未知的开关视为关闭
+   *
+   * @example
+   * ```typescript
+   * featureFlags.isEnabled('new-dashboard', { roles: ['admin'] });
+   * ```
+   *
+   * @since 1.0.0
+   */
+  isEnabled(flag: string, context: FeatureFlagContext = {}): boolean {
+    return this.evaluate(flag, context).enabled;
+  }
+
+  /**
+   * 评估功能开关
+   *
+   * @description 返回评估结果、原因和评估追踪
+   *
+   * @param {string} flag - 功能开关名称
+   * @param {FeatureFlagContext} context - 评估上下文，未提供的字段从当前请求补全
+   * @returns {FeatureFlagEvaluation} 评估结果
+   *
+   * @example
+   * ```typescript
+   * const evaluation = featureFlags.evaluate('new-dashboard');
+   * // { flag: 'new-dashboard', enabled: true, reason: 'rule', rule: 'beta-tenants', trace: [...] }
+   * ```
+   *
+   * @since 1.0.0
+   */
+  evaluate(flag: string, context: FeatureFlagContext = {}): FeatureFlagEvaluation {
+    const config = this.getConfig(context.tenantId);
+    const resolved = this.resolveContext(config, context);
+    const definition = config.flags[flag];
+
+    const evaluation = definition
+      ? evaluateFeatureFlag(flag, definition, resolved)
+      : this.evaluateFeature(config, flag, resolved);
+
+    this.logger.debug('功能开关评估', {
+      flag,
+      enabled: evaluation.enabled,
+      reason: evaluation.reason,
+      trace: evaluation.trace
+    });
+    return evaluation;
+  }
+
+  /**
+   * 检查功能开关是否存在
+   *
+   * @param {string} flag - 功能开关名称
+   * @returns {boolean} flags 或 features 配置段中是否存在该开关
+   *
+   * @since 1.0.0
+   */
+  hasFlag(flag: string): boolean {
+    const config = this.getConfig();
+    return flag in config.flags || typeof (config.features as unknown as Record<string, unknown>)[flag] === 'boolean';
+  }
+
+  /**
+   * 获取所有功能开关定义
+   *
+   * @returns {Record<string, FeatureFlagDefinition>} flags 配置段中的功能开关定义
+   *
+   * @since 1.0.0
+   */
+  listFlags(): Record<string, FeatureFlagDefinition> {
+    return this.getConfig().flags;
+  }
+
+  /**
+   * 获取生效配置
+   *
+   * @private
+   */
+  private getConfig(tenantId?: string): ApplicationMemoryConfig {
+    return this.tenantConfig?.getTenantConfig(tenantId) ?? this.memoryConfig.getAllConfig();
+  }
+
+  /**
+   * 补全评估上下文
+   *
+   * @private
+   */
+  private resolveContext(config: ApplicationMemoryConfig, context: FeatureFlagContext): FeatureFlagContext {
+    return {
+      tenantId: context.tenantId ?? getCurrentTenantId(),
+      userId: context.userId ?? getCurrentUserId(),
+      roles: context.roles ?? [],
+      environment: context.environment ?? config.environment
+    };
+  }
+
+  /**
+   * 按 features 配置段评估
+   *
+   * @private
+   */
+  private evaluateFeature(config: ApplicationMemoryConfig, flag: string, context: FeatureFlagContext): FeatureFlagEvaluation {
+    const value = (config.features as unknown as Record<string, unknown>)[flag];
+    if (typeof value === 'boolean') {
+      return {
+        flag,
+        enabled: value,
+        reason: 'features',
+        context,
+        trace: [`flags 中没有定义，使用 features.${flag}: ${value ? '启用' : '关闭'}`]
+      };
+    }
+
+    return { flag, enabled: false, reason: 'unknown', context, trace: ['功能开关未定义，视为关闭'] };
+  }
+}
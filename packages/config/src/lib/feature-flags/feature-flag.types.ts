@@ -0,0 +1,127 @@
+/**
+ * 百分比灰度维度
+ *
+ * @description 灰度分桶使用的标识：按用户或按租户
+ */
+export type FeatureFlagRolloutKey = 'user' | 'tenant';
+
+/**
+ * 百分比灰度
+ *
+ * @description 按用户或租户ID的哈希值将请求稳定地分配到 0-100 的桶中
+ * 同一标识在同一功能开关下总是落入同一个桶
+ */
+export interface FeatureFlagRollout {
+  /** 启用比例，0-100 */
+  percentage: number;
+  /** 分桶维度，默认为 'user' */
+  by?: FeatureFlagRolloutKey;
+}
+
+/**
+ * 功能开关规则
+ *
+ * @description 按租户、用户、角色和运行环境匹配请求，所有已声明的条件都满足时规则命中
+ * 命中的规则决定开关结果，规则按声明顺序匹配，第一个命中的规则生效
+ */
+export interface FeatureFlagRule {
+  /** 规则名称，用于评估追踪 */
+  name?: string;
+  /** 租户ID列表 */
+  tenants?: string[];
+  /** 用户ID列表 */
+  users?: string[];
+  /** 角色列表，拥有任意一个角色即满足 */
+  roles?: string[];
+  /** 运行环境列表，如 'production' */
+  environments?: string[];
+  /** 命中后是否启用，默认为 true */
+  enabled?: boolean;
+  /** 命中后的百分比灰度 */
+  rollout?: FeatureFlagRollout;
+}
+
+/**
+ * 功能开关定义
+ *
+ * @description 配置源中 flags 配置段下的单个功能开关
+ *
+ * @example
+ * ```yaml
+ * flags:
+ *   new-dashboard:
+ *     enabled: false
+ *     rules:
+ *       - name: beta-tenants
+ *         tenants: [tenant-a]
+ *       - name: staff
+ *         roles: [admin]
+ *         environments: [staging]
+ *     rollout:
+ *       percentage: 20
+ *       by: tenant
+ * ```
+ */
+export interface FeatureFlagDefinition {
+  /** 没有规则命中时是否启用 */
+  enabled: boolean;
+  /** 功能描述 */
+  description?: string;
+  /** 紧急关闭开关，为 true 时无视所有规则强制关闭 */
+  killSwitch?: boolean;
+  /** 定向规则 */
+  rules?: FeatureFlagRule[];
+  /** 没有规则命中时的百分比灰度，仅在 enabled 为 true 时生效 */
+  rollout?: FeatureFlagRollout;
+}
+
+/**
+ * 功能开关评估上下文
+ *
+ * @description 评估功能开关时使用的请求信息
+ * 未提供的字段从当前请求上下文和配置中补全
+ */
+export interface FeatureFlagContext {
+  /** 租户ID */
+  tenantId?: string;
+  /** 用户ID */
+  userId?: string;
+  /** 用户角色 */
+  roles?: string[];
+  /** 运行环境 */
+  environment?: string;
+}
+
+/**
+ * 功能开关评估原因
+ *
+ * @description 决定评估结果的依据
+ * - kill-switch: 紧急关闭
+ * - rule: 定向规则命中
+ * - default: 没有规则命中，使用开关默认值
+ * - features: 没有开关定义，使用 features 配置段中的同名开关
+ * - unknown: 没有找到开关
+ */
+export type FeatureFlagReason = 'kill-switch' | 'rule' | 'default' | 'features' | 'unknown';
+
+/**
+ * 功能开关评估结果
+ *
+ * @description 包含结果、原因以及逐步的评估追踪，用于排查开关行为
+ */
+export interface FeatureFlagEvaluation {
+  /** 功能开关名称 */
+  flag: string;
+  /** 是否启用 */
+  enabled: boolean;
+  /** 评估原因 */
+  reason: FeatureFlagReason;
+  /** 命中的规则名称或序号 */
+  rule?: string;
+  /** 灰度分桶值，0-100 */
+  bucket?: number;
+  /** 评估使用的上下文 */
+  context: FeatureFlagContext;
+  /** 评估追踪 */
+  trace: string[];
+}
@@ -0,0 +1,5 @@
+export * from './feature-flag.types.js';
+export * from './feature-flag.evaluator.js';
+export * from './feature-flag.service.js';
+export * from './feature-flag.guard.js';
+export * from './feature-flag.decorator.js';
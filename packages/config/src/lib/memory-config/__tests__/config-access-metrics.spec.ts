@@ -0,0 +1,136 @@
+import { MemoryConfigService } from '../memory-config.service';
+import { ConfigCompatibilityAdapter } from '../compatibility-adapter';
+import { ConfigMonitorService } from '../config-monitor.service';
+import { HybridConfigService } from '../hybrid-config.service';
+import { ConfigAccessMetrics, OTHER_CONFIG_PATH } from '../config-access-metrics';
+import { ObjectConfigSource } from '../sources';
+import { ConfigPath } from '../config-classes/config-path.types';
+
+describe('Config access metrics', () => {
+  describe('ConfigAccessMetrics', () => {
+    it('should count hits and misses and fill the latency histogram', () => {
+      const metrics = new ConfigAccessMetrics({ buckets: [1, 5] });
+
+      metrics.record('api.port', 0.5, true);
+      metrics.record('api.port', 3, true);
+      metrics.record('api.missing', 10, false);
+
+      expect(metrics.get('api.port')).toMatchObject({
+        hits: 2,
+        misses: 0,
+        latency: { buckets: [1, 5], counts: [1, 2], count: 2, sum: 3.5 }
+      });
+      expect(metrics.get('api.missing')).toMatchObject({ hits: 0, misses: 1 });
+      expect(metrics.getTotals()).toEqual({ accesses: 3, misses: 1, averageLatency: 13.5 / 3, paths: 2 });
+      expect(metrics.list().map(stats => stats.path)).toEqual(['api.port', 'api.missing']);
+    });
+
+    it('should treat paths under a read section as used', () => {
+      const metrics = new ConfigAccessMetrics();
+      metrics.record('database', 0.01, true);
+      metrics.record('api.host', 0.01, false);
+
+      expect(metrics.findUnusedPaths(['api.host', 'api.port', 'database.host', 'databaseUrl'])).toEqual([
+        'api.host',
+        'api.port',
+        'databaseUrl'
+      ]);
+    });
+
+    it('should cap the number of tracked paths', () => {
+      const metrics = new ConfigAccessMetrics({ maxPaths: 2 });
+      ['a', 'b', 'c', 'd', 'a'].forEach(path => metrics.record(path, 0.01, false));
+
+      expect(metrics.list().map(stats => [stats.path, stats.misses])).toEqual([
+        [OTHER_CONFIG_PATH, 2],
+        ['a', 2],
+        ['b', 1]
+      ]);
+    });
+
+    it('should not record anything when disabled', () => {
+      const metrics = new ConfigAccessMetrics({ enabled: false });
+      metrics.record('api.port', 0.01, true);
+
+      expect(metrics.list()).toEqual([]);
+    });
+
+    it('should export the Prometheus text format', () => {
+      const metrics = new ConfigAccessMetrics({ buckets: [1] });
+      metrics.record('api.port', 0.5, true);
+      metrics.record('weird"path', 2, false);
+
+      const text = metrics.toPrometheus(['api.host']);
+
+      expect(text).toContain('# TYPE hl8_config_access_total counter');
+      expect(text).toContain('hl8_config_access_total{path="api.port",result="hit"} 1');
+      expect(text).toContain('hl8_config_access_total{path="weird\\"path",result="miss"} 1');
+      expect(text).toContain('# TYPE hl8_config_access_duration_seconds histogram');
+      expect(text).toContain('hl8_config_access_duration_seconds_bucket{path="api.port",le="0.001"} 1');
+      expect(text).toContain('hl8_config_access_duration_seconds_bucket{path="weird\\"path",le="0.001"} 0');
+      expect(text).toContain('hl8_config_access_duration_seconds_bucket{path="weird\\"path",le="+Inf"} 1');
+      expect(text).toContain('hl8_config_access_duration_seconds_count{path="api.port"} 1');
+      expect(text).toContain('hl8_config_unused{path="api.host"} 1');
+      expect(text.endsWith('\n')).toBe(true);
+    });
+  });
+
+  describe('instrumented get()', () => {
+    let memoryConfig: MemoryConfigService;
+    let adapter: ConfigCompatibilityAdapter;
+    let monitor: ConfigMonitorService;
+
+    beforeEach(async () => {
+      memoryConfig = new MemoryConfigService({ sources: [new ObjectConfigSource({ api: { port: 4000 } }, 'app')] });
+      await memoryConfig.onModuleInit();
+      adapter = new ConfigCompatibilityAdapter(memoryConfig);
+      monitor = new ConfigMonitorService(memoryConfig, adapter, new HybridConfigService(memoryConfig, adapter));
+    });
+
+    afterEach(() => {
+      memoryConfig.onModuleDestroy();
+    });
+
+    it('should record every read through the adapter', () => {
+      adapter.get('api.port');
+      adapter.get('api.port');
+      adapter.get('api.nope' as ConfigPath, undefined);
+
+      expect(monitor.getConfigAccessStats()).toEqual([
+        expect.objectContaining({ path: 'api.port', hits: 2, misses: 0 }),
+        expect.objectContaining({ path: 'api.nope', hits: 0, misses: 1 })
+      ]);
+      expect(monitor.getMonitoringSummary().configAccess).toMatchObject({ accesses: 3, misses: 1 });
+    });
+
+    it('should report config that was never read as dead', () => {
+      adapter.get('api');
+      adapter.get('auth.jwtSecret');
+
+      const deadKeys = monitor.getDeadConfigKeys();
+
+      expect(deadKeys).toContain('database.host');
+      expect(deadKeys).toContain('auth.jwtExpiresIn');
+      expect(deadKeys).not.toContain('api.port');
+      expect(deadKeys).not.toContain('auth.jwtSecret');
+      expect(monitor.exportPrometheusMetrics()).toContain('hl8_config_unused{path="database.host"} 1');
+    });
+
+    it('should include the real access latency in the performance health check', async () => {
+      adapter.get('api.port');
+
+      const health = await monitor.checkConfigHealth();
+
+      expect(health.performanceHealth.configAccess).toMatchObject({ accesses: 1, misses: 0 });
+    });
+
+    it('should flag slow config reads', async () => {
+      memoryConfig.getAccessMetrics().record('api.port', 25, true);
+
+      const health = await monitor.checkConfigHealth();
+
+      expect(health.performanceHealth.isHealthy).toBe(false);
+      expect(health.issues.some(issue => issue.includes('配置读取平均耗时过长'))).toBe(true);
+    });
+  });
+});
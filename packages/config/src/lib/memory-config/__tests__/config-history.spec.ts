@@ -0,0 +1,118 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryConfigService } from '../memory-config.service';
+import { ObjectConfigSource } from '../sources';
+import { computeConfigHash } from '../config-history';
+
+describe('Config history', () => {
+  let data: Record<string, any>;
+  let service: MemoryConfigService;
+
+  beforeEach(async () => {
+    data = { api: { port: 3000 }, auth: { jwtSecret: 'first-secret-value-with-32-characters' } };
+    service = new MemoryConfigService({ sources: [new ObjectConfigSource(data, 'app')] });
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  it('should record a snapshot for the initial load', () => {
+    const [snapshot] = service.getHistory();
+
+    expect(snapshot).toMatchObject({ version: 1, trigger: 'initial', sources: ['defaults', 'defaults:development', 'app'], changes: [] });
+    expect(snapshot.hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(Object.isFrozen(snapshot)).toBe(true);
+    expect(service.getConfigStatus()).toMatchObject({ snapshotVersion: 1, configHash: snapshot.hash });
+  });
+
+  it('should record the diff of every reload with sensitive values redacted', async () => {
+    data.api.port = 4000;
+    data.auth.jwtSecret = 'second-secret-value-with-32-characters';
+    await service.reloadConfig();
+
+    const [latest, initial] = service.getHistory();
+    expect(latest).toMatchObject({ version: 2, trigger: 'reload' });
+    expect(latest.hash).not.toBe(initial.hash);
+    expect(latest.changes).toEqual([
+      { path: 'api.port', oldValue: 3000, newValue: 4000 },
+      { path: 'auth.jwtSecret', oldValue: '******', newValue: '******' }
+    ]);
+    expect(JSON.stringify(latest)).not.toContain('second-secret');
+  });
+
+  it('should keep the same hash when the content does not change', async () => {
+    await service.reloadConfig();
+
+    const [latest, initial] = service.getHistory();
+    expect(latest.hash).toBe(initial.hash);
+    expect(latest.changes).toEqual([]);
+  });
+
+  it('should roll back to a previous snapshot', async () => {
+    data.api.port = 4000;
+    await service.reloadConfig();
+
+    const snapshot = await service.rollbackTo(1);
+
+    expect(service.getApiConfig().port).toBe(3000);
+    expect(snapshot).toMatchObject({ version: 3, trigger: 'rollback', rolledBackTo: 1 });
+    expect(snapshot.hash).toBe(service.getSnapshot(1)?.hash);
+    expect(snapshot.changes).toEqual([{ path: 'api.port', oldValue: 4000, newValue: 3000 }]);
+  });
+
+  it('should reject unknown versions', async () => {
+    await expect(service.rollbackTo(99)).rejects.toThrow('不存在');
+  });
+
+  it('should keep only the configured number of snapshots', async () => {
+    const limited = new MemoryConfigService({ sources: [new ObjectConfigSource(data, 'app')], history: { maxSnapshots: 2 } });
+    await limited.onModuleInit();
+    await limited.reloadConfig();
+    await limited.reloadConfig();
+
+    expect(limited.getHistory().map(snapshot => snapshot.version)).toEqual([3, 2]);
+    await expect(limited.rollbackTo(1)).rejects.toThrow('不存在');
+    limited.onModuleDestroy();
+  });
+
+  it('should hash independently of key order', () => {
+    expect(computeConfigHash({ a: 1, b: { c: 2, d: 3 } })).toBe(computeConfigHash({ b: { d: 3, c: 2 }, a: 1 }));
+    expect(computeConfigHash({ a: 1, loadTime: 'x' })).toBe(computeConfigHash({ a: 1, loadTime: 'y' }));
+  });
+
+  describe('persistence', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'hl8-history-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should persist redacted snapshots and restore them on restart', async () => {
+      const file = join(dir, 'history', 'config.json');
+      const first = new MemoryConfigService({ sources: [new ObjectConfigSource(data, 'app')], history: { file } });
+      await first.onModuleInit();
+      data.api.port = 4000;
+      await first.reloadConfig();
+      first.onModuleDestroy();
+
+      const stored = readFileSync(file, 'utf-8');
+      expect(stored).not.toContain('first-secret');
+      expect(JSON.parse(stored).snapshots).toHaveLength(2);
+
+      const second = new MemoryConfigService({ sources: [new ObjectConfigSource(data, 'app')], history: { file } });
+      await second.onModuleInit();
+
+      expect(second.getHistory().map(snapshot => snapshot.version)).toEqual([3, 2, 1]);
+      expect(second.getSnapshot(1)?.timestamp).toBeInstanceOf(Date);
+      await expect(second.rollbackTo(1)).rejects.toThrow('历史文件');
+      second.onModuleDestroy();
+    });
+  });
+});
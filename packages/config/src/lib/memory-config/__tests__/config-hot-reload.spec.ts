@@ -0,0 +1,164 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { firstValueFrom, take, timeout } from 'rxjs';
+import { MemoryConfigService } from '../memory-config.service';
+import { diffConfig } from '../config-change';
+import { EnvConfigSource, YamlFileConfigSource } from '../sources';
+import { ConfigValidationError } from '../../validation/config-validation-error';
+
+describe('Config hot reload', () => {
+  describe('diffConfig', () => {
+    it('should list changed, added and removed leaf keys', () => {
+      const changes = diffConfig(
+        { api: { port: 3000, host: 'a' }, redis: { db: 0 } },
+        { api: { port: 8080, host: 'a' }, mongodb: { port: 27017 } }
+      );
+
+      expect(changes).toEqual([
+        { path: 'api.port', oldValue: 3000, newValue: 8080 },
+        { path: 'mongodb.port', oldValue: undefined, newValue: 27017 },
+        { path: 'redis.db', oldValue: 0, newValue: undefined }
+      ]);
+    });
+  });
+
+  describe('reloadConfig', () => {
+    let env: Record<string, string>;
+    let service: MemoryConfigService;
+
+    beforeEach(async () => {
+      env = { API_PORT: '3000', LOG_LEVEL: 'info' };
+      service = new MemoryConfigService({ sources: [new EnvConfigSource(env)] });
+      await service.onModuleInit();
+    });
+
+    afterEach(() => {
+      service.onModuleDestroy();
+    });
+
+    it('should emit a change event with the computed diff', async () => {
+      const event = firstValueFrom(service.changes$);
+
+      env.API_PORT = '8080';
+      await service.reloadConfig();
+
+      const { changes, previous, current } = await event;
+      expect(changes).toEqual([{ path: 'api.port', oldValue: 3000, newValue: 8080 }]);
+      expect(previous.api.port).toBe(3000);
+      expect(current.api.port).toBe(8080);
+    });
+
+    it('should not emit when nothing changed', async () => {
+      const handler = jest.fn();
+      const subscription = service.changes$.subscribe(handler);
+
+      await service.reloadConfig();
+
+      expect(handler).not.toHaveBeenCalled();
+      subscription.unsubscribe();
+    });
+
+    it('should notify path subscribers, including section subscribers', async () => {
+      const levelHandler = jest.fn();
+      const sectionHandler = jest.fn();
+      const portHandler = jest.fn();
+      service.onChange('logging.level', levelHandler);
+      service.onChange('logging', sectionHandler);
+      service.onChange('api.port', portHandler);
+
+      env.LOG_LEVEL = 'debug';
+      await service.reloadConfig();
+
+      expect(levelHandler).toHaveBeenCalledWith(expect.objectContaining({
+        path: 'logging.level',
+        oldValue: 'info',
+        newValue: 'debug'
+      }));
+      expect(sectionHandler.mock.calls[0][0].newValue.level).toBe('debug');
+      expect(portHandler).not.toHaveBeenCalled();
+    });
+
+    it('should stop notifying after unsubscribe and isolate failing handlers', async () => {
+      const failing = jest.fn(() => {
+        throw new Error('boom');
+      });
+      const removed = jest.fn();
+      const healthy = jest.fn();
+      service.onChange('api.port', failing);
+      const dispose = service.onChange('api.port', removed);
+      service.onChange('api.port', healthy);
+      dispose();
+
+      env.API_PORT = '4000';
+      await service.reloadConfig();
+
+      expect(failing).toHaveBeenCalledTimes(1);
+      expect(removed).not.toHaveBeenCalled();
+      expect(healthy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject an invalid reload atomically', async () => {
+      const handler = jest.fn();
+      service.changes$.subscribe(handler);
+
+      env.API_PORT = 'abc';
+      env.LOG_LEVEL = 'debug';
+
+      await expect(service.reloadConfig()).rejects.toThrow(ConfigValidationError);
+      expect(service.getApiConfig().port).toBe(3000);
+      expect(service.getLoggingConfig().level).toBe('info');
+      expect(handler).not.toHaveBeenCalled();
+
+      env.API_PORT = '5000';
+      await expect(service.reloadConfig()).resolves.toBeUndefined();
+      expect(service.getApiConfig().port).toBe(5000);
+    });
+  });
+
+  describe('watch mode', () => {
+    let dir: string;
+    let service: MemoryConfigService;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'hl8-config-watch-'));
+    });
+
+    afterEach(() => {
+      service.onModuleDestroy();
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should reload when a watched file changes', async () => {
+      const file = join(dir, 'app.yaml');
+      writeFileSync(file, 'logging:\n  level: info\n');
+      service = new MemoryConfigService({
+        sources: [new YamlFileConfigSource(file)],
+        watch: { interval: 20, debounce: 10 }
+      });
+      await service.onModuleInit();
+
+      const change = firstValueFrom(service.observe('logging.level').pipe(take(1), timeout(5000)));
+      // 确保修改时间变化能被轮询检测到
+      await new Promise(resolve => setTimeout(resolve, 50));
+      writeFileSync(file, 'logging:\n  level: warn\n');
+
+      await expect(change).resolves.toMatchObject({ oldValue: 'info', newValue: 'warn' });
+      expect(service.getLoggingConfig().level).toBe('warn');
+    });
+
+    it('should reload when watched environment variables change', async () => {
+      const env: Record<string, string> = { REDIS_DB: '1' };
+      service = new MemoryConfigService({
+        sources: [new EnvConfigSource(env)],
+        watch: { interval: 20, debounce: 10 }
+      });
+      await service.onModuleInit();
+
+      const change = firstValueFrom(service.observe('redis.db').pipe(take(1), timeout(5000)));
+      env.REDIS_DB = '2';
+
+      await expect(change).resolves.toMatchObject({ oldValue: 1, newValue: 2 });
+    });
+  });
+});
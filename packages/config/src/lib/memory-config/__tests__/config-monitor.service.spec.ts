@@ -3,6 +3,7 @@ import { ConfigMonitorService } from '../config-monitor.service';
 import { MemoryConfigService } from '../memory-config.service';
 import { ConfigCompatibilityAdapter } from '../compatibility-adapter';
 import { HybridConfigService } from '../hybrid-config.service';
+import { CONFIG_MODULE_OPTIONS } from '../../constants';
 
 describe('ConfigMonitorService', () => {
   let service: ConfigMonitorService;
@@ -15,6 +16,8 @@ describe('ConfigMonitorService', () => {
         MemoryConfigService,
         ConfigCompatibilityAdapter,
         HybridConfigService,
+        // 监控服务需要能够观察到无效配置，因此仅记录验证警告
+        { provide: CONFIG_MODULE_OPTIONS, useValue: { validationMode: 'warn' } },
       ],
     }).compile();
 
@@ -0,0 +1,160 @@
+import { Injectable, Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { IsInt, IsString, Min } from 'class-validator';
+import { MemoryConfigService } from '../memory-config.service';
+import { ConfigMonitorService } from '../config-monitor.service';
+import { ConfigCompatibilityAdapter } from '../compatibility-adapter';
+import { InjectConfig } from '../config-namespace';
+import { ObjectConfigSource } from '../sources';
+import { Sensitive } from '../config-classes/sensitive.decorator';
+import { ConfigModule } from '../../config.module';
+import { ConfigService } from '../../config.service';
+import { ConfigValidationError } from '../../validation/config-validation-error';
+
+class PaymentsConfigSchema {
+  @IsString()
+  provider = 'stripe';
+
+  @IsInt()
+  @Min(1)
+  retries = 3;
+
+  @IsString()
+  @Sensitive()
+  apiKey = '';
+}
+
+@Injectable()
+class PaymentsService {
+  constructor(@InjectConfig(PaymentsConfigSchema) readonly config: PaymentsConfigSchema) {}
+}
+
+@Module({
+  imports: [ConfigModule.forFeature('payments', PaymentsConfigSchema)],
+  providers: [PaymentsService],
+  exports: [PaymentsService]
+})
+class PaymentsModule {}
+
+describe('Config namespaces', () => {
+  describe('MemoryConfigService', () => {
+    let data: Record<string, unknown>;
+    let service: MemoryConfigService;
+    let payments: PaymentsConfigSchema;
+
+    beforeEach(async () => {
+      data = { payments: { provider: 'adyen', apiKey: 'sk_live_123' } };
+      service = new MemoryConfigService({ sources: [new ObjectConfigSource(data, 'app')] });
+      payments = service.registerNamespace('payments', PaymentsConfigSchema);
+      await service.onModuleInit();
+    });
+
+    afterEach(() => {
+      service.onModuleDestroy();
+    });
+
+    it('should build the namespace from the config sources and schema defaults', () => {
+      expect(payments.provider).toBe('adyen');
+      expect(payments.retries).toBe(3);
+      expect(payments).toBeInstanceOf(PaymentsConfigSchema);
+      expect(service.getNamespaceConfig('payments')).toBeInstanceOf(PaymentsConfigSchema);
+      expect(service.getConfigSource('payments.provider')).toBe('app');
+      expect(service.getConfigSource('payments.retries')).toBe('defaults');
+    });
+
+    it('should list the namespace in the config keys and redact sensitive values', () => {
+      const config = service.getAllConfig();
+
+      expect(config.getConfigKeys()).toContain('payments');
+      expect(service.getConfigStatus().configKeys).toContain('payments');
+      expect(config.toSafeJSON()['payments']).toEqual({ provider: 'adyen', retries: 3, apiKey: '******' });
+    });
+
+    it('should reflect reloaded values through the injected instance', async () => {
+      data['payments'] = { provider: 'paypal' };
+      await service.reloadConfig();
+
+      expect(payments.provider).toBe('paypal');
+      expect(() => {
+        (payments as { provider: string }).provider = 'other';
+      }).toThrow(TypeError);
+    });
+
+    it('should reject invalid namespace registrations', () => {
+      expect(() => service.registerNamespace('api', PaymentsConfigSchema)).toThrow('与内置配置重名');
+      expect(() => service.registerNamespace('payments', class Other {})).toThrow('已被 PaymentsConfigSchema 注册');
+      expect(() => service.registerNamespace('billing', PaymentsConfigSchema)).toThrow('配置已加载');
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject invalid namespace values with prefixed paths and without leaking secrets', async () => {
+      const service = new MemoryConfigService({
+        sources: [new ObjectConfigSource({ payments: { retries: 0, apiKey: 42, extra: true } }, 'app')]
+      });
+      service.registerNamespace('payments', PaymentsConfigSchema);
+
+      const error: ConfigValidationError = await service.onModuleInit().then(
+        () => {
+          throw new Error('expected validation to fail');
+        },
+        (reason: ConfigValidationError) => reason
+      );
+
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect(error.message).toContain('payments.retries');
+      expect(error.message).toContain('payments.extra');
+      expect(error.message).toContain('payments.apiKey');
+      expect(error.message).not.toContain('42');
+    });
+
+    it('should still reject unregistered top-level keys', async () => {
+      const service = new MemoryConfigService({
+        sources: [new ObjectConfigSource({ payments: { provider: 'adyen' } }, 'app')]
+      });
+
+      await expect(service.onModuleInit()).rejects.toThrow(/payments/);
+    });
+
+    it('should include namespace problems in health checks', async () => {
+      const service = new MemoryConfigService({
+        sources: [new ObjectConfigSource({ payments: { retries: 0 } }, 'app')],
+        validationMode: 'warn'
+      });
+      service.registerNamespace('payments', PaymentsConfigSchema);
+      await service.onModuleInit();
+
+      const monitor = new ConfigMonitorService(service, new ConfigCompatibilityAdapter(service));
+      const health = await monitor.checkConfigHealth();
+
+      expect(health.issues).toEqual(expect.arrayContaining([expect.stringContaining('payments.retries')]));
+      service.onModuleDestroy();
+    });
+  });
+
+  describe('ConfigModule.forFeature()', () => {
+    it('should inject the namespace config into feature modules', async () => {
+      @Module({
+        imports: [
+          ConfigModule.forRoot({
+            sources: [new ObjectConfigSource({ payments: { provider: 'adyen' } }, 'app')]
+          }),
+          PaymentsModule
+        ]
+      })
+      class AppModule {}
+
+      const app = await NestFactory.createApplicationContext(AppModule, { logger: false, abortOnError: false });
+      try {
+        const payments = app.get(PaymentsService);
+        const configService = app.get(ConfigService);
+
+        expect(payments.config.provider).toBe('adyen');
+        expect(configService.getNamespaceConfig<PaymentsConfigSchema>('payments').retries).toBe(3);
+        expect((await configService.validateConfig()).isValid).toBe(true);
+      } finally {
+        await app.close();
+      }
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '../../config.service';
+import { ConfigCompatibilityAdapter } from '../compatibility-adapter';
+import { ConfigPath, ConfigPathValue } from '../config-classes/config-path.types';
+import { HybridConfigService } from '../hybrid-config.service';
+import { MemoryConfigService } from '../memory-config.service';
+import { ConfigValidationService } from '../../validation/config-validation.service';
+import { DatabaseMemoryConfig } from '../config-classes/application-memory-config';
+
+/**
+ * 编译期类型断言
+ *
+ * @description 仅在类型完全相同时才能通过编译
+ * Jest 转译时不做类型检查，本文件由 test 目标依赖的 type-tests 目标（tsconfig.type-tests.json）编译检查
+ */
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends (<T>() => T extends B ? 1 : 2) ? true : false;
+const assertType = <T extends true>(): T | undefined => undefined;
+
+describe('Typed config paths', () => {
+  let configService: ConfigService;
+  let adapter: ConfigCompatibilityAdapter;
+  let hybridConfig: HybridConfigService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ConfigService,
+        MemoryConfigService,
+        ConfigCompatibilityAdapter,
+        HybridConfigService,
+        ConfigValidationService
+      ]
+    }).compile();
+
+    await module.get(MemoryConfigService).onModuleInit();
+    configService = module.get(ConfigService);
+    adapter = module.get(ConfigCompatibilityAdapter);
+    hybridConfig = module.get(HybridConfigService);
+  });
+
+  it('should infer value types from paths', () => {
+    assertType<Equals<ConfigPathValue<'database.poolSize'>, number>>();
+    assertType<Equals<ConfigPathValue<'features.enableCors'>, boolean>>();
+    assertType<Equals<ConfigPathValue<'database'>, DatabaseMemoryConfig>>();
+
+    const poolSize: number = configService.get('database.poolSize');
+    const host: string = adapter.get('redis.host');
+    const port: number = hybridConfig.get('api.port');
+
+    expect(typeof poolSize).toBe('number');
+    expect(typeof host).toBe('string');
+    expect(typeof port).toBe('number');
+  });
+
+  it('should exclude accessor methods and reject unknown paths', () => {
+    const section: ConfigPath = 'logging';
+    // @ts-expect-error 拼写错误的路径无法通过编译
+    const typo: ConfigPath = 'api.prot';
+    // @ts-expect-error 访问方法不是配置路径
+    const method: ConfigPath = 'getApiConfig';
+
+    expect(section).toBe('logging');
+    expect(typo).toBe('api.prot');
+    expect(method).toBe('getApiConfig');
+  });
+
+  it('should still honour default values', () => {
+    const memoryConfig = adapter.getAllConfig() as unknown as { redis: Record<string, unknown> };
+    const redis = memoryConfig.redis;
+    const original = redis.password;
+    redis.password = undefined;
+
+    try {
+      expect(configService.get('redis.password', 'fallback')).toBe('fallback');
+      expect(adapter.get('redis.password', 'fallback')).toBe('fallback');
+      expect(hybridConfig.get('redis.password', 'fallback')).toBe('fallback');
+    } finally {
+      redis.password = original;
+    }
+  });
+});
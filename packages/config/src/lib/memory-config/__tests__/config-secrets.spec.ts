@@ -0,0 +1,175 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryConfigService } from '../memory-config.service';
+import { EnvConfigSource } from '../sources';
+import {
+  FileSecretProvider,
+  SecretResolver,
+  VaultFileSecretProvider,
+  decryptConfigValue,
+  encryptConfigValue,
+  findPlaceholderSecrets,
+  generateMasterKey,
+  isEncryptedValue
+} from '../secrets';
+import { ConfigValidationError } from '../../validation/config-validation-error';
+
+const PRODUCTION_SECRETS = {
+  DB_PASS: 'prod-db-password',
+  MONGO_PASS: 'prod-mongo-password',
+  JWT_SECRET: 'prod-jwt-secret',
+  SESSION_SECRET: 'prod-session-secret'
+};
+
+describe('Config secrets', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hl8-secrets-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('encrypted values', () => {
+    it('should round-trip a value with the master key', () => {
+      const masterKey = generateMasterKey();
+      const encrypted = encryptConfigValue('s3cr3t', masterKey);
+
+      expect(isEncryptedValue(encrypted)).toBe(true);
+      expect(encrypted).not.toContain('s3cr3t');
+      expect(decryptConfigValue(encrypted, masterKey)).toBe('s3cr3t');
+    });
+
+    it('should fail to decrypt with a different key', () => {
+      const encrypted = encryptConfigValue('s3cr3t', generateMasterKey());
+
+      expect(() => decryptConfigValue(encrypted, generateMasterKey())).toThrow('解密失败');
+    });
+
+    it('should reject a master key of the wrong length', () => {
+      expect(() => encryptConfigValue('s3cr3t', 'short')).toThrow('主密钥');
+    });
+
+    it('should decrypt enc: values loaded from the environment', async () => {
+      const masterKey = generateMasterKey();
+      const service = new MemoryConfigService({
+        sources: [new EnvConfigSource({ DB_PASS: encryptConfigValue('db-password', masterKey) })],
+        secrets: { masterKey }
+      });
+
+      await service.onModuleInit();
+
+      expect(service.getDatabaseConfig().password).toBe('db-password');
+    });
+
+    it('should refuse to load enc: values without a master key', async () => {
+      const service = new MemoryConfigService({
+        sources: [new EnvConfigSource({ DB_PASS: encryptConfigValue('db-password', generateMasterKey()) })]
+      });
+
+      await expect(service.onModuleInit()).rejects.toThrow('CONFIG_MASTER_KEY');
+    });
+  });
+
+  describe('*_FILE environment variables', () => {
+    it('should read the value from the referenced file', () => {
+      const file = join(dir, 'jwt_secret');
+      writeFileSync(file, 'file-jwt-secret\n');
+
+      const data = new EnvConfigSource({ JWT_SECRET_FILE: file }).load();
+
+      expect(data).toEqual({ auth: { jwtSecret: 'file-jwt-secret' } });
+    });
+
+    it('should prefer the variable itself over the file', () => {
+      const file = join(dir, 'jwt_secret');
+      writeFileSync(file, 'file-jwt-secret');
+
+      const data = new EnvConfigSource({ JWT_SECRET: 'env-jwt-secret', JWT_SECRET_FILE: file }).load();
+
+      expect(data).toEqual({ auth: { jwtSecret: 'env-jwt-secret' } });
+    });
+
+    it('should fail when the referenced file is missing', () => {
+      const source = new EnvConfigSource({ JWT_SECRET_FILE: join(dir, 'missing') });
+
+      expect(() => source.load()).toThrow('JWT_SECRET_FILE');
+    });
+  });
+
+  describe('secret providers', () => {
+    it('should resolve references from a secrets directory', async () => {
+      writeFileSync(join(dir, 'db_password'), 'from-file\n');
+      const resolver = new SecretResolver({ providers: [new FileSecretProvider(dir)] });
+
+      const result = await resolver.resolve({ database: { password: 'secret:file:db_password', host: 'db' } });
+
+      expect(result.config).toEqual({ database: { password: 'from-file', host: 'db' } });
+      expect(result.resolvedPaths).toEqual(['database.password']);
+    });
+
+    it('should not read outside the secrets directory', async () => {
+      const resolver = new SecretResolver({ providers: [new FileSecretProvider(dir)] });
+
+      await expect(resolver.resolve({ auth: { jwtSecret: 'secret:file:../passwd' } })).rejects.toThrow('超出密钥目录');
+    });
+
+    it('should resolve references from a Vault KV export', async () => {
+      const file = join(dir, 'vault.json');
+      writeFileSync(file, JSON.stringify({ 'platform/auth': { data: { jwtSecret: 'from-vault' } } }));
+      const resolver = new SecretResolver({ providers: [new VaultFileSecretProvider(file)] });
+
+      const result = await resolver.resolve({ auth: { jwtSecret: 'secret:vault:platform/auth#jwtSecret' } });
+
+      expect(result.config).toEqual({ auth: { jwtSecret: 'from-vault' } });
+    });
+
+    it('should fail on unknown providers and missing secrets', async () => {
+      const resolver = new SecretResolver({ providers: [new FileSecretProvider(dir)] });
+
+      await expect(resolver.resolve({ auth: { jwtSecret: 'secret:aws:jwt' } })).rejects.toThrow('未注册的密钥提供者');
+      await expect(resolver.resolve({ auth: { jwtSecret: 'secret:file:missing' } })).rejects.toThrow('密钥不存在');
+    });
+  });
+
+  describe('production placeholder guard', () => {
+    it('should list secrets that still use placeholder defaults', () => {
+      expect(findPlaceholderSecrets({
+        auth: { jwtSecret: 'your-super-secret-jwt-key', sessionSecret: 'changed' },
+        redis: { password: '' }
+      })).toEqual(['auth.jwtSecret']);
+    });
+
+    it('should refuse to boot in production with placeholder secrets', async () => {
+      const service = new MemoryConfigService({
+        sources: [new EnvConfigSource({ NODE_ENV: 'production', JWT_SECRET: 'prod-jwt-secret' })],
+        validationMode: 'off'
+      });
+
+      const error = await service.onModuleInit().catch(e => e);
+
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect(error.message).toContain('auth.sessionSecret');
+      expect(error.message).toContain('database.password');
+      expect(error.message).not.toContain('auth.jwtSecret');
+    });
+
+    it('should boot in production once all secrets are set', async () => {
+      const service = new MemoryConfigService({
+        sources: [new EnvConfigSource({ NODE_ENV: 'production', ...PRODUCTION_SECRETS })]
+      });
+
+      await expect(service.onModuleInit()).resolves.toBeUndefined();
+      expect(service.getAuthConfig().jwtSecret).toBe('prod-jwt-secret');
+    });
+
+    it('should allow placeholder secrets outside production', async () => {
+      const service = new MemoryConfigService({ sources: [new EnvConfigSource({ NODE_ENV: 'development' })] });
+
+      await expect(service.onModuleInit()).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { firstValueFrom, take, toArray } from 'rxjs';
+import { MemoryConfigService } from '../memory-config.service';
+import { EnvConfigSource } from '../sources';
+import { getSensitiveConfigPaths } from '../config-classes/application-memory-config';
+import { REDACTED_VALUE, Sensitive, getSensitiveProperties, toSafeJSON } from '../config-classes/sensitive.decorator';
+import { ConfigService } from '../../config.service';
+import { ConfigCompatibilityAdapter } from '../compatibility-adapter';
+import { ConfigValidationService } from '../../validation/config-validation.service';
+
+describe('Sensitive config values', () => {
+  let service: MemoryConfigService;
+
+  beforeEach(async () => {
+    service = new MemoryConfigService({
+      sources: [new EnvConfigSource({ JWT_SECRET: 'jwt-secret-value', DB_PASS: 'db-password-value' })]
+    });
+    await service.onModuleInit();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+  });
+
+  it('should collect @Sensitive() properties', () => {
+    class SampleConfig {
+      @Sensitive()
+      readonly token = 'abc';
+      readonly name = 'sample';
+    }
+
+    expect(getSensitiveProperties(new SampleConfig())).toEqual(['token']);
+    expect(toSafeJSON(new SampleConfig())).toEqual({ token: REDACTED_VALUE, name: 'sample' });
+  });
+
+  it('should list the sensitive config paths', () => {
+    expect(getSensitiveConfigPaths().sort()).toEqual([
+      'auth.jwtSecret',
+      'auth.sessionSecret',
+      'database.password',
+      'logging.debugSecret',
+      'mongodb.password',
+      'redis.password'
+    ]);
+  });
+
+  it('should redact secrets in toSafeJSON() and JSON serialization', () => {
+    const config = service.getAllConfig();
+    const safe = config.toSafeJSON() as { auth: Record<string, unknown>; database: Record<string, unknown> };
+
+    expect(safe.auth['jwtSecret']).toBe(REDACTED_VALUE);
+    expect(safe.auth['jwtExpiresIn']).toBe('24h');
+    expect(safe.database['password']).toBe(REDACTED_VALUE);
+    expect(safe.database['host']).toBe('localhost');
+
+    const json = JSON.stringify(config);
+    expect(json).not.toContain('jwt-secret-value');
+    expect(json).not.toContain('db-password-value');
+  });
+
+  it('should keep unset secrets visible for diagnostics', () => {
+    const safe = service.getAllConfig().toSafeJSON() as { redis: Record<string, unknown> };
+
+    expect(safe.redis['password']).toBe('');
+  });
+
+  it('should return raw values from getSecret() and emit an audit event', async () => {
+    const events = firstValueFrom(service.secretAccess$.pipe(take(1), toArray()));
+
+    expect(service.getSecret('auth.jwtSecret', 'JwtStrategy')).toBe('jwt-secret-value');
+
+    const [event] = await events;
+    expect(event).toMatchObject({ path: 'auth.jwtSecret', accessor: 'JwtStrategy' });
+    expect(event.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should reject getSecret() for non-sensitive paths', () => {
+    expect(() => service.getSecret('api.port')).toThrow('不是敏感配置');
+  });
+
+  it('should redact secrets in ConfigService.getAll()', () => {
+    const configService = new ConfigService(
+      service,
+      new ConfigCompatibilityAdapter(service),
+      new ConfigValidationService()
+    );
+
+    const all = configService.getAll() as { auth: Record<string, unknown> };
+
+    expect(all.auth['jwtSecret']).toBe(REDACTED_VALUE);
+    expect(configService.getSecret('auth.jwtSecret')).toBe('jwt-secret-value');
+  });
+
+  it('should audit sensitive leaf paths read through ConfigService.get()', async () => {
+    const configService = new ConfigService(
+      service,
+      new ConfigCompatibilityAdapter(service),
+      new ConfigValidationService()
+    );
+    const events = firstValueFrom(service.secretAccess$.pipe(take(1), toArray()));
+
+    expect(configService.get('auth.jwtSecret')).toBe('jwt-secret-value');
+    expect(configService.get('redis.password', 'fallback')).toBe('');
+
+    const [event] = await events;
+    expect(event).toMatchObject({ path: 'auth.jwtSecret', accessor: 'ConfigService.get' });
+  });
+
+  it('should redact secrets in config sections read through ConfigService', () => {
+    const configService = new ConfigService(
+      service,
+      new ConfigCompatibilityAdapter(service),
+      new ConfigValidationService()
+    );
+
+    expect(configService.get('auth').jwtSecret).toBe(REDACTED_VALUE);
+    expect(configService.get('auth').jwtExpiresIn).toBe('24h');
+    expect(configService.getAuthConfig().jwtSecret).toBe(REDACTED_VALUE);
+    expect(configService.getDatabaseConfig()).toMatchObject({ password: REDACTED_VALUE, host: 'localhost' });
+    expect(service.getAuthConfig().jwtSecret).toBe('jwt-secret-value');
+  });
+
+  it('should not leak secrets into validation reports', () => {
+    const error = new ConfigValidationService().createValidationException([
+      { property: 'auth.jwtSecret', value: 'leaked-secret', constraints: { isString: 'jwtSecret must be a string' } }
+    ]);
+
+    expect(error.message).toContain('auth.jwtSecret');
+    expect(error.message).toContain(REDACTED_VALUE);
+    expect(error.message).not.toContain('leaked-secret');
+  });
+});
@@ -0,0 +1,199 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryConfigService } from '../memory-config.service';
+import { ConfigModule } from '../../config.module';
+import { LoggingMemoryConfig } from '../config-classes/application-memory-config';
+import {
+  DefaultsConfigSource,
+  DotenvConfigSource,
+  EnvConfigSource,
+  JsonFileConfigSource,
+  ObjectConfigSource,
+  YamlFileConfigSource,
+  findEnvMapping,
+  findEnvMappingsByVariable,
+  loadLayeredConfig,
+  readEnvConfigValue
+} from '../sources';
+
+describe('Config sources', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hl8-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('EnvConfigSource', () => {
+    it('should map and coerce environment variables', () => {
+      const source = new EnvConfigSource({
+        API_PORT: '8080',
+        DB_SSL_MODE: 'true',
+        NODE_ENV: 'production',
+        DB_HOST: ''
+      });
+
+      expect(source.load()).toEqual({
+        environment: 'production',
+        api: { port: 8080, production: true, envName: 'production' },
+        database: { sslMode: true }
+      });
+    });
+
+    it('should wire LOG_MAX_FILES and LOG_MAX_SIZE into the logger file rotation', () => {
+      const source = new EnvConfigSource({ LOG_DESTINATION: 'file', LOG_MAX_FILES: '3', LOG_MAX_SIZE: '20m' });
+      const logging = new LoggingMemoryConfig((source.load() as { logging: object }).logging);
+
+      expect(logging.toLoggerConfig('/var/log/api.log')).toEqual({
+        level: 'info',
+        destinations: [{ type: 'file', path: '/var/log/api.log', rotation: { maxSize: '20m', maxFiles: 3 } }]
+      });
+      expect(new LoggingMemoryConfig({}).toLoggerConfig().destinations).toEqual([{ type: 'console', format: 'json' }]);
+    });
+
+    it('should accept a comma separated LOG_DESTINATION list', () => {
+      const source = new EnvConfigSource({ LOG_DESTINATION: 'console, file', LOG_FORMAT: 'pretty' });
+      const logging = new LoggingMemoryConfig((source.load() as { logging: object }).logging);
+
+      expect(logging.destination).toEqual(['console', 'file']);
+      expect(logging.toLoggerConfig().destinations).toEqual([
+        { type: 'console', format: 'pretty' },
+        { type: 'file', path: './logs/app.log', rotation: { maxSize: '10m', maxFiles: 5 } }
+      ]);
+    });
+  });
+
+  describe('env mapping lookups', () => {
+    it('should find mappings by config path and by variable name', () => {
+      expect(findEnvMapping('api.port')).toMatchObject({ env: 'API_PORT', type: 'number', default: 3000 });
+      expect(findEnvMapping('api.unknown')).toBeUndefined();
+      expect(findEnvMappingsByVariable('NODE_ENV').map(mapping => mapping.path)).toEqual([
+        'environment',
+        'api.production',
+        'api.envName'
+      ]);
+    });
+
+    it('should read a single path or a whole section from the environment', () => {
+      const secretFile = join(dir, 'redis_password');
+      writeFileSync(secretFile, 's3cret\n');
+      const env = { REDIS_HOST: 'redis.internal', REDIS_DB: '3', REDIS_PASSWORD_FILE: secretFile, ENABLE_CORS: '1' };
+
+      expect(readEnvConfigValue(env, 'redis.db')).toBe(3);
+      expect(readEnvConfigValue(env, 'features.enableCors')).toBe(true);
+      expect(readEnvConfigValue(env, 'redis')).toEqual({ host: 'redis.internal', db: 3, password: 's3cret' });
+      expect(readEnvConfigValue(env, 'redis.port')).toBeUndefined();
+      expect(readEnvConfigValue(env, 'unknown.path')).toBeUndefined();
+    });
+  });
+
+  describe('DotenvConfigSource', () => {
+    it('should parse a .env file without touching process.env', async () => {
+      const file = join(dir, '.env');
+      writeFileSync(file, 'REDIS_HOST=redis.internal\nREDIS_PORT=6380\n');
+      delete process.env.REDIS_HOST;
+
+      const data = await new DotenvConfigSource(file).load();
+
+      expect(data).toEqual({ redis: { host: 'redis.internal', port: 6380 } });
+      expect(process.env.REDIS_HOST).toBeUndefined();
+    });
+
+    it('should skip a missing optional file', async () => {
+      const source = new DotenvConfigSource(join(dir, '.env.local'), { optional: true });
+
+      await expect(source.load()).resolves.toEqual({});
+    });
+
+    it('should fail on a missing required file', async () => {
+      const source = new DotenvConfigSource(join(dir, '.env.local'));
+
+      await expect(source.load()).rejects.toThrow('配置文件不存在');
+    });
+  });
+
+  describe('structured file sources', () => {
+    it('should read nested config from JSON', async () => {
+      const file = join(dir, 'app.json');
+      writeFileSync(file, JSON.stringify({ api: { port: 4000 } }));
+
+      await expect(new JsonFileConfigSource(file).load()).resolves.toEqual({ api: { port: 4000 } });
+    });
+
+    it('should read nested config from YAML', async () => {
+      const file = join(dir, 'app.yaml');
+      writeFileSync(file, 'features:\n  enableSwagger: true\nlogging:\n  level: debug\n');
+
+      await expect(new YamlFileConfigSource(file).load()).resolves.toEqual({
+        features: { enableSwagger: true },
+        logging: { level: 'debug' }
+      });
+    });
+
+    it('should reject non-object file content', async () => {
+      const file = join(dir, 'app.json');
+      writeFileSync(file, '[1, 2, 3]');
+
+      await expect(new JsonFileConfigSource(file).load()).rejects.toThrow('配置文件内容必须是对象');
+    });
+  });
+
+  describe('loadLayeredConfig', () => {
+    it('should let later sources win and attribute each key', async () => {
+      const file = join(dir, 'app.yaml');
+      writeFileSync(file, 'api:\n  port: 4000\n  host: http://yaml-host\n');
+
+      const result = await loadLayeredConfig([
+        new DefaultsConfigSource(),
+        new YamlFileConfigSource(file, { name: 'yaml' }),
+        new EnvConfigSource({ API_PORT: '5000' }),
+        new ObjectConfigSource({ redis: { db: 2 } }, 'overrides')
+      ]);
+
+      expect(result.sources).toEqual(['defaults', 'yaml', 'env', 'overrides']);
+      expect(result.config).toMatchObject({
+        api: { port: 5000, host: 'http://yaml-host', baseUrl: 'http://localhost:3000' },
+        redis: { db: 2 }
+      });
+      expect(result.keySources['api.port']).toBe('env');
+      expect(result.keySources['api.host']).toBe('yaml');
+      expect(result.keySources['api.baseUrl']).toBe('defaults');
+      expect(result.keySources['redis.db']).toBe('overrides');
+    });
+
+    it('should include the source name when a source fails', async () => {
+      await expect(
+        loadLayeredConfig([new JsonFileConfigSource(join(dir, 'missing.json'), { name: 'app-json' })])
+      ).rejects.toThrow('配置源 app-json 加载失败');
+    });
+  });
+
+  describe('ConfigModule.forRoot', () => {
+    it('should load configured sources into MemoryConfigService', async () => {
+      const module: TestingModule = await Test.createTestingModule({
+        imports: [
+          ConfigModule.forRoot({
+            sources: [new ObjectConfigSource({ api: { port: 7000 } }, 'test-overrides')]
+          })
+        ],
+        providers: [MemoryConfigService]
+      }).compile();
+
+      const service = module.get<MemoryConfigService>(MemoryConfigService);
+      await service.onModuleInit();
+
+      expect(service.getApiConfig().port).toBe(7000);
+      expect(service.getConfigSource('api.port')).toBe('test-overrides');
+      expect(service.getConfigSource('api.host')).toBe('defaults');
+
+      const status = service.getConfigStatus();
+      expect(status.sources).toEqual(['defaults', 'defaults:development', 'test-overrides']);
+      expect(status.keySources?.['api.port']).toBe('test-overrides');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryConfigService } from '../memory-config.service';
+import { EnvConfigSource, ObjectConfigSource, YamlFileConfigSource } from '../sources';
+import { ConfigModuleOptions } from '../../types';
+import { ConfigValidationError } from '../../validation/config-validation-error';
+import { ConfigValidationService } from '../../validation/config-validation.service';
+import { buildDefaultConfig } from '../sources/env-mapping';
+
+describe('Config validation at load time', () => {
+  const createService = (options: ConfigModuleOptions) =>
+    new MemoryConfigService(options, new ConfigValidationService());
+
+  it('should accept the built-in defaults', async () => {
+    const service = createService({ sources: [new EnvConfigSource({})] });
+
+    await expect(service.onModuleInit()).resolves.toBeUndefined();
+    expect(service.getConfigStatus().isLoaded).toBe(true);
+  });
+
+  it('should validate the DTO shape against every memory config section', async () => {
+    const validationService = new ConfigValidationService();
+
+    const result = await validationService.validateApplicationConfig(buildDefaultConfig());
+
+    expect(result.errors).toEqual([]);
+    expect(result.isValid).toBe(true);
+  });
+
+  it('should accept a list of log destinations and reject unknown entries', async () => {
+    await expect(
+      createService({ sources: [new EnvConfigSource({ LOG_DESTINATION: 'console,file' })] }).onModuleInit()
+    ).resolves.toBeUndefined();
+    await expect(
+      createService({ sources: [new EnvConfigSource({ LOG_DESTINATION: 'console,syslog' })] }).onModuleInit()
+    ).rejects.toThrow(/logging\.destination/);
+  });
+
+  describe('strict mode', () => {
+    it('should refuse to load and report every problem at once', async () => {
+      const service = createService({
+        sources: [new EnvConfigSource({ API_PORT: 'abc', REDIS_DB: '99', LOG_LEVEL: 'verbose' })]
+      });
+
+      const error: ConfigValidationError = await service.onModuleInit().then(
+        () => { throw new Error('expected validation to fail'); },
+        (err: ConfigValidationError) => err
+      );
+
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect(error.errorCode).toBe('CONFIG_VALIDATION_FAILED');
+      expect(error.details?.totalErrors).toBe(3);
+      expect(error.details?.errors.map(e => e.errorCode).sort()).toEqual([
+        'INVALID_ENUM_VALUE',
+        'INVALID_TYPE',
+        'VALUE_OUT_OF_RANGE'
+      ]);
+      expect(error.message).toContain('api.port');
+      expect(error.message).toContain('redis.db');
+      expect(error.message).toContain('logging.level');
+      expect(error.message).toContain('(来源: env)');
+      expect(service.getConfigStatus().isLoaded).toBe(false);
+    });
+
+    it('should reject numbers with trailing garbage instead of truncating them', async () => {
+      const service = createService({
+        sources: [new EnvConfigSource({ API_PORT: '3000abc', REDIS_DB: '1.5' })]
+      });
+
+      const error: ConfigValidationError = await service.onModuleInit().then(
+        () => { throw new Error('expected validation to fail'); },
+        (err: ConfigValidationError) => err
+      );
+
+      expect(error.message).toContain('api.port');
+      expect(error.message).toContain('redis.db');
+    });
+
+    it('should reject string numbers and booleans from file sources instead of storing them', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'hl8-config-validation-'));
+      const file = join(dir, 'app.yaml');
+      writeFileSync(file, "api:\n  port: '8080'\nfeatures:\n  enableSwagger: 'false'\n");
+      const service = createService({ sources: [new YamlFileConfigSource(file)] });
+
+      try {
+        const error: ConfigValidationError = await service.onModuleInit().then(
+          () => { throw new Error('expected validation to fail'); },
+          (err: ConfigValidationError) => err
+        );
+
+        expect(error.message).toContain('api.port');
+        expect(error.message).toContain('features.enableSwagger');
+        expect(service.getConfigStatus().isLoaded).toBe(false);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should report unknown keys from structured sources', async () => {
+      const service = createService({
+        sources: [new ObjectConfigSource({ api: { prot: 3000 } }, 'typo')]
+      });
+
+      await expect(service.onModuleInit()).rejects.toThrow(/UNKNOWN_PROPERTY[\s\S]*api\.prot/);
+    });
+
+    it('should keep the previous config when a reload fails validation', async () => {
+      const env: Record<string, string> = { API_PORT: '4000' };
+      const service = createService({ sources: [new EnvConfigSource(env)] });
+      await service.onModuleInit();
+
+      env.API_PORT = 'abc';
+
+      await expect(service.reloadConfig()).rejects.toThrow(ConfigValidationError);
+      expect(service.getApiConfig().port).toBe(4000);
+    });
+  });
+
+  describe('warn mode', () => {
+    it('should load the config despite validation errors', async () => {
+      const service = createService({
+        sources: [new EnvConfigSource({ LOG_LEVEL: 'verbose' })],
+        validationMode: 'warn'
+      });
+
+      await expect(service.onModuleInit()).resolves.toBeUndefined();
+      expect(service.getLoggingConfig().level).toBe('verbose');
+    });
+  });
+
+  describe('off mode', () => {
+    it('should skip validation entirely', async () => {
+      const validationService = new ConfigValidationService();
+      const validateSpy = jest.spyOn(validationService, 'validateApplicationConfig');
+      const service = new MemoryConfigService(
+        { sources: [new EnvConfigSource({ API_PORT: 'abc' })], validationMode: 'off' },
+        validationService
+      );
+
+      await service.onModuleInit();
+
+      expect(validateSpy).not.toHaveBeenCalled();
+      expect(service.getConfigStatus().isLoaded).toBe(true);
+    });
+  });
+});
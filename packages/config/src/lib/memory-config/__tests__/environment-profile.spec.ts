@@ -0,0 +1,153 @@
+import { MemoryConfigService } from '../memory-config.service';
+import { EnvConfigSource } from '../sources';
+import { EnvironmentProfile, applyEnvironmentProfile, findProductionViolations } from '../environment-profile';
+import { Env } from '../../../environments/environment.interface';
+import { ConfigValidationError } from '../../validation/config-validation-error';
+import { ConfigValidationService } from '../../validation/config-validation.service';
+import { ConfigCompatibilityAdapter } from '../compatibility-adapter';
+import { ConfigService } from '../../config.service';
+
+const PRODUCTION_ENV = {
+  NODE_ENV: 'production',
+  DB_PASS: 'prod-db-password',
+  MONGO_PASS: 'prod-mongo-password',
+  JWT_SECRET: 'prod-jwt-secret',
+  SESSION_SECRET: 'prod-session-secret'
+};
+
+async function load(env: Record<string, string>): Promise<MemoryConfigService> {
+  const service = new MemoryConfigService({ sources: [new EnvConfigSource(env)] });
+  await service.onModuleInit();
+  return service;
+}
+
+describe('Environment profiles', () => {
+  describe('EnvironmentProfile', () => {
+    it('should expose typed environment helpers', () => {
+      const production = new EnvironmentProfile('production');
+
+      expect(production.profile).toBe(Env.PRODUCTION);
+      expect(production.isProduction()).toBe(true);
+      expect(production.isTest()).toBe(false);
+      expect(new EnvironmentProfile('test').isTest()).toBe(true);
+      expect(new EnvironmentProfile('development').isDevelopment()).toBe(true);
+      expect(JSON.parse(JSON.stringify(production))).toMatchObject({ name: 'production', isProduction: true });
+    });
+
+    it('should be returned by ConfigService.getEnvironment() from the loaded config', async () => {
+      const memoryConfig = await load({ NODE_ENV: 'test' });
+      const configService = new ConfigService(
+        memoryConfig,
+        new ConfigCompatibilityAdapter(memoryConfig),
+        new ConfigValidationService()
+      );
+
+      const environment = configService.getEnvironment();
+
+      expect(environment).toBeInstanceOf(EnvironmentProfile);
+      expect(environment.name).toBe('test');
+      expect(environment.isTest()).toBe(true);
+      expect(environment.isProduction()).toBe(false);
+      memoryConfig.onModuleDestroy();
+    });
+
+    it('should use production defaults without production rules for staging', () => {
+      const staging = new EnvironmentProfile('staging');
+
+      expect(staging.profile).toBe(Env.PRODUCTION);
+      expect(staging.isProduction()).toBe(false);
+      expect(findProductionViolations({ environment: 'staging', features: { enableSwagger: true } })).toEqual([]);
+    });
+  });
+
+  describe('profile defaults', () => {
+    it('should only replace values that still come from the defaults', () => {
+      const result = applyEnvironmentProfile({
+        config: { environment: 'production', database: { sslMode: false, logging: false }, features: { enableRateLimit: false } },
+        keySources: {
+          environment: 'env',
+          'database.sslMode': 'defaults',
+          'database.logging': 'defaults',
+          'features.enableRateLimit': 'env'
+        },
+        sources: ['defaults', 'env']
+      });
+
+      expect(result.config).toMatchObject({ database: { sslMode: true }, features: { enableRateLimit: false } });
+      expect(result.keySources['database.sslMode']).toBe('defaults:production');
+      expect(result.keySources['features.enableRateLimit']).toBe('env');
+      expect(result.sources).toEqual(['defaults', 'defaults:production', 'env']);
+    });
+
+    it('should load profile specific defaults for each environment', async () => {
+      const test = await load({ NODE_ENV: 'test' });
+      const production = await load(PRODUCTION_ENV);
+
+      expect(test.getDatabaseConfig()).toMatchObject({ name: 'aiofix_platform_test', poolSize: 5, sslMode: false });
+      expect(production.getDatabaseConfig()).toMatchObject({ name: 'aiofix_platform', poolSize: 40, sslMode: true });
+      expect(production.getFeaturesConfig()).toMatchObject({ enableRateLimit: true, enableHealthCheck: true });
+      expect(production.getConfigSource('database.sslMode')).toBe('defaults:production');
+
+      test.onModuleDestroy();
+      production.onModuleDestroy();
+    });
+  });
+
+  describe('production guard rails', () => {
+    it('should reject SSL disabled against a remote database', async () => {
+      const error = await load({ ...PRODUCTION_ENV, DB_HOST: 'db.internal.example.com', DB_SSL_MODE: 'false' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(ConfigValidationError);
+      expect(error.message).toContain('database.sslMode');
+      expect(error.message).toContain('来源: env');
+    });
+
+    it('should allow SSL disabled against a local database', () => {
+      for (const host of ['localhost', '127.0.0.1', '::1', '[::1]:5432', '/var/run/postgresql']) {
+        expect(
+          findProductionViolations({ environment: 'production', database: { host, sslMode: false } })
+        ).toEqual([]);
+      }
+    });
+
+    it('should treat string booleans applied in warn mode like booleans', () => {
+      expect(
+        findProductionViolations({
+          environment: 'production',
+          database: { host: 'db.internal', sslMode: 'false' },
+          features: { enableSwagger: 'true', swaggerAuth: 'false' }
+        }).map(violation => violation.path)
+      ).toEqual(['database.sslMode', 'features.enableSwagger']);
+    });
+
+    it('should reject Swagger without auth', async () => {
+      await expect(load({ ...PRODUCTION_ENV, ENABLE_SWAGGER: 'true' })).rejects.toThrow('features.enableSwagger');
+
+      const service = await load({ ...PRODUCTION_ENV, ENABLE_SWAGGER: 'true', SWAGGER_AUTH: 'true' });
+      expect(service.getFeaturesConfig().swaggerAuth).toBe(true);
+      service.onModuleDestroy();
+    });
+
+    it('should report every violation at once', () => {
+      const violations = findProductionViolations({
+        environment: 'production',
+        auth: { jwtSecret: 'your-super-secret-jwt-key' },
+        mongodb: { host: 'mongo.example.com', sslMode: false },
+        features: { enableSwagger: true }
+      });
+
+      expect(violations.map(violation => violation.path)).toEqual([
+        'auth.jwtSecret',
+        'mongodb.sslMode',
+        'features.enableSwagger'
+      ]);
+    });
+
+    it('should not apply the rules outside production', async () => {
+      const service = await load({ NODE_ENV: 'development', DB_HOST: 'db.example.com', ENABLE_SWAGGER: 'true' });
+
+      expect(service.getDatabaseConfig().sslMode).toBe(false);
+      service.onModuleDestroy();
+    });
+  });
+});
@@ -7,6 +7,11 @@ describe('HybridConfigService', () => {
   let service: HybridConfigService;
   let memoryConfigService: MemoryConfigService;
   let compatibilityAdapter: ConfigCompatibilityAdapter;
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -50,13 +55,7 @@ describe('HybridConfigService', () => {
 
     it('should fallback to environment when memory config is not loaded', () => {
       // 模拟内存配置未加载
-      jest.spyOn(memoryConfigService, 'getConfigStatus').mockReturnValue({
-        isLoaded: false,
-        version: '1.0.0',
-        loadTime: null,
-        configKeys: [],
-        environment: 'test'
-      });
+      jest.spyOn(memoryConfigService, 'isConfigLoaded').mockReturnValue(false);
 
       // 设置环境变量
       process.env.API_PORT = '8080';
@@ -67,13 +66,7 @@ describe('HybridConfigService', () => {
 
     it('should return default value when environment variable is not set', () => {
       // 模拟内存配置未加载
-      jest.spyOn(memoryConfigService, 'getConfigStatus').mockReturnValue({
-        isLoaded: false,
-        version: '1.0.0',
-        loadTime: null,
-        configKeys: [],
-        environment: 'test'
-      });
+      jest.spyOn(memoryConfigService, 'isConfigLoaded').mockReturnValue(false);
 
       // 确保环境变量不存在
       delete process.env.NONEXISTENT_CONFIG;
@@ -229,13 +222,7 @@ describe('HybridConfigService', () => {
   describe('environment fallback', () => {
     beforeEach(() => {
       // 模拟内存配置未加载
-      jest.spyOn(memoryConfigService, 'getConfigStatus').mockReturnValue({
-        isLoaded: false,
-        version: '1.0.0',
-        loadTime: null,
-        configKeys: [],
-        environment: 'test'
-      });
+      jest.spyOn(memoryConfigService, 'isConfigLoaded').mockReturnValue(false);
     });
 
     it('should get nested values from environment', () => {
@@ -272,6 +259,27 @@ describe('HybridConfigService', () => {
       const result = service.get<any>('api.server.port', 8080);
       expect(result).toBe(8080);
     });
+
+    it('should coerce values by the env mapping type', () => {
+      process.env.DB_SSL_MODE = 'TRUE';
+      process.env.DB_POOL_SIZE = '25';
+
+      expect(service.get('database.sslMode')).toBe(true);
+      expect(service.get('database.poolSize')).toBe(25);
+    });
+
+    it('should fall back to the mapping default when neither env nor default is set', () => {
+      delete process.env.REDIS_PORT;
+
+      expect(service.get('redis.port')).toBe(6379);
+    });
+
+    it('should build a section from its environment variables', () => {
+      process.env.REDIS_HOST = 'redis.internal';
+      process.env.REDIS_DB = '2';
+
+      expect(service.get<any>('redis')).toEqual(expect.objectContaining({ host: 'redis.internal', db: 2 }));
+    });
   });
 
   describe('type safety', () => {
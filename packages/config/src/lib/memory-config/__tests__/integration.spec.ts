@@ -5,6 +5,7 @@ import { HybridConfigService } from '../hybrid-config.service';
 import { ConfigMonitorService } from '../config-monitor.service';
 import { ConfigService } from '../../config.service';
 import { ConfigModule } from '../../config.module';
+import { REDACTED_VALUE } from '../config-classes/sensitive.decorator';
 
 describe('Memory Config Integration Tests', () => {
   let module: TestingModule;
@@ -113,8 +114,11 @@ describe('Memory Config Integration Tests', () => {
       const serviceAuthConfig = configService.getAuthConfig();
       const hybridAuthConfig = hybridConfig.getAuthConfig();
 
-      expect(memoryAuthConfig.jwtSecret).toBe(serviceAuthConfig.jwtSecret);
-      expect(serviceAuthConfig.jwtSecret).toBe(hybridAuthConfig.jwtSecret);
+      // ConfigService 返回脱敏后的配置段，密钥原始值通过 getSecret() 读取
+      expect(memoryAuthConfig.jwtSecret).toBe(hybridAuthConfig.jwtSecret);
+      expect(serviceAuthConfig.jwtSecret).toBe(REDACTED_VALUE);
+      expect(configService.getSecret('auth.jwtSecret')).toBe(memoryAuthConfig.jwtSecret);
+      expect(serviceAuthConfig.jwtExpiresIn).toBe(memoryAuthConfig.jwtExpiresIn);
     });
   });
 
@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryConfigService } from '../memory-config.service';
+import { EnvConfigSource, ObjectConfigSource, RemoteConfigSource } from '../sources';
+
+/**
+ * 本地桩配置服务，按 body 计算 ETag 并支持 If-None-Match
+ */
+class StubConfigServer {
+  body: unknown = {};
+  status = 200;
+  readonly requests: IncomingMessage[] = [];
+  private server!: Server;
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/config`;
+  }
+
+  get etag(): string {
+    return `"${createHash('sha1').update(JSON.stringify(this.body)).digest('hex')}"`;
+  }
+
+  async start(): Promise<void> {
+    this.server = createServer((request, response) => {
+      this.requests.push(request);
+      if (this.status !== 200) {
+        response.writeHead(this.status).end();
+      } else if (request.headers['if-none-match'] === this.etag) {
+        response.writeHead(304, { ETag: this.etag }).end();
+      } else {
+        response.writeHead(200, { 'Content-Type': 'application/json', ETag: this.etag }).end(JSON.stringify(this.body));
+      }
+    });
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('RemoteConfigSource', () => {
+  let server: StubConfigServer;
+  let dir: string;
+
+  beforeEach(async () => {
+    server = new StubConfigServer();
+    await server.start();
+    dir = mkdtempSync(join(tmpdir(), 'hl8-remote-config-'));
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should expand flat keys and coerce string values by the env mapping', async () => {
+    server.body = { 'api.port': '8080', 'features.enableCors': 'true', logging: { level: 'debug' } };
+
+    const config = await new RemoteConfigSource(server.url).load();
+
+    expect(config).toEqual({ api: { port: 8080 }, features: { enableCors: true }, logging: { level: 'debug' } });
+  });
+
+  it('should send If-None-Match and reuse the config on 304', async () => {
+    server.body = { api: { port: 8080 } };
+    const source = new RemoteConfigSource(server.url);
+
+    await source.load();
+    const config = await source.load();
+
+    expect(server.requests[0].headers['if-none-match']).toBeUndefined();
+    expect(server.requests[1].headers['if-none-match']).toBe(server.etag);
+    expect(config).toEqual({ api: { port: 8080 } });
+    expect(source.getState()).toMatchObject({ origin: 'remote', etag: server.etag });
+  });
+
+  it('should support Spring Cloud Config property sources and custom key separators', async () => {
+    server.body = {
+      propertySources: [
+        { name: 'api-production', source: { 'api/port': 9090 } },
+        { name: 'application', source: { 'api/port': 8080, 'redis/host': 'redis.internal' } }
+      ]
+    };
+
+    const config = await new RemoteConfigSource(server.url, { keySeparator: '/' }).load();
+
+    expect(config).toEqual({ api: { port: 9090 }, redis: { host: 'redis.internal' } });
+  });
+
+  it('should fall back to the last-known-good cache file when the remote is down', async () => {
+    const cacheFile = join(dir, 'remote-config.json');
+    server.body = { api: { port: 8080 } };
+    await new RemoteConfigSource(server.url, { cacheFile }).load();
+    expect(existsSync(cacheFile)).toBe(true);
+
+    server.status = 503;
+    const source = new RemoteConfigSource(server.url, { cacheFile });
+    const config = await source.load();
+
+    expect(config).toEqual({ api: { port: 8080 } });
+    expect(source.getState()).toMatchObject({ origin: 'cache', lastError: 'HTTP 503' });
+  });
+
+  it('should fail without a cache unless optional', async () => {
+    server.status = 500;
+
+    await expect(new RemoteConfigSource(server.url).load()).rejects.toThrow('无法获取远程配置');
+    await expect(new RemoteConfigSource(server.url, { optional: true }).load()).resolves.toEqual({});
+  });
+
+  it('should boot MemoryConfigService from the cache and respect source order', async () => {
+    const cacheFile = join(dir, 'remote-config.json');
+    server.body = { api: { port: 8080, host: 'http://remote' }, redis: { host: 'redis.remote' } };
+    const url = server.url;
+    await new RemoteConfigSource(url, { cacheFile }).load();
+    await server.stop();
+
+    const service = new MemoryConfigService({
+      sources: [
+        new ObjectConfigSource({ api: { port: 7000 }, database: { host: 'db.file' } }, 'file'),
+        new RemoteConfigSource(url, { cacheFile, timeout: 500 }),
+        new EnvConfigSource({ API_HOST: 'http://env' })
+      ]
+    });
+    await service.onModuleInit();
+
+    const api = service.getApiConfig();
+    expect(api.port).toBe(8080);
+    expect(api.host).toBe('http://env');
+    expect(service.getConfigSource('api.port')).toBe('remote');
+    expect(service.getConfigSource('database.host')).toBe('file');
+    expect(service.getConfigSource('api.host')).toBe('env');
+
+    // afterEach 会再次关闭
+    await server.start();
+  });
+
+  it('should poll and report changes only when the remote config changes', async () => {
+    server.body = { api: { port: 8080 } };
+    const source = new RemoteConfigSource(server.url, { pollInterval: 20 });
+    await source.load();
+
+    const onChange = jest.fn();
+    const stop = source.watch(onChange);
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(onChange).not.toHaveBeenCalled();
+
+    server.body = { api: { port: 9090 } };
+    await new Promise(resolve => setTimeout(resolve, 100));
+    stop();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(await source.load()).toEqual({ api: { port: 9090 } });
+  });
+});
@@ -0,0 +1,123 @@
+import { firstValueFrom, take } from 'rxjs';
+import { withRequestContext } from '@hl8/logger';
+import { MemoryConfigService } from '../memory-config.service';
+import { TenantConfigService } from '../tenant-config.service';
+import { ConfigCompatibilityAdapter } from '../compatibility-adapter';
+import { EnvConfigSource } from '../sources';
+import { ConfigService } from '../../config.service';
+import { ConfigValidationService } from '../../validation/config-validation.service';
+import { ConfigValidationError } from '../../validation/config-validation-error';
+import { FeatureFlagService } from '../../feature-flags/feature-flag.service';
+
+describe('Tenant config overrides', () => {
+  let env: Record<string, string>;
+  let memoryConfig: MemoryConfigService;
+  let tenantConfig: TenantConfigService;
+  let configService: ConfigService;
+
+  beforeEach(async () => {
+    env = { LIMITS_MAX_USERS: '100', ENABLE_SWAGGER: 'false' };
+    memoryConfig = new MemoryConfigService({ sources: [new EnvConfigSource(env)] });
+    await memoryConfig.onModuleInit();
+
+    const validationService = new ConfigValidationService();
+    tenantConfig = new TenantConfigService(memoryConfig, validationService);
+    configService = new ConfigService(
+      memoryConfig,
+      new ConfigCompatibilityAdapter(memoryConfig, tenantConfig),
+      validationService,
+      new FeatureFlagService(memoryConfig, tenantConfig)
+    );
+  });
+
+  afterEach(() => {
+    memoryConfig.onModuleDestroy();
+  });
+
+  it('should merge tenant overrides over the base config', async () => {
+    await tenantConfig.setOverrides('tenant-a', {
+      limits: { maxUsers: 5 },
+      branding: { appName: 'Acme' }
+    });
+
+    const config = tenantConfig.getTenantConfig('tenant-a');
+
+    expect(config.getLimitsConfig().maxUsers).toBe(5);
+    expect(config.getLimitsConfig().requestsPerMinute).toBe(1000);
+    expect(config.getBrandingConfig().appName).toBe('Acme');
+    expect(config.getApiConfig()).toEqual(memoryConfig.getApiConfig());
+    expect(tenantConfig.getTenantConfig('tenant-b')).toBe(memoryConfig.getAllConfig());
+  });
+
+  it('should resolve the tenant from the request context in ConfigService.get()', async () => {
+    await tenantConfig.setOverrides('tenant-a', { features: { enableSwagger: true } });
+
+    expect(configService.get('features.enableSwagger')).toBe(false);
+
+    await withRequestContext({ requestId: 'req-1', tenantId: 'tenant-a' }, async () => {
+      expect(configService.get('features.enableSwagger')).toBe(true);
+      expect(configService.isFeatureEnabled('enableSwagger')).toBe(true);
+      expect(configService.getLimitsConfig().maxUsers).toBe(100);
+    });
+
+    await withRequestContext({ requestId: 'req-2', tenantId: 'tenant-b' }, async () => {
+      expect(configService.isFeatureEnabled('enableSwagger')).toBe(false);
+    });
+  });
+
+  it('should list, replace and remove overrides', async () => {
+    await tenantConfig.setOverrides('tenant-b', { limits: { maxUsers: 20 } });
+    await tenantConfig.setOverrides('tenant-a', { limits: { maxUsers: 10 } });
+    await tenantConfig.setOverrides('tenant-a', { branding: { primaryColor: '#000000' } });
+
+    expect(tenantConfig.listOverrides().map(entry => entry.tenantId)).toEqual(['tenant-a', 'tenant-b']);
+    expect(tenantConfig.getOverrides('tenant-a')).toEqual({ branding: { primaryColor: '#000000' } });
+    expect(tenantConfig.getTenantConfig('tenant-a').getLimitsConfig().maxUsers).toBe(100);
+
+    expect(tenantConfig.removeOverrides('tenant-a')).toBe(true);
+    expect(tenantConfig.removeOverrides('tenant-a')).toBe(false);
+    expect(tenantConfig.getTenantConfig('tenant-a')).toBe(memoryConfig.getAllConfig());
+  });
+
+  it('should emit change events for tenant overrides', async () => {
+    const event = firstValueFrom(tenantConfig.changes$.pipe(take(1)));
+
+    await tenantConfig.setOverrides('tenant-a', { limits: { maxUsers: 5 } });
+
+    expect(await event).toMatchObject({
+      tenantId: 'tenant-a',
+      changes: [{ path: 'limits.maxUsers', oldValue: 100, newValue: 5 }]
+    });
+  });
+
+  it('should reject overrides outside the tenant-configurable sections', async () => {
+    const error = await tenantConfig
+      .setOverrides('tenant-a', { database: { host: 'evil' } } as never)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error.message).toContain('database');
+    expect(tenantConfig.getOverrides('tenant-a')).toBeUndefined();
+  });
+
+  it('should reject unknown keys, wrong types and invalid values', async () => {
+    await expect(tenantConfig.setOverrides('tenant-a', { limits: { maxSeats: 1 } } as never))
+      .rejects.toThrow('limits.maxSeats');
+    await expect(tenantConfig.setOverrides('tenant-a', { limits: { maxUsers: '5' } } as never))
+      .rejects.toThrow('limits.maxUsers');
+    await expect(tenantConfig.setOverrides('tenant-a', { branding: { primaryColor: 'red' } }))
+      .rejects.toThrow(ConfigValidationError);
+  });
+
+  it('should rebuild cached tenant config after the base config reloads', async () => {
+    await tenantConfig.setOverrides('tenant-a', { branding: { appName: 'Acme' } });
+    expect(tenantConfig.getTenantConfig('tenant-a').getLimitsConfig().maxUsers).toBe(100);
+
+    env['LIMITS_MAX_USERS'] = '200';
+    await memoryConfig.reloadConfig();
+
+    const config = tenantConfig.getTenantConfig('tenant-a');
+    expect(config.getLimitsConfig().maxUsers).toBe(200);
+    expect(config.getBrandingConfig().appName).toBe('Acme');
+  });
+});
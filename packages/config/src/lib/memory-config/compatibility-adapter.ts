@@ -1,5 +1,7 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Optional } from '@nestjs/common';
 import { MemoryConfigService } from './memory-config.service.js';
+import { TenantConfigService } from './tenant-config.service.js';
+import { ConfigPath, ConfigPathValue } from './config-classes/config-path.types.js';
 
 /**
  * 配置兼容适配器
@@ -24,6 +26,12 @@ import { MemoryConfigService } from './memory-config.service.js';
  * - 支持泛型配置访问
  * - 提供编译时类型检查
  *
+ * ### 租户配置
+ * - 注入 TenantConfigService 时，按当前请求的租户读取叠加租户覆盖后的配置
+ *
+ * ### 访问指标
+ * - get() 自动记录每个路径的读取次数、未命中次数和耗时
+ *
  * @example
  * ```typescript
  * @Injectable()
@@ -31,7 +39,7 @@ import { MemoryConfigService } from './memory-config.service.js';
  *   constructor(private readonly adapter: ConfigCompatibilityAdapter) {}
  *   
  *   getApiPort(): number {
- *     return this.adapter.get<number>('api.port');
+ *     return this.adapter.get('api.port');
  *   }
  * }
  * ```
@@ -40,36 +48,42 @@ import { MemoryConfigService } from './memory-config.service.js';
  */
 @Injectable()
 export class ConfigCompatibilityAdapter {
-  constructor(private readonly memoryConfig: MemoryConfigService) {}
+  constructor(
+    private readonly memoryConfig: MemoryConfigService,
+    @Optional() private readonly tenantConfig?: TenantConfigService
+  ) {}
 
   /**
    * 获取配置值（兼容旧API）
    * 
    * @description 通过配置路径获取配置值
    * 支持嵌套路径访问，如 'api.port'、'database.host'
+   * 路径和返回值类型由 ApplicationMemoryConfig 推导，无效路径在编译期报错
+   * 每次读取都会记录到配置访问指标中，路径不存在时计为未命中
    * 
-   * @param {string} path - 配置路径，如 'api.port'
-   * @param {T} defaultValue - 可选的默认值
-   * @returns {T} 配置值或默认值
+   * @param {P} path - 配置路径，如 'api.port'
+   * @param {ConfigPathValue<P>} defaultValue - 可选的默认值
+   * @returns {ConfigPathValue<P>} 配置值或默认值
    * 
    * @example
    * ```typescript
-   * // 获取API端口
-   * const port = adapter.get<number>('api.port');
+   * // 获取API端口，返回 number
+   * const port = adapter.get('api.port');
    * 
    * // 获取API端口，带默认值
-   * const port = adapter.get<number>('api.port', 8080);
+   * const port = adapter.get('api.port', 8080);
    * 
-   * // 获取数据库主机
-   * const host = adapter.get<string>('database.host');
+   * // 获取数据库主机，返回 string
+   * const host = adapter.get('database.host');
    * ```
    * 
    * @since 1.0.0
    */
-  get<T>(path: string, defaultValue?: T): T {
-    this.ensureConfigLoaded();
-    const value = this.getNestedValue(this.memoryConfig.getAllConfig(), path);
-    return value !== undefined ? value : (defaultValue as T);
+  get<P extends ConfigPath>(path: P, defaultValue?: ConfigPathValue<P>): ConfigPathValue<P> {
+    const startTime = performance.now();
+    const value = this.getValue(path);
+    this.memoryConfig.getAccessMetrics().record(path, performance.now() - startTime, value !== undefined);
+    return value !== undefined ? (value as ConfigPathValue<P>) : (defaultValue as ConfigPathValue<P>);
   }
 
   /**
@@ -84,7 +98,7 @@ export class ConfigCompatibilityAdapter {
    * ```typescript
    * // 检查API端口是否存在
    * if (adapter.has('api.port')) {
-   *   const port = adapter.get<number>('api.port');
+   *   const port = adapter.get('api.port');
    * }
    * ```
    * 
@@ -92,7 +106,7 @@ export class ConfigCompatibilityAdapter {
    */
   has(path: string): boolean {
     try {
-      const value = this.get(path);
+      const value = this.getValue(path);
       return value !== undefined;
     } catch {
       return false;
@@ -157,6 +171,23 @@ export class ConfigCompatibilityAdapter {
     return await this.memoryConfig.reloadConfig();
   }
 
+  /**
+   * 按路径读取配置值
+   * 
+   * @description 不做类型推导的内部读取方法，供 get() 与 has() 共用
+   * 存在租户配置服务时读取当前租户的生效配置
+   * 
+   * @param {string} path - 配置路径
+   * @returns {unknown} 配置值，路径不存在时返回 undefined
+   * 
+   * @private
+   */
+  private getValue(path: string): unknown {
+    this.ensureConfigLoaded();
+    const config = this.tenantConfig?.getTenantConfig() ?? this.memoryConfig.getAllConfig();
+    return this.getNestedValue(config, path);
+  }
+
   /**
    * 获取嵌套值
    * 
@@ -180,7 +211,7 @@ export class ConfigCompatibilityAdapter {
    * @private
    */
   private ensureConfigLoaded(): void {
-    if (!this.memoryConfig.getConfigStatus().isLoaded) {
+    if (!this.memoryConfig.isConfigLoaded()) {
       throw new Error('配置未加载到内存中，请确保配置服务已正确初始化');
     }
   }
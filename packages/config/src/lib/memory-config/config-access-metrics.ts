@@ -0,0 +1,323 @@
+import { isChangeUnderPath } from './config-change.js';
+
+/**
+ * 默认的配置读取耗时分桶上限（毫秒）
+ *
+ * @description 内存配置读取通常在微秒级，分桶从 1 微秒覆盖到 10 毫秒
+ *
+ * @since 1.0.0
+ */
+export const DEFAULT_CONFIG_ACCESS_BUCKETS = [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 10];
+
+/**
+ * 超出路径数量上限后统计使用的路径名
+ *
+ * @since 1.0.0
+ */
+export const OTHER_CONFIG_PATH = '__other__';
+
+/**
+ * 配置访问指标选项
+ *
+ * @description ConfigModule.forRoot({ metrics }) 的配置选项
+ */
+export interface ConfigAccessMetricsOptions {
+  /** 是否统计配置读取，默认为 true */
+  enabled?: boolean;
+  /** 耗时分桶上限（毫秒），默认为 DEFAULT_CONFIG_ACCESS_BUCKETS */
+  buckets?: number[];
+  /**
+   * 单独统计的路径数量上限
+   *
+   * @description 默认为 1000，超出后的路径合并统计为 '__other__'，避免读取不存在的路径导致指标无限增长
+   */
+  maxPaths?: number;
+}
+
+/**
+ * 配置读取耗时直方图
+ */
+export interface ConfigAccessHistogram {
+  /** 分桶上限（毫秒） */
+  buckets: readonly number[];
+  /** 各分桶的累计次数，与 buckets 一一对应 */
+  counts: number[];
+  /** 读取次数 */
+  count: number;
+  /** 总耗时（毫秒） */
+  sum: number;
+}
+
+/**
+ * 单个配置路径的访问统计
+ */
+export interface ConfigPathAccessStats {
+  /** 配置路径 */
+  path: string;
+  /** 读取到值的次数 */
+  hits: number;
+  /** 路径不存在（值为 undefined）的次数 */
+  misses: number;
+  /** 最后一次读取时间 */
+  lastAccess: Date;
+  /** 读取耗时直方图 */
+  latency: ConfigAccessHistogram;
+}
+
+/**
+ * 配置访问汇总
+ */
+export interface ConfigAccessTotals {
+  /** 读取次数 */
+  accesses: number;
+  /** 路径不存在的次数 */
+  misses: number;
+  /** 平均读取耗时（毫秒） */
+  averageLatency: number;
+  /** 被读取过的路径数量 */
+  paths: number;
+}
+
+/**
+ * 配置访问指标
+ *
+ * @description 统计通过 ConfigService.get() / ConfigCompatibilityAdapter.get() 读取配置的情况
+ *
+ * ## 主要功能
+ * - 按路径统计读取次数、未命中次数和耗时直方图
+ * - 根据读取记录找出从未被读取的配置项（废弃配置）
+ * - 导出 Prometheus 文本格式的指标
+ *
+ * 读取某个配置段（如 'database'）时，该配置段下的所有配置项都视为已使用
+ *
+ * @example
+ * ```typescript
+ * const metrics = new ConfigAccessMetrics();
+ * metrics.record('api.port', 0.004, true);
+ * console.log(metrics.list());
+ * console.log(metrics.toPrometheus());
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class ConfigAccessMetrics {
+  /**
+   * 按路径记录的访问统计
+   */
+  private readonly stats = new Map<string, ConfigPathAccessStats>();
+
+  /**
+   * 耗时分桶上限
+   */
+  private readonly buckets: readonly number[];
+
+  /**
+   * 单独统计的路径数量上限
+   */
+  private readonly maxPaths: number;
+
+  constructor(private readonly options: ConfigAccessMetricsOptions = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_CONFIG_ACCESS_BUCKETS)].sort((a, b) => a - b);
+    this.maxPaths = Math.max(1, options.maxPaths ?? 1000);
+  }
+
+  /**
+   * 是否统计配置读取
+   *
+   * @since 1.0.0
+   */
+  get enabled(): boolean {
+    return this.options.enabled !== false;
+  }
+
+  /**
+   * 记录一次配置读取
+   *
+   * @param {string} path - 配置路径
+   * @param {number} duration - 读取耗时（毫秒）
+   * @param {boolean} found - 是否读取到值
+   *
+   * @since 1.0.0
+   */
+  record(path: string, duration: number, found: boolean): void {
+    if (!this.enabled) {
+      return;
+    }
+
+    const stats = this.getOrCreate(path);
+    if (found) {
+      stats.hits++;
+    } else {
+      stats.misses++;
+    }
+    stats.lastAccess = new Date();
+
+    const latency = stats.latency;
+    latency.count++;
+    latency.sum += duration;
+    this.buckets.forEach((bucket, index) => {
+      if (duration <= bucket) {
+        latency.counts[index]++;
+      }
+    });
+  }
+
+  /**
+   * 获取指定路径的访问统计
+   *
+   * @param {string} path - 配置路径
+   * @returns {ConfigPathAccessStats | undefined} 访问统计，未被读取过时返回 undefined
+   *
+   * @since 1.0.0
+   */
+  get(path: string): ConfigPathAccessStats | undefined {
+    return this.stats.get(path);
+  }
+
+  /**
+   * 列出所有路径的访问统计
+   *
+   * @returns {ConfigPathAccessStats[]} 访问统计，按读取次数从高到低排列
+   *
+   * @since 1.0.0
+   */
+  list(): ConfigPathAccessStats[] {
+    return [...this.stats.values()].sort(
+      (a, b) => b.hits + b.misses - (a.hits + a.misses) || a.path.localeCompare(b.path)
+    );
+  }
+
+  /**
+   * 获取访问汇总
+   *
+   * @returns {ConfigAccessTotals} 访问汇总
+   *
+   * @since 1.0.0
+   */
+  getTotals(): ConfigAccessTotals {
+    let accesses = 0;
+    let misses = 0;
+    let latency = 0;
+
+    for (const stats of this.stats.values()) {
+      accesses += stats.latency.count;
+      misses += stats.misses;
+      latency += stats.latency.sum;
+    }
+
+    return {
+      accesses,
+      misses,
+      averageLatency: accesses > 0 ? latency / accesses : 0,
+      paths: this.stats.size
+    };
+  }
+
+  /**
+   * 找出从未被读取的配置项
+   *
+   * @description 配置项本身或其所在的配置段被成功读取过即视为已使用
+   *
+   * @param {string[]} paths - 所有叶子配置路径
+   * @returns {string[]} 从未被读取的配置路径，按路径排序
+   *
+   * @since 1.0.0
+   */
+  findUnusedPaths(paths: string[]): string[] {
+    const used = [...this.stats.values()].filter(stats => stats.hits > 0).map(stats => stats.path);
+    return paths
+      .filter(path => !used.some(usedPath => isChangeUnderPath(path, usedPath)))
+      .sort();
+  }
+
+  /**
+   * 清空访问统计
+   *
+   * @since 1.0.0
+   */
+  reset(): void {
+    this.stats.clear();
+  }
+
+  /**
+   * 导出 Prometheus 文本格式的指标
+   *
+   * @description 输出 hl8_config_access_total 计数器和 hl8_config_access_duration_seconds 直方图
+   * 传入未使用的配置项时额外输出 hl8_config_unused 指标
+   *
+   * @param {string[]} unusedPaths - 从未被读取的配置路径
+   * @returns {string} Prometheus 文本格式的指标
+   *
+   * @since 1.0.0
+   */
+  toPrometheus(unusedPaths: string[] = []): string {
+    const stats = [...this.stats.values()].sort((a, b) => a.path.localeCompare(b.path));
+    const lines = [
+      '# HELP hl8_config_access_total 配置读取次数',
+      '# TYPE hl8_config_access_total counter'
+    ];
+
+    for (const { path, hits, misses } of stats) {
+      const label = escapeLabelValue(path);
+      lines.push(`hl8_config_access_total{path="${label}",result="hit"} ${hits}`);
+      lines.push(`hl8_config_access_total{path="${label}",result="miss"} ${misses}`);
+    }
+
+    lines.push(
+      '# HELP hl8_config_access_duration_seconds 配置读取耗时',
+      '# TYPE hl8_config_access_duration_seconds histogram'
+    );
+
+    for (const { path, latency } of stats) {
+      const label = escapeLabelValue(path);
+      latency.buckets.forEach((bucket, index) => {
+        lines.push(`hl8_config_access_duration_seconds_bucket{path="${label}",le="${bucket / 1000}"} ${latency.counts[index]}`);
+      });
+      lines.push(`hl8_config_access_duration_seconds_bucket{path="${label}",le="+Inf"} ${latency.count}`);
+      lines.push(`hl8_config_access_duration_seconds_sum{path="${label}"} ${latency.sum / 1000}`);
+      lines.push(`hl8_config_access_duration_seconds_count{path="${label}"} ${latency.count}`);
+    }
+
+    lines.push(
+      '# HELP hl8_config_unused 从未被读取的配置项',
+      '# TYPE hl8_config_unused gauge'
+    );
+    for (const path of unusedPaths) {
+      lines.push(`hl8_config_unused{path="${escapeLabelValue(path)}"} 1`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * 获取或创建路径的访问统计
+   *
+   * @private
+   */
+  private getOrCreate(path: string): ConfigPathAccessStats {
+    const key = this.stats.has(path) || this.stats.size < this.maxPaths ? path : OTHER_CONFIG_PATH;
+    let stats = this.stats.get(key);
+
+    if (!stats) {
+      stats = {
+        path: key,
+        hits: 0,
+        misses: 0,
+        lastAccess: new Date(),
+        latency: { buckets: this.buckets, counts: this.buckets.map(() => 0), count: 0, sum: 0 }
+      };
+      this.stats.set(key, stats);
+    }
+
+    return stats;
+  }
+}
+
+/**
+ * 转义 Prometheus 标签值
+ *
+ * @private
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,138 @@
+import { isPlainObject } from '@hl8/utils';
+import { ApplicationMemoryConfig } from './config-classes/application-memory-config.js';
+import { ConfigPath, ConfigPathValue } from './config-classes/config-path.types.js';
+import { flattenConfigPaths } from './sources/layered-config.loader.js';
+
+/**
+ * 配置变更项
+ *
+ * @description 描述单个叶子配置键在两次加载之间的变化
+ */
+export interface ConfigChange {
+  /** 点号分隔的配置路径 */
+  path: string;
+  /** 变更前的值，新增配置键时为 undefined */
+  oldValue: unknown;
+  /** 变更后的值，删除配置键时为 undefined */
+  newValue: unknown;
+}
+
+/**
+ * 配置路径变更
+ *
+ * @description 订阅某个配置路径时收到的变更通知
+ * 订阅配置段（如 'database'）时，新旧值为整个配置段
+ */
+export interface ConfigPathChange<P extends ConfigPath = ConfigPath> {
+  /** 订阅的配置路径 */
+  path: P;
+  /** 变更前的值 */
+  oldValue: ConfigPathValue<P>;
+  /** 变更后的值 */
+  newValue: ConfigPathValue<P>;
+  /** 该路径下发生变化的叶子配置键 */
+  changes: ConfigChange[];
+}
+
+/**
+ * 配置变更事件
+ *
+ * @description 一次成功的配置重新加载所产生的变更事件
+ */
+export interface ConfigChangeEvent {
+  /** 变更前的配置 */
+  previous: ApplicationMemoryConfig;
+  /** 变更后的配置 */
+  current: ApplicationMemoryConfig;
+  /** 叶子配置键变更列表 */
+  changes: ConfigChange[];
+  /** 事件时间 */
+  timestamp: Date;
+}
+
+/**
+ * 计算配置差异
+ *
+ * @description 比较两份配置数据，返回所有发生变化的叶子配置键
+ * 数组按值整体比较，结果按路径排序
+ *
+ * @param {object} previous - 变更前的配置数据
+ * @param {object} current - 变更后的配置数据
+ * @returns {ConfigChange[]} 变更列表
+ *
+ * @example
+ * ```typescript
+ * diffConfig({ api: { port: 3000 } }, { api: { port: 8080 } });
+ * // [{ path: 'api.port', oldValue: 3000, newValue: 8080 }]
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function diffConfig(previous: object, current: object): ConfigChange[] {
+  const paths = new Set([
+    ...flattenConfigPaths(previous as Record<string, unknown>),
+    ...flattenConfigPaths(current as Record<string, unknown>)
+  ]);
+  const changes: ConfigChange[] = [];
+
+  for (const path of [...paths].sort()) {
+    const oldValue = getValueAtPath(previous, path);
+    const newValue = getValueAtPath(current, path);
+    if (!isSameValue(oldValue, newValue)) {
+      changes.push({ path, oldValue, newValue });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * 判断变更是否属于指定路径
+ *
+ * @description 变更路径等于订阅路径，或位于订阅路径之下时返回 true
+ *
+ * @param {string} changePath - 变更的叶子配置路径
+ * @param {string} path - 订阅的配置路径
+ * @returns {boolean} 是否匹配
+ *
+ * @since 1.0.0
+ */
+export function isChangeUnderPath(changePath: string, path: string): boolean {
+  return changePath === path || changePath.startsWith(`${path}.`);
+}
+
+/**
+ * 按路径读取值
+ *
+ * @description 从嵌套对象中读取点号路径对应的值
+ *
+ * @param {object} data - 配置数据
+ * @param {string} path - 点号分隔的路径
+ * @returns {unknown} 路径对应的值，不存在时返回 undefined
+ *
+ * @since 1.0.0
+ */
+export function getValueAtPath(data: object, path: string): unknown {
+  let current: unknown = data;
+
+  for (const key of path.split('.')) {
+    if (!isPlainObject(current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current;
+}
+
+/**
+ * 比较两个叶子值
+ *
+ * @private
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return Object.is(a, b);
+}
@@ -1,3 +1,39 @@
+import { parseContextLevels } from '@hl8/logger';
+import type { LoggerConfig, LogLevel, RequestDebugOptions } from '@hl8/logger';
+import { Sensitive, getSensitiveProperties, toSafeJSON } from './sensitive.decorator.js';
+import type { FeatureFlagDefinition } from '../../feature-flags/feature-flag.types.js';
+
+/**
+ * 内置配置键
+ *
+ * @description ApplicationMemoryConfig 固有的顶层配置键，命名空间不能与之重名
+ *
+ * @since 1.0.0
+ */
+export const BUILT_IN_CONFIG_KEYS: readonly string[] = [
+  'version',
+  'environment',
+  'loadTime',
+  'api',
+  'database',
+  'mongodb',
+  'redis',
+  'auth',
+  'assets',
+  'logging',
+  'features',
+  'limits',
+  'branding',
+  'flags'
+];
+
+/**
+ * 命名空间配置
+ *
+ * @description 以配置实例为键记录命名空间配置，避免作为数据属性出现在序列化结果中
+ */
+const namespaceSections = new WeakMap<object, Record<string, object>>();
+
 /**
  * 应用内存配置类
  *
@@ -86,7 +122,28 @@ export class ApplicationMemoryConfig {
    */
   readonly features: FeaturesMemoryConfig;
 
-  constructor(configData: any) {
+  /**
+   * 使用限额配置
+   */
+  readonly limits: LimitsMemoryConfig;
+
+  /**
+   * 品牌配置
+   */
+  readonly branding: BrandingMemoryConfig;
+
+  /**
+   * 功能开关定义
+   *
+   * @description 带定向规则和百分比灰度的功能开关，由 FeatureFlagService 评估
+   */
+  readonly flags: Record<string, FeatureFlagDefinition>;
+
+  /**
+   * @param {any} configData - 配置数据
+   * @param {Record<string, object>} namespaces - ConfigModule.forFeature() 注册的命名空间配置，作为顶层配置段挂载
+   */
+  constructor(configData: any, namespaces: Record<string, object> = {}) {
     this.version = configData.version || '1.0.0';
     this.environment = configData.environment || 'development';
     this.loadTime = configData.loadTime || new Date().toISOString();
@@ -100,6 +157,15 @@ export class ApplicationMemoryConfig {
     this.assets = new AssetsMemoryConfig(configData.assets);
     this.logging = new LoggingMemoryConfig(configData.logging);
     this.features = new FeaturesMemoryConfig(configData.features);
+    this.limits = new LimitsMemoryConfig(configData.limits);
+    this.branding = new BrandingMemoryConfig(configData.branding);
+    this.flags = configData.flags || {};
+
+    // 挂载命名空间配置，使其参与路径访问、脱敏序列化和变更比较
+    for (const [namespace, section] of Object.entries(namespaces)) {
+      Object.defineProperty(this, namespace, { value: section, enumerable: true });
+    }
+    namespaceSections.set(this, namespaces);
   }
 
   /**
@@ -210,10 +276,46 @@ export class ApplicationMemoryConfig {
     return this.features;
   }
 
+  /**
+   * 获取使用限额配置
+   *
+   * @description 获取使用限额配置对象
+   * @returns {LimitsMemoryConfig} 使用限额配置
+   * 
+   * @since 1.0.0
+   */
+  getLimitsConfig(): LimitsMemoryConfig {
+    return this.limits;
+  }
+
+  /**
+   * 获取品牌配置
+   *
+   * @description 获取品牌配置对象
+   * @returns {BrandingMemoryConfig} 品牌配置
+   * 
+   * @since 1.0.0
+   */
+  getBrandingConfig(): BrandingMemoryConfig {
+    return this.branding;
+  }
+
+  /**
+   * 获取功能开关定义
+   *
+   * @description 获取 flags 配置段中的所有功能开关定义
+   * @returns {Record<string, FeatureFlagDefinition>} 功能开关定义
+   * 
+   * @since 1.0.0
+   */
+  getFlagsConfig(): Record<string, FeatureFlagDefinition> {
+    return this.flags;
+  }
+
   /**
    * 获取配置键列表
    *
-   * @description 获取所有配置键的列表
+   * @description 获取所有顶层配置键的列表，包含 ConfigModule.forFeature() 注册的命名空间
    * @returns {string[]} 配置键列表
    * 
    * @example
@@ -225,19 +327,37 @@ export class ApplicationMemoryConfig {
    * @since 1.0.0
    */
   getConfigKeys(): string[] {
-    return [
-      'version',
-      'environment',
-      'loadTime',
-      'api',
-      'database',
-      'mongodb',
-      'redis',
-      'auth',
-      'assets',
-      'logging',
-      'features'
-    ];
+    return [...BUILT_IN_CONFIG_KEYS, ...Object.keys(this.getNamespaces())];
+  }
+
+  /**
+   * 获取命名空间配置
+   *
+   * @description 获取 ConfigModule.forFeature() 注册的命名空间配置
+   * @param {string} namespace - 配置命名空间
+   * @returns {T | undefined} 配置模式类实例，命名空间未注册时返回 undefined
+   * 
+   * @example
+   * ```typescript
+   * const payments = config.getNamespaceConfig<PaymentsConfigSchema>('payments');
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  getNamespaceConfig<T extends object>(namespace: string): T | undefined {
+    return this.getNamespaces()[namespace] as T | undefined;
+  }
+
+  /**
+   * 获取所有命名空间配置
+   *
+   * @description 获取 ConfigModule.forFeature() 注册的所有命名空间配置
+   * @returns {Record<string, object>} 命名空间与配置模式类实例的映射
+   * 
+   * @since 1.0.0
+   */
+  getNamespaces(): Record<string, object> {
+    return namespaceSections.get(this) ?? {};
   }
 
   /**
@@ -287,6 +407,92 @@ export class ApplicationMemoryConfig {
       isProduction: this.environment === 'production'
     };
   }
+
+  /**
+   * 转换为脱敏的普通对象
+   *
+   * @description 返回完整配置的深拷贝，@Sensitive() 标记的配置项被替换为脱敏占位值
+   * 用于日志、诊断接口和任何需要输出完整配置的场景
+   * @returns {Record<string, unknown>} 脱敏后的配置
+   * 
+   * @example
+   * ```typescript
+   * const safe = config.toSafeJSON();
+   * console.log(safe.auth); // { jwtSecret: '******', ... }
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  toSafeJSON(): Record<string, unknown> {
+    return toSafeJSON(this) as Record<string, unknown>;
+  }
+
+  /**
+   * JSON 序列化
+   *
+   * @description JSON.stringify() 和日志序列化时自动脱敏
+   * @returns {Record<string, unknown>} 脱敏后的配置
+   * 
+   * @since 1.0.0
+   */
+  toJSON(): Record<string, unknown> {
+    return this.toSafeJSON();
+  }
+}
+
+/**
+ * 获取配置分区类
+ *
+ * @description 配置分区名称与内存配置类的对应关系
+ * 
+ * @private
+ */
+function getConfigSectionClasses(): Record<string, object> {
+  return {
+    api: ApiMemoryConfig,
+    database: DatabaseMemoryConfig,
+    mongodb: MongoDbMemoryConfig,
+    redis: RedisMemoryConfig,
+    auth: AuthMemoryConfig,
+    assets: AssetsMemoryConfig,
+    logging: LoggingMemoryConfig,
+    features: FeaturesMemoryConfig,
+    limits: LimitsMemoryConfig,
+    branding: BrandingMemoryConfig
+  };
+}
+
+/**
+ * 获取敏感配置路径
+ *
+ * @description 根据内存配置类上的 @Sensitive() 标记列出所有敏感配置路径
+ * @returns {string[]} 敏感配置路径，如 'auth.jwtSecret'
+ * 
+ * @example
+ * ```typescript
+ * getSensitiveConfigPaths();
+ * // ['database.password', 'mongodb.password', 'redis.password', 'auth.jwtSecret', 'auth.sessionSecret']
+ * ```
+ * 
+ * @since 1.0.0
+ */
+export function getSensitiveConfigPaths(): string[] {
+  return Object.entries(getConfigSectionClasses()).flatMap(([section, sectionClass]) =>
+    getSensitiveProperties(sectionClass).map(property => `${section}.${property}`)
+  );
+}
+
+/**
+ * 判断是否为敏感配置路径
+ *
+ * @description 路径为 @Sensitive() 标记的叶子配置时返回 true
+ * @param {string} path - 配置路径
+ * @returns {boolean} 是否敏感
+ * 
+ * @since 1.0.0
+ */
+export function isSensitiveConfigPath(path: string): boolean {
+  return getSensitiveConfigPaths().includes(path);
 }
 
 /**
@@ -323,6 +529,7 @@ export class DatabaseMemoryConfig {
   readonly port: number;
   readonly name: string;
   readonly username: string;
+  @Sensitive()
   readonly password: string;
   readonly sslMode: boolean;
   readonly logging: boolean;
@@ -355,6 +562,7 @@ export class MongoDbMemoryConfig {
   readonly port: number;
   readonly name: string;
   readonly username: string;
+  @Sensitive()
   readonly password: string;
   readonly sslMode: boolean;
   readonly logging: boolean;
@@ -378,6 +586,7 @@ export class MongoDbMemoryConfig {
 export class RedisMemoryConfig {
   readonly host: string;
   readonly port: number;
+  @Sensitive()
   readonly password: string;
   readonly db: number;
 
@@ -395,9 +604,11 @@ export class RedisMemoryConfig {
  * @description 认证相关的配置类
  */
 export class AuthMemoryConfig {
+  @Sensitive()
   readonly jwtSecret: string;
   readonly jwtExpiresIn: string;
   readonly passwordSaltRounds: number;
+  @Sensitive()
   readonly sessionSecret: string;
 
   constructor(configData: any) {
@@ -435,9 +646,15 @@ export class AssetsMemoryConfig {
 export class LoggingMemoryConfig {
   readonly level: string;
   readonly format: string;
-  readonly destination: string;
+  /** 输出目标，列表表示同时输出到多个目标 */
+  readonly destination: string | string[];
   readonly maxFiles: number;
   readonly maxSize: string;
+  /** 按上下文覆盖的日志级别，如 'DatabaseConnectionManager=debug,Cache*=warn' */
+  readonly levels: string;
+  /** 单请求调试签名密钥，为空时不启用 */
+  @Sensitive()
+  readonly debugSecret: string;
 
   constructor(configData: any) {
     this.level = configData.level || 'info';
@@ -445,6 +662,63 @@ export class LoggingMemoryConfig {
     this.destination = configData.destination || 'console';
     this.maxFiles = configData.maxFiles || 5;
     this.maxSize = configData.maxSize || '10m';
+    this.levels = configData.levels || '';
+    this.debugSecret = configData.debugSecret || '';
+  }
+
+  /**
+   * 获取按上下文覆盖的日志级别
+   *
+   * @returns {Record<string, LogLevel>} 上下文名称到日志级别的映射
+   *
+   * @since 1.0.0
+   */
+  getContextLevels(): Record<string, LogLevel> {
+    return parseContextLevels(this.levels);
+  }
+
+  /**
+   * 获取单请求调试选项
+   *
+   * @returns {RequestDebugOptions} 传给 logLevelManager.configureRequestDebug() 的选项
+   *
+   * @since 1.0.0
+   */
+  getRequestDebugOptions(): RequestDebugOptions {
+    return this.debugSecret ? { secret: this.debugSecret } : {};
+  }
+
+  /**
+   * 转换为日志模块配置
+   *
+   * @description 按 destination 生成日志输出目标，列表中的每一项对应一个输出目标
+   * - console：format 为 'pretty' 时使用易读格式，否则输出 JSON
+   * - file：始终输出 JSON，按 maxSize（LOG_MAX_SIZE）和 maxFiles（LOG_MAX_FILES）轮转日志文件
+   *
+   * @param path - 日志文件路径，默认为 './logs/app.log'
+   * @returns {LoggerConfig} 可直接传给 PinoLogger 或 LoggerModule 的配置
+   *
+   * @example
+   * ```typescript
+   * LoggerModule.forRootAsync({
+   *   inject: [MemoryConfigService],
+   *   useFactory: (config: MemoryConfigService) => ({ config: config.getLoggingConfig().toLoggerConfig() })
+   * });
+   * ```
+   *
+   * @since 1.0.0
+   */
+  toLoggerConfig(path = './logs/app.log'): LoggerConfig {
+    const targets = Array.isArray(this.destination) ? this.destination : [this.destination];
+
+    return {
+      level: this.level as LogLevel,
+      destinations: [...new Set(targets)].map(target =>
+        target === 'file'
+          ? { type: 'file', path, rotation: { maxSize: this.maxSize, maxFiles: this.maxFiles } }
+          : { type: 'console', format: this.format === 'pretty' ? 'pretty' : 'json' }
+      )
+    };
   }
 }
 
@@ -455,6 +729,7 @@ export class LoggingMemoryConfig {
  */
 export class FeaturesMemoryConfig {
   readonly enableSwagger: boolean;
+  readonly swaggerAuth: boolean;
   readonly enableMetrics: boolean;
   readonly enableCors: boolean;
   readonly enableRateLimit: boolean;
@@ -462,6 +737,7 @@ export class FeaturesMemoryConfig {
 
   constructor(configData: any) {
     this.enableSwagger = configData.enableSwagger || false;
+    this.swaggerAuth = configData.swaggerAuth || false;
     this.enableMetrics = configData.enableMetrics || false;
     this.enableCors = configData.enableCors || false;
     this.enableRateLimit = configData.enableRateLimit || false;
@@ -469,6 +745,40 @@ export class FeaturesMemoryConfig {
   }
 }
 
+/**
+ * 使用限额内存配置类
+ *
+ * @description 使用限额相关的配置类，可按租户覆盖，0 表示不限制
+ */
+export class LimitsMemoryConfig {
+  readonly maxUsers: number;
+  readonly maxStorage: number;
+  readonly requestsPerMinute: number;
+
+  constructor(configData: any = {}) {
+    this.maxUsers = configData.maxUsers || 0;
+    this.maxStorage = configData.maxStorage || 0;
+    this.requestsPerMinute = configData.requestsPerMinute || 1000;
+  }
+}
+
+/**
+ * 品牌内存配置类
+ *
+ * @description 品牌展示相关的配置类，可按租户覆盖
+ */
+export class BrandingMemoryConfig {
+  readonly appName: string;
+  readonly logoUrl: string;
+  readonly primaryColor: string;
+
+  constructor(configData: any = {}) {
+    this.appName = configData.appName || 'HL8 SaaS Platform';
+    this.logoUrl = configData.logoUrl || '';
+    this.primaryColor = configData.primaryColor || '#1890ff';
+  }
+}
+
 /**
  * 配置摘要接口
  *
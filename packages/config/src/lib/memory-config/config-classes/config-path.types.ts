@@ -0,0 +1,64 @@
+import { ApplicationMemoryConfig } from './application-memory-config.js';
+
+/**
+ * 配置数据键
+ *
+ * @description 提取配置类中的数据属性键，排除 getApiConfig() 等访问方法
+ */
+type ConfigDataKeys<T> = {
+  [K in keyof T & string]: T[K] extends (...args: never[]) => unknown ? never : K;
+}[keyof T & string];
+
+/**
+ * 是否为嵌套配置
+ *
+ * @description 判断配置值是否为可继续展开路径的配置对象
+ * 数组和日期被视为叶子值
+ */
+type IsNestedConfig<T> = T extends object
+  ? T extends readonly unknown[] | Date
+    ? false
+    : true
+  : false;
+
+/**
+ * 配置路径类型
+ *
+ * @description 由配置类结构推导出的所有合法点号路径
+ * 包含配置段路径（如 'database'）与叶子路径（如 'database.poolSize'）
+ *
+ * @example
+ * ```typescript
+ * const path: ConfigPath = 'api.port';   // ✅
+ * const typo: ConfigPath = 'api.prot';   // ❌ 编译错误
+ * ```
+ *
+ * @since 1.0.0
+ */
+export type ConfigPath<T = ApplicationMemoryConfig> = {
+  [K in ConfigDataKeys<T>]: IsNestedConfig<T[K]> extends true
+    ? K | `${K}.${ConfigPath<T[K]>}`
+    : K;
+}[ConfigDataKeys<T>];
+
+/**
+ * 配置路径值类型
+ *
+ * @description 根据配置路径推导对应配置值的类型
+ *
+ * @example
+ * ```typescript
+ * type PoolSize = ConfigPathValue<'database.poolSize'>; // number
+ * type Redis = ConfigPathValue<'redis'>;                // RedisMemoryConfig
+ * ```
+ *
+ * @since 1.0.0
+ */
+export type ConfigPathValue<P extends string, T = ApplicationMemoryConfig> =
+  P extends `${infer K}.${infer R}`
+    ? K extends keyof T
+      ? ConfigPathValue<R, T[K]>
+      : never
+    : P extends keyof T
+      ? T[P]
+      : never;
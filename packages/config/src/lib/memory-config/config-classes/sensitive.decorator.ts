@@ -0,0 +1,99 @@
+import { isPlainObject } from '@hl8/utils';
+
+/**
+ * 脱敏占位值
+ *
+ * @description 敏感配置在序列化、日志和诊断输出中的替换值
+ */
+export const REDACTED_VALUE = '******';
+
+/**
+ * 敏感属性注册表
+ *
+ * @description 以类原型为键记录被 @Sensitive() 标记的属性
+ */
+const SENSITIVE_PROPERTIES = new WeakMap<object, Set<string>>();
+
+/**
+ * 敏感配置装饰器
+ *
+ * @description 将内存配置类的属性标记为敏感配置
+ * 被标记的属性在 toSafeJSON()、JSON 序列化、日志和诊断输出中会被替换为 REDACTED_VALUE
+ * 读取原始值应通过 MemoryConfigService.getSecret()，以便审计
+ *
+ * @example
+ * ```typescript
+ * export class AuthMemoryConfig {
+ *   @Sensitive()
+ *   readonly jwtSecret: string;
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function Sensitive(): PropertyDecorator {
+  return (target: object, propertyKey: string | symbol) => {
+    const properties = SENSITIVE_PROPERTIES.get(target) ?? new Set<string>();
+    properties.add(String(propertyKey));
+    SENSITIVE_PROPERTIES.set(target, properties);
+  };
+}
+
+/**
+ * 获取敏感属性列表
+ *
+ * @description 沿原型链收集被 @Sensitive() 标记的属性名
+ *
+ * @param {object} target - 配置类实例或配置类
+ * @returns {string[]} 敏感属性名列表
+ *
+ * @since 1.0.0
+ */
+export function getSensitiveProperties(target: object): string[] {
+  const properties = new Set<string>();
+  let prototype: object | null = typeof target === 'function' ? (target as { prototype: object }).prototype : Object.getPrototypeOf(target);
+
+  while (prototype && prototype !== Object.prototype) {
+    SENSITIVE_PROPERTIES.get(prototype)?.forEach(property => properties.add(property));
+    prototype = Object.getPrototypeOf(prototype);
+  }
+
+  return [...properties];
+}
+
+/**
+ * 转换为脱敏的普通对象
+ *
+ * @description 深度复制配置对象，并将 @Sensitive() 标记的属性替换为 REDACTED_VALUE
+ * 未设置（undefined 或空字符串）的敏感属性保持原值，便于诊断缺失的密钥
+ *
+ * @param {T} value - 配置对象
+ * @returns {unknown} 可安全序列化的普通对象
+ *
+ * @example
+ * ```typescript
+ * toSafeJSON(config.getAuthConfig());
+ * // { jwtSecret: '******', jwtExpiresIn: '24h', ... }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function toSafeJSON<T>(value: T): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => toSafeJSON(item));
+  }
+  if (!isPlainObject(value) || value instanceof Date) {
+    return value;
+  }
+
+  const sensitive = new Set(getSensitiveProperties(value as object));
+  const result: Record<string, unknown> = {};
+
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = sensitive.has(key) && item !== undefined && item !== ''
+      ? REDACTED_VALUE
+      : toSafeJSON(item);
+  }
+
+  return result;
+}
@@ -0,0 +1,333 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { loggerRegistry } from '@hl8/logger';
+import { deepClone, generateSha256Hash } from '@hl8/utils';
+import { ApplicationMemoryConfig } from './config-classes/application-memory-config.js';
+import { ConfigChange, diffConfig, getValueAtPath } from './config-change.js';
+import { flattenConfigPaths } from './sources/layered-config.loader.js';
+
+/**
+ * 配置快照触发方式
+ *
+ * @description 产生配置快照的操作
+ * - initial: 应用启动时的首次加载
+ * - reload: 调用 reloadConfig() 重新加载
+ * - watch: 配置源变化触发的热重载
+ * - rollback: 调用 rollbackTo() 回滚
+ */
+export type ConfigSnapshotTrigger = 'initial' | 'reload' | 'watch' | 'rollback';
+
+/**
+ * 配置快照
+ *
+ * @description 每次成功加载、重新加载或回滚配置后生成的不可变快照
+ * 快照中的配置和变更均已脱敏，可以直接用于审计和诊断接口
+ */
+export interface ConfigSnapshot {
+  /** 快照版本号，从 1 开始递增 */
+  readonly version: number;
+  /** 配置内容的 SHA-256 哈希，不含加载时间，内容相同的配置哈希相同 */
+  readonly hash: string;
+  /** 生成时间 */
+  readonly timestamp: Date;
+  /** 触发方式 */
+  readonly trigger: ConfigSnapshotTrigger;
+  /** 参与合并的配置源名称 */
+  readonly sources: readonly string[];
+  /** 相对上一个快照的变更，敏感配置值已脱敏 */
+  readonly changes: readonly ConfigChange[];
+  /** 脱敏后的完整配置 */
+  readonly config: Readonly<Record<string, unknown>>;
+  /** 回滚快照对应的目标版本 */
+  readonly rolledBackTo?: number;
+}
+
+/**
+ * 配置历史选项
+ *
+ * @description 配置快照的保留数量与持久化设置
+ */
+export interface ConfigHistoryOptions {
+  /** 内存中保留的快照数量，默认为 20 */
+  maxSnapshots?: number;
+  /**
+   * 快照持久化文件路径
+   *
+   * @description 设置后每次生成快照都会写入该文件，重启后恢复历史记录
+   * 文件中只保存脱敏后的配置，从文件恢复的快照只能查询，不能回滚
+   */
+  file?: string;
+}
+
+/**
+ * 快照对应的原始配置
+ *
+ * @description 回滚时重新应用的配置数据，包含未脱敏的密钥，只保存在内存中
+ */
+export interface ConfigSnapshotState {
+  /** 解析密钥后的配置数据 */
+  data: Record<string, unknown>;
+  /** 配置键来源映射 */
+  keySources: Record<string, string>;
+  /** 参与合并的配置源名称 */
+  sources: string[];
+}
+
+/**
+ * 快照记录参数
+ */
+export interface ConfigSnapshotRecord extends ConfigSnapshotState {
+  /** 变更前的配置，首次加载时为 null */
+  previous: ApplicationMemoryConfig | null;
+  /** 变更后的配置 */
+  current: ApplicationMemoryConfig;
+  /** 触发方式 */
+  trigger: ConfigSnapshotTrigger;
+  /** 回滚目标版本 */
+  rolledBackTo?: number;
+}
+
+/**
+ * 配置历史
+ *
+ * @description 记录配置快照，支持查询和回滚
+ *
+ * ## 主要功能
+ * - 每次成功加载配置生成一个快照：版本号、内容哈希、时间、触发方式、配置源和变更
+ * - 内存中保留最近 N 个快照，超出时丢弃最旧的快照
+ * - 可选地将快照写入本地 JSON 文件，重启后恢复历史记录
+ * - 快照对象深度冻结，不可修改
+ *
+ * @example
+ * ```typescript
+ * const history = new ConfigHistory({ maxSnapshots: 10, file: '.config-history.json' });
+ * history.restore();
+ * history.record({ previous, current, data, keySources, sources, trigger: 'reload' });
+ * console.log(history.list());
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class ConfigHistory {
+  /**
+   * 日志记录器
+   */
+  private readonly logger = loggerRegistry.getLogger('ConfigHistory');
+
+  /**
+   * 快照列表，按版本从旧到新排列
+   */
+  private snapshots: ConfigSnapshot[] = [];
+
+  /**
+   * 快照对应的原始配置
+   */
+  private readonly states = new Map<number, ConfigSnapshotState>();
+
+  /**
+   * 内存中保留的快照数量
+   */
+  private readonly maxSnapshots: number;
+
+  constructor(private readonly options: ConfigHistoryOptions = {}) {
+    this.maxSnapshots = Math.max(1, options.maxSnapshots ?? 20);
+  }
+
+  /**
+   * 从持久化文件恢复快照
+   *
+   * @description 文件不存在时不做任何操作，文件损坏时记录警告并从空历史开始
+   *
+   * @since 1.0.0
+   */
+  restore(): void {
+    const file = this.options.file;
+    if (!file || !existsSync(file)) {
+      return;
+    }
+
+    try {
+      const stored = JSON.parse(readFileSync(file, 'utf-8')) as { snapshots?: ConfigSnapshot[] };
+      this.snapshots = (stored.snapshots ?? [])
+        .map(snapshot => freezeDeep({ ...snapshot, timestamp: new Date(snapshot.timestamp) }))
+        .slice(-this.maxSnapshots);
+    } catch (error) {
+      this.logger.warn('配置历史文件无法读取，从空历史开始', {
+        file,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * 记录配置快照
+   *
+   * @param {ConfigSnapshotRecord} record - 快照记录参数
+   * @returns {ConfigSnapshot} 新生成的快照
+   *
+   * @since 1.0.0
+   */
+  record(record: ConfigSnapshotRecord): ConfigSnapshot {
+    const latest = this.snapshots[this.snapshots.length - 1];
+    const snapshot: ConfigSnapshot = freezeDeep({
+      version: (latest?.version ?? 0) + 1,
+      hash: computeConfigHash(record.data),
+      timestamp: new Date(),
+      trigger: record.trigger,
+      sources: [...record.sources],
+      changes: record.previous ? redactChanges(record.previous, record.current) : [],
+      config: record.current.toSafeJSON(),
+      ...(record.rolledBackTo !== undefined ? { rolledBackTo: record.rolledBackTo } : {})
+    });
+
+    this.snapshots.push(snapshot);
+    this.states.set(snapshot.version, {
+      data: deepClone(record.data),
+      keySources: { ...record.keySources },
+      sources: [...record.sources]
+    });
+
+    for (const dropped of this.snapshots.splice(0, Math.max(0, this.snapshots.length - this.maxSnapshots))) {
+      this.states.delete(dropped.version);
+    }
+
+    this.persist();
+    return snapshot;
+  }
+
+  /**
+   * 列出快照
+   *
+   * @param {number} limit - 返回的最大数量
+   * @returns {ConfigSnapshot[]} 快照列表，最新的在前
+   *
+   * @since 1.0.0
+   */
+  list(limit = this.maxSnapshots): ConfigSnapshot[] {
+    return this.snapshots.slice(-limit).reverse();
+  }
+
+  /**
+   * 获取快照
+   *
+   * @param {number} version - 快照版本号
+   * @returns {ConfigSnapshot | undefined} 快照，不存在时返回 undefined
+   *
+   * @since 1.0.0
+   */
+  get(version: number): ConfigSnapshot | undefined {
+    return this.snapshots.find(snapshot => snapshot.version === version);
+  }
+
+  /**
+   * 获取最新快照
+   *
+   * @returns {ConfigSnapshot | undefined} 最新快照，没有快照时返回 undefined
+   *
+   * @since 1.0.0
+   */
+  latest(): ConfigSnapshot | undefined {
+    return this.snapshots[this.snapshots.length - 1];
+  }
+
+  /**
+   * 获取快照对应的原始配置
+   *
+   * @description 用于回滚，从持久化文件恢复的快照没有原始配置
+   *
+   * @param {number} version - 快照版本号
+   * @returns {ConfigSnapshotState | undefined} 原始配置
+   *
+   * @since 1.0.0
+   */
+  getState(version: number): ConfigSnapshotState | undefined {
+    const state = this.states.get(version);
+    return state ? deepClone(state) : undefined;
+  }
+
+  /**
+   * 写入持久化文件
+   *
+   * @description 先写入临时文件再重命名，避免进程中断留下不完整的文件
+   * 写入失败只记录警告，不影响配置加载
+   *
+   * @private
+   */
+  private persist(): void {
+    const file = this.options.file;
+    if (!file) {
+      return;
+    }
+
+    try {
+      mkdirSync(dirname(file), { recursive: true });
+      const temp = `${file}.tmp`;
+      writeFileSync(temp, JSON.stringify({ snapshots: this.snapshots }, null, 2));
+      renameSync(temp, file);
+    } catch (error) {
+      this.logger.warn('配置历史写入失败', {
+        file,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * 计算配置内容哈希
+ *
+ * @description 按路径排序后对所有叶子配置值做 SHA-256 哈希，与键的声明顺序无关
+ * 加载时间不参与计算
+ *
+ * @param {Record<string, unknown>} data - 配置数据
+ * @returns {string} 十六进制哈希值
+ *
+ * @example
+ * ```typescript
+ * computeConfigHash({ api: { port: 3000 } }) === computeConfigHash({ api: { port: 3000 } }); // true
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function computeConfigHash(data: Record<string, unknown>): string {
+  const entries = flattenConfigPaths(data)
+    .filter(path => path !== 'loadTime')
+    .sort()
+    .map(path => [path, getValueAtPath(data, path)]);
+  return generateSha256Hash(JSON.stringify(entries));
+}
+
+/**
+ * 计算脱敏后的配置变更
+ *
+ * @description 按原始配置比较，保证只有密钥变化时也能记录变更，变更值取自脱敏后的配置
+ *
+ * @private
+ */
+function redactChanges(previous: ApplicationMemoryConfig, current: ApplicationMemoryConfig): ConfigChange[] {
+  const safePrevious = previous.toSafeJSON();
+  const safeCurrent = current.toSafeJSON();
+
+  return diffConfig(previous, current)
+    .filter(change => change.path !== 'loadTime')
+    .map(change => ({
+      path: change.path,
+      oldValue: getValueAtPath(safePrevious, change.path),
+      newValue: getValueAtPath(safeCurrent, change.path)
+    }));
+}
+
+/**
+ * 深度冻结对象
+ *
+ * @private
+ */
+function freezeDeep<T>(value: T): T {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const item of Object.values(value)) {
+      freezeDeep(item);
+    }
+  }
+  return value;
+}
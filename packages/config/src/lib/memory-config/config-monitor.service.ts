@@ -1,8 +1,10 @@
 import { Injectable } from '@nestjs/common';
-import { PinoLogger } from '@hl8/logger';
+import { loggerRegistry } from '@hl8/logger';
 import { MemoryConfigService } from './memory-config.service.js';
 import { ConfigCompatibilityAdapter } from './compatibility-adapter.js';
 import { HybridConfigService } from './hybrid-config.service.js';
+import { ConfigAccessTotals, ConfigPathAccessStats } from './config-access-metrics.js';
+import { flattenConfigPaths } from './sources/layered-config.loader.js';
 
 /**
  * 配置监控服务
@@ -22,6 +24,11 @@ import { HybridConfigService } from './hybrid-config.service.js';
  * - 检查内存使用情况
  * - 分析性能指标
  *
+ * ### 配置访问统计
+ * - 基于 get() 自动记录的访问指标，按路径统计读取次数、未命中次数和耗时
+ * - 找出从未被读取的配置项
+ * - 导出 Prometheus 文本格式的指标
+ *
  * ### 健康检查
  * - 配置服务健康检查
  * - 配置数据完整性检查
@@ -47,10 +54,7 @@ export class ConfigMonitorService {
   /**
    * 日志记录器
    */
-  private readonly logger = new PinoLogger({
-    level: 'info',
-    destination: { type: 'console' }
-  });
+  private readonly logger = loggerRegistry.getLogger('ConfigMonitorService');
 
   /**
    * 性能指标存储
@@ -220,6 +224,18 @@ export class ConfigMonitorService {
         issues.push('Redis配置无效');
       }
 
+      // 检查 ConfigModule.forFeature() 注册的命名空间配置
+      const namespaces = this.memoryConfig.getNamespaceRegistrations().map(registration => registration.namespace);
+      if (namespaces.length > 0) {
+        const result = await this.memoryConfig.validateCurrentConfig();
+        for (const error of result.errors) {
+          if (namespaces.some(namespace => error.property === namespace || error.property.startsWith(`${namespace}.`))) {
+            isValid = false;
+            issues.push(`命名空间配置无效: ${error.property} (${Object.values(error.constraints).join(', ')})`);
+          }
+        }
+      }
+
       return {
         isValid,
         issues,
@@ -249,9 +265,9 @@ export class ConfigMonitorService {
     let isConsistent = true;
 
     try {
-      // 检查内存配置与兼容适配器的一致性
+      // 检查内存配置与兼容适配器的一致性（不经过 get()，避免健康检查计入配置访问指标）
       const memoryApiConfig = this.memoryConfig.getApiConfig();
-      const adapterApiConfig = this.compatibilityAdapter.get<any>('api');
+      const adapterApiConfig = this.compatibilityAdapter.getAllConfig().api;
 
       if (memoryApiConfig.port !== adapterApiConfig?.port) {
         isConsistent = false;
@@ -300,15 +316,23 @@ export class ConfigMonitorService {
     let isHealthy = true;
 
     try {
+      // 检查 get() 自动记录的配置读取耗时
+      const configAccess = this.memoryConfig.getAccessMetrics().getTotals();
+      if (configAccess.averageLatency > 1) { // 1ms
+        isHealthy = false;
+        issues.push(`配置读取平均耗时过长: ${configAccess.averageLatency.toFixed(3)}ms`);
+      }
+
       // 检查最近的性能指标
       const recentMetrics = this.performanceMetrics.slice(-10);
       if (recentMetrics.length === 0) {
         return {
-          isHealthy: true,
-          issues: [],
+          isHealthy,
+          issues,
           timestamp: new Date().toISOString(),
           averageResponseTime: 0,
-          totalRequests: 0
+          totalRequests: 0,
+          configAccess
         };
       }
 
@@ -331,7 +355,8 @@ export class ConfigMonitorService {
         issues,
         timestamp: new Date().toISOString(),
         averageResponseTime,
-        totalRequests
+        totalRequests,
+        configAccess
       };
 
     } catch (error) {
@@ -483,9 +508,75 @@ export class ConfigMonitorService {
       totalRequests,
       totalHealthChecks: this.healthCheckHistory.length,
       totalPerformanceMetrics: this.performanceMetrics.length,
-      memoryUsage: process.memoryUsage().heapUsed
+      memoryUsage: process.memoryUsage().heapUsed,
+      configAccess: this.memoryConfig.getAccessMetrics().getTotals()
     };
   }
+
+  /**
+   * 获取配置访问统计
+   *
+   * @description 获取通过 get() 读取配置的统计，可用于找出热点配置和读取了不存在路径的代码
+   * @param {number} limit - 限制返回记录数
+   * @returns {ConfigPathAccessStats[]} 访问统计，按读取次数从高到低排列
+   *
+   * @example
+   * ```typescript
+   * const hotPaths = configMonitor.getConfigAccessStats(10);
+   * const missedPaths = hotPaths.filter(stats => stats.misses > 0);
+   * ```
+   *
+   * @since 1.0.0
+   */
+  getConfigAccessStats(limit = 100): ConfigPathAccessStats[] {
+    return this.memoryConfig.getAccessMetrics().list().slice(0, limit);
+  }
+
+  /**
+   * 获取未使用的配置项
+   *
+   * @description 找出进程启动以来从未通过 get() 成功读取的叶子配置项
+   * 只统计 get() 的读取，通过 getApiConfig() 等方法读取的配置不会被记录
+   * @returns {string[]} 未使用的配置路径，按路径排序
+   *
+   * @example
+   * ```typescript
+   * const deadKeys = configMonitor.getDeadConfigKeys();
+   * console.log('可能已废弃的配置:', deadKeys);
+   * ```
+   *
+   * @since 1.0.0
+   */
+  getDeadConfigKeys(): string[] {
+    if (!this.memoryConfig.getConfigStatus().isLoaded) {
+      return [];
+    }
+
+    const paths = flattenConfigPaths(this.memoryConfig.getAllConfig().toSafeJSON())
+      .filter(path => path !== 'loadTime');
+    return this.memoryConfig.getAccessMetrics().findUnusedPaths(paths);
+  }
+
+  /**
+   * 导出 Prometheus 指标
+   *
+   * @description 导出配置读取次数、读取耗时直方图和未使用的配置项
+   * @returns {string} Prometheus 文本格式的指标
+   *
+   * @example
+   * ```typescript
+   * @Get('metrics')
+   * @Header('Content-Type', 'text/plain; version=0.0.4')
+   * getMetrics(): string {
+   *   return this.configMonitor.exportPrometheusMetrics();
+   * }
+   * ```
+   *
+   * @since 1.0.0
+   */
+  exportPrometheusMetrics(): string {
+    return this.memoryConfig.getAccessMetrics().toPrometheus(this.getDeadConfigKeys());
+  }
 }
 
 /**
@@ -556,6 +647,8 @@ export interface PerformanceHealthStatus {
   averageResponseTime: number;
   /** 总请求数 */
   totalRequests: number;
+  /** get() 自动记录的配置访问汇总 */
+  configAccess?: ConfigAccessTotals;
 }
 
 /**
@@ -610,4 +703,6 @@ export interface MonitoringSummary {
   totalPerformanceMetrics: number;
   /** 内存使用量 */
   memoryUsage: number;
+  /** get() 自动记录的配置访问汇总 */
+  configAccess: ConfigAccessTotals;
 }
@@ -0,0 +1,108 @@
+import { Inject } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+
+/**
+ * 配置模式类
+ *
+ * @description 功能库声明的配置类，使用 class-validator 装饰器描述验证规则
+ * 属性初始值作为默认值，可以使用 @Sensitive() 标记敏感配置项
+ *
+ * @example
+ * ```typescript
+ * export class PaymentsConfigSchema {
+ *   @IsString()
+ *   provider = 'stripe';
+ *
+ *   @IsString()
+ *   @Sensitive()
+ *   apiKey = '';
+ * }
+ * ```
+ */
+export type ConfigSchemaClass<T extends object = object> = new () => T;
+
+/**
+ * 配置命名空间注册信息
+ *
+ * @description ConfigModule.forFeature() 注册的配置命名空间
+ */
+export interface ConfigNamespaceRegistration<T extends object = object> {
+  /** 命名空间，即配置源中的顶层配置键 */
+  namespace: string;
+  /** 配置模式类 */
+  schema: ConfigSchemaClass<T>;
+}
+
+/**
+ * 配置模式类注入令牌
+ *
+ * @description 每个配置模式类对应一个唯一的注入令牌
+ */
+const configTokens = new WeakMap<ConfigSchemaClass, symbol>();
+
+/**
+ * 获取配置模式类的注入令牌
+ *
+ * @description 返回 ConfigModule.forFeature() 注册配置模式类时使用的注入令牌
+ * 通常通过 @InjectConfig() 使用，需要手动注册提供者时可以直接使用令牌
+ *
+ * @param {ConfigSchemaClass} schema - 配置模式类
+ * @returns {symbol} 注入令牌
+ *
+ * @example
+ * ```typescript
+ * moduleRef.get(getConfigToken(PaymentsConfigSchema));
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function getConfigToken(schema: ConfigSchemaClass): symbol {
+  let token = configTokens.get(schema);
+  if (!token) {
+    token = Symbol(`hl8:config:${schema.name}`);
+    configTokens.set(schema, token);
+  }
+  return token;
+}
+
+/**
+ * 注入模块配置
+ *
+ * @description 注入 ConfigModule.forFeature() 注册的配置模式类实例
+ * 注入的实例始终反映当前配置，配置热重载后无需重新注入
+ *
+ * @param {ConfigSchemaClass} schema - 配置模式类
+ * @returns {PropertyDecorator & ParameterDecorator} 注入装饰器
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class PaymentsService {
+ *   constructor(@InjectConfig(PaymentsConfigSchema) private readonly config: PaymentsConfigSchema) {}
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function InjectConfig(schema: ConfigSchemaClass): PropertyDecorator & ParameterDecorator {
+  return Inject(getConfigToken(schema));
+}
+
+/**
+ * 创建命名空间配置实例
+ *
+ * @description 将配置源中的命名空间配置数据转换为配置模式类实例
+ * 配置数据中没有的属性使用模式类的属性初始值
+ *
+ * @param {ConfigSchemaClass<T>} schema - 配置模式类
+ * @param {unknown} data - 命名空间配置数据
+ * @returns {T} 配置模式类实例
+ *
+ * @since 1.0.0
+ */
+export function createNamespaceConfig<T extends object>(schema: ConfigSchemaClass<T>, data: unknown): T {
+  return plainToInstance(schema, data ?? {}, {
+    exposeDefaultValues: true,
+    enableImplicitConversion: true
+  }) as T;
+}
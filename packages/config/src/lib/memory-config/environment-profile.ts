@@ -0,0 +1,266 @@
+import { deepClone } from '@hl8/utils';
+import { Env } from '../../environments/environment.interface.js';
+import { getValueAtPath } from './config-change.js';
+import { findPlaceholderSecrets } from './secrets/secret-resolver.js';
+import { LayeredConfigResult } from './sources/config-source.interface.js';
+import { flattenConfigPaths } from './sources/layered-config.loader.js';
+import { setValueAtPath } from './sources/env-mapping.js';
+
+/**
+ * 环境默认值
+ *
+ * @description 按运行环境区分的默认值，叠加在环境变量映射表的默认值之上
+ * 只替换仍来自默认值的配置项，任何配置源显式设置的值都不受影响
+ *
+ * ## 默认值策略
+ * - development：输出数据库查询日志，便于本地调试
+ * - test：使用独立的数据库，缩小连接池
+ * - production：数据库强制 SSL，默认启用限流和健康检查
+ *
+ * @since 1.0.0
+ */
+export const ENVIRONMENT_PROFILE_DEFAULTS: Readonly<Record<Env, Record<string, unknown>>> = {
+  [Env.DEVELOPMENT]: {
+    database: { logging: true },
+    mongodb: { logging: true }
+  },
+  [Env.TEST]: {
+    database: { name: 'aiofix_platform_test', poolSize: 5 },
+    mongodb: { name: 'aiofix_events_test' }
+  },
+  [Env.PRODUCTION]: {
+    database: { sslMode: true },
+    mongodb: { sslMode: true },
+    features: { enableRateLimit: true, enableHealthCheck: true }
+  }
+};
+
+/**
+ * 生产环境配置问题
+ *
+ * @description 生产环境规则检查发现的不安全配置
+ */
+export interface ProductionConfigViolation {
+  /** 配置路径 */
+  path: string;
+  /** 违反的规则 */
+  rule: string;
+}
+
+/**
+ * 运行环境
+ *
+ * @description ConfigService.getEnvironment() 返回的运行环境信息
+ * staging 等 Env 以外的环境使用生产环境的默认值，但不执行生产环境规则检查
+ *
+ * @example
+ * ```typescript
+ * const env = configService.getEnvironment();
+ * if (env.isProduction()) {
+ *   app.enableShutdownHooks();
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class EnvironmentProfile {
+  /**
+   * 默认值所属的环境
+   */
+  readonly profile: Env;
+
+  constructor(readonly name: string) {
+    this.profile = resolveEnvironmentProfile(name);
+  }
+
+  /**
+   * 是否为生产环境
+   *
+   * @since 1.0.0
+   */
+  isProduction(): boolean {
+    return this.name === Env.PRODUCTION;
+  }
+
+  /**
+   * 是否为开发环境
+   *
+   * @since 1.0.0
+   */
+  isDevelopment(): boolean {
+    return this.name === Env.DEVELOPMENT;
+  }
+
+  /**
+   * 是否为测试环境
+   *
+   * @since 1.0.0
+   */
+  isTest(): boolean {
+    return this.name === Env.TEST;
+  }
+
+  /**
+   * 获取环境默认值
+   *
+   * @returns {Record<string, unknown>} 该环境叠加在基础默认值之上的默认值
+   *
+   * @since 1.0.0
+   */
+  getDefaults(): Record<string, unknown> {
+    return deepClone(ENVIRONMENT_PROFILE_DEFAULTS[this.profile]);
+  }
+
+  /**
+   * 转换为 JSON
+   *
+   * @description 序列化时输出环境名称和判断结果，便于日志和诊断接口展示
+   *
+   * @since 1.0.0
+   */
+  toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      profile: this.profile,
+      isProduction: this.isProduction(),
+      isDevelopment: this.isDevelopment(),
+      isTest: this.isTest()
+    };
+  }
+}
+
+/**
+ * 解析环境默认值所属的环境
+ *
+ * @param {string} environment - 运行环境名称
+ * @returns {Env} development、test 原样返回，其余环境（包括 staging）按生产环境处理
+ *
+ * @since 1.0.0
+ */
+export function resolveEnvironmentProfile(environment: string): Env {
+  switch (environment) {
+    case Env.DEVELOPMENT:
+      return Env.DEVELOPMENT;
+    case Env.TEST:
+      return Env.TEST;
+    default:
+      return Env.PRODUCTION;
+  }
+}
+
+/**
+ * 叠加环境默认值
+ *
+ * @description 按合并后配置中的运行环境，将环境默认值写入仍来自 defaults 配置源的配置项
+ * 被替换的配置项来源记为 'defaults:<环境>'
+ *
+ * @param {LayeredConfigResult} layered - 分层配置合并结果
+ * @returns {LayeredConfigResult} 叠加环境默认值后的结果，不修改传入的对象
+ *
+ * @example
+ * ```typescript
+ * const layered = applyEnvironmentProfile(await loadLayeredConfig(sources));
+ * layered.keySources['database.sslMode']; // 生产环境中为 'defaults:production'
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function applyEnvironmentProfile(layered: LayeredConfigResult): LayeredConfigResult {
+  const profile = new EnvironmentProfile(String(layered.config['environment'] ?? Env.DEVELOPMENT));
+  const defaults = profile.getDefaults();
+  const sourceName = `defaults:${profile.profile}`;
+  const config = deepClone(layered.config);
+  const keySources = { ...layered.keySources };
+
+  for (const path of flattenConfigPaths(defaults)) {
+    if (keySources[path] === 'defaults') {
+      setValueAtPath(config, path, getValueAtPath(defaults, path));
+      keySources[path] = sourceName;
+    }
+  }
+
+  const sources = [...layered.sources];
+  sources.splice(sources.indexOf('defaults') + 1, 0, sourceName);
+
+  return { config, keySources, sources };
+}
+
+/**
+ * 检查生产环境的不安全配置
+ *
+ * @description 生产环境中拒绝以下配置组合
+ * - 密钥仍为默认占位值
+ * - 关闭 SSL 连接远程数据库（DB_SSL_MODE=false、MONGO_SSL_MODE=false）
+ * - 启用 Swagger 文档但未要求认证（ENABLE_SWAGGER=true 且 SWAGGER_AUTH=false）
+ *
+ * @param {Record<string, unknown>} config - 解析密钥后的配置数据
+ * @returns {ProductionConfigViolation[]} 不安全配置列表，非生产环境始终为空
+ *
+ * @example
+ * ```typescript
+ * findProductionViolations({ environment: 'production', database: { host: 'db.internal', sslMode: false } });
+ * // [{ path: 'database.sslMode', rule: '生产环境连接远程数据库必须启用 SSL' }, ...]
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function findProductionViolations(config: Record<string, unknown>): ProductionConfigViolation[] {
+  if (!new EnvironmentProfile(String(config['environment'])).isProduction()) {
+    return [];
+  }
+
+  const violations: ProductionConfigViolation[] = findPlaceholderSecrets(config).map(path => ({
+    path,
+    rule: '生产环境不允许使用默认占位密钥'
+  }));
+
+  for (const section of ['database', 'mongodb']) {
+    const host = getValueAtPath(config, `${section}.host`);
+    if (readFlag(config, `${section}.sslMode`) === false && typeof host === 'string' && !isLocalHost(host)) {
+      violations.push({ path: `${section}.sslMode`, rule: '生产环境连接远程数据库必须启用 SSL' });
+    }
+  }
+
+  if (readFlag(config, 'features.enableSwagger') === true && readFlag(config, 'features.swaggerAuth') !== true) {
+    violations.push({ path: 'features.enableSwagger', rule: '生产环境启用 Swagger 文档时必须开启认证（SWAGGER_AUTH=true）' });
+  }
+
+  return violations;
+}
+
+/**
+ * 读取布尔开关
+ *
+ * @description 警告模式下未通过验证的配置也会被应用，'true'/'false' 字符串按对应的布尔值处理，避免绕过检查
+ *
+ * @private
+ */
+function readFlag(config: Record<string, unknown>, path: string): boolean | undefined {
+  const value = getValueAtPath(config, path);
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string' && ['true', 'false'].includes(value.trim().toLowerCase())) {
+    return value.trim().toLowerCase() === 'true';
+  }
+  return undefined;
+}
+
+/**
+ * 判断是否为本机地址
+ *
+ * @private
+ */
+function isLocalHost(host: string): boolean {
+  if (host.startsWith('/')) {
+    // Unix 域套接字
+    return true;
+  }
+
+  const address = host.replace(/^[a-z]+:\/\//i, '').toLowerCase();
+  const hostname = address.startsWith('[')
+    ? address.slice(1, address.indexOf(']'))
+    : address === '::1' ? address : address.split(/[:/]/)[0];
+
+  return hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.startsWith('127.') || hostname === '::1';
+}
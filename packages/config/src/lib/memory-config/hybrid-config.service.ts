@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { MemoryConfigService } from './memory-config.service.js';
 import { ConfigCompatibilityAdapter } from './compatibility-adapter.js';
+import { ConfigPath, ConfigPathValue } from './config-classes/config-path.types.js';
+import { findEnvMapping, readEnvConfigValue } from './sources/env-mapping.js';
 
 /**
  * 混合配置服务
@@ -12,7 +14,7 @@ import { ConfigCompatibilityAdapter } from './compatibility-adapter.js';
  *
  * ### 智能配置选择
  * - 优先使用内存配置
- * - 回退到环境变量配置
+ * - 回退到环境变量配置，通过环境变量映射表查找变量名称并转换类型
  * - 提供统一的配置访问接口
  *
  * ### 渐进式迁移
@@ -32,7 +34,7 @@ import { ConfigCompatibilityAdapter } from './compatibility-adapter.js';
  *   constructor(private readonly hybridConfig: HybridConfigService) {}
  *   
  *   getApiPort(): number {
- *     return this.hybridConfig.get<number>('api.port');
+ *     return this.hybridConfig.get('api.port');
  *   }
  * }
  * ```
@@ -52,27 +54,28 @@ export class HybridConfigService {
    * @description 智能选择配置源，优先使用内存配置
    * 如果内存配置不可用，则回退到环境变量配置
    * 
-   * @param {string} path - 配置路径
-   * @returns {T} 配置值
+   * @param {P} path - 配置路径
+   * @param {ConfigPathValue<P>} defaultValue - 可选的默认值
+   * @returns {ConfigPathValue<P>} 配置值，类型由配置路径推导
    * 
    * @example
    * ```typescript
    * // 智能获取API端口
-   * const port = hybridConfig.get<number>('api.port');
+   * const port = hybridConfig.get('api.port');
    * ```
    * 
    * @since 1.0.0
    */
-  get<T>(path: string): T;
-  get<T>(path: string, defaultValue: T): T;
-  get<T>(path: string, defaultValue?: T): T {
+  get<P extends ConfigPath>(path: P): ConfigPathValue<P>;
+  get<P extends ConfigPath>(path: P, defaultValue: ConfigPathValue<P>): ConfigPathValue<P>;
+  get<P extends ConfigPath>(path: P, defaultValue?: ConfigPathValue<P>): ConfigPathValue<P> {
     // 优先使用内存配置
-    if (this.memoryConfig.getConfigStatus().isLoaded) {
-      return this.compatibilityAdapter.get<T>(path, defaultValue);
+    if (this.memoryConfig.isConfigLoaded()) {
+      return this.compatibilityAdapter.get(path, defaultValue);
     }
     
     // 回退到环境变量
-    return this.getFromEnvironment<T>(path, defaultValue!);
+    return this.getFromEnvironment<ConfigPathValue<P>>(path, defaultValue!);
   }
 
   /**
@@ -225,7 +228,9 @@ export class HybridConfigService {
   /**
    * 从环境变量获取配置
    * 
-   * @description 从环境变量获取配置值（回退机制）
+   * @description 内存配置未加载时的回退机制
+   * 按环境变量映射表将配置路径转换为环境变量名称（如 'api.port' → API_PORT）并转换类型，
+   * 环境变量未设置时依次使用传入的默认值和映射表中的默认值
    * 
    * @param {string} path - 配置路径
    * @param {T} defaultValue - 默认值
@@ -234,22 +239,10 @@ export class HybridConfigService {
    * @private
    */
   private getFromEnvironment<T>(path: string, defaultValue: T): T {
-    const value = this.getNestedValue(process.env, path);
-    return value !== undefined ? value as T : defaultValue;
-  }
-
-  /**
-   * 获取嵌套值
-   * 
-   * @description 从嵌套对象中获取指定路径的值
-   * 
-   * @param {any} obj - 对象
-   * @param {string} path - 路径
-   * @returns {any} 值
-   * 
-   * @private
-   */
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current && current[key] !== undefined ? current[key] : undefined, obj);
+    const value = readEnvConfigValue(process.env, path);
+    if (value !== undefined) {
+      return value as T;
+    }
+    return defaultValue !== undefined ? defaultValue : (findEnvMapping(path)?.default as T);
   }
 }
@@ -1,5 +1,6 @@
-import { Injectable, OnModuleInit } from '@nestjs/common';
-import { PinoLogger } from '@hl8/logger';
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit, Optional } from '@nestjs/common';
+import { Observable, Subject, filter, map } from 'rxjs';
+import { logLevelManager, loggerRegistry } from '@hl8/logger';
 import { 
   ApplicationMemoryConfig,
   ApiMemoryConfig,
@@ -9,8 +10,37 @@ import {
   AuthMemoryConfig,
   AssetsMemoryConfig,
   LoggingMemoryConfig,
-  FeaturesMemoryConfig
+  FeaturesMemoryConfig,
+  LimitsMemoryConfig,
+  BrandingMemoryConfig,
+  BUILT_IN_CONFIG_KEYS,
+  isSensitiveConfigPath
 } from './config-classes/application-memory-config.js';
+import { ConfigPath, ConfigPathValue } from './config-classes/config-path.types.js';
+import {
+  ConfigChangeEvent,
+  ConfigPathChange,
+  diffConfig,
+  getValueAtPath,
+  isChangeUnderPath
+} from './config-change.js';
+import { ConfigSource, ConfigWatchOptions } from './sources/config-source.interface.js';
+import { DefaultsConfigSource } from './sources/defaults-config.source.js';
+import { EnvConfigSource } from './sources/env-config.source.js';
+import { loadLayeredConfig } from './sources/layered-config.loader.js';
+import { SecretResolver } from './secrets/secret-resolver.js';
+import {
+  ConfigNamespaceRegistration,
+  ConfigSchemaClass,
+  createNamespaceConfig
+} from './config-namespace.js';
+import { ConfigHistory, ConfigSnapshot, ConfigSnapshotState, ConfigSnapshotTrigger } from './config-history.js';
+import { ConfigAccessMetrics } from './config-access-metrics.js';
+import { applyEnvironmentProfile, findProductionViolations } from './environment-profile.js';
+import { ConfigValidationService, ValidationResult } from '../validation/config-validation.service.js';
+import { ConfigValidationError } from '../validation/config-validation-error.js';
+import { CONFIG_MODULE_OPTIONS } from '../constants.js';
+import type { ConfigModuleOptions } from '../types.js';
 
 /**
  * 内存配置服务
@@ -51,14 +81,11 @@ import {
  * @since 1.0.0
  */
 @Injectable()
-export class MemoryConfigService implements OnModuleInit {
+export class MemoryConfigService implements OnModuleInit, OnModuleDestroy {
   /**
    * 日志记录器
    */
-  private readonly logger = new PinoLogger({
-    level: 'info',
-    destination: { type: 'console' }
-  });
+  private readonly logger = loggerRegistry.getLogger('MemoryConfigService');
 
   /**
    * 内存配置对象
@@ -80,44 +107,145 @@ export class MemoryConfigService implements OnModuleInit {
    */
   private configVersion = '1.0.0';
 
+  /**
+   * 配置键来源映射
+   */
+  private keySources: Record<string, string> = {};
+
+  /**
+   * 参与合并的配置源名称
+   */
+  private sourceNames: string[] = [];
+
+  /**
+   * 配置验证服务
+   */
+  private readonly validationService: ConfigValidationService;
+
+  /**
+   * 配置源列表，按优先级从低到高排列
+   */
+  private readonly sources: ConfigSource[];
+
+  /**
+   * 密钥解析器
+   */
+  private readonly secretResolver: SecretResolver;
+
+  /**
+   * 配置历史
+   */
+  private readonly history: ConfigHistory;
+
+  /**
+   * 配置访问指标
+   */
+  private readonly accessMetrics: ConfigAccessMetrics;
+
+  /**
+   * 已注册的配置命名空间
+   */
+  private readonly namespaces = new Map<string, ConfigSchemaClass>();
+
+  /**
+   * 配置变更事件主题
+   */
+  private readonly changeSubject = new Subject<ConfigChangeEvent>();
+
+  /**
+   * 配置变更事件流
+   *
+   * @description 每次重新加载产生实际变化时发出一个事件，未变化的重新加载不会发出事件
+   */
+  readonly changes$: Observable<ConfigChangeEvent> = this.changeSubject.asObservable();
+
+  /**
+   * 敏感配置访问事件主题
+   */
+  private readonly secretAccessSubject = new Subject<SecretAccessEvent>();
+
+  /**
+   * 敏感配置访问事件流
+   *
+   * @description 每次通过 getSecret() 读取敏感配置时发出一个事件，可用于审计
+   */
+  readonly secretAccess$: Observable<SecretAccessEvent> = this.secretAccessSubject.asObservable();
+
+  /**
+   * 重新加载队列，保证多次重新加载按顺序执行
+   */
+  private reloadQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * 配置源监听的停止函数
+   */
+  private watcherDisposers: (() => void)[] = [];
+
+  /**
+   * 热重载防抖定时器
+   */
+  private watchDebounceTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    @Optional() @Inject(CONFIG_MODULE_OPTIONS) private readonly options?: ConfigModuleOptions,
+    @Optional() validationService?: ConfigValidationService
+  ) {
+    this.validationService = validationService ?? new ConfigValidationService();
+    this.sources = [new DefaultsConfigSource(), ...(options?.sources ?? [new EnvConfigSource()])];
+    this.secretResolver = new SecretResolver(options?.secrets);
+    this.history = new ConfigHistory(options?.history);
+    this.accessMetrics = new ConfigAccessMetrics(options?.metrics);
+  }
+
   /**
    * 模块初始化
    *
    * @description 在模块初始化时加载配置到内存
+   * 启用监听模式时，同时开始监听配置源变化
    */
   async onModuleInit(): Promise<void> {
     this.logger.info('初始化内存配置服务');
-    await this.loadConfigToMemory();
+    this.history.restore();
+    await this.loadConfigToMemory('initial');
+
+    if (this.options?.watch && this.watcherDisposers.length === 0) {
+      this.startWatching(this.options.watch === true ? {} : this.options.watch);
+    }
+  }
+
+  /**
+   * 模块销毁
+   *
+   * @description 停止配置源监听并结束配置变更事件流
+   */
+  onModuleDestroy(): void {
+    this.stopWatching();
+    this.changeSubject.complete();
+    this.secretAccessSubject.complete();
   }
 
   /**
    * 加载配置到内存
    *
-   * @description 从环境变量加载配置并存储到内存中
+   * @description 按优先级合并所有配置源并存储到内存中
    * 配置一旦加载到内存，就与环境变量完全隔离
+   * 读取或验证失败时不会修改当前配置
    * 
+   * @param {ConfigSnapshotTrigger} trigger - 触发方式，记录在配置快照中
    * @private
    */
-  private async loadConfigToMemory(): Promise<void> {
+  private async loadConfigToMemory(trigger: ConfigSnapshotTrigger): Promise<void> {
     try {
       this.logger.info('开始加载配置到内存');
 
-      // 从环境变量读取配置
-      const configData = this.readConfigFromEnvironment();
-
-      // 创建内存配置对象
-      this.memoryConfig = new ApplicationMemoryConfig(configData);
+      // 按优先级合并所有配置源，再按运行环境叠加环境默认值
+      const layered = applyEnvironmentProfile(await loadLayeredConfig(this.sources));
+      const { keySources, sources } = layered;
 
-      // 记录加载信息
-      this.isLoaded = true;
-      this.loadTime = new Date();
-      this.configVersion = this.memoryConfig.getVersion();
+      // 解密加密配置值并解析密钥引用
+      const { config } = await this.secretResolver.resolve(layered.config);
 
-      this.logger.info('配置已加载到内存', {
-        version: this.configVersion,
-        loadTime: this.loadTime.toISOString(),
-        configKeys: this.memoryConfig.getConfigKeys()
-      });
+      await this.applyConfig({ data: config, keySources, sources }, trigger);
 
     } catch (error) {
       this.logger.error('配置加载到内存失败', {
@@ -128,99 +256,352 @@ export class MemoryConfigService implements OnModuleInit {
   }
 
   /**
-   * 从环境变量读取配置
+   * 应用配置
    *
-   * @description 从环境变量读取配置数据
-   * 这是最后一次从环境变量读取配置
+   * @description 验证配置数据并替换当前配置，成功后记录配置快照并发布变更
+   * 加载、重新加载和回滚共用此流程
    * 
-   * @returns {any} 配置数据
+   * @param {ConfigSnapshotState} state - 解析密钥后的配置数据及其来源
+   * @param {ConfigSnapshotTrigger} trigger - 触发方式
+   * @param {number} rolledBackTo - 回滚目标版本
    * @private
    */
-  private readConfigFromEnvironment(): any {
-    return {
-      // 基础信息
-      version: process.env.CONFIG_VERSION || '1.0.0',
-      environment: process.env.NODE_ENV || 'development',
-      loadTime: new Date().toISOString(),
-
-      // API配置
-      api: {
-        port: parseInt(process.env.API_PORT || '3000'),
-        host: process.env.API_HOST || 'http://localhost',
-        baseUrl: process.env.API_BASE_URL || 'http://localhost:3000',
-        clientBaseUrl: process.env.CLIENT_BASE_URL || 'http://localhost:4200',
-        production: process.env.NODE_ENV === 'production',
-        envName: process.env.NODE_ENV || 'development'
-      },
+  private async applyConfig(
+    state: ConfigSnapshotState,
+    trigger: ConfigSnapshotTrigger,
+    rolledBackTo?: number
+  ): Promise<void> {
+    const { data: config, keySources, sources } = state;
 
-      // 数据库配置
-      database: {
-        type: process.env.DB_TYPE || 'postgresql',
-        host: process.env.DB_HOST || 'localhost',
-        port: parseInt(process.env.DB_PORT || '5432'),
-        name: process.env.DB_NAME || 'aiofix_platform',
-        username: process.env.DB_USER || 'aiofix_user',
-        password: process.env.DB_PASS || 'aiofix_password',
-        sslMode: process.env.DB_SSL_MODE === 'true',
-        logging: process.env.DB_LOGGING === 'true',
-        poolSize: parseInt(process.env.DB_POOL_SIZE || '40'),
-        connectionTimeout: parseInt(process.env.DB_CONNECTION_TIMEOUT || '5000'),
-        idleTimeout: parseInt(process.env.DB_IDLE_TIMEOUT || '10000')
-      },
+    // 验证合并后的配置，严格模式下验证失败将保留当前配置并抛出错误
+    await this.validateLoadedConfig(config, keySources);
 
-      // MongoDB配置
-      mongodb: {
-        host: process.env.MONGO_HOST || 'localhost',
-        port: parseInt(process.env.MONGO_PORT || '27017'),
-        name: process.env.MONGO_NAME || 'aiofix_events',
-        username: process.env.MONGO_USER || 'aiofix_admin',
-        password: process.env.MONGO_PASS || 'aiofix_password',
-        sslMode: process.env.MONGO_SSL_MODE === 'true',
-        logging: process.env.MONGO_LOGGING === 'true'
-      },
+    // 生产环境拒绝不安全的配置组合，不受验证模式影响
+    this.assertProductionGuardRails(config, keySources);
 
-      // Redis配置
-      redis: {
-        host: process.env.REDIS_HOST || 'localhost',
-        port: parseInt(process.env.REDIS_PORT || '6379'),
-        password: process.env.REDIS_PASSWORD || '',
-        db: parseInt(process.env.REDIS_DB || '0')
+    // 先完整构建新配置，再一次性替换，保证失败时保留当前配置
+    const previous = this.memoryConfig;
+    const next = new ApplicationMemoryConfig(
+      {
+        ...config,
+        loadTime: new Date().toISOString()
       },
+      this.buildNamespaces(config, keySources)
+    );
 
-      // 认证配置
-      auth: {
-        jwtSecret: process.env.JWT_SECRET || 'your-super-secret-jwt-key',
-        jwtExpiresIn: process.env.JWT_EXPIRES_IN || '24h',
-        passwordSaltRounds: parseInt(process.env.PASSWORD_SALT_ROUNDS || '10'),
-        sessionSecret: process.env.SESSION_SECRET || 'your-session-secret'
-      },
+    this.memoryConfig = next;
+    this.keySources = keySources;
+    this.sourceNames = sources;
 
-      // 资源文件配置
-      assets: {
-        path: process.env.ASSETS_PATH || './assets',
-        publicPath: process.env.ASSETS_PUBLIC_PATH || '/assets',
-        maxFileSize: parseInt(process.env.ASSETS_MAX_FILE_SIZE || '10485760'), // 10MB
-        allowedTypes: process.env.ASSETS_ALLOWED_TYPES || 'image/*,application/pdf'
-      },
+    // 记录加载信息
+    this.isLoaded = true;
+    this.loadTime = new Date();
+    this.configVersion = next.getVersion();
 
-      // 日志配置
-      logging: {
-        level: process.env.LOG_LEVEL || 'info',
-        format: process.env.LOG_FORMAT || 'json',
-        destination: process.env.LOG_DESTINATION || 'console',
-        maxFiles: parseInt(process.env.LOG_MAX_FILES || '5'),
-        maxSize: process.env.LOG_MAX_SIZE || '10m'
-      },
+    this.applyLogLevels(previous, next);
+
+    const snapshot = this.history.record({ previous, current: next, data: config, keySources, sources, trigger, rolledBackTo });
+
+    this.logger.info('配置已加载到内存', {
+      version: this.configVersion,
+      snapshotVersion: snapshot.version,
+      hash: snapshot.hash,
+      loadTime: this.loadTime.toISOString(),
+      configKeys: next.getConfigKeys(),
+      sources
+    });
+
+    if (previous) {
+      this.publishChanges(previous, next);
+    }
+  }
+
+  /**
+   * 应用动态日志级别
+   *
+   * @description 首次加载以及 logging.levels、logging.debugSecret 变化时，更新 @hl8/logger 的 logLevelManager
+   * 这两项未变化的重新加载不会覆盖通过管理接口做出的调整
+   *
+   * @param {ApplicationMemoryConfig | null} previous - 之前的配置
+   * @param {ApplicationMemoryConfig} next - 新配置
+   * @private
+   */
+  private applyLogLevels(previous: ApplicationMemoryConfig | null, next: ApplicationMemoryConfig): void {
+    const logging = next.getLoggingConfig();
+    const before = previous?.getLoggingConfig();
 
-      // 功能开关
-      features: {
-        enableSwagger: process.env.ENABLE_SWAGGER === 'true',
-        enableMetrics: process.env.ENABLE_METRICS === 'true',
-        enableCors: process.env.ENABLE_CORS === 'true',
-        enableRateLimit: process.env.ENABLE_RATE_LIMIT === 'true',
-        enableHealthCheck: process.env.ENABLE_HEALTH_CHECK === 'true'
+    try {
+      if (!before || before.levels !== logging.levels) {
+        logLevelManager.setContextLevels(logging.getContextLevels());
       }
+      if (!before || before.debugSecret !== logging.debugSecret) {
+        logLevelManager.configureRequestDebug(logging.getRequestDebugOptions());
+      }
+    } catch (error) {
+      // 警告模式下无效的 logging.levels 也会加载，此时保留当前的日志级别覆盖
+      this.logger.warn('日志级别覆盖配置无效，已忽略', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * 验证加载的配置
+   *
+   * @description 按配置验证模式验证合并后的配置数据
+   * 严格模式下抛出包含所有问题的 ConfigValidationError，警告模式下记录日志后仍应用该配置
+   *
+   * @param {Record<string, unknown>} config - 合并后的配置数据
+   * @param {Record<string, string>} keySources - 配置键来源映射
+   * @throws {ConfigValidationError} 严格模式下验证失败时抛出
+   * @private
+   */
+  private async validateLoadedConfig(
+    config: Record<string, unknown>,
+    keySources: Record<string, string>
+  ): Promise<void> {
+    const mode = this.options?.validationMode ?? 'strict';
+    if (mode === 'off') {
+      return;
+    }
+
+    const result = await this.validateConfigData(config);
+    if (result.isValid) {
+      return;
+    }
+
+    const error = this.validationService.createValidationException(result.errors, keySources);
+    if (mode === 'strict') {
+      throw error;
+    }
+
+    this.logger.warn('配置验证未通过，仍将应用未通过验证的配置', {
+      report: error.message
+    });
+  }
+
+  /**
+   * 验证配置数据
+   *
+   * @description 按 ApplicationConfigDto 验证内置配置段，按配置模式类验证各命名空间，合并所有验证错误
+   *
+   * @param {Record<string, unknown>} config - 配置数据
+   * @returns {Promise<ValidationResult>} 验证结果
+   * @private
+   */
+  private async validateConfigData(config: Record<string, unknown>): Promise<ValidationResult> {
+    const builtIn = Object.fromEntries(
+      Object.entries(config).filter(([key]) => !this.namespaces.has(key))
+    );
+    const result = await this.validationService.validateApplicationConfig(builtIn);
+    const errors = [...result.errors];
+
+    for (const [namespace, schema] of this.namespaces) {
+      const namespaceResult = await this.validationService.validateNamespaceConfig(namespace, schema, config[namespace]);
+      errors.push(...namespaceResult.errors);
+    }
+
+    return errors.length === result.errors.length ? result : { isValid: false, errors, config: null };
+  }
+
+  /**
+   * 构建命名空间配置
+   *
+   * @description 为每个已注册的命名空间创建配置模式类实例
+   * 配置源中没有提供的顶层属性使用模式类默认值，并在配置来源中记为 'defaults'
+   *
+   * @param {Record<string, unknown>} config - 配置数据
+   * @param {Record<string, string>} keySources - 配置键来源映射，会补充默认值的来源
+   * @returns {Record<string, object>} 命名空间配置
+   * @private
+   */
+  private buildNamespaces(config: Record<string, unknown>, keySources: Record<string, string>): Record<string, object> {
+    const namespaces: Record<string, object> = {};
+
+    for (const [namespace, schema] of this.namespaces) {
+      const section = createNamespaceConfig(schema, config[namespace]);
+      for (const key of Object.keys(section)) {
+        const path = `${namespace}.${key}`;
+        if (!Object.keys(keySources).some(source => source === path || source.startsWith(`${path}.`))) {
+          keySources[path] = 'defaults';
+        }
+      }
+      namespaces[namespace] = section;
+    }
+
+    return namespaces;
+  }
+
+  /**
+   * 检查生产环境规则
+   *
+   * @description 生产环境中使用默认占位密钥、关闭 SSL 连接远程数据库或启用未认证的 Swagger 文档时拒绝加载配置
+   *
+   * @param {Record<string, unknown>} config - 解析后的配置数据
+   * @param {Record<string, string>} keySources - 配置键来源映射
+   * @throws {ConfigValidationError} 生产环境存在不安全配置时抛出
+   * @private
+   */
+  private assertProductionGuardRails(
+    config: Record<string, unknown>,
+    keySources: Record<string, string>
+  ): void {
+    const violations = findProductionViolations(config);
+    if (violations.length === 0) {
+      return;
+    }
+
+    throw this.validationService.createBatchException(
+      violations.map(({ path, rule }) =>
+        ConfigValidationError.createBusinessRuleError(path, rule, '***')
+      ),
+      keySources
+    );
+  }
+
+  /**
+   * 发布配置变更
+   *
+   * @description 计算新旧配置差异，存在变化时发出配置变更事件
+   *
+   * @param {ApplicationMemoryConfig} previous - 变更前的配置
+   * @param {ApplicationMemoryConfig} current - 变更后的配置
+   * @private
+   */
+  private publishChanges(previous: ApplicationMemoryConfig, current: ApplicationMemoryConfig): void {
+    const changes = diffConfig(previous, current).filter(change => change.path !== 'loadTime');
+    if (changes.length === 0) {
+      return;
+    }
+
+    this.logger.info('配置已变更', {
+      changedKeys: changes.map(change => change.path)
+    });
+    this.changeSubject.next({ previous, current, changes, timestamp: new Date() });
+  }
+
+  /**
+   * 开始监听配置源
+   *
+   * @description 监听所有支持 watch() 的配置源，变化时经防抖后自动重新加载
+   * 自动重新加载失败时记录日志并保留当前配置
+   *
+   * @param {ConfigWatchOptions} options - 监听选项
+   * @private
+   */
+  private startWatching(options: ConfigWatchOptions): void {
+    const watchOptions: Required<ConfigWatchOptions> = {
+      interval: options.interval ?? 1000,
+      debounce: options.debounce ?? 200
+    };
+
+    const scheduleReload = (): void => {
+      if (this.watchDebounceTimer) {
+        clearTimeout(this.watchDebounceTimer);
+      }
+      this.watchDebounceTimer = setTimeout(() => {
+        this.watchDebounceTimer = null;
+        this.queueReload('watch').catch(() => {
+          this.logger.warn('配置热重载失败，继续使用当前配置');
+        });
+      }, watchOptions.debounce);
+      this.watchDebounceTimer.unref();
     };
+
+    for (const source of this.sources) {
+      if (source.watch) {
+        this.watcherDisposers.push(source.watch(scheduleReload, watchOptions));
+      }
+    }
+
+    this.logger.info('配置热重载已启用', {
+      sources: this.sources.filter(source => source.watch).map(source => source.name),
+      ...watchOptions
+    });
+  }
+
+  /**
+   * 停止监听配置源
+   *
+   * @private
+   */
+  private stopWatching(): void {
+    if (this.watchDebounceTimer) {
+      clearTimeout(this.watchDebounceTimer);
+      this.watchDebounceTimer = null;
+    }
+    for (const dispose of this.watcherDisposers) {
+      dispose();
+    }
+    this.watcherDisposers = [];
+  }
+
+  /**
+   * 观察配置路径变化
+   *
+   * @description 返回指定配置路径的变更事件流
+   * 订阅配置段（如 'database'）时，该配置段下任意配置键变化都会发出事件
+   *
+   * @param {P} path - 配置路径
+   * @returns {Observable<ConfigPathChange<P>>} 配置路径变更事件流
+   *
+   * @example
+   * ```typescript
+   * memoryConfig.observe('logging.level').subscribe(({ newValue }) => {
+   *   logger.setLevel(newValue as LogLevel);
+   * });
+   * ```
+   *
+   * @since 1.0.0
+   */
+  observe<P extends ConfigPath>(path: P): Observable<ConfigPathChange<P>> {
+    return this.changes$.pipe(
+      map(event => ({
+        event,
+        changes: event.changes.filter(change => isChangeUnderPath(change.path, path))
+      })),
+      filter(({ changes }) => changes.length > 0),
+      map(({ event, changes }) => ({
+        path,
+        oldValue: getValueAtPath(event.previous, path) as ConfigPathValue<P>,
+        newValue: getValueAtPath(event.current, path) as ConfigPathValue<P>,
+        changes
+      }))
+    );
+  }
+
+  /**
+   * 注册配置变更回调
+   *
+   * @description 指定配置路径发生变化时调用回调
+   * 回调抛出的错误会被记录，不会影响其他订阅者
+   *
+   * @param {P} path - 配置路径
+   * @param {(change: ConfigPathChange<P>) => void} handler - 变更回调
+   * @returns {() => void} 取消订阅的函数
+   *
+   * @example
+   * ```typescript
+   * const dispose = memoryConfig.onChange('database.poolSize', ({ newValue }) => {
+   *   pool.resize(newValue);
+   * });
+   * ```
+   *
+   * @since 1.0.0
+   */
+  onChange<P extends ConfigPath>(path: P, handler: (change: ConfigPathChange<P>) => void): () => void {
+    const subscription = this.observe(path).subscribe(change => {
+      try {
+        handler(change);
+      } catch (error) {
+        this.logger.error('配置变更回调执行失败', {
+          path,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
+
+    return () => subscription.unsubscribe();
   }
 
   /**
@@ -339,6 +720,30 @@ export class MemoryConfigService implements OnModuleInit {
     return this.memoryConfig!.getFeaturesConfig();
   }
 
+  /**
+   * 获取使用限额配置
+   *
+   * @description 获取全局使用限额配置，租户覆盖由 TenantConfigService 处理
+   * @returns {LimitsMemoryConfig} 使用限额配置
+   * 
+   * @since 1.0.0
+   */
+  getLimitsConfig(): LimitsMemoryConfig {
+    return this.getAllConfig().getLimitsConfig();
+  }
+
+  /**
+   * 获取品牌配置
+   *
+   * @description 获取全局品牌配置，租户覆盖由 TenantConfigService 处理
+   * @returns {BrandingMemoryConfig} 品牌配置
+   * 
+   * @since 1.0.0
+   */
+  getBrandingConfig(): BrandingMemoryConfig {
+    return this.getAllConfig().getBrandingConfig();
+  }
+
   /**
    * 获取所有配置
    *
@@ -358,6 +763,136 @@ export class MemoryConfigService implements OnModuleInit {
     return this.memoryConfig!;
   }
 
+  /**
+   * 读取敏感配置
+   *
+   * @description 读取 @Sensitive() 标记的配置项原始值
+   * 每次读取都会记录审计日志并通过 secretAccess$ 发出事件，敏感值本身不会出现在日志中
+   * 
+   * @param {P} path - 敏感配置路径，如 'auth.jwtSecret'
+   * @param {string} accessor - 可选的访问方标识，用于审计
+   * @returns {ConfigPathValue<P>} 配置原始值
+   * @throws {Error} 路径不是敏感配置时抛出
+   * 
+   * @example
+   * ```typescript
+   * const secret = memoryConfig.getSecret('auth.jwtSecret', 'JwtStrategy');
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  getSecret<P extends ConfigPath>(path: P, accessor?: string): ConfigPathValue<P> {
+    const config = this.getAllConfig();
+    if (!isSensitiveConfigPath(path)) {
+      throw new Error(`配置 ${path} 不是敏感配置，请使用 get() 读取`);
+    }
+
+    const event: SecretAccessEvent = { path, accessor, timestamp: new Date() };
+    this.logger.info('读取敏感配置', { path, accessor });
+    this.secretAccessSubject.next(event);
+
+    return getValueAtPath(config, path) as ConfigPathValue<P>;
+  }
+
+  /**
+   * 注册配置命名空间
+   *
+   * @description 注册功能库的配置模式类，配置源中同名的顶层配置段按该类验证和实例化
+   * 通常由 ConfigModule.forFeature() 调用，必须在配置首次加载前注册
+   * 
+   * 返回的对象始终代理当前配置中的命名空间实例，配置热重载后读取到的是新值
+   * 
+   * @param {string} namespace - 配置命名空间，即配置源中的顶层配置键
+   * @param {ConfigSchemaClass<T>} schema - 配置模式类
+   * @returns {T} 命名空间配置代理
+   * @throws {Error} 命名空间与内置配置重名、已被其他模式类注册或配置已加载时抛出
+   * 
+   * @example
+   * ```typescript
+   * const payments = memoryConfig.registerNamespace('payments', PaymentsConfigSchema);
+   * await memoryConfig.onModuleInit();
+   * console.log(payments.provider);
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  registerNamespace<T extends object>(namespace: string, schema: ConfigSchemaClass<T>): T {
+    if (BUILT_IN_CONFIG_KEYS.includes(namespace) || namespace in ApplicationMemoryConfig.prototype) {
+      throw new Error(`配置命名空间 ${namespace} 与内置配置重名`);
+    }
+
+    const registered = this.namespaces.get(namespace);
+    if (registered && registered !== schema) {
+      throw new Error(`配置命名空间 ${namespace} 已被 ${registered.name} 注册`);
+    }
+    if (!registered) {
+      if (this.isLoaded) {
+        throw new Error(`配置已加载，无法注册配置命名空间 ${namespace}，请在应用初始化前注册`);
+      }
+      this.namespaces.set(namespace, schema);
+      this.logger.debug('注册配置命名空间', { namespace, schema: schema.name });
+    }
+
+    return this.createNamespaceProxy(namespace, schema);
+  }
+
+  /**
+   * 获取命名空间配置
+   *
+   * @description 获取当前配置中命名空间的配置模式类实例
+   * 
+   * @param {string} namespace - 配置命名空间
+   * @returns {T} 配置模式类实例
+   * @throws {Error} 命名空间未注册时抛出
+   * 
+   * @example
+   * ```typescript
+   * const payments = memoryConfig.getNamespaceConfig<PaymentsConfigSchema>('payments');
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  getNamespaceConfig<T extends object>(namespace: string): T {
+    const section = this.getAllConfig().getNamespaceConfig<T>(namespace);
+    if (!section) {
+      throw new Error(`未注册的配置命名空间: ${namespace}`);
+    }
+    return section;
+  }
+
+  /**
+   * 获取已注册的配置命名空间
+   *
+   * @returns {ConfigNamespaceRegistration[]} 命名空间注册信息，按注册顺序排列
+   * 
+   * @since 1.0.0
+   */
+  getNamespaceRegistrations(): ConfigNamespaceRegistration[] {
+    return [...this.namespaces].map(([namespace, schema]) => ({ namespace, schema }));
+  }
+
+  /**
+   * 验证当前配置
+   *
+   * @description 验证内存中的当前配置，包括内置配置段和所有命名空间
+   * 用于健康检查，不会修改当前配置
+   * 
+   * @returns {Promise<ValidationResult>} 验证结果
+   * 
+   * @example
+   * ```typescript
+   * const result = await memoryConfig.validateCurrentConfig();
+   * if (!result.isValid) {
+   *   console.error(result.errors);
+   * }
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  async validateCurrentConfig(): Promise<ValidationResult> {
+    return this.validateConfigData({ ...this.getAllConfig() });
+  }
+
   /**
    * 获取配置状态
    *
@@ -378,15 +913,63 @@ export class MemoryConfigService implements OnModuleInit {
       version: this.configVersion,
       loadTime: this.loadTime,
       configKeys: this.memoryConfig?.getConfigKeys() || [],
-      environment: this.memoryConfig?.getEnvironment() || 'unknown'
+      environment: this.memoryConfig?.getEnvironment() || 'unknown',
+      sources: [...this.sourceNames],
+      keySources: { ...this.keySources },
+      snapshotVersion: this.history.latest()?.version,
+      configHash: this.history.latest()?.hash
     };
   }
 
+  /**
+   * 检查配置是否已加载
+   *
+   * @description 仅返回加载标志，不构建状态对象，供读取配置的热路径使用
+   * 诊断场景请使用 getConfigStatus()
+   * @returns {boolean} 配置已加载到内存时返回 true
+   *
+   * @example
+   * ```typescript
+   * if (memoryConfig.isConfigLoaded()) {
+   *   const port = memoryConfig.get('api.port');
+   * }
+   * ```
+   *
+   * @since 1.0.0
+   */
+  isConfigLoaded(): boolean {
+    return this.isLoaded && !!this.memoryConfig;
+  }
+
+  /**
+   * 获取配置值来源
+   *
+   * @description 获取指定配置路径的值由哪个配置源提供
+   * @param {string} path - 点号分隔的配置路径，如 'api.port'
+   * @returns {string | undefined} 配置源名称，路径不存在时返回 undefined
+   *
+   * @example
+   * ```typescript
+   * memoryConfig.getConfigSource('api.port'); // 'env'
+   * ```
+   *
+   * @since 1.0.0
+   */
+  getConfigSource(path: string): string | undefined {
+    return this.keySources[path];
+  }
+
   /**
    * 重新加载配置
    *
-   * @description 重新从环境变量加载配置到内存
-   * 注意：这会重新读取环境变量，但配置仍然存储在内存中
+   * @description 重新读取所有配置源并加载到内存
+   * 注意：这会重新读取环境变量和配置文件，但配置仍然存储在内存中
+   * 
+   * ## 原子性
+   * - 读取或验证失败时抛出错误，当前配置保持不变
+   * - 成功且配置发生变化时通过 changes$ 发出变更事件
+   * - 成功后生成配置快照，可通过 getHistory() 查询、通过 rollbackTo() 回滚
+   * - 并发调用按顺序执行
    * 
    * @returns {Promise<void>}
    * 
@@ -399,17 +982,156 @@ export class MemoryConfigService implements OnModuleInit {
    * @since 1.0.0
    */
   async reloadConfig(): Promise<void> {
-    this.logger.info('重新加载配置到内存');
-    
-    try {
-      await this.loadConfigToMemory();
-      this.logger.info('配置重新加载完成');
-    } catch (error) {
-      this.logger.error('配置重新加载失败', {
-        error: error instanceof Error ? error.message : String(error)
-      });
-      throw error;
-    }
+    return this.queueReload('reload');
+  }
+
+  /**
+   * 回滚配置
+   *
+   * @description 将配置恢复为指定快照的内容，并生成一个新的回滚快照
+   * 回滚后的配置同样经过验证，验证失败时当前配置保持不变
+   * 
+   * 回滚只替换内存中的配置，不修改配置源；下一次重新加载或热重载会重新读取配置源
+   * 
+   * @param {number} version - 快照版本号
+   * @returns {Promise<ConfigSnapshot>} 回滚后生成的快照
+   * @throws {Error} 快照不存在或没有可用的原始配置时抛出
+   * 
+   * @example
+   * ```typescript
+   * const [current, previous] = memoryConfig.getHistory();
+   * await memoryConfig.rollbackTo(previous.version);
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  async rollbackTo(version: number): Promise<ConfigSnapshot> {
+    const rollback = this.reloadQueue.then(async () => {
+      const state = this.history.getState(version);
+      if (!state) {
+        throw new Error(
+          this.history.get(version)
+            ? `配置快照 ${version} 从历史文件恢复，没有可回滚的配置数据`
+            : `配置快照 ${version} 不存在或已超出保留数量`
+        );
+      }
+
+      this.logger.warn('回滚配置', { version });
+      await this.applyConfig(state, 'rollback', version);
+      return this.history.latest() as ConfigSnapshot;
+    });
+
+    this.reloadQueue = rollback.then(() => undefined, () => undefined);
+    return rollback;
+  }
+
+  /**
+   * 获取配置历史
+   *
+   * @description 获取最近的配置快照，用于审计和选择回滚目标
+   * 
+   * @param {number} limit - 返回的最大数量，默认返回全部保留的快照
+   * @returns {ConfigSnapshot[]} 配置快照，最新的在前
+   * 
+   * @example
+   * ```typescript
+   * for (const snapshot of memoryConfig.getHistory(5)) {
+   *   console.log(snapshot.version, snapshot.trigger, snapshot.changes.length);
+   * }
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  getHistory(limit?: number): ConfigSnapshot[] {
+    return this.history.list(limit);
+  }
+
+  /**
+   * 获取配置快照
+   *
+   * @param {number} version - 快照版本号
+   * @returns {ConfigSnapshot | undefined} 配置快照，不存在时返回 undefined
+   * 
+   * @since 1.0.0
+   */
+  getSnapshot(version: number): ConfigSnapshot | undefined {
+    return this.history.get(version);
+  }
+
+  /**
+   * 获取配置访问指标
+   *
+   * @description 通过 ConfigService.get() / ConfigCompatibilityAdapter.get() 读取配置时自动记录
+   * 同一个配置服务上的所有读取共享一份统计
+   *
+   * @returns {ConfigAccessMetrics} 配置访问指标
+   *
+   * @example
+   * ```typescript
+   * const [hottest] = memoryConfig.getAccessMetrics().list();
+   * console.log(hottest.path, hottest.hits);
+   * ```
+   *
+   * @since 1.0.0
+   */
+  getAccessMetrics(): ConfigAccessMetrics {
+    return this.accessMetrics;
+  }
+
+  /**
+   * 排队重新加载配置
+   *
+   * @description 重新加载按顺序执行，失败的重新加载不阻塞后续操作
+   * 
+   * @param {ConfigSnapshotTrigger} trigger - 触发方式
+   * @private
+   */
+  private queueReload(trigger: ConfigSnapshotTrigger): Promise<void> {
+    const reload = this.reloadQueue.then(async () => {
+      this.logger.info('重新加载配置到内存');
+
+      try {
+        await this.loadConfigToMemory(trigger);
+        this.logger.info('配置重新加载完成');
+      } catch (error) {
+        this.logger.error('配置重新加载失败，保留当前配置', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        throw error;
+      }
+    });
+
+    // 失败的重新加载不应阻塞后续的重新加载
+    this.reloadQueue = reload.catch(() => undefined);
+    return reload;
+  }
+
+  /**
+   * 创建命名空间配置代理
+   *
+   * @description 代理对象的属性读取转发到当前配置中的命名空间实例，写入被拒绝
+   * 
+   * @private
+   */
+  private createNamespaceProxy<T extends object>(namespace: string, schema: ConfigSchemaClass<T>): T {
+    const current = (): T => this.getNamespaceConfig<T>(namespace);
+
+    return new Proxy(Object.create(schema.prototype) as T, {
+      get: (_target, property) => {
+        // 依赖注入容器会检查工厂返回值是否为 Promise，此时配置尚未加载
+        if (property === 'then') {
+          return undefined;
+        }
+        const section = current();
+        const value = Reflect.get(section, property, section);
+        return typeof value === 'function' ? value.bind(section) : value;
+      },
+      has: (_target, property) => Reflect.has(current(), property),
+      ownKeys: () => Reflect.ownKeys(current()),
+      getOwnPropertyDescriptor: (_target, property) => Reflect.getOwnPropertyDescriptor(current(), property),
+      set: () => false,
+      deleteProperty: () => false
+    });
   }
 
   /**
@@ -442,4 +1164,26 @@ export interface ConfigStatus {
   configKeys: string[];
   /** 运行环境 */
   environment: string;
-}
\ No newline at end of file
+  /** 参与合并的配置源名称，按优先级从低到高排列 */
+  sources?: string[];
+  /** 配置键来源映射，键为配置路径，值为配置源名称 */
+  keySources?: Record<string, string>;
+  /** 当前配置对应的快照版本号 */
+  snapshotVersion?: number;
+  /** 当前配置的内容哈希 */
+  configHash?: string;
+}
+
+/**
+ * 敏感配置访问事件
+ *
+ * @description 通过 getSecret() 读取敏感配置时发出的审计事件
+ */
+export interface SecretAccessEvent {
+  /** 敏感配置路径 */
+  path: string;
+  /** 访问方标识 */
+  accessor?: string;
+  /** 访问时间 */
+  timestamp: Date;
+}
@@ -0,0 +1,44 @@
+import { existsSync, readFileSync } from 'fs';
+import { join, resolve, sep } from 'path';
+import { SecretProvider } from './secret-provider.interface.js';
+
+/**
+ * 文件密钥提供者
+ *
+ * @description 从目录中读取以密钥名命名的文件，兼容 Docker Secrets 和 K8s Secret 卷挂载
+ * 文件内容末尾的换行符会被去除
+ *
+ * @example
+ * ```typescript
+ * // DB_PASS=secret:file:db_password 将读取 /run/secrets/db_password
+ * new FileSecretProvider('/run/secrets');
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class FileSecretProvider implements SecretProvider {
+  constructor(
+    private readonly directory: string,
+    readonly name = 'file'
+  ) {}
+
+  /**
+   * 读取密钥
+   *
+   * @param {string} reference - 密钥文件名
+   * @returns {string | undefined} 密钥值，文件不存在时返回 undefined
+   * @throws {Error} 引用路径超出密钥目录时抛出
+   */
+  getSecret(reference: string): string | undefined {
+    const root = resolve(this.directory);
+    const filePath = resolve(join(root, reference));
+    if (!filePath.startsWith(root + sep)) {
+      throw new Error(`密钥引用超出密钥目录: ${reference}`);
+    }
+
+    if (!existsSync(filePath)) {
+      return undefined;
+    }
+    return readFileSync(filePath, 'utf-8').replace(/\r?\n$/, '');
+  }
+}
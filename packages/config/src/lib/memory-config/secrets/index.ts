@@ -0,0 +1,5 @@
+export * from './secret-provider.interface.js';
+export * from './secret-cipher.js';
+export * from './secret-resolver.js';
+export * from './file-secret.provider.js';
+export * from './vault-file-secret.provider.js';
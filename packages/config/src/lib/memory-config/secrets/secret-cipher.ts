@@ -0,0 +1,134 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { generateEncryptionKey } from '@hl8/utils';
+
+/**
+ * 加密配置值前缀
+ */
+export const ENCRYPTED_VALUE_PREFIX = 'enc:';
+
+/**
+ * 加密算法
+ */
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+
+/**
+ * 主密钥字节长度
+ */
+const MASTER_KEY_BYTES = 32;
+
+/**
+ * 初始化向量字节长度
+ */
+const IV_BYTES = 12;
+
+/**
+ * 认证标签字节长度
+ */
+const AUTH_TAG_BYTES = 16;
+
+/**
+ * 生成配置主密钥
+ *
+ * @description 基于 generateEncryptionKey 生成 Base64 编码的 256 位主密钥
+ * 主密钥通过 CONFIG_MASTER_KEY 环境变量或 CONFIG_MASTER_KEY_FILE 文件提供
+ *
+ * @returns {string} Base64 编码的主密钥
+ *
+ * @example
+ * ```typescript
+ * const masterKey = generateMasterKey();
+ * // 保存到密钥管理系统，部署时注入 CONFIG_MASTER_KEY
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function generateMasterKey(): string {
+  return generateEncryptionKey(MASTER_KEY_BYTES);
+}
+
+/**
+ * 判断是否为加密配置值
+ *
+ * @param {unknown} value - 配置值
+ * @returns {boolean} 是否以 'enc:' 开头
+ *
+ * @since 1.0.0
+ */
+export function isEncryptedValue(value: unknown): boolean {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_VALUE_PREFIX);
+}
+
+/**
+ * 加密配置值
+ *
+ * @description 使用 AES-256-GCM 加密明文，结果格式为 'enc:' + Base64(iv | authTag | ciphertext)
+ * 加密结果可以直接写入环境变量或配置文件
+ *
+ * @param {string} plaintext - 明文
+ * @param {string} masterKey - Base64 编码的主密钥
+ * @returns {string} 加密配置值
+ *
+ * @example
+ * ```typescript
+ * const value = encryptConfigValue('s3cr3t', masterKey);
+ * // DB_PASS=enc:q83v...
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function encryptConfigValue(plaintext: string, masterKey: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, decodeMasterKey(masterKey), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+
+  return `${ENCRYPTED_VALUE_PREFIX}${payload.toString('base64')}`;
+}
+
+/**
+ * 解密配置值
+ *
+ * @description 解密由 encryptConfigValue() 生成的加密配置值
+ *
+ * @param {string} value - 加密配置值
+ * @param {string} masterKey - Base64 编码的主密钥
+ * @returns {string} 明文
+ * @throws {Error} 格式无效、主密钥错误或密文被篡改时抛出
+ *
+ * @since 1.0.0
+ */
+export function decryptConfigValue(value: string, masterKey: string): string {
+  if (!isEncryptedValue(value)) {
+    throw new Error(`配置值不是加密格式，应以 ${ENCRYPTED_VALUE_PREFIX} 开头`);
+  }
+
+  const payload = Buffer.from(value.slice(ENCRYPTED_VALUE_PREFIX.length), 'base64');
+  if (payload.length <= IV_BYTES + AUTH_TAG_BYTES) {
+    throw new Error('加密配置值格式无效');
+  }
+
+  const iv = payload.subarray(0, IV_BYTES);
+  const authTag = payload.subarray(IV_BYTES, IV_BYTES + AUTH_TAG_BYTES);
+  const ciphertext = payload.subarray(IV_BYTES + AUTH_TAG_BYTES);
+
+  try {
+    const decipher = createDecipheriv(CIPHER_ALGORITHM, decodeMasterKey(masterKey), iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  } catch {
+    throw new Error('加密配置值解密失败，请检查主密钥是否正确');
+  }
+}
+
+/**
+ * 解码主密钥
+ *
+ * @private
+ */
+function decodeMasterKey(masterKey: string): Buffer {
+  const key = Buffer.from(masterKey.trim(), 'base64');
+  if (key.length !== MASTER_KEY_BYTES) {
+    throw new Error(`主密钥必须是 Base64 编码的 ${MASTER_KEY_BYTES} 字节密钥，可使用 generateMasterKey() 生成`);
+  }
+  return key;
+}
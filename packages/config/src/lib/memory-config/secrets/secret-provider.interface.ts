@@ -0,0 +1,61 @@
+/**
+ * 密钥引用前缀
+ *
+ * @description 配置值形如 'secret:<provider>:<reference>' 时，将由对应的密钥提供者解析
+ *
+ * @example
+ * ```bash
+ * DB_PASS=secret:file:db_password
+ * JWT_SECRET=secret:vault:platform/auth#jwtSecret
+ * ```
+ */
+export const SECRET_REFERENCE_PREFIX = 'secret:';
+
+/**
+ * 密钥提供者接口
+ *
+ * @description 从外部密钥存储读取密钥的统一抽象
+ * 可对接 Docker/K8s 挂载的密钥文件、HashiCorp Vault、云厂商密钥管理服务等
+ *
+ * @example
+ * ```typescript
+ * class AwsSecretsProvider implements SecretProvider {
+ *   readonly name = 'aws';
+ *
+ *   async getSecret(reference: string) {
+ *     const result = await client.getSecretValue({ SecretId: reference });
+ *     return result.SecretString;
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export interface SecretProvider {
+  /** 提供者名称，对应密钥引用中的 <provider> 部分 */
+  readonly name: string;
+  /**
+   * 读取密钥
+   *
+   * @param reference - 密钥引用，对应密钥引用中的 <reference> 部分
+   * @returns 密钥值，不存在时返回 undefined
+   */
+  getSecret(reference: string): Promise<string | undefined> | string | undefined;
+}
+
+/**
+ * 密钥选项
+ *
+ * @description ConfigModule.forRoot() 中与密钥相关的选项
+ */
+export interface SecretsOptions {
+  /**
+   * 主密钥
+   *
+   * @description 用于解密 'enc:' 前缀配置值的 Base64 编码主密钥
+   * 未指定时依次读取 CONFIG_MASTER_KEY 环境变量和 CONFIG_MASTER_KEY_FILE 指向的文件
+   */
+  masterKey?: string;
+  /** 密钥提供者列表 */
+  providers?: SecretProvider[];
+}
@@ -0,0 +1,165 @@
+import { deepClone, isPlainObject } from '@hl8/utils';
+import { findEnvMapping, readEnvValue } from '../sources/env-mapping.js';
+import { getSensitiveConfigPaths } from '../config-classes/application-memory-config.js';
+import { decryptConfigValue, isEncryptedValue } from './secret-cipher.js';
+import { SECRET_REFERENCE_PREFIX, SecretProvider, SecretsOptions } from './secret-provider.interface.js';
+
+/**
+ * 密钥解析结果
+ *
+ * @description 解密和解析密钥引用后的配置数据
+ */
+export interface SecretResolutionResult {
+  /** 解析后的配置数据 */
+  config: Record<string, unknown>;
+  /** 值由加密配置或密钥提供者解析得到的配置路径 */
+  resolvedPaths: string[];
+}
+
+/**
+ * 密钥解析器
+ *
+ * @description 在配置源合并之后、验证之前处理配置中的密钥
+ *
+ * ## 支持的格式
+ * - 'enc:<base64>'：使用主密钥解密的加密配置值
+ * - 'secret:<provider>:<reference>'：由指定名称的密钥提供者读取的密钥引用
+ *
+ * @example
+ * ```typescript
+ * const resolver = new SecretResolver({
+ *   masterKey: process.env.CONFIG_MASTER_KEY,
+ *   providers: [new FileSecretProvider('/run/secrets')]
+ * });
+ * const { config } = await resolver.resolve(merged);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class SecretResolver {
+  private readonly providers = new Map<string, SecretProvider>();
+
+  constructor(private readonly options: SecretsOptions = {}) {
+    for (const provider of options.providers ?? []) {
+      this.providers.set(provider.name, provider);
+    }
+  }
+
+  /**
+   * 解析配置中的密钥
+   *
+   * @param {Record<string, unknown>} config - 合并后的配置数据，不会被修改
+   * @returns {Promise<SecretResolutionResult>} 解析结果
+   * @throws {Error} 缺少主密钥、解密失败、提供者不存在或密钥不存在时抛出
+   */
+  async resolve(config: Record<string, unknown>): Promise<SecretResolutionResult> {
+    const resolved = deepClone(config);
+    const resolvedPaths: string[] = [];
+    await this.resolveObject(resolved, '', resolvedPaths);
+    return { config: resolved, resolvedPaths };
+  }
+
+  /**
+   * 递归解析对象中的字符串值
+   *
+   * @private
+   */
+  private async resolveObject(target: Record<string, unknown>, prefix: string, resolvedPaths: string[]): Promise<void> {
+    for (const [key, value] of Object.entries(target)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+
+      if (isPlainObject(value)) {
+        await this.resolveObject(value as Record<string, unknown>, path, resolvedPaths);
+      } else if (typeof value === 'string' && this.isSecretValue(value)) {
+        target[key] = await this.resolveValue(path, value);
+        resolvedPaths.push(path);
+      }
+    }
+  }
+
+  /**
+   * 解析单个密钥值
+   *
+   * @private
+   */
+  private async resolveValue(path: string, value: string): Promise<string> {
+    if (isEncryptedValue(value)) {
+      const masterKey = this.getMasterKey();
+      if (!masterKey) {
+        throw new Error(`配置 ${path} 是加密值，但未提供主密钥 CONFIG_MASTER_KEY`);
+      }
+      try {
+        return decryptConfigValue(value, masterKey);
+      } catch (error) {
+        throw new Error(`配置 ${path} 解密失败: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const reference = value.slice(SECRET_REFERENCE_PREFIX.length);
+    const separator = reference.indexOf(':');
+    const providerName = separator > 0 ? reference.slice(0, separator) : '';
+    const secretRef = separator > 0 ? reference.slice(separator + 1) : '';
+    const provider = this.providers.get(providerName);
+
+    if (!provider || !secretRef) {
+      throw new Error(`配置 ${path} 引用了未注册的密钥提供者: ${providerName || reference}`);
+    }
+
+    const secret = await provider.getSecret(secretRef);
+    if (secret === undefined) {
+      throw new Error(`配置 ${path} 引用的密钥不存在: ${providerName}:${secretRef}`);
+    }
+    return secret;
+  }
+
+  /**
+   * 判断是否需要解析
+   *
+   * @private
+   */
+  private isSecretValue(value: string): boolean {
+    return isEncryptedValue(value) || value.startsWith(SECRET_REFERENCE_PREFIX);
+  }
+
+  /**
+   * 获取主密钥
+   *
+   * @description 优先使用选项中的主密钥，其次读取 CONFIG_MASTER_KEY 或 CONFIG_MASTER_KEY_FILE
+   *
+   * @private
+   */
+  private getMasterKey(): string | undefined {
+    return this.options.masterKey ?? readEnvValue(process.env, 'CONFIG_MASTER_KEY');
+  }
+}
+
+/**
+ * 查找仍在使用默认占位值的密钥
+ *
+ * @description 将 @Sensitive() 标记的配置路径的当前值与环境变量映射表中的默认值比较
+ * 默认值为空的路径（如 redis.password）不视为占位值
+ *
+ * @param {Record<string, unknown>} config - 配置数据
+ * @returns {string[]} 使用默认占位值的配置路径
+ *
+ * @example
+ * ```typescript
+ * findPlaceholderSecrets({ auth: { jwtSecret: 'your-super-secret-jwt-key' } });
+ * // ['auth.jwtSecret']
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function findPlaceholderSecrets(config: Record<string, unknown>): string[] {
+  return getSensitiveConfigPaths().filter(path => {
+    const placeholder = findEnvMapping(path)?.default;
+    if (placeholder === undefined || placeholder === '') {
+      return false;
+    }
+    const value = path.split('.').reduce<unknown>(
+      (current, key) => (isPlainObject(current) ? (current as Record<string, unknown>)[key] : undefined),
+      config
+    );
+    return value === placeholder;
+  });
+}
@@ -0,0 +1,58 @@
+import { readFile } from 'fs/promises';
+import { isPlainObject } from '@hl8/utils';
+import { SecretProvider } from './secret-provider.interface.js';
+
+/**
+ * Vault 兼容的本地密钥提供者
+ *
+ * @description 从本地 JSON 文件读取与 Vault KV v2 相同结构的密钥数据
+ * 用于本地开发和测试，生产环境可替换为连接真实 Vault 的实现而无需修改配置引用
+ *
+ * ## 文件结构
+ * ```json
+ * {
+ *   "platform/auth": { "data": { "jwtSecret": "...", "sessionSecret": "..." } },
+ *   "platform/database": { "data": { "password": "..." } }
+ * }
+ * ```
+ *
+ * ## 引用格式
+ * - 'platform/auth#jwtSecret'：读取 platform/auth 路径下的 jwtSecret 字段
+ *
+ * @example
+ * ```typescript
+ * // JWT_SECRET=secret:vault:platform/auth#jwtSecret
+ * new VaultFileSecretProvider('./secrets/vault.json');
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class VaultFileSecretProvider implements SecretProvider {
+  constructor(
+    private readonly filePath: string,
+    readonly name = 'vault'
+  ) {}
+
+  /**
+   * 读取密钥
+   *
+   * @param {string} reference - 形如 '<path>#<field>' 的密钥引用
+   * @returns {Promise<string | undefined>} 密钥值，不存在时返回 undefined
+   * @throws {Error} 引用格式无效或文件结构不正确时抛出
+   */
+  async getSecret(reference: string): Promise<string | undefined> {
+    const [path, field] = reference.split('#');
+    if (!path || !field) {
+      throw new Error(`Vault 密钥引用格式无效，应为 <path>#<field>: ${reference}`);
+    }
+
+    const store: unknown = JSON.parse(await readFile(this.filePath, 'utf-8'));
+    if (!isPlainObject(store)) {
+      throw new Error(`Vault 密钥文件内容必须是对象: ${this.filePath}`);
+    }
+
+    const entry = (store as Record<string, { data?: Record<string, unknown> }>)[path];
+    const value = entry?.data?.[field];
+    return value === undefined ? undefined : String(value);
+  }
+}
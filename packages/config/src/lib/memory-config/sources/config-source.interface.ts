@@ -0,0 +1,86 @@
+/**
+ * 配置源类型
+ *
+ * @description 内置配置源的类型标识
+ */
+export type ConfigSourceType = 'defaults' | 'env' | 'dotenv' | 'json' | 'yaml' | 'object' | 'remote';
+
+/**
+ * 配置源接口
+ *
+ * @description 所有配置源的统一抽象
+ * 每个配置源负责读取一部分配置数据，并以与 ApplicationMemoryConfig 相同的嵌套结构返回
+ *
+ * ## 约定
+ * - 配置源只返回自身实际提供的键，未提供的键不应出现在结果中
+ * - 多个配置源按声明顺序合并，后声明的配置源优先级更高
+ * - name 用于在配置状态中标识配置值的来源，应在同一应用中保持唯一
+ *
+ * @example
+ * ```typescript
+ * class RemoteConfigSource implements ConfigSource {
+ *   readonly name = 'remote';
+ *   readonly type = 'object';
+ *
+ *   async load() {
+ *     return { api: { port: 8080 } };
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export interface ConfigSource {
+  /** 配置源名称 */
+  readonly name: string;
+  /** 配置源类型 */
+  readonly type: ConfigSourceType;
+  /** 读取配置数据 */
+  load(): Promise<Record<string, unknown>> | Record<string, unknown>;
+  /**
+   * 监听配置数据变化
+   *
+   * @description 可选。配置源数据可能发生变化时调用 onChange，由 MemoryConfigService 触发重新加载
+   * 返回停止监听的函数
+   */
+  watch?(onChange: () => void, options: Required<ConfigWatchOptions>): () => void;
+}
+
+/**
+ * 配置监听选项
+ *
+ * @description 配置热重载的监听参数
+ */
+export interface ConfigWatchOptions {
+  /** 轮询间隔（毫秒），用于文件和环境变量检查，默认为 1000 */
+  interval?: number;
+  /** 防抖时间（毫秒），多次变化合并为一次重新加载，默认为 200 */
+  debounce?: number;
+}
+
+/**
+ * 文件配置源选项
+ *
+ * @description 基于文件的配置源的通用选项
+ */
+export interface FileConfigSourceOptions {
+  /** 配置源名称，默认使用文件路径 */
+  name?: string;
+  /** 文件不存在时是否跳过，默认为 false */
+  optional?: boolean;
+}
+
+/**
+ * 分层配置加载结果
+ *
+ * @description 合并所有配置源后的结果
+ * 包含合并后的配置数据以及每个配置键的来源
+ */
+export interface LayeredConfigResult {
+  /** 合并后的配置数据 */
+  config: Record<string, unknown>;
+  /** 配置键来源映射，键为点号分隔的配置路径，值为配置源名称 */
+  keySources: Record<string, string>;
+  /** 参与合并的配置源名称，按优先级从低到高排列 */
+  sources: string[];
+}
@@ -0,0 +1,24 @@
+import { ConfigSource } from './config-source.interface.js';
+import { buildDefaultConfig } from './env-mapping.js';
+
+/**
+ * 默认值配置源
+ *
+ * @description 根据环境变量映射表中的默认值提供完整的默认配置
+ * MemoryConfigService 总是将其作为优先级最低的配置层，保证所有配置键都有值
+ *
+ * @since 1.0.0
+ */
+export class DefaultsConfigSource implements ConfigSource {
+  readonly name = 'defaults';
+  readonly type = 'defaults' as const;
+
+  /**
+   * 读取配置数据
+   *
+   * @returns {Record<string, unknown>} 默认配置数据
+   */
+  load(): Record<string, unknown> {
+    return buildDefaultConfig();
+  }
+}
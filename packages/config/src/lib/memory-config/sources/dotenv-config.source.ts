@@ -0,0 +1,67 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { parse as parseDotenv } from 'dotenv';
+import { ConfigSource, ConfigWatchOptions, FileConfigSourceOptions } from './config-source.interface.js';
+import { watchConfigFile } from './file-watcher.js';
+import { mapEnvToConfig } from './env-mapping.js';
+
+/**
+ * .env 文件配置源
+ *
+ * @description 从 .env 文件读取配置
+ * 文件中的变量按环境变量映射表转换为嵌套配置结构，不会写入 process.env
+ *
+ * @example
+ * ```typescript
+ * ConfigModule.forRoot({
+ *   sources: [
+ *     new DotenvConfigSource('.env'),
+ *     new DotenvConfigSource('.env.local', { optional: true }),
+ *     new EnvConfigSource()
+ *   ]
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class DotenvConfigSource implements ConfigSource {
+  readonly name: string;
+  readonly type = 'dotenv' as const;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly options: FileConfigSourceOptions = {}
+  ) {
+    this.name = options.name || filePath;
+  }
+
+  /**
+   * 读取配置数据
+   *
+   * @description 解析 .env 文件内容并映射为配置结构
+   * @returns {Promise<Record<string, unknown>>} 配置数据
+   * @throws {Error} 文件不存在且未标记为可选时抛出
+   */
+  async load(): Promise<Record<string, unknown>> {
+    if (!existsSync(this.filePath)) {
+      if (this.options.optional) {
+        return {};
+      }
+      throw new Error(`配置文件不存在: ${this.filePath}`);
+    }
+
+    const content = await readFile(this.filePath, 'utf-8');
+    return mapEnvToConfig(parseDotenv(content));
+  }
+
+  /**
+   * 监听 .env 文件变化
+   *
+   * @param {() => void} onChange - 文件变化回调
+   * @param {Required<ConfigWatchOptions>} options - 监听选项
+   * @returns {() => void} 停止监听的函数
+   */
+  watch(onChange: () => void, options: Required<ConfigWatchOptions>): () => void {
+    return watchConfigFile(this.filePath, onChange, options.interval);
+  }
+}
@@ -0,0 +1,67 @@
+import { ConfigSource, ConfigWatchOptions } from './config-source.interface.js';
+import { mapEnvToConfig } from './env-mapping.js';
+
+/**
+ * 环境变量配置源
+ *
+ * @description 从进程环境变量读取配置
+ * 根据环境变量映射表将 API_PORT、DB_HOST 等变量转换为嵌套配置结构
+ * 只返回已设置的环境变量，未设置的变量不会覆盖低优先级配置源
+ *
+ * @example
+ * ```typescript
+ * ConfigModule.forRoot({
+ *   sources: [new YamlFileConfigSource('config/default.yaml'), new EnvConfigSource()]
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class EnvConfigSource implements ConfigSource {
+  readonly name: string;
+  readonly type = 'env' as const;
+
+  /**
+   * @param {Record<string, string | undefined>} env - 环境变量字典，未指定时在读取时使用 process.env
+   * @param {string} name - 配置源名称，默认为 'env'
+   */
+  constructor(
+    private readonly env?: Record<string, string | undefined>,
+    name = 'env'
+  ) {
+    this.name = name;
+  }
+
+  /**
+   * 读取配置数据
+   *
+   * @description 每次调用都会重新读取环境变量，支持配置重新加载
+   * @returns {Record<string, unknown>} 配置数据
+   */
+  load(): Record<string, unknown> {
+    return mapEnvToConfig(this.env ?? process.env);
+  }
+
+  /**
+   * 监听环境变量变化
+   *
+   * @description 环境变量没有变化通知机制，按轮询间隔比较映射后的配置数据
+   *
+   * @param {() => void} onChange - 环境变量变化回调
+   * @param {Required<ConfigWatchOptions>} options - 监听选项
+   * @returns {() => void} 停止监听的函数
+   */
+  watch(onChange: () => void, options: Required<ConfigWatchOptions>): () => void {
+    let snapshot = JSON.stringify(this.load());
+    const timer = setInterval(() => {
+      const current = JSON.stringify(this.load());
+      if (current !== snapshot) {
+        snapshot = current;
+        onChange();
+      }
+    }, options.interval);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+}
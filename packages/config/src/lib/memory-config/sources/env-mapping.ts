@@ -0,0 +1,351 @@
+import { readFileSync } from 'fs';
+import { parseToBoolean } from '@hl8/utils';
+
+/**
+ * 环境变量值类型
+ *
+ * @description 环境变量映射支持的目标值类型
+ */
+export type EnvValueType = 'string' | 'number' | 'boolean';
+
+/**
+ * 环境变量映射项
+ *
+ * @description 描述一个配置路径与环境变量之间的对应关系
+ * 包含目标类型、默认值以及可选的自定义解析函数
+ */
+export interface EnvVariableMapping {
+  /** 配置路径，如 'api.port' */
+  path: string;
+  /** 环境变量名称，如 'API_PORT' */
+  env: string;
+  /** 目标值类型 */
+  type: EnvValueType;
+  /** 默认值 */
+  default: string | number | boolean;
+  /** 自定义解析函数，优先于类型转换 */
+  parse?: (raw: string) => unknown;
+}
+
+/**
+ * 环境变量映射表
+ *
+ * @description 应用配置路径与环境变量的声明式映射
+ * 作为环境变量读取、.env 文件解析和默认值生成的唯一数据来源
+ *
+ * ## 映射规则
+ * - 一个环境变量可以映射到多个配置路径（如 NODE_ENV）
+ * - 默认值作为最低优先级的配置层
+ * - 未设置的环境变量不会覆盖其他配置源的值
+ *
+ * @since 1.0.0
+ */
+export const ENV_VARIABLE_MAPPINGS: readonly EnvVariableMapping[] = [
+  // 基础信息
+  { path: 'version', env: 'CONFIG_VERSION', type: 'string', default: '1.0.0' },
+  { path: 'environment', env: 'NODE_ENV', type: 'string', default: 'development' },
+
+  // API配置
+  { path: 'api.port', env: 'API_PORT', type: 'number', default: 3000 },
+  { path: 'api.host', env: 'API_HOST', type: 'string', default: 'http://localhost' },
+  { path: 'api.baseUrl', env: 'API_BASE_URL', type: 'string', default: 'http://localhost:3000' },
+  { path: 'api.clientBaseUrl', env: 'CLIENT_BASE_URL', type: 'string', default: 'http://localhost:4200' },
+  {
+    path: 'api.production',
+    env: 'NODE_ENV',
+    type: 'boolean',
+    default: false,
+    parse: raw => raw === 'production'
+  },
+  { path: 'api.envName', env: 'NODE_ENV', type: 'string', default: 'development' },
+
+  // 数据库配置
+  { path: 'database.type', env: 'DB_TYPE', type: 'string', default: 'postgresql' },
+  { path: 'database.host', env: 'DB_HOST', type: 'string', default: 'localhost' },
+  { path: 'database.port', env: 'DB_PORT', type: 'number', default: 5432 },
+  { path: 'database.name', env: 'DB_NAME', type: 'string', default: 'aiofix_platform' },
+  { path: 'database.username', env: 'DB_USER', type: 'string', default: 'aiofix_user' },
+  { path: 'database.password', env: 'DB_PASS', type: 'string', default: 'aiofix_password' },
+  { path: 'database.sslMode', env: 'DB_SSL_MODE', type: 'boolean', default: false },
+  { path: 'database.logging', env: 'DB_LOGGING', type: 'boolean', default: false },
+  { path: 'database.poolSize', env: 'DB_POOL_SIZE', type: 'number', default: 40 },
+  { path: 'database.connectionTimeout', env: 'DB_CONNECTION_TIMEOUT', type: 'number', default: 5000 },
+  { path: 'database.idleTimeout', env: 'DB_IDLE_TIMEOUT', type: 'number', default: 10000 },
+
+  // MongoDB配置
+  { path: 'mongodb.host', env: 'MONGO_HOST', type: 'string', default: 'localhost' },
+  { path: 'mongodb.port', env: 'MONGO_PORT', type: 'number', default: 27017 },
+  { path: 'mongodb.name', env: 'MONGO_NAME', type: 'string', default: 'aiofix_events' },
+  { path: 'mongodb.username', env: 'MONGO_USER', type: 'string', default: 'aiofix_admin' },
+  { path: 'mongodb.password', env: 'MONGO_PASS', type: 'string', default: 'aiofix_password' },
+  { path: 'mongodb.sslMode', env: 'MONGO_SSL_MODE', type: 'boolean', default: false },
+  { path: 'mongodb.logging', env: 'MONGO_LOGGING', type: 'boolean', default: false },
+
+  // Redis配置
+  { path: 'redis.host', env: 'REDIS_HOST', type: 'string', default: 'localhost' },
+  { path: 'redis.port', env: 'REDIS_PORT', type: 'number', default: 6379 },
+  { path: 'redis.password', env: 'REDIS_PASSWORD', type: 'string', default: '' },
+  { path: 'redis.db', env: 'REDIS_DB', type: 'number', default: 0 },
+
+  // 认证配置
+  { path: 'auth.jwtSecret', env: 'JWT_SECRET', type: 'string', default: 'your-super-secret-jwt-key' },
+  { path: 'auth.jwtExpiresIn', env: 'JWT_EXPIRES_IN', type: 'string', default: '24h' },
+  { path: 'auth.passwordSaltRounds', env: 'PASSWORD_SALT_ROUNDS', type: 'number', default: 10 },
+  { path: 'auth.sessionSecret', env: 'SESSION_SECRET', type: 'string', default: 'your-session-secret' },
+
+  // 资源文件配置
+  { path: 'assets.path', env: 'ASSETS_PATH', type: 'string', default: './assets' },
+  { path: 'assets.publicPath', env: 'ASSETS_PUBLIC_PATH', type: 'string', default: '/assets' },
+  { path: 'assets.maxFileSize', env: 'ASSETS_MAX_FILE_SIZE', type: 'number', default: 10485760 }, // 10MB
+  { path: 'assets.allowedTypes', env: 'ASSETS_ALLOWED_TYPES', type: 'string', default: 'image/*,application/pdf' },
+
+  // 日志配置
+  { path: 'logging.level', env: 'LOG_LEVEL', type: 'string', default: 'info' },
+  { path: 'logging.format', env: 'LOG_FORMAT', type: 'string', default: 'json' },
+  {
+    path: 'logging.destination',
+    env: 'LOG_DESTINATION',
+    type: 'string',
+    default: 'console',
+    // 逗号分隔时同时输出到多个目标，如 'console,file'
+    parse: raw => (raw.includes(',') ? raw.split(',').map(item => item.trim()).filter(Boolean) : raw.trim())
+  },
+  { path: 'logging.maxFiles', env: 'LOG_MAX_FILES', type: 'number', default: 5 },
+  { path: 'logging.maxSize', env: 'LOG_MAX_SIZE', type: 'string', default: '10m' },
+  // 按日志器上下文覆盖级别，如 'DatabaseConnectionManager=debug,Cache*=warn'
+  { path: 'logging.levels', env: 'LOG_LEVELS', type: 'string', default: '' },
+  { path: 'logging.debugSecret', env: 'LOG_DEBUG_SECRET', type: 'string', default: '' },
+
+  // 功能开关
+  { path: 'features.enableSwagger', env: 'ENABLE_SWAGGER', type: 'boolean', default: false },
+  { path: 'features.swaggerAuth', env: 'SWAGGER_AUTH', type: 'boolean', default: false },
+  { path: 'features.enableMetrics', env: 'ENABLE_METRICS', type: 'boolean', default: false },
+  { path: 'features.enableCors', env: 'ENABLE_CORS', type: 'boolean', default: false },
+  { path: 'features.enableRateLimit', env: 'ENABLE_RATE_LIMIT', type: 'boolean', default: false },
+  { path: 'features.enableHealthCheck', env: 'ENABLE_HEALTH_CHECK', type: 'boolean', default: false },
+
+  // 使用限额（可按租户覆盖，0 表示不限制）
+  { path: 'limits.maxUsers', env: 'LIMITS_MAX_USERS', type: 'number', default: 0 },
+  { path: 'limits.maxStorage', env: 'LIMITS_MAX_STORAGE', type: 'number', default: 0 },
+  { path: 'limits.requestsPerMinute', env: 'LIMITS_REQUESTS_PER_MINUTE', type: 'number', default: 1000 },
+
+  // 品牌配置（可按租户覆盖）
+  { path: 'branding.appName', env: 'BRANDING_APP_NAME', type: 'string', default: 'HL8 SaaS Platform' },
+  { path: 'branding.logoUrl', env: 'BRANDING_LOGO_URL', type: 'string', default: '' },
+  { path: 'branding.primaryColor', env: 'BRANDING_PRIMARY_COLOR', type: 'string', default: '#1890ff' }
+];
+
+/**
+ * 转换环境变量值
+ *
+ * @description 按映射项声明的类型将原始字符串转换为配置值
+ * 数字类型只接受完整的整数字符串，转换失败时保留 NaN，由配置验证阶段统一报告
+ *
+ * @param {EnvVariableMapping} mapping - 映射项
+ * @param {string} raw - 环境变量原始值
+ * @returns {unknown} 转换后的配置值
+ *
+ * @since 1.0.0
+ */
+export function coerceEnvValue(mapping: EnvVariableMapping, raw: string): unknown {
+  if (mapping.parse) {
+    return mapping.parse(raw);
+  }
+
+  switch (mapping.type) {
+    case 'number': {
+      // 不使用 parseInt，避免 '3000abc' 被静默截断为 3000
+      const value = raw.trim() === '' ? NaN : Number(raw);
+      return Number.isInteger(value) ? value : NaN;
+    }
+    case 'boolean':
+      return parseToBoolean(raw);
+    case 'string':
+    default:
+      return raw;
+  }
+}
+
+/**
+ * 从环境变量字典构建配置对象
+ *
+ * @description 根据映射表从环境变量字典中提取已设置的变量，构建嵌套配置对象
+ * 未设置或为空字符串的变量会被跳过，以便不覆盖更低优先级配置源的值
+ * 支持 Docker/K8s 风格的文件挂载密钥：变量 X 未设置而 X_FILE 已设置时，读取 X_FILE 指向的文件内容
+ *
+ * @param {Record<string, string | undefined>} env - 环境变量字典
+ * @param {readonly EnvVariableMapping[]} mappings - 使用的映射项，默认为完整的映射表
+ * @returns {Record<string, unknown>} 嵌套配置对象
+ *
+ * @example
+ * ```typescript
+ * const config = mapEnvToConfig({ API_PORT: '8080' });
+ * // { api: { port: 8080 } }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function mapEnvToConfig(
+  env: Record<string, string | undefined>,
+  mappings: readonly EnvVariableMapping[] = ENV_VARIABLE_MAPPINGS
+): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+
+  for (const mapping of mappings) {
+    const raw = readEnvValue(env, mapping.env);
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+    setValueAtPath(config, mapping.path, coerceEnvValue(mapping, raw));
+  }
+
+  return config;
+}
+
+/**
+ * 查找配置路径的映射项
+ *
+ * @param {string} path - 配置路径，如 'api.port'
+ * @returns {EnvVariableMapping | undefined} 映射项，路径没有对应的环境变量时返回 undefined
+ *
+ * @example
+ * ```typescript
+ * findEnvMapping('api.port')?.env; // 'API_PORT'
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function findEnvMapping(path: string): EnvVariableMapping | undefined {
+  return ENV_VARIABLE_MAPPINGS.find(mapping => mapping.path === path);
+}
+
+/**
+ * 查找环境变量的映射项
+ *
+ * @description 一个环境变量可以映射到多个配置路径，如 NODE_ENV
+ *
+ * @param {string} name - 环境变量名称，如 'NODE_ENV'
+ * @returns {EnvVariableMapping[]} 映射项列表，环境变量未被映射时返回空数组
+ *
+ * @example
+ * ```typescript
+ * findEnvMappingsByVariable('NODE_ENV').map(mapping => mapping.path);
+ * // ['environment', 'api.production', 'api.envName']
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function findEnvMappingsByVariable(name: string): EnvVariableMapping[] {
+  return ENV_VARIABLE_MAPPINGS.filter(mapping => mapping.env === name);
+}
+
+/**
+ * 从环境变量读取配置值
+ *
+ * @description 按映射表读取单个配置路径的值并转换类型
+ * 路径为配置段（如 'database'）时返回该配置段下所有已设置的环境变量组成的对象
+ *
+ * @param {Record<string, string | undefined>} env - 环境变量字典
+ * @param {string} path - 配置路径
+ * @returns {unknown} 配置值，没有映射或环境变量未设置时返回 undefined
+ *
+ * @example
+ * ```typescript
+ * readEnvConfigValue({ API_PORT: '8080' }, 'api.port'); // 8080
+ * readEnvConfigValue({ DB_HOST: 'db', DB_PORT: '5433' }, 'database'); // { host: 'db', port: 5433 }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function readEnvConfigValue(env: Record<string, string | undefined>, path: string): unknown {
+  const mappings = ENV_VARIABLE_MAPPINGS.filter(
+    mapping => mapping.path === path || mapping.path.startsWith(`${path}.`)
+  );
+  let value: unknown = mapEnvToConfig(env, mappings);
+
+  for (const key of path.split('.')) {
+    value = (value as Record<string, unknown> | undefined)?.[key];
+  }
+
+  return value;
+}
+
+/**
+ * 读取环境变量值
+ *
+ * @description 优先读取变量本身，未设置时读取 <name>_FILE 指向的文件内容（去除末尾换行）
+ *
+ * @param {Record<string, string | undefined>} env - 环境变量字典
+ * @param {string} name - 环境变量名称
+ * @returns {string | undefined} 环境变量值
+ * @throws {Error} <name>_FILE 指向的文件无法读取时抛出
+ *
+ * @example
+ * ```typescript
+ * // DB_PASS_FILE=/run/secrets/db_password
+ * readEnvValue(process.env, 'DB_PASS');
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function readEnvValue(env: Record<string, string | undefined>, name: string): string | undefined {
+  const value = env[name];
+  if (value !== undefined && value !== '') {
+    return value;
+  }
+
+  const filePath = env[`${name}_FILE`];
+  if (!filePath) {
+    return value;
+  }
+
+  try {
+    return readFileSync(filePath, 'utf-8').replace(/\r?\n$/, '');
+  } catch (error) {
+    throw new Error(`无法读取 ${name}_FILE 指向的文件 ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 构建默认配置对象
+ *
+ * @description 根据映射表中的默认值构建完整的默认配置
+ *
+ * @returns {Record<string, unknown>} 默认配置对象
+ *
+ * @since 1.0.0
+ */
+export function buildDefaultConfig(): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+
+  for (const mapping of ENV_VARIABLE_MAPPINGS) {
+    setValueAtPath(config, mapping.path, mapping.default);
+  }
+
+  return config;
+}
+
+/**
+ * 设置嵌套路径的值
+ *
+ * @description 按点号分隔的路径在对象上设置值，自动创建中间对象
+ *
+ * @param {Record<string, unknown>} target - 目标对象
+ * @param {string} path - 点号分隔的路径
+ * @param {unknown} value - 要设置的值
+ *
+ * @since 1.0.0
+ */
+export function setValueAtPath(target: Record<string, unknown>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = target;
+
+  for (const key of keys.slice(0, -1)) {
+    if (typeof current[key] !== 'object' || current[key] === null) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  current[keys[keys.length - 1]] = value;
+}
@@ -0,0 +1,123 @@
+import { existsSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import {
+  ConfigSource,
+  ConfigSourceType,
+  ConfigWatchOptions,
+  FileConfigSourceOptions
+} from './config-source.interface.js';
+import { watchConfigFile } from './file-watcher.js';
+
+/**
+ * 结构化文件配置源基类
+ *
+ * @description JSON、YAML 等结构化配置文件的公共实现
+ * 文件内容应与 ApplicationMemoryConfig 的嵌套结构保持一致
+ *
+ * @since 1.0.0
+ */
+abstract class StructuredFileConfigSource implements ConfigSource {
+  readonly name: string;
+  abstract readonly type: ConfigSourceType;
+
+  constructor(
+    protected readonly filePath: string,
+    protected readonly options: FileConfigSourceOptions = {}
+  ) {
+    this.name = options.name || filePath;
+  }
+
+  /**
+   * 读取配置数据
+   *
+   * @description 读取并解析配置文件
+   * @returns {Promise<Record<string, unknown>>} 配置数据
+   * @throws {Error} 文件不存在且未标记为可选，或文件内容不是对象时抛出
+   */
+  async load(): Promise<Record<string, unknown>> {
+    if (!existsSync(this.filePath)) {
+      if (this.options.optional) {
+        return {};
+      }
+      throw new Error(`配置文件不存在: ${this.filePath}`);
+    }
+
+    const content = await readFile(this.filePath, 'utf-8');
+    const data = this.parse(content);
+
+    if (data === null || data === undefined) {
+      return {};
+    }
+    if (typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error(`配置文件内容必须是对象: ${this.filePath}`);
+    }
+
+    return data as Record<string, unknown>;
+  }
+
+  /**
+   * 监听配置文件变化
+   *
+   * @param {() => void} onChange - 文件变化回调
+   * @param {Required<ConfigWatchOptions>} options - 监听选项
+   * @returns {() => void} 停止监听的函数
+   */
+  watch(onChange: () => void, options: Required<ConfigWatchOptions>): () => void {
+    return watchConfigFile(this.filePath, onChange, options.interval);
+  }
+
+  /**
+   * 解析文件内容
+   *
+   * @param {string} content - 文件内容
+   * @returns {unknown} 解析结果
+   */
+  protected abstract parse(content: string): unknown;
+}
+
+/**
+ * JSON 文件配置源
+ *
+ * @description 从 JSON 文件读取配置
+ *
+ * @example
+ * ```typescript
+ * new JsonFileConfigSource('config/default.json');
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class JsonFileConfigSource extends StructuredFileConfigSource {
+  readonly type = 'json' as const;
+
+  protected parse(content: string): unknown {
+    return JSON.parse(content);
+  }
+}
+
+/**
+ * YAML 文件配置源
+ *
+ * @description 从 YAML 文件读取配置
+ *
+ * @example
+ * ```typescript
+ * ConfigModule.forRoot({
+ *   sources: [
+ *     new YamlFileConfigSource('config/default.yaml'),
+ *     new YamlFileConfigSource(`config/${process.env.NODE_ENV}.yaml`, { optional: true }),
+ *     new EnvConfigSource()
+ *   ]
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class YamlFileConfigSource extends StructuredFileConfigSource {
+  readonly type = 'yaml' as const;
+
+  protected parse(content: string): unknown {
+    return parseYaml(content);
+  }
+}
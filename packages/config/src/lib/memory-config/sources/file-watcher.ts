@@ -0,0 +1,25 @@
+import { Stats, unwatchFile, watchFile } from 'fs';
+
+/**
+ * 监听配置文件变化
+ *
+ * @description 使用轮询方式监听文件修改时间的变化
+ * 轮询方式同样适用于容器挂载卷和尚未创建的可选文件
+ *
+ * @param {string} filePath - 文件路径
+ * @param {() => void} onChange - 文件变化回调
+ * @param {number} interval - 轮询间隔（毫秒）
+ * @returns {() => void} 停止监听的函数
+ *
+ * @since 1.0.0
+ */
+export function watchConfigFile(filePath: string, onChange: () => void, interval: number): () => void {
+  const listener = (current: Stats, previous: Stats): void => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      onChange();
+    }
+  };
+
+  watchFile(filePath, { interval, persistent: false }, listener);
+  return () => unwatchFile(filePath, listener);
+}
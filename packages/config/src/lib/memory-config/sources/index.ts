@@ -0,0 +1,9 @@
+export * from './config-source.interface.js';
+export * from './env-mapping.js';
+export * from './defaults-config.source.js';
+export * from './env-config.source.js';
+export * from './dotenv-config.source.js';
+export * from './file-config.source.js';
+export * from './object-config.source.js';
+export * from './remote-config.source.js';
+export * from './layered-config.loader.js';
@@ -0,0 +1,78 @@
+import { deepMerge, isPlainObject } from '@hl8/utils';
+import { ConfigSource, LayeredConfigResult } from './config-source.interface.js';
+
+/**
+ * 加载分层配置
+ *
+ * @description 按声明顺序读取所有配置源并深度合并
+ * 后声明的配置源优先级更高，会覆盖先前配置源中的同名配置键
+ * 同时记录每个叶子配置键最终来自哪个配置源
+ *
+ * @param {ConfigSource[]} sources - 配置源列表，按优先级从低到高排列
+ * @returns {Promise<LayeredConfigResult>} 合并结果
+ * @throws {Error} 任一配置源读取失败时抛出，错误信息中包含配置源名称
+ *
+ * @example
+ * ```typescript
+ * const { config, keySources } = await loadLayeredConfig([
+ *   new DefaultsConfigSource(),
+ *   new YamlFileConfigSource('config/default.yaml'),
+ *   new EnvConfigSource()
+ * ]);
+ * keySources['api.port']; // 'env'
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function loadLayeredConfig(sources: ConfigSource[]): Promise<LayeredConfigResult> {
+  let config: Record<string, unknown> = {};
+  const keySources: Record<string, string> = {};
+
+  for (const source of sources) {
+    let data: Record<string, unknown>;
+    try {
+      data = await source.load();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`配置源 ${source.name} 加载失败: ${message}`);
+    }
+
+    config = deepMerge(config, data);
+    for (const path of flattenConfigPaths(data)) {
+      keySources[path] = source.name;
+    }
+  }
+
+  return {
+    config,
+    keySources,
+    sources: sources.map(source => source.name)
+  };
+}
+
+/**
+ * 展开配置叶子路径
+ *
+ * @description 返回嵌套配置对象中所有叶子值的点号路径
+ * 数组被视为叶子值，不会展开其元素
+ *
+ * @param {Record<string, unknown>} data - 配置对象
+ * @param {string} prefix - 路径前缀
+ * @returns {string[]} 叶子路径列表
+ *
+ * @since 1.0.0
+ */
+export function flattenConfigPaths(data: Record<string, unknown>, prefix = ''): string[] {
+  const paths: string[] = [];
+
+  for (const [key, value] of Object.entries(data)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      paths.push(...flattenConfigPaths(value as Record<string, unknown>, path));
+    } else {
+      paths.push(path);
+    }
+  }
+
+  return paths;
+}
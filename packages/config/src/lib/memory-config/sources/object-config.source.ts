@@ -0,0 +1,33 @@
+import { deepClone } from '@hl8/utils';
+import { ConfigSource, ConfigSourceType } from './config-source.interface.js';
+
+/**
+ * 内存对象配置源
+ *
+ * @description 直接使用内存中的对象作为配置源
+ * 适用于测试、程序化覆盖以及内置默认值
+ *
+ * @example
+ * ```typescript
+ * new ObjectConfigSource({ features: { enableSwagger: true } }, 'overrides');
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class ObjectConfigSource implements ConfigSource {
+  constructor(
+    private readonly data: Record<string, unknown>,
+    readonly name = 'object',
+    readonly type: ConfigSourceType = 'object'
+  ) {}
+
+  /**
+   * 读取配置数据
+   *
+   * @description 返回配置对象的深拷贝，避免合并过程修改原始数据
+   * @returns {Record<string, unknown>} 配置数据
+   */
+  load(): Record<string, unknown> {
+    return deepClone(this.data);
+  }
+}
@@ -0,0 +1,377 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { loggerRegistry } from '@hl8/logger';
+import { deepClone, deepMerge, isPlainObject } from '@hl8/utils';
+import { ConfigSource } from './config-source.interface.js';
+import { coerceEnvValue, findEnvMapping, setValueAtPath } from './env-mapping.js';
+
+/**
+ * 远程配置源选项
+ *
+ * @description RemoteConfigSource 的配置选项
+ */
+export interface RemoteConfigSourceOptions {
+  /** 配置源名称，默认为 'remote' */
+  name?: string;
+  /** 请求头，如认证令牌 */
+  headers?: Record<string, string>;
+  /** 请求超时时间（毫秒），默认为 5000 */
+  timeout?: number;
+  /**
+   * 轮询间隔（毫秒）
+   *
+   * @description 启用 ConfigModule.forRoot({ watch }) 后按该间隔发送带 If-None-Match 的条件请求，默认为 30000
+   */
+  pollInterval?: number;
+  /**
+   * 本地缓存文件
+   *
+   * @description 每次成功拉取后写入最后一次有效的远程配置
+   * 远程服务不可用时从该文件恢复，保证应用仍能启动
+   */
+  cacheFile?: string;
+  /** 远程服务不可用且没有缓存时是否跳过，默认为 false */
+  optional?: boolean;
+  /**
+   * 键分隔符
+   *
+   * @description 扁平键值对中的层级分隔符，默认为 '.'，如 { 'api.port': 8080 }
+   * Consul、etcd 风格的键可以使用 '/'
+   */
+  keySeparator?: string;
+  /**
+   * 响应转换函数
+   *
+   * @description 将响应体转换为配置对象，用于适配 Consul 等非标准格式，转换结果仍会展开扁平键
+   */
+  transform?: (body: unknown) => Record<string, unknown>;
+}
+
+/**
+ * 远程配置源状态
+ *
+ * @description 最近一次拉取远程配置的结果
+ */
+export interface RemoteConfigSourceState {
+  /** 配置服务地址 */
+  url: string;
+  /** 当前配置的数据来源，'none' 表示尚未获取到配置 */
+  origin: 'remote' | 'cache' | 'none';
+  /** 当前配置的 ETag */
+  etag?: string;
+  /** 最近一次成功拉取（包括 304）的时间 */
+  lastFetchedAt?: Date;
+  /** 最近一次拉取失败的原因，拉取成功后清空 */
+  lastError?: string;
+}
+
+/**
+ * 缓存文件内容
+ *
+ * @private
+ */
+interface RemoteConfigCache {
+  url: string;
+  etag?: string;
+  fetchedAt: string;
+  config: Record<string, unknown>;
+}
+
+/**
+ * 远程配置源
+ *
+ * @description 从 HTTP 配置服务读取集群共享的配置，返回嵌套 JSON 或扁平键值对 JSON 均可
+ *
+ * ## 主要功能
+ * - 使用 ETag 条件请求，配置未变化时服务端返回 304，不重复传输和解析
+ * - 启用监听模式时按轮询间隔检查远程配置，变化后触发重新加载
+ * - 将最后一次有效的远程配置写入本地缓存文件，远程服务不可用时使用缓存启动
+ * - 支持扁平键值对（{ 'api.port': 8080 }）和 Spring Cloud Config 的 propertySources 格式
+ * - 字符串值按环境变量映射表声明的类型转换，兼容只能存储字符串的键值存储
+ *
+ * ## 优先级
+ * 与其他配置源一样由声明顺序决定，推荐放在配置文件之后、环境变量之前，
+ * 使集群共享配置覆盖仓库中的配置文件，同时保留通过环境变量覆盖单个实例的能力
+ *
+ * @example
+ * ```typescript
+ * ConfigModule.forRoot({
+ *   sources: [
+ *     new YamlFileConfigSource('config/default.yaml'),
+ *     new RemoteConfigSource('http://config-server/apps/api', {
+ *       headers: { Authorization: `Bearer ${process.env.CONFIG_TOKEN}` },
+ *       cacheFile: '.cache/remote-config.json'
+ *     }),
+ *     new EnvConfigSource()
+ *   ],
+ *   watch: true
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class RemoteConfigSource implements ConfigSource {
+  readonly name: string;
+  readonly type = 'remote' as const;
+
+  /**
+   * 日志记录器
+   */
+  private readonly logger = loggerRegistry.getLogger('RemoteConfigSource');
+
+  /**
+   * 当前配置
+   */
+  private current: Record<string, unknown> | null = null;
+
+  /**
+   * 拉取状态
+   */
+  private state: RemoteConfigSourceState;
+
+  constructor(
+    private readonly url: string,
+    private readonly options: RemoteConfigSourceOptions = {}
+  ) {
+    this.name = options.name || 'remote';
+    this.state = { url, origin: 'none' };
+  }
+
+  /**
+   * 读取配置数据
+   *
+   * @description 请求远程配置，失败时依次使用内存中的上一次配置和本地缓存文件
+   * @returns {Promise<Record<string, unknown>>} 配置数据
+   * @throws {Error} 远程服务不可用、没有可用的缓存且未标记为可选时抛出
+   */
+  async load(): Promise<Record<string, unknown>> {
+    try {
+      await this.fetchRemote();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.state = { ...this.state, lastError: message };
+
+      if (!this.current && !this.restoreCache()) {
+        if (this.options.optional) {
+          this.logger.warn('远程配置不可用，跳过该配置源', { source: this.name, url: this.url, error: message });
+          return {};
+        }
+        throw new Error(`无法获取远程配置 ${this.url}: ${message}`);
+      }
+
+      this.logger.warn('远程配置不可用，使用最后一次有效的配置', {
+        source: this.name,
+        url: this.url,
+        origin: this.state.origin,
+        error: message
+      });
+    }
+
+    return deepClone(this.current ?? {});
+  }
+
+  /**
+   * 轮询远程配置
+   *
+   * @description 按轮询间隔发送条件请求，远程配置变化时调用 onChange
+   * 轮询失败只记录在状态中，不影响当前配置；轮询间隔由 pollInterval 控制，不使用监听选项中的 interval
+   *
+   * @param {() => void} onChange - 远程配置变化回调
+   * @returns {() => void} 停止轮询的函数
+   */
+  watch(onChange: () => void): () => void {
+    let polling = false;
+    const timer = setInterval(() => {
+      if (polling) {
+        return;
+      }
+      polling = true;
+      this.fetchRemote()
+        .then(changed => {
+          if (changed) {
+            onChange();
+          }
+        })
+        .catch(error => {
+          this.state = { ...this.state, lastError: error instanceof Error ? error.message : String(error) };
+        })
+        .finally(() => {
+          polling = false;
+        });
+    }, this.options.pollInterval ?? 30000);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * 获取拉取状态
+   *
+   * @returns {RemoteConfigSourceState} 最近一次拉取的结果
+   *
+   * @since 1.0.0
+   */
+  getState(): RemoteConfigSourceState {
+    return { ...this.state };
+  }
+
+  /**
+   * 请求远程配置
+   *
+   * @description 已有配置时携带 If-None-Match，服务端返回 304 表示配置未变化
+   * @returns {Promise<boolean>} 远程配置是否变化
+   * @throws {Error} 请求失败、超时或响应无法解析时抛出
+   *
+   * @private
+   */
+  private async fetchRemote(): Promise<boolean> {
+    const headers: Record<string, string> = { Accept: 'application/json', ...this.options.headers };
+    if (this.current && this.state.etag) {
+      headers['If-None-Match'] = this.state.etag;
+    }
+
+    const response = await fetch(this.url, {
+      headers,
+      signal: AbortSignal.timeout(this.options.timeout ?? 5000)
+    });
+
+    if (response.status === 304 && this.current) {
+      this.state = { ...this.state, origin: 'remote', lastFetchedAt: new Date(), lastError: undefined };
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const config = this.parse(await response.json());
+    const changed = JSON.stringify(config) !== JSON.stringify(this.current);
+    const etag = response.headers.get('etag') ?? undefined;
+
+    this.current = config;
+    this.state = { url: this.url, origin: 'remote', etag, lastFetchedAt: new Date() };
+    this.writeCache({ url: this.url, etag, fetchedAt: new Date().toISOString(), config });
+
+    return changed;
+  }
+
+  /**
+   * 解析响应体
+   *
+   * @private
+   */
+  private parse(body: unknown): Record<string, unknown> {
+    const data = this.options.transform ? this.options.transform(body) : body;
+    if (!isPlainObject(data)) {
+      throw new Error('远程配置必须是 JSON 对象');
+    }
+
+    const propertySources = (data as { propertySources?: unknown }).propertySources;
+    if (Array.isArray(propertySources)) {
+      // Spring Cloud Config：排在前面的属性源优先级更高
+      return [...propertySources].reverse().reduce<Record<string, unknown>>((config, propertySource) => {
+        const source = (propertySource as { source?: unknown } | null)?.source;
+        return isPlainObject(source) ? deepMerge(config, this.expandKeys(source as Record<string, unknown>)) : config;
+      }, {});
+    }
+
+    return this.expandKeys(data as Record<string, unknown>);
+  }
+
+  /**
+   * 展开扁平键并转换字符串值
+   *
+   * @private
+   */
+  private expandKeys(
+    data: Record<string, unknown>,
+    target: Record<string, unknown> = {},
+    prefix = ''
+  ): Record<string, unknown> {
+    const separator = this.options.keySeparator ?? '.';
+
+    for (const [key, value] of Object.entries(data)) {
+      const path = [prefix, ...key.split(separator)].filter(Boolean).join('.');
+      if (isPlainObject(value)) {
+        this.expandKeys(value as Record<string, unknown>, target, path);
+      } else {
+        setValueAtPath(target, path, coerceRemoteValue(path, value));
+      }
+    }
+
+    return target;
+  }
+
+  /**
+   * 从本地缓存文件恢复配置
+   *
+   * @returns {boolean} 是否恢复成功
+   *
+   * @private
+   */
+  private restoreCache(): boolean {
+    const file = this.options.cacheFile;
+    if (!file || !existsSync(file)) {
+      return false;
+    }
+
+    try {
+      const cache = JSON.parse(readFileSync(file, 'utf-8')) as RemoteConfigCache;
+      if (cache.url !== this.url || !isPlainObject(cache.config)) {
+        return false;
+      }
+
+      this.current = cache.config;
+      this.state = { ...this.state, origin: 'cache', etag: cache.etag };
+      return true;
+    } catch (error) {
+      this.logger.warn('远程配置缓存读取失败', {
+        file,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 写入本地缓存文件
+   *
+   * @description 先写入临时文件再重命名，缓存中可能包含密钥，文件权限设为仅所有者可读写
+   * 写入失败只记录警告，不影响配置加载
+   *
+   * @private
+   */
+  private writeCache(cache: RemoteConfigCache): void {
+    const file = this.options.cacheFile;
+    if (!file) {
+      return;
+    }
+
+    try {
+      mkdirSync(dirname(file), { recursive: true });
+      const temp = `${file}.tmp`;
+      writeFileSync(temp, JSON.stringify(cache, null, 2), { mode: 0o600 });
+      renameSync(temp, file);
+    } catch (error) {
+      this.logger.warn('远程配置缓存写入失败', {
+        file,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+/**
+ * 转换远程配置值
+ *
+ * @description 键值存储通常只能保存字符串，字符串值按环境变量映射表声明的类型转换
+ * 映射项的自定义解析函数针对环境变量编写，此处不使用
+ *
+ * @private
+ */
+function coerceRemoteValue(path: string, value: unknown): unknown {
+  const mapping = findEnvMapping(path);
+  if (typeof value !== 'string' || !mapping || mapping.type === 'string') {
+    return value;
+  }
+  return coerceEnvValue({ ...mapping, parse: undefined }, value);
+}
@@ -0,0 +1,363 @@
+import { Injectable, Optional } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { getCurrentTenantId, loggerRegistry } from '@hl8/logger';
+import { deepClone, deepMerge, isPlainObject } from '@hl8/utils';
+import { MemoryConfigService } from './memory-config.service.js';
+import { ApplicationMemoryConfig } from './config-classes/application-memory-config.js';
+import { ConfigChange, diffConfig } from './config-change.js';
+import { ConfigValidationService } from '../validation/config-validation.service.js';
+import { ConfigValidationError } from '../validation/config-validation-error.js';
+
+/**
+ * 可按租户覆盖的配置分区
+ *
+ * @description 租户只能覆盖功能开关、使用限额和品牌配置
+ * 连接信息、密钥等基础设施配置始终使用全局配置
+ *
+ * @since 1.0.0
+ */
+export const TENANT_CONFIGURABLE_SECTIONS = ['features', 'limits', 'branding'] as const;
+
+/**
+ * 可按租户覆盖的配置分区名称
+ */
+export type TenantConfigurableSection = (typeof TENANT_CONFIGURABLE_SECTIONS)[number];
+
+/**
+ * 租户配置覆盖
+ *
+ * @description 租户级配置叠加层，未声明的配置项沿用全局配置
+ *
+ * @example
+ * ```typescript
+ * const overrides: TenantConfigOverrides = {
+ *   features: { enableSwagger: true },
+ *   limits: { maxUsers: 50 },
+ *   branding: { appName: 'Acme', primaryColor: '#ff6600' }
+ * };
+ * ```
+ */
+export type TenantConfigOverrides = {
+  [S in TenantConfigurableSection]?: Partial<ApplicationMemoryConfig[S]>;
+};
+
+/**
+ * 租户配置覆盖记录
+ *
+ * @description listOverrides() 返回的租户覆盖信息
+ */
+export interface TenantConfigOverrideEntry {
+  /** 租户ID */
+  tenantId: string;
+  /** 租户配置覆盖 */
+  overrides: TenantConfigOverrides;
+  /** 最后更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 租户配置变更事件
+ *
+ * @description 租户配置覆盖被设置或删除时发出的事件
+ */
+export interface TenantConfigChangeEvent {
+  /** 租户ID */
+  tenantId: string;
+  /** 租户生效配置的变更列表 */
+  changes: ConfigChange[];
+  /** 变更时间 */
+  timestamp: Date;
+}
+
+/**
+ * 缓存的租户配置
+ *
+ * @description 记录生成租户配置时使用的全局配置，全局配置重新加载后缓存自动失效
+ */
+interface CachedTenantConfig {
+  base: ApplicationMemoryConfig;
+  config: ApplicationMemoryConfig;
+}
+
+/**
+ * 租户配置服务
+ *
+ * @description 管理租户级配置覆盖，并按当前请求的租户解析生效配置
+ *
+ * ## 主要功能
+ *
+ * ### 租户配置叠加
+ * - 租户覆盖使用 deepMerge 叠加在全局配置之上
+ * - 仅允许覆盖功能开关、使用限额和品牌配置
+ * - 覆盖值在写入前按 ApplicationConfigDto 验证
+ *
+ * ### 租户解析
+ * - 默认从 @hl8/logger 的请求上下文（RequestStore）读取当前租户
+ * - 不在请求作用域内或租户没有覆盖时返回全局配置
+ *
+ * ### 缓存
+ * - 每个租户的生效配置按需生成并缓存
+ * - 设置或删除覆盖时立即失效，全局配置重新加载后自动失效
+ *
+ * 覆盖保存在进程内存中，多实例部署需要由调用方负责在各实例间同步
+ *
+ * @example
+ * ```typescript
+ * await tenantConfig.setOverrides('tenant-a', { limits: { maxUsers: 50 } });
+ *
+ * // 在 tenant-a 的请求中
+ * configService.get('limits.maxUsers'); // 50
+ * ```
+ *
+ * @since 1.0.0
+ */
+@Injectable()
+export class TenantConfigService {
+  /**
+   * 日志记录器
+   */
+  private readonly logger = loggerRegistry.getLogger('TenantConfigService');
+
+  /**
+   * 配置验证服务
+   */
+  private readonly validationService: ConfigValidationService;
+
+  /**
+   * 租户配置覆盖
+   */
+  private readonly overrides = new Map<string, TenantConfigOverrideEntry>();
+
+  /**
+   * 租户生效配置缓存
+   */
+  private readonly cache = new Map<string, CachedTenantConfig>();
+
+  /**
+   * 租户配置变更事件主题
+   */
+  private readonly changeSubject = new Subject<TenantConfigChangeEvent>();
+
+  /**
+   * 租户配置变更事件流
+   *
+   * @description 租户覆盖被设置或删除且生效配置发生变化时发出事件
+   */
+  readonly changes$: Observable<TenantConfigChangeEvent> = this.changeSubject.asObservable();
+
+  constructor(
+    private readonly memoryConfig: MemoryConfigService,
+    @Optional() validationService?: ConfigValidationService
+  ) {
+    this.validationService = validationService ?? new ConfigValidationService();
+  }
+
+  /**
+   * 获取租户生效配置
+   *
+   * @description 返回全局配置叠加租户覆盖后的配置
+   * 未指定租户时从当前请求上下文读取，没有租户或租户没有覆盖时返回全局配置
+   *
+   * @param {string} tenantId - 租户ID，默认为当前请求的租户
+   * @returns {ApplicationMemoryConfig} 租户生效配置
+   *
+   * @example
+   * ```typescript
+   * const config = tenantConfig.getTenantConfig('tenant-a');
+   * console.log(config.getLimitsConfig().maxUsers);
+   * ```
+   *
+   * @since 1.0.0
+   */
+  getTenantConfig(tenantId: string | undefined = getCurrentTenantId()): ApplicationMemoryConfig {
+    const base = this.memoryConfig.getAllConfig();
+    const entry = tenantId ? this.overrides.get(tenantId) : undefined;
+    if (!tenantId || !entry) {
+      return base;
+    }
+
+    const cached = this.cache.get(tenantId);
+    if (cached && cached.base === base) {
+      return cached.config;
+    }
+
+    const config = this.buildTenantConfig(base, entry.overrides);
+    this.cache.set(tenantId, { base, config });
+    return config;
+  }
+
+  /**
+   * 设置租户配置覆盖
+   *
+   * @description 替换租户的全部配置覆盖，验证失败时保留原有覆盖
+   *
+   * @param {string} tenantId - 租户ID
+   * @param {TenantConfigOverrides} overrides - 租户配置覆盖
+   * @returns {Promise<void>}
+   * @throws {ConfigValidationError} 覆盖了不允许的配置项或覆盖值验证失败时抛出
+   *
+   * @example
+   * ```typescript
+   * await tenantConfig.setOverrides('tenant-a', {
+   *   features: { enableSwagger: true },
+   *   branding: { appName: 'Acme' }
+   * });
+   * ```
+   *
+   * @since 1.0.0
+   */
+  async setOverrides(tenantId: string, overrides: TenantConfigOverrides): Promise<void> {
+    this.assertConfigurable(overrides);
+
+    const base = this.memoryConfig.getAllConfig();
+    const next = this.buildTenantConfig(base, overrides);
+    const sections = Object.keys(overrides);
+    const result = await this.validationService.validatePartialConfig(
+      this.toSectionData(next, sections),
+      sections
+    );
+    if (!result.isValid) {
+      throw this.validationService.createValidationException(result.errors);
+    }
+
+    const previous = this.getTenantConfig(tenantId);
+    this.overrides.set(tenantId, { tenantId, overrides: deepClone(overrides), updatedAt: new Date() });
+    this.cache.set(tenantId, { base, config: next });
+    this.publishChanges(tenantId, previous, next);
+  }
+
+  /**
+   * 删除租户配置覆盖
+   *
+   * @description 删除后该租户恢复使用全局配置
+   *
+   * @param {string} tenantId - 租户ID
+   * @returns {boolean} 租户是否存在配置覆盖
+   *
+   * @since 1.0.0
+   */
+  removeOverrides(tenantId: string): boolean {
+    if (!this.overrides.has(tenantId)) {
+      return false;
+    }
+
+    const previous = this.getTenantConfig(tenantId);
+    this.overrides.delete(tenantId);
+    this.invalidate(tenantId);
+    this.publishChanges(tenantId, previous, this.memoryConfig.getAllConfig());
+    return true;
+  }
+
+  /**
+   * 获取租户配置覆盖
+   *
+   * @param {string} tenantId - 租户ID
+   * @returns {TenantConfigOverrides | undefined} 租户配置覆盖，不存在时返回 undefined
+   *
+   * @since 1.0.0
+   */
+  getOverrides(tenantId: string): TenantConfigOverrides | undefined {
+    return this.overrides.get(tenantId)?.overrides;
+  }
+
+  /**
+   * 列出所有租户配置覆盖
+   *
+   * @returns {TenantConfigOverrideEntry[]} 租户配置覆盖列表，按租户ID排序
+   *
+   * @since 1.0.0
+   */
+  listOverrides(): TenantConfigOverrideEntry[] {
+    return [...this.overrides.values()].sort((a, b) => a.tenantId.localeCompare(b.tenantId));
+  }
+
+  /**
+   * 清除租户配置缓存
+   *
+   * @description 清除指定租户的生效配置缓存，未指定时清除所有租户
+   *
+   * @param {string} tenantId - 租户ID
+   *
+   * @since 1.0.0
+   */
+  invalidate(tenantId?: string): void {
+    if (tenantId) {
+      this.cache.delete(tenantId);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  /**
+   * 生成租户生效配置
+   *
+   * @private
+   */
+  private buildTenantConfig(base: ApplicationMemoryConfig, overrides: TenantConfigOverrides): ApplicationMemoryConfig {
+    const data: Record<string, unknown> = { ...base };
+
+    for (const [section, values] of Object.entries(overrides)) {
+      data[section] = deepMerge({ ...(base as unknown as Record<string, object>)[section] }, values);
+    }
+
+    return new ApplicationMemoryConfig(data, base.getNamespaces());
+  }
+
+  /**
+   * 检查覆盖的配置项是否允许按租户覆盖
+   *
+   * @private
+   */
+  private assertConfigurable(overrides: TenantConfigOverrides): void {
+    const base = this.memoryConfig.getAllConfig() as unknown as Record<string, Record<string, unknown>>;
+    const errors: ConfigValidationError[] = [];
+
+    for (const [section, values] of Object.entries(overrides as Record<string, unknown>)) {
+      if (!(TENANT_CONFIGURABLE_SECTIONS as readonly string[]).includes(section) || !isPlainObject(values)) {
+        errors.push(ConfigValidationError.createBusinessRuleError(section, '该配置不允许按租户覆盖', '***'));
+        continue;
+      }
+
+      for (const [key, value] of Object.entries(values as Record<string, unknown>)) {
+        const path = `${section}.${key}`;
+        if (!(key in base[section])) {
+          errors.push(ConfigValidationError.createBusinessRuleError(path, '配置项不存在', value));
+        } else if (typeof value !== typeof base[section][key]) {
+          errors.push(ConfigValidationError.createTypeError(path, typeof base[section][key], value));
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw this.validationService.createBatchException(errors);
+    }
+  }
+
+  /**
+   * 提取指定配置分区的普通对象
+   *
+   * @private
+   */
+  private toSectionData(config: ApplicationMemoryConfig, sections: string[]): Record<string, unknown> {
+    return Object.fromEntries(
+      sections.map(section => [section, { ...(config as unknown as Record<string, object>)[section] }])
+    );
+  }
+
+  /**
+   * 发布租户配置变更
+   *
+   * @private
+   */
+  private publishChanges(tenantId: string, previous: ApplicationMemoryConfig, current: ApplicationMemoryConfig): void {
+    const changes = diffConfig(previous, current);
+    this.logger.info('租户配置覆盖已更新', {
+      tenantId,
+      changedKeys: changes.map(change => change.path)
+    });
+
+    if (changes.length > 0) {
+      this.changeSubject.next({ tenantId, changes, timestamp: new Date() });
+    }
+  }
+}
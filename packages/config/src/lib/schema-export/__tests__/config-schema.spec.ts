@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parse as parseDotenv } from 'dotenv';
+import { collectConfigSchema } from '../config-schema.collector';
+import {
+  generateConfigSchemaFiles,
+  renderEnvExample,
+  renderJsonSchema,
+  renderMarkdownReference
+} from '../config-schema.renderers';
+import { ENV_VARIABLE_MAPPINGS } from '../../memory-config/sources/env-mapping';
+
+const SCHEMA_DIR = join(__dirname, '../../../../schema');
+
+describe('Config schema export', () => {
+  const entries = collectConfigSchema();
+  const entry = (path: string) => entries.find(candidate => candidate.path === path);
+
+  describe('collectConfigSchema', () => {
+    it('should merge DTO constraints with the env mapping', () => {
+      expect(entry('api.port')).toMatchObject({
+        env: 'API_PORT',
+        type: 'number',
+        default: 3000,
+        minimum: 1,
+        maximum: 65535,
+        optional: false,
+        sensitive: false
+      });
+      expect(entry('logging.level')?.enum).toEqual(['fatal', 'error', 'warn', 'info', 'debug', 'trace']);
+      expect(entry('limits.maxUsers')?.type).toBe('integer');
+      expect(entry('api.baseUrl')?.format).toBe('uri');
+      expect(entry('auth.jwtSecret')?.minLength).toBe(1);
+    });
+
+    it('should cover every mapped config path', () => {
+      const paths = entries.map(candidate => candidate.path);
+      expect(ENV_VARIABLE_MAPPINGS.map(mapping => mapping.path).filter(path => !paths.includes(path))).toEqual([]);
+      expect(entry('flags')).toMatchObject({ type: 'object', optional: true, env: undefined });
+    });
+
+    it('should mark sensitive, optional and environment specific keys', () => {
+      expect(entry('redis.password')).toMatchObject({ sensitive: true, optional: true });
+      expect(entry('database.sslMode')?.environmentDefaults).toEqual({ production: true });
+      expect(entry('database.name')?.environmentDefaults).toEqual({ test: 'aiofix_platform_test' });
+    });
+
+    it('should expand case-insensitive patterns for JSON Schema', () => {
+      expect(entry('logging.maxSize')?.pattern).toBe('^\\d+[kKmMgG]?$');
+      expect(new RegExp(entry('logging.maxSize')?.pattern ?? '').test('10M')).toBe(true);
+    });
+  });
+
+  describe('renderers', () => {
+    it('should render a parseable .env.example with one line per variable', () => {
+      const content = renderEnvExample(entries);
+      const parsed = parseDotenv(content);
+
+      expect(content.match(/^NODE_ENV=/gm)).toHaveLength(1);
+      expect(content).toContain('# environment, api.production, api.envName');
+      expect(parsed['BRANDING_APP_NAME']).toBe('HL8 SaaS Platform');
+      expect(parsed['BRANDING_PRIMARY_COLOR']).toBe('#1890ff');
+      expect(parsed['API_PORT']).toBe('3000');
+      expect(Object.keys(parsed)).toHaveLength(new Set(ENV_VARIABLE_MAPPINGS.map(mapping => mapping.env)).size);
+    });
+
+    it('should render a JSON Schema for config files', () => {
+      const schema = JSON.parse(renderJsonSchema(entries));
+
+      expect(schema.$schema).toBe('http://json-schema.org/draft-07/schema#');
+      expect(schema.required).toBeUndefined();
+      expect(schema.properties.database).toMatchObject({ type: 'object', additionalProperties: false });
+      expect(schema.properties.database.properties.poolSize).toEqual({
+        type: 'number',
+        description: '环境变量 DB_POOL_SIZE',
+        default: 40,
+        minimum: 1,
+        maximum: 100
+      });
+      expect(schema.properties.auth.properties.jwtSecret.description).toBe('环境变量 JWT_SECRET，敏感配置');
+    });
+
+    it('should render a markdown reference table per section', () => {
+      const content = renderMarkdownReference(entries);
+
+      expect(content).toContain('## database');
+      expect(content).toContain(
+        '| `database.sslMode` | `DB_SSL_MODE` | boolean | `false` | production: `true` | - |'
+      );
+      expect(content).toContain('| `redis.password` | `REDIS_PASSWORD` | string | `""` | - | 可选；敏感 |');
+    });
+  });
+
+  describe('generated files', () => {
+    // 失败时运行 pnpm nx run config:export-schema 重新生成
+    it.each(generateConfigSchemaFiles().map(file => [file.fileName, file.content]))(
+      'schema/%s should be up to date',
+      (fileName, content) => {
+        expect(readFileSync(join(SCHEMA_DIR, fileName), 'utf-8')).toBe(content);
+      }
+    );
+  });
+});
@@ -0,0 +1,197 @@
+// 加载 reflect-metadata：嵌套DTO上的 @Type() 和嵌套类型推断依赖 Reflect.getMetadata
+import '@nestjs/common';
+import { ValidationTypes, getMetadataStorage } from 'class-validator';
+import { ApplicationConfigDto } from '../validation/dto/application-config.dto.js';
+import { getSensitiveConfigPaths } from '../memory-config/config-classes/application-memory-config.js';
+import { getValueAtPath } from '../memory-config/config-change.js';
+import { ENVIRONMENT_PROFILE_DEFAULTS } from '../memory-config/environment-profile.js';
+import { ENV_VARIABLE_MAPPINGS } from '../memory-config/sources/env-mapping.js';
+import { ConfigSchemaEntry, ConfigSchemaValueType } from './config-schema.types.js';
+
+/**
+ * 验证元数据
+ *
+ * @private
+ */
+type ValidationMetadata = ReturnType<ReturnType<typeof getMetadataStorage>['getTargetValidationMetadatas']>[number];
+
+/**
+ * 验证器名称与值类型的对应关系
+ *
+ * @private
+ */
+const VALIDATOR_VALUE_TYPES: Record<string, ConfigSchemaValueType> = {
+  isBoolean: 'boolean',
+  isInt: 'integer',
+  isNumber: 'number',
+  isString: 'string',
+  isUrl: 'string',
+  matches: 'string',
+  isFeatureFlags: 'object'
+};
+
+/**
+ * 收集配置项描述
+ *
+ * @description 遍历 ApplicationConfigDto 及其嵌套DTO上的 class-validator 元数据，
+ * 合并环境变量映射表中的环境变量和默认值、环境默认值以及内存配置类上的 @Sensitive() 标记
+ *
+ * ## 合并规则
+ * - 配置项及其顺序以验证DTO为准，嵌套DTO按 @ValidateNested() 属性的声明类型展开
+ * - 值类型取自 @IsBoolean()、@IsInt()、@IsNumber()、@IsString() 等验证器，缺失时使用映射表声明的类型
+ * - @IsIn()、@Min()、@Max()、@IsNotEmpty()、@Matches()、@IsUrl() 转换为对应的约束
+ * - 验证器设置了 each 时配置项同时接受单个值和列表
+ *
+ * @returns {ConfigSchemaEntry[]} 叶子配置项描述，按DTO声明顺序排列
+ *
+ * @example
+ * ```typescript
+ * collectConfigSchema().find(entry => entry.path === 'api.port');
+ * // { path: 'api.port', env: 'API_PORT', type: 'number', default: 3000, minimum: 1, maximum: 65535, ... }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function collectConfigSchema(): ConfigSchemaEntry[] {
+  const sensitivePaths = new Set(getSensitiveConfigPaths());
+  const mappings = new Map(ENV_VARIABLE_MAPPINGS.map(mapping => [mapping.path, mapping]));
+
+  return collectProperties(ApplicationConfigDto, '').map(({ path, metadatas }) => {
+    const mapping = mappings.get(path);
+    const entry: ConfigSchemaEntry = {
+      path,
+      env: mapping?.env,
+      type: 'string',
+      default: mapping?.default,
+      environmentDefaults: getEnvironmentDefaults(path),
+      optional: metadatas.some(metadata => metadata.type === ValidationTypes.CONDITIONAL_VALIDATION),
+      sensitive: sensitivePaths.has(path)
+    };
+
+    const valueType = metadatas.map(metadata => VALIDATOR_VALUE_TYPES[metadata.name ?? '']).find(Boolean);
+    entry.type = valueType ?? (mapping?.type === 'number' || mapping?.type === 'boolean' ? mapping.type : 'string');
+
+    if (metadatas.some(metadata => metadata.each)) {
+      entry.list = true;
+    }
+    for (const metadata of metadatas) {
+      applyConstraint(entry, metadata);
+    }
+
+    return entry;
+  });
+}
+
+/**
+ * 展开DTO的叶子属性
+ *
+ * @private
+ */
+function collectProperties(
+  target: new () => object,
+  prefix: string
+): Array<{ path: string; metadatas: ValidationMetadata[] }> {
+  const storage = getMetadataStorage();
+  const grouped = storage.groupByPropertyName(storage.getTargetValidationMetadatas(target, '', true, false));
+
+  return Object.entries(grouped).flatMap(([property, metadatas]) => {
+    const path = prefix ? `${prefix}.${property}` : property;
+
+    if (metadatas.some(metadata => metadata.type === ValidationTypes.NESTED_VALIDATION)) {
+      const nested = Reflect.getMetadata('design:type', target.prototype, property) as (new () => object) | undefined;
+      if (!nested) {
+        throw new Error(`无法确定 ${target.name}.${property} 的嵌套DTO类型`);
+      }
+      return collectProperties(nested, path);
+    }
+
+    return [{ path, metadatas }];
+  });
+}
+
+/**
+ * 将验证器转换为约束
+ *
+ * @private
+ */
+function applyConstraint(entry: ConfigSchemaEntry, metadata: ValidationMetadata): void {
+  const [constraint, modifiers] = metadata.constraints ?? [];
+
+  switch (metadata.name) {
+    case 'isIn':
+      entry.enum = constraint as unknown[];
+      break;
+    case 'min':
+      entry.minimum = constraint as number;
+      break;
+    case 'max':
+      entry.maximum = constraint as number;
+      break;
+    case 'isNotEmpty':
+      entry.minLength = 1;
+      break;
+    case 'matches':
+      entry.pattern = toJsonSchemaPattern(
+        constraint instanceof RegExp ? constraint : new RegExp(String(constraint), modifiers as string | undefined)
+      );
+      break;
+    case 'isUrl':
+      entry.format = 'uri';
+      break;
+  }
+}
+
+/**
+ * 获取配置项的环境默认值
+ *
+ * @private
+ */
+function getEnvironmentDefaults(path: string): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+
+  for (const [environment, profileDefaults] of Object.entries(ENVIRONMENT_PROFILE_DEFAULTS)) {
+    const value = getValueAtPath(profileDefaults, path);
+    if (value !== undefined) {
+      defaults[environment] = value;
+    }
+  }
+
+  return defaults;
+}
+
+/**
+ * 转换为 JSON Schema 正则表达式
+ *
+ * @description JSON Schema 的 pattern 不支持修饰符，忽略大小写（i）时将字母展开为大小写两种形式
+ *
+ * @private
+ */
+function toJsonSchemaPattern(regex: RegExp): string {
+  if (!regex.flags.includes('i')) {
+    return regex.source;
+  }
+
+  let pattern = '';
+  let inClass = false;
+
+  for (let index = 0; index < regex.source.length; index++) {
+    const char = regex.source[index];
+
+    if (char === '\\') {
+      pattern += char + regex.source[index + 1];
+      index++;
+    } else if (/[a-z]/i.test(char)) {
+      const both = char.toLowerCase() + char.toUpperCase();
+      pattern += inClass ? both : `[${both}]`;
+    } else {
+      if (char === '[') {
+        inClass = true;
+      } else if (char === ']') {
+        inClass = false;
+      }
+      pattern += char;
+    }
+  }
+
+  return pattern;
+}
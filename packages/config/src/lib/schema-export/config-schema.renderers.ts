@@ -0,0 +1,307 @@
+import { collectConfigSchema } from './config-schema.collector.js';
+import { ConfigSchemaEntry, ConfigSchemaFile } from './config-schema.types.js';
+
+/**
+ * 重新生成配置文档的命令
+ *
+ * @since 1.0.0
+ */
+export const CONFIG_SCHEMA_EXPORT_COMMAND = 'pnpm nx run config:export-schema';
+
+/**
+ * 生成的配置文档文件名
+ *
+ * @since 1.0.0
+ */
+export const CONFIG_SCHEMA_FILE_NAMES = {
+  envExample: '.env.example',
+  jsonSchema: 'config.schema.json',
+  reference: 'CONFIG_REFERENCE.md'
+} as const;
+
+/**
+ * 生成 .env.example
+ *
+ * @description 每个环境变量输出一次，注释中列出映射的配置路径、类型和约束
+ * 值为环境变量映射表中的默认值，包含空白、引号或 # 的值使用双引号包裹
+ *
+ * @param {ConfigSchemaEntry[]} entries - 配置项描述
+ * @returns {string} .env.example 文件内容
+ *
+ * @since 1.0.0
+ */
+export function renderEnvExample(entries: ConfigSchemaEntry[]): string {
+  const lines = [
+    '# HL8 配置环境变量示例',
+    `# 由 ${CONFIG_SCHEMA_EXPORT_COMMAND} 生成，请勿手动修改`,
+    '# 敏感配置也可以通过 <变量名>_FILE 指向的文件提供，如 DB_PASS_FILE=/run/secrets/db_password'
+  ];
+  const written = new Set<string>();
+
+  for (const [section, sectionEntries] of groupBySection(entries)) {
+    const variables = sectionEntries.filter(entry => entry.env && !written.has(entry.env));
+    if (variables.length === 0) {
+      continue;
+    }
+    lines.push('', `# ---- ${section} ----`);
+
+    for (const entry of variables) {
+      if (!entry.env || written.has(entry.env)) {
+        continue;
+      }
+      written.add(entry.env);
+
+      const related = entries.filter(other => other.env === entry.env);
+      const details = [entry.type, ...describeConstraints(entry)].join('，');
+      lines.push('', `# ${related.map(other => other.path).join(', ')}（${details}）`);
+      lines.push(`${entry.env}=${formatEnvValue(entry.default)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 生成配置文件的 JSON Schema
+ *
+ * @description 描述 YAML/JSON 配置文件的结构，供编辑器补全和校验使用
+ * 配置文件与其他配置源分层合并，因此所有配置项均不是必填项；
+ * 配置段内不允许未声明的配置项，顶层保留给 ConfigModule.forFeature() 的配置命名空间
+ *
+ * @param {ConfigSchemaEntry[]} entries - 配置项描述
+ * @returns {string} JSON Schema 文件内容
+ *
+ * @since 1.0.0
+ */
+export function renderJsonSchema(entries: ConfigSchemaEntry[]): string {
+  const root: Record<string, unknown> = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'HL8 应用配置',
+    description: `由 ${CONFIG_SCHEMA_EXPORT_COMMAND} 生成，请勿手动修改`,
+    type: 'object',
+    properties: {}
+  };
+
+  for (const entry of entries) {
+    const keys = entry.path.split('.');
+    let properties = root['properties'] as Record<string, unknown>;
+
+    for (const key of keys.slice(0, -1)) {
+      properties[key] ??= { type: 'object', properties: {}, additionalProperties: false };
+      properties = (properties[key] as Record<string, unknown>)['properties'] as Record<string, unknown>;
+    }
+
+    properties[keys[keys.length - 1]] = toPropertySchema(entry);
+  }
+
+  return `${JSON.stringify(root, null, 2)}\n`;
+}
+
+/**
+ * 生成配置参考文档
+ *
+ * @description 按配置段输出 Markdown 表格，列出配置路径、环境变量、类型、默认值、环境默认值和约束
+ *
+ * @param {ConfigSchemaEntry[]} entries - 配置项描述
+ * @returns {string} Markdown 文件内容
+ *
+ * @since 1.0.0
+ */
+export function renderMarkdownReference(entries: ConfigSchemaEntry[]): string {
+  const lines = [
+    '# 配置参考',
+    '',
+    `> 由 \`${CONFIG_SCHEMA_EXPORT_COMMAND}\` 根据验证DTO和环境变量映射表生成，请勿手动修改。`,
+    '',
+    '「环境默认值」按 NODE_ENV 叠加在默认值之上（staging 等其他环境使用 production 的默认值），仅在配置项未被任何配置源设置时生效。',
+    `配置文件的 JSON Schema 见 [${CONFIG_SCHEMA_FILE_NAMES.jsonSchema}](./${CONFIG_SCHEMA_FILE_NAMES.jsonSchema})，` +
+      `环境变量示例见 [${CONFIG_SCHEMA_FILE_NAMES.envExample}](./${CONFIG_SCHEMA_FILE_NAMES.envExample})。`
+  ];
+
+  for (const [section, sectionEntries] of groupBySection(entries)) {
+    lines.push(
+      '',
+      `## ${section}`,
+      '',
+      '| 配置路径 | 环境变量 | 类型 | 默认值 | 环境默认值 | 约束 |',
+      '| --- | --- | --- | --- | --- | --- |'
+    );
+
+    for (const entry of sectionEntries) {
+      lines.push(renderReferenceRow(entry));
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * 生成配置参考文档的表格行
+ *
+ * @private
+ */
+function renderReferenceRow(entry: ConfigSchemaEntry): string {
+  const environmentDefaults = Object.entries(entry.environmentDefaults)
+    .map(([environment, value]) => `${environment}: ${formatCode(value)}`)
+    .join('<br>');
+
+  const cells = [
+    formatCode(entry.path),
+    entry.env ? formatCode(entry.env) : '-',
+    entry.type,
+    entry.default === undefined ? '-' : formatCode(entry.default),
+    environmentDefaults || '-',
+    describeConstraints(entry).join('；') || '-'
+  ];
+
+  return `| ${cells.map(escapeTableCell).join(' | ')} |`;
+}
+
+/**
+ * 生成全部配置文档
+ *
+ * @description 依次生成 .env.example、JSON Schema 和配置参考文档，供导出命令写入磁盘或检查是否过期
+ *
+ * @returns {ConfigSchemaFile[]} 生成的文件
+ *
+ * @example
+ * ```typescript
+ * for (const file of generateConfigSchemaFiles()) {
+ *   writeFileSync(join(outputDir, file.fileName), file.content);
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function generateConfigSchemaFiles(): ConfigSchemaFile[] {
+  const entries = collectConfigSchema();
+
+  return [
+    { fileName: CONFIG_SCHEMA_FILE_NAMES.envExample, content: renderEnvExample(entries) },
+    { fileName: CONFIG_SCHEMA_FILE_NAMES.jsonSchema, content: renderJsonSchema(entries) },
+    { fileName: CONFIG_SCHEMA_FILE_NAMES.reference, content: renderMarkdownReference(entries) }
+  ];
+}
+
+/**
+ * 描述配置项约束
+ *
+ * @private
+ */
+function describeConstraints(entry: ConfigSchemaEntry): string[] {
+  const constraints: string[] = [];
+
+  if (entry.optional) {
+    constraints.push('可选');
+  }
+  if (entry.sensitive) {
+    constraints.push('敏感');
+  }
+  if (entry.list) {
+    constraints.push('可为列表，环境变量中以逗号分隔');
+  }
+  if (entry.enum) {
+    constraints.push(`可选值: ${entry.enum.join(', ')}`);
+  }
+  if (entry.minimum !== undefined) {
+    constraints.push(`最小值 ${entry.minimum}`);
+  }
+  if (entry.maximum !== undefined) {
+    constraints.push(`最大值 ${entry.maximum}`);
+  }
+  if (entry.minLength !== undefined) {
+    constraints.push('不能为空');
+  }
+  if (entry.format) {
+    constraints.push(`格式: ${entry.format}`);
+  }
+  if (entry.pattern) {
+    constraints.push(`格式: ${entry.pattern}`);
+  }
+
+  return constraints;
+}
+
+/**
+ * 转换为配置项的 JSON Schema
+ *
+ * @private
+ */
+function toPropertySchema(entry: ConfigSchemaEntry): Record<string, unknown> {
+  const schema: Record<string, unknown> = { type: entry.type };
+  const description = [entry.env && `环境变量 ${entry.env}`, entry.sensitive && '敏感配置'].filter(Boolean).join('，');
+
+  if (description) {
+    schema['description'] = description;
+  }
+  if (entry.type === 'object') {
+    schema['additionalProperties'] = { type: 'object' };
+  }
+
+  const keywords: Array<keyof ConfigSchemaEntry> = ['default', 'enum', 'minimum', 'maximum', 'minLength', 'pattern', 'format'];
+  for (const keyword of keywords) {
+    if (entry[keyword] !== undefined) {
+      schema[keyword] = entry[keyword];
+    }
+  }
+
+  if (entry.list) {
+    // 同时接受单个值和由单个值组成的非空数组，说明和默认值保留在外层
+    const item = Object.fromEntries(
+      Object.entries(schema).filter(([keyword]) => keyword !== 'description' && keyword !== 'default')
+    );
+    return {
+      ...(description ? { description } : {}),
+      ...(entry.default !== undefined ? { default: entry.default } : {}),
+      anyOf: [item, { type: 'array', items: item, minItems: 1 }]
+    };
+  }
+
+  return schema;
+}
+
+/**
+ * 格式化 .env 文件中的值
+ *
+ * @private
+ */
+function formatEnvValue(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[\s#"'`]/.test(text) ? JSON.stringify(text) : text;
+}
+
+/**
+ * 格式化为行内代码
+ *
+ * @private
+ */
+function formatCode(value: unknown): string {
+  return value === '' ? '`""`' : `\`${String(value)}\``;
+}
+
+/**
+ * 转义表格单元格
+ *
+ * @private
+ */
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+/**
+ * 按配置段分组
+ *
+ * @description 顶层叶子配置项归入「基础信息」，分组按首次出现的顺序排列
+ *
+ * @private
+ */
+function groupBySection(entries: ConfigSchemaEntry[]): Map<string, ConfigSchemaEntry[]> {
+  const groups = new Map<string, ConfigSchemaEntry[]>();
+
+  for (const entry of entries) {
+    const section = entry.path.includes('.') ? entry.path.split('.')[0] : '基础信息';
+    groups.set(section, [...(groups.get(section) ?? []), entry]);
+  }
+
+  return groups;
+}
@@ -0,0 +1,52 @@
+/**
+ * 配置项值类型
+ *
+ * @description 与 JSON Schema 的 type 取值一致
+ */
+export type ConfigSchemaValueType = 'string' | 'number' | 'integer' | 'boolean' | 'object';
+
+/**
+ * 配置项描述
+ *
+ * @description 由验证DTO、内存配置类和环境变量映射表合并得到的单个叶子配置项
+ */
+export interface ConfigSchemaEntry {
+  /** 配置路径，如 'api.port' */
+  path: string;
+  /** 对应的环境变量名称，没有环境变量映射时为 undefined */
+  env?: string;
+  /** 值类型 */
+  type: ConfigSchemaValueType;
+  /** 环境变量映射表中的默认值 */
+  default?: string | number | boolean;
+  /** 按运行环境覆盖的默认值，键为环境名称 */
+  environmentDefaults: Record<string, unknown>;
+  /** 验证DTO中是否标记为可选 */
+  optional: boolean;
+  /** 是否为 @Sensitive() 标记的敏感配置 */
+  sensitive: boolean;
+  /** 是否也接受由多个值组成的列表，环境变量中以逗号分隔 */
+  list?: boolean;
+  /** 允许的取值，列表时为每一项允许的取值 */
+  enum?: readonly unknown[];
+  /** 最小值 */
+  minimum?: number;
+  /** 最大值 */
+  maximum?: number;
+  /** 最小长度 */
+  minLength?: number;
+  /** 正则表达式 */
+  pattern?: string;
+  /** 格式，如 'uri' */
+  format?: string;
+}
+
+/**
+ * 生成的配置文档文件
+ */
+export interface ConfigSchemaFile {
+  /** 文件名，相对于输出目录 */
+  fileName: string;
+  /** 文件内容 */
+  content: string;
+}
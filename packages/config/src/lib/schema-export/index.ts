@@ -0,0 +1,3 @@
+export * from './config-schema.types.js';
+export * from './config-schema.collector.js';
+export * from './config-schema.renderers.js';
@@ -0,0 +1,94 @@
+import { ConfigSource, ConfigWatchOptions } from './memory-config/sources/config-source.interface.js';
+import { SecretsOptions } from './memory-config/secrets/secret-provider.interface.js';
+import { ConfigHistoryOptions } from './memory-config/config-history.js';
+import { ConfigAdminOptions } from './admin/config-admin.types.js';
+import { ConfigAccessMetricsOptions } from './memory-config/config-access-metrics.js';
+
+/**
+ * 配置验证模式
+ *
+ * @description 配置加载时的验证策略
+ * - strict: 验证失败时拒绝加载配置，应用启动失败
+ * - warn: 验证失败时记录警告日志，继续加载配置
+ * - off: 不进行验证
+ */
+export type ConfigValidationMode = 'strict' | 'warn' | 'off';
+
+/**
+ * 配置模块选项
+ *
+ * @description ConfigModule.forRoot() 的配置选项
+ *
+ * @example
+ * ```typescript
+ * ConfigModule.forRoot({
+ *   sources: [
+ *     new YamlFileConfigSource('config/default.yaml'),
+ *     new DotenvConfigSource('.env', { optional: true }),
+ *     new EnvConfigSource()
+ *   ],
+ *   validationMode: 'strict'
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export interface ConfigModuleOptions {
+  /**
+   * 配置源列表
+   *
+   * @description 按优先级从低到高排列，后声明的配置源覆盖先声明的配置源
+   * 内置默认值始终作为最低优先级的配置层，无需在此声明
+   * 未指定时仅使用进程环境变量
+   */
+  sources?: ConfigSource[];
+
+  /**
+   * 配置验证模式
+   *
+   * @description 加载配置时按 ApplicationConfigDto 验证合并后的配置
+   * 默认为 'strict'，任何验证错误都会阻止应用启动
+   */
+  validationMode?: ConfigValidationMode;
+
+  /**
+   * 配置热重载
+   *
+   * @description 启用后监听文件和环境变量配置源，变化时自动重新加载配置
+   * 验证失败的重新加载会被拒绝，当前配置保持不变
+   * 传入对象可自定义轮询间隔和防抖时间，默认不启用
+   */
+  watch?: boolean | ConfigWatchOptions;
+
+  /**
+   * 密钥选项
+   *
+   * @description 'enc:' 前缀的配置值使用主密钥解密，'secret:<provider>:<reference>' 形式的配置值由密钥提供者解析
+   * 生产环境中任何密钥仍为默认占位值时，应用启动失败
+   */
+  secrets?: SecretsOptions;
+
+  /**
+   * 配置历史选项
+   *
+   * @description 每次成功加载、重新加载或回滚配置都会生成快照，默认在内存中保留最近 20 个
+   * 设置 file 后快照（脱敏）会持久化到本地文件，重启后可继续查询
+   */
+  history?: ConfigHistoryOptions;
+
+  /**
+   * 配置管理接口
+   *
+   * @description 启用后在 /_admin/config 下注册配置诊断和重新加载接口，默认不启用
+   * 接口默认仅允许 admin 角色访问，生产环境中默认禁用
+   */
+  admin?: boolean | ConfigAdminOptions;
+
+  /**
+   * 配置访问指标选项
+   *
+   * @description 默认统计每个配置路径通过 get() 读取的次数、未命中次数和耗时
+   * 可通过 ConfigMonitorService 查询热点配置和未使用的配置，并导出 Prometheus 指标
+   */
+  metrics?: ConfigAccessMetricsOptions;
+}
@@ -41,6 +41,14 @@ export class ConfigValidationError extends HttpException {
    */
   public readonly errorCode: string;
 
+  /**
+   * 批量错误详情
+   *
+   * @description 汇总多个验证问题时的批量处理结果
+   * 仅由 createBatchError() 创建的错误包含此字段
+   */
+  public readonly details?: BatchErrorResult;
+
   /**
    * 构造函数
    *
@@ -50,12 +58,14 @@ export class ConfigValidationError extends HttpException {
    * @param {string} property - 错误属性路径
    * @param {string} errorCode - 错误代码
    * @param {HttpStatus} statusCode - HTTP状态码，默认为400
+   * @param {BatchErrorResult} details - 批量错误详情
    */
   constructor(
     message: string,
     property: string,
     errorCode: string,
-    statusCode: HttpStatus = HttpStatus.BAD_REQUEST
+    statusCode: HttpStatus = HttpStatus.BAD_REQUEST,
+    details?: BatchErrorResult
   ) {
     super(
       {
@@ -63,13 +73,15 @@ export class ConfigValidationError extends HttpException {
         property,
         errorCode,
         timestamp: new Date().toISOString(),
-        type: 'ConfigValidationError'
+        type: 'ConfigValidationError',
+        ...(details ? { errors: details.errors } : {})
       },
       statusCode
     );
     
     this.property = property;
     this.errorCode = errorCode;
+    this.details = details;
   }
 
   /**
@@ -220,6 +232,34 @@ export class ConfigValidationError extends HttpException {
       'BUSINESS_RULE_VIOLATION'
     );
   }
+
+  /**
+   * 创建批量验证错误
+   *
+   * @description 将多个配置验证问题汇总为一个错误
+   * 用于配置加载时的快速失败，错误消息为完整的多行错误报告
+   * 
+   * @param {BatchErrorResult} result - 批量错误处理结果
+   * @param {string} report - 格式化的错误报告
+   * @returns {ConfigValidationError} 配置验证错误实例
+   * 
+   * @example
+   * ```typescript
+   * const result = errorHandler.handleBatchErrors(errors);
+   * throw ConfigValidationError.createBatchError(result, errorHandler.formatBatchReport(result));
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  static createBatchError(result: BatchErrorResult, report: string): ConfigValidationError {
+    return new ConfigValidationError(
+      report,
+      'config',
+      'CONFIG_VALIDATION_FAILED',
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      result
+    );
+  }
 }
 
 /**
@@ -316,6 +356,7 @@ export class ConfigValidationErrorHandler {
       'INVALID_FORMAT': 'warning',
       'INVALID_ENUM_VALUE': 'warning',
       'BUSINESS_RULE_VIOLATION': 'error',
+      'UNKNOWN_PROPERTY': 'warning',
       'UNKNOWN_ERROR': 'error'
     };
 
@@ -366,6 +407,10 @@ export class ConfigValidationErrorHandler {
         '请检查业务规则要求',
         '确认密码强度是否足够',
         '检查配置是否符合安全要求'
+      ],
+      'UNKNOWN_PROPERTY': [
+        '请检查配置文件中是否存在拼写错误的配置项',
+        '删除不再使用的配置项'
       ]
     };
 
@@ -402,6 +447,34 @@ export class ConfigValidationErrorHandler {
     };
   }
 
+  /**
+   * 格式化批量错误报告
+   *
+   * @description 将批量处理结果格式化为多行文本报告，每个问题占一行
+   * 提供配置键来源映射时，会在每个问题后标注配置值的来源
+   * 
+   * @param {BatchErrorResult} result - 批量处理结果
+   * @param {Record<string, string>} keySources - 配置键来源映射
+   * @returns {string} 错误报告
+   * 
+   * @example
+   * ```typescript
+   * const report = errorHandler.formatBatchReport(result, { 'api.port': 'env' });
+   * // 配置验证失败，发现 1 个配置问题 (INVALID_TYPE: 1)
+   * //   - [error] api.port: 属性 'api.port' 必须是 number 类型，实际值: NaN (来源: env)
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  formatBatchReport(result: BatchErrorResult, keySources: Record<string, string> = {}): string {
+    const lines = result.errors.map(error => {
+      const source = keySources[error.property];
+      return `  - [${error.severity}] ${error.property}: ${error.message}${source ? ` (来源: ${source})` : ''}`;
+    });
+
+    return [`配置验证失败，${result.summary}`, ...lines].join('\n');
+  }
+
   /**
    * 生成错误摘要
    *
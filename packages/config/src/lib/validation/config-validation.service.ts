@@ -2,7 +2,35 @@ import { Injectable } from '@nestjs/common';
 import { validate, ValidationError } from 'class-validator';
 import { plainToClass } from 'class-transformer';
 import { ApplicationConfigDto } from './dto/application-config.dto.js';
-import { PinoLogger } from '@hl8/logger';
+import { isSensitiveConfigPath } from '../memory-config/config-classes/application-memory-config.js';
+import { REDACTED_VALUE, getSensitiveProperties } from '../memory-config/config-classes/sensitive.decorator.js';
+import { ConfigSchemaClass, createNamespaceConfig } from '../memory-config/config-namespace.js';
+import { loggerRegistry } from '@hl8/logger';
+import {
+  BatchErrorResult,
+  ConfigValidationError,
+  ConfigValidationErrorHandler
+} from './config-validation-error.js';
+
+/**
+ * 验证约束与错误代码映射
+ *
+ * @description 将 class-validator 约束名称映射为 ConfigValidationError 错误代码
+ * 声明顺序即优先级，一个属性同时违反多个约束时只报告优先级最高的约束
+ */
+const CONSTRAINT_ERROR_CODES: Record<string, string> = {
+  isDefined: 'REQUIRED_FIELD_MISSING',
+  isNotEmpty: 'REQUIRED_FIELD_MISSING',
+  whitelistValidation: 'UNKNOWN_PROPERTY',
+  isString: 'INVALID_TYPE',
+  isNumber: 'INVALID_TYPE',
+  isBoolean: 'INVALID_TYPE',
+  isIn: 'INVALID_ENUM_VALUE',
+  isUrl: 'INVALID_FORMAT',
+  matches: 'INVALID_FORMAT',
+  min: 'VALUE_OUT_OF_RANGE',
+  max: 'VALUE_OUT_OF_RANGE'
+};
 
 /**
  * 配置验证服务
@@ -50,12 +78,14 @@ export class ConfigValidationService {
    * 日志记录器
    * 
    * @description 用于记录配置验证的日志信息
-   * 使用 Pino 日志库，提供高性能的日志记录功能
+   * 使用 LoggerModule 根日志器的子日志器，遵循 LoggerModule.forRoot 中的日志配置
+   */
+  private readonly logger = loggerRegistry.getLogger('ConfigValidationService');
+
+  /**
+   * 验证错误处理器
    */
-  private readonly logger = new PinoLogger({
-    level: 'info',
-    destination: { type: 'console' }
-  });
+  private readonly errorHandler = new ConfigValidationErrorHandler();
 
   /**
    * 验证应用程序配置
@@ -66,7 +96,7 @@ export class ConfigValidationService {
    * ## 验证规则
    * 
    * ### 类型验证
-   * - 验证所有配置项的数据类型
+   * - 验证所有配置项的数据类型，不做隐式类型转换，字符串形式的数字和布尔值视为类型错误
    * - 检查必需字段是否存在
    * - 验证可选字段的类型
    * 
@@ -106,8 +136,8 @@ export class ConfigValidationService {
       this.logger.debug('开始验证应用程序配置');
       
       // 将普通对象转换为验证DTO
+      // 不启用隐式类型转换：内存中保存的是原始配置数据，'8080'、'false' 这类字符串必须在验证时被拒绝
       const configDto = plainToClass(ApplicationConfigDto, config, {
-        enableImplicitConversion: true,
         excludeExtraneousValues: false
       });
 
@@ -185,7 +215,6 @@ export class ConfigValidationService {
       
       // 创建部分配置的DTO
       const configDto = plainToClass(ApplicationConfigDto, partialConfig, {
-        enableImplicitConversion: true,
         excludeExtraneousValues: false
       });
 
@@ -236,6 +265,190 @@ export class ConfigValidationService {
     }
   }
 
+  /**
+   * 验证命名空间配置
+   *
+   * @description 按 ConfigModule.forFeature() 注册的配置模式类验证命名空间配置
+   * 错误路径带有命名空间前缀，敏感配置项的实际值不出现在错误中
+   * 
+   * @param {string} namespace - 配置命名空间
+   * @param {ConfigSchemaClass} schema - 配置模式类
+   * @param {unknown} data - 命名空间配置数据
+   * @returns {Promise<ValidationResult<object>>} 验证结果，验证通过时 config 为配置模式类实例
+   * 
+   * @example
+   * ```typescript
+   * const result = await this.configValidationService.validateNamespaceConfig(
+   *   'payments',
+   *   PaymentsConfigSchema,
+   *   { provider: 'stripe' }
+   * );
+   * // 验证失败时: [{ property: 'payments.apiKey', ... }]
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  async validateNamespaceConfig(namespace: string, schema: ConfigSchemaClass, data: unknown): Promise<ValidationResult<object>> {
+    try {
+      this.logger.debug('开始验证命名空间配置', { namespace });
+
+      const config = createNamespaceConfig(schema, data);
+      const errors = await validate(config, {
+        whitelist: true,
+        forbidNonWhitelisted: true
+      });
+
+      if (errors.length === 0) {
+        return {
+          isValid: true,
+          errors: [],
+          config
+        };
+      }
+
+      const sensitive = new Set(getSensitiveProperties(config));
+      const validationErrors = this.formatValidationErrors(errors).map(error => ({
+        ...error,
+        property: `${namespace}.${error.property}`,
+        value: sensitive.has(error.property.split('.')[0]) ? REDACTED_VALUE : error.value
+      }));
+      this.logger.warn('命名空间配置验证失败', { namespace, errors: validationErrors });
+
+      return {
+        isValid: false,
+        errors: validationErrors,
+        config: null
+      };
+
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error('命名空间配置验证过程中发生错误', { namespace, error: errorMessage });
+      return {
+        isValid: false,
+        errors: [{
+          property: namespace,
+          value: null,
+          constraints: {
+            validation: `命名空间配置验证过程中发生错误: ${errorMessage}`
+          }
+        }],
+        config: null
+      };
+    }
+  }
+
+  /**
+   * 创建验证错误报告
+   *
+   * @description 将验证结果中的错误转换为 ConfigValidationError，
+   * 并通过 ConfigValidationErrorHandler 汇总为批量错误报告
+   * 
+   * @param {FormattedValidationError[]} errors - 验证错误列表
+   * @returns {BatchErrorResult} 批量错误处理结果
+   * 
+   * @example
+   * ```typescript
+   * const result = await this.configValidationService.validateApplicationConfig(config);
+   * if (!result.isValid) {
+   *   const report = this.configValidationService.createErrorReport(result.errors);
+   *   console.error(report.summary);
+   * }
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  createErrorReport(errors: FormattedValidationError[]): BatchErrorResult {
+    return this.errorHandler.handleBatchErrors(
+      errors.map(error => this.toConfigValidationError(error))
+    );
+  }
+
+  /**
+   * 创建批量验证异常
+   *
+   * @description 根据验证错误创建包含完整多行报告的 ConfigValidationError
+   * 
+   * @param {FormattedValidationError[]} errors - 验证错误列表
+   * @param {Record<string, string>} keySources - 配置键来源映射，用于在报告中标注配置值来源
+   * @returns {ConfigValidationError} 配置验证错误实例
+   * 
+   * @example
+   * ```typescript
+   * if (!result.isValid) {
+   *   throw this.configValidationService.createValidationException(result.errors);
+   * }
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  createValidationException(
+    errors: FormattedValidationError[],
+    keySources: Record<string, string> = {}
+  ): ConfigValidationError {
+    return this.createBatchException(
+      errors.map(error => this.toConfigValidationError(error)),
+      keySources
+    );
+  }
+
+  /**
+   * 汇总配置验证错误
+   *
+   * @description 将 DTO 验证之外产生的配置错误（如生产环境密钥检查）汇总为一个 ConfigValidationError
+   * 
+   * @param {ConfigValidationError[]} errors - 配置验证错误列表
+   * @param {Record<string, string>} keySources - 配置键来源映射，用于在报告中标注配置值来源
+   * @returns {ConfigValidationError} 配置验证错误实例
+   * 
+   * @example
+   * ```typescript
+   * throw this.configValidationService.createBatchException([
+   *   ConfigValidationError.createBusinessRuleError('auth.jwtSecret', '生产环境不允许使用默认密钥', '***')
+   * ]);
+   * ```
+   * 
+   * @since 1.0.0
+   */
+  createBatchException(
+    errors: ConfigValidationError[],
+    keySources: Record<string, string> = {}
+  ): ConfigValidationError {
+    const result = this.errorHandler.handleBatchErrors(errors);
+    return ConfigValidationError.createBatchError(
+      result,
+      this.errorHandler.formatBatchReport(result, keySources)
+    );
+  }
+
+  /**
+   * 转换为配置验证错误
+   *
+   * @description 按约束优先级选择一个约束，生成对应错误代码的 ConfigValidationError
+   * 
+   * @param {FormattedValidationError} error - 验证错误
+   * @returns {ConfigValidationError} 配置验证错误实例
+   * 
+   * @private
+   */
+  private toConfigValidationError(error: FormattedValidationError): ConfigValidationError {
+    const constraintNames = Object.keys(error.constraints);
+    const constraint = Object.keys(CONSTRAINT_ERROR_CODES).find(name => constraintNames.includes(name))
+      ?? constraintNames[0];
+    const errorCode = CONSTRAINT_ERROR_CODES[constraint] ?? 'UNKNOWN_ERROR';
+
+    if (error.value === undefined && errorCode !== 'UNKNOWN_PROPERTY') {
+      return ConfigValidationError.createRequiredError(error.property);
+    }
+
+    // 敏感配置的实际值不写入错误消息
+    const actualValue = isSensitiveConfigPath(error.property) ? REDACTED_VALUE : error.value;
+    return new ConfigValidationError(
+      `属性 '${error.property}' 验证失败: ${error.constraints[constraint]}，实际值: ${actualValue}`,
+      error.property,
+      errorCode
+    );
+  }
+
   /**
    * 格式化验证错误
    *
@@ -387,13 +600,13 @@ export class ConfigValidationService {
  * @description 配置验证结果的类型定义
  * 包含验证状态、错误信息和验证后的配置对象
  */
-export interface ValidationResult {
+export interface ValidationResult<T extends object = ApplicationConfigDto> {
   /** 验证是否通过 */
   isValid: boolean;
   /** 验证错误列表 */
   errors: FormattedValidationError[];
   /** 验证后的配置对象 */
-  config: ApplicationConfigDto | null;
+  config: T | null;
 }
 
 /**
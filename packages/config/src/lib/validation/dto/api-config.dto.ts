@@ -33,7 +33,7 @@ export class ApiConfigDto {
    * @description API服务的完整基础URL
    * 必须是有效的URL格式
    */
-  @IsUrl()
+  @IsUrl({ require_tld: false })
   baseUrl!: string;
 
   /**
@@ -42,7 +42,7 @@ export class ApiConfigDto {
    * @description 客户端应用的基础URL
    * 必须是有效的URL格式
    */
-  @IsUrl()
+  @IsUrl({ require_tld: false })
   clientBaseUrl!: string;
 
   /**
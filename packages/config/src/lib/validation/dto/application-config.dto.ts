@@ -1,4 +1,4 @@
-import { ValidateNested } from 'class-validator';
+import { IsIn, IsOptional, IsString, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiConfigDto } from './api-config.dto.js';
 import { DatabaseConfigDto, MongoConfigDto } from './database-config.dto.js';
@@ -7,6 +7,10 @@ import { AuthConfigDto } from './auth-config.dto.js';
 import { AssetsConfigDto } from './assets-config.dto.js';
 import { LoggingConfigDto } from './logging-config.dto.js';
 import { FeaturesConfigDto } from './features-config.dto.js';
+import { LimitsConfigDto } from './limits-config.dto.js';
+import { BrandingConfigDto } from './branding-config.dto.js';
+import { IsFeatureFlags } from './flags-config.dto.js';
+import type { FeatureFlagDefinition } from '../../feature-flags/feature-flag.types.js';
 
 /**
  * 应用程序配置验证DTO
@@ -15,6 +19,32 @@ import { FeaturesConfigDto } from './features-config.dto.js';
  * 这是最顶层的配置验证类，包含所有子配置的验证
  */
 export class ApplicationConfigDto {
+  /**
+   * 配置版本
+   *
+   * @description 配置数据的版本号
+   */
+  @IsString()
+  version!: string;
+
+  /**
+   * 运行环境
+   *
+   * @description 应用程序运行环境
+   */
+  @IsString()
+  @IsIn(['development', 'production', 'test', 'staging'])
+  environment!: string;
+
+  /**
+   * 加载时间
+   *
+   * @description 配置加载到内存的时间，ISO 8601 格式
+   */
+  @IsOptional()
+  @IsString()
+  loadTime?: string;
+
   /**
    * API配置
    *
@@ -86,4 +116,31 @@ export class ApplicationConfigDto {
   @ValidateNested()
   @Type(() => FeaturesConfigDto)
   features!: FeaturesConfigDto;
+
+  /**
+   * 使用限额配置
+   *
+   * @description 使用限额相关的配置验证
+   */
+  @ValidateNested()
+  @Type(() => LimitsConfigDto)
+  limits!: LimitsConfigDto;
+
+  /**
+   * 品牌配置
+   *
+   * @description 品牌展示相关的配置验证
+   */
+  @ValidateNested()
+  @Type(() => BrandingConfigDto)
+  branding!: BrandingConfigDto;
+
+  /**
+   * 功能开关定义
+   *
+   * @description 带定向规则和百分比灰度的功能开关，键为功能开关名称
+   */
+  @IsOptional()
+  @IsFeatureFlags()
+  flags?: Record<string, FeatureFlagDefinition>;
 }
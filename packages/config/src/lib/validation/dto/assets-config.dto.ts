@@ -1,27 +1,45 @@
-import { IsString } from 'class-validator';
+import { IsString, IsNumber, IsNotEmpty, Min } from 'class-validator';
 
 /**
  * 资源文件配置验证DTO
  *
  * @description 验证资源文件相关配置的数据结构和类型
- * 确保资源文件路径配置正确
+ * 确保资源文件路径和上传限制配置正确
  */
 export class AssetsConfigDto {
   /**
    * 资源文件路径
    *
-   * @description 静态资源文件的存储路径
-   * 必须是有效的文件系统路径
+   * @description 资源文件在服务器上的存储路径
    */
   @IsString()
-  assetPath!: string;
+  @IsNotEmpty()
+  path!: string;
 
   /**
-   * 公共资源路径
+   * 资源文件公共路径
    *
-   * @description 公共访问的资源路径
-   * 必须是有效的URL路径
+   * @description 资源文件对外访问的URL路径
    */
   @IsString()
-  assetPublicPath!: string;
+  @IsNotEmpty()
+  publicPath!: string;
+
+  /**
+   * 最大文件大小
+   *
+   * @description 单个上传文件的最大字节数
+   * 必须大于0
+   */
+  @IsNumber()
+  @Min(1)
+  maxFileSize!: number;
+
+  /**
+   * 允许的文件类型
+   *
+   * @description 逗号分隔的 MIME 类型列表，如 'image/*,application/pdf'
+   */
+  @IsString()
+  allowedTypes!: string;
 }
@@ -1,4 +1,4 @@
-import { IsString, IsNumber, Min, Max } from 'class-validator';
+import { IsString, IsNumber, IsNotEmpty, Min, Max } from 'class-validator';
 
 /**
  * 认证配置验证DTO
@@ -14,38 +14,18 @@ export class AuthConfigDto {
    * 必须是强密钥，长度至少32位
    */
   @IsString()
+  @IsNotEmpty()
   jwtSecret!: string;
 
   /**
    * JWT过期时间
    *
-   * @description JWT令牌过期时间（秒）
-   * 必须在合理范围内，建议不超过24小时
-   */
-  @IsNumber()
-  @Min(300) // 5分钟
-  @Max(86400) // 24小时
-  jwtExpirationTime!: number;
-
-  /**
-   * JWT刷新密钥
-   *
-   * @description JWT刷新令牌签名密钥
-   * 必须是强密钥，长度至少32位
+   * @description JWT令牌过期时间，使用时间跨度字符串表示
+   * 例如：'15m'、'24h'、'7d'
    */
   @IsString()
-  jwtRefreshSecret!: string;
-
-  /**
-   * JWT刷新过期时间
-   *
-   * @description JWT刷新令牌过期时间（秒）
-   * 建议设置较长时间，如7天
-   */
-  @IsNumber()
-  @Min(3600) // 1小时
-  @Max(604800) // 7天
-  jwtRefreshExpirationTime!: number;
+  @IsNotEmpty()
+  jwtExpiresIn!: string;
 
   /**
    * 密码加密盐轮数
@@ -57,4 +37,14 @@ export class AuthConfigDto {
   @Min(10)
   @Max(15)
   passwordSaltRounds!: number;
+
+  /**
+   * 会话密钥
+   *
+   * @description 会话签名密钥
+   * 必须是强密钥，生产环境不得使用默认值
+   */
+  @IsString()
+  @IsNotEmpty()
+  sessionSecret!: string;
 }
@@ -0,0 +1,34 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/**
+ * 品牌配置验证DTO
+ *
+ * @description 验证品牌展示配置的数据结构和类型
+ * 品牌配置可以按租户覆盖
+ */
+export class BrandingConfigDto {
+  /**
+   * 应用名称
+   *
+   * @description 界面和通知中展示的应用名称
+   */
+  @IsString()
+  @IsNotEmpty()
+  appName!: string;
+
+  /**
+   * Logo地址
+   *
+   * @description Logo 图片的URL，为空时使用默认Logo
+   */
+  @IsString()
+  logoUrl!: string;
+
+  /**
+   * 主题色
+   *
+   * @description 十六进制颜色值，如 '#1890ff'
+   */
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: '主题色必须是 #RRGGBB 格式的十六进制颜色' })
+  primaryColor!: string;
+}
@@ -1,4 +1,4 @@
-import { IsString, IsNumber, IsBoolean, IsPort, IsIn, Min, Max } from 'class-validator';
+import { IsString, IsNumber, IsBoolean, IsIn, Min, Max } from 'class-validator';
 
 /**
  * 数据库配置验证DTO
@@ -32,7 +32,8 @@ export class DatabaseConfigDto {
    * 必须是有效的端口号
    */
   @IsNumber()
-  @IsPort()
+  @Min(1)
+  @Max(65535)
   port!: number;
 
   /**
@@ -133,7 +134,8 @@ export class MongoConfigDto {
    * 默认27017，必须是有效的端口号
    */
   @IsNumber()
-  @IsPort()
+  @Min(1)
+  @Max(65535)
   port!: number;
 
   /**
@@ -1,4 +1,4 @@
-import { IsBoolean } from 'class-validator';
+import { IsBoolean, IsOptional } from 'class-validator';
 
 /**
  * 功能开关配置验证DTO
@@ -8,34 +8,51 @@ import { IsBoolean } from 'class-validator';
  */
 export class FeaturesConfigDto {
   /**
-   * 多租户功能
+   * Swagger文档
    *
-   * @description 是否启用多租户功能
+   * @description 是否启用 Swagger API 文档
    */
   @IsBoolean()
-  multiTenant!: boolean;
+  enableSwagger!: boolean;
 
   /**
-   * 用户注册功能
+   * Swagger文档认证
    *
-   * @description 是否启用用户注册功能
+   * @description Swagger API 文档是否要求认证，生产环境启用 Swagger 时必须开启
    */
+  @IsOptional()
   @IsBoolean()
-  userRegistration!: boolean;
+  swaggerAuth?: boolean;
 
   /**
-   * 邮箱密码登录功能
+   * 指标监控
    *
-   * @description 是否启用邮箱密码登录功能
+   * @description 是否启用指标监控
    */
   @IsBoolean()
-  emailPasswordLogin!: boolean;
+  enableMetrics!: boolean;
 
   /**
-   * 魔法登录功能
+   * 跨域支持
    *
-   * @description 是否启用魔法登录功能
+   * @description 是否启用 CORS 跨域支持
    */
   @IsBoolean()
-  magicLogin!: boolean;
+  enableCors!: boolean;
+
+  /**
+   * 限流
+   *
+   * @description 是否启用请求限流
+   */
+  @IsBoolean()
+  enableRateLimit!: boolean;
+
+  /**
+   * 健康检查
+   *
+   * @description 是否启用健康检查端点
+   */
+  @IsBoolean()
+  enableHealthCheck!: boolean;
 }
@@ -0,0 +1,145 @@
+import { ValidateBy, ValidationOptions, buildMessage } from 'class-validator';
+import { isPlainObject } from '@hl8/utils';
+
+/**
+ * 功能开关配置验证装饰器
+ *
+ * @description 验证 flags 配置段：键为功能开关名称，值为功能开关定义
+ * 功能开关的名称由配置源决定，无法用固定属性的DTO描述，因此逐项检查结构
+ *
+ * @param {ValidationOptions} validationOptions - class-validator 验证选项
+ * @returns {PropertyDecorator} 属性装饰器
+ *
+ * @example
+ * ```typescript
+ * class ApplicationConfigDto {
+ *   @IsOptional()
+ *   @IsFeatureFlags()
+ *   flags?: Record<string, FeatureFlagDefinition>;
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function IsFeatureFlags(validationOptions?: ValidationOptions): PropertyDecorator {
+  return ValidateBy(
+    {
+      name: 'isFeatureFlags',
+      validator: {
+        validate: (value: unknown) => findFeatureFlagErrors(value).length === 0,
+        defaultMessage: buildMessage(
+          (_eachPrefix, args) => `功能开关配置无效: ${findFeatureFlagErrors(args?.value).join('；')}`,
+          validationOptions
+        )
+      }
+    },
+    validationOptions
+  );
+}
+
+/**
+ * 查找功能开关配置错误
+ *
+ * @description 检查每个功能开关定义的字段类型、规则条件和灰度比例
+ *
+ * @param {unknown} flags - flags 配置段
+ * @returns {string[]} 错误描述，配置有效时返回空数组
+ *
+ * @example
+ * ```typescript
+ * findFeatureFlagErrors({ beta: { enabled: 'yes' } });
+ * // ['beta.enabled 必须是布尔值']
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function findFeatureFlagErrors(flags: unknown): string[] {
+  if (!isPlainObject(flags) || Array.isArray(flags)) {
+    return ['flags 必须是对象'];
+  }
+
+  const errors: string[] = [];
+  for (const [name, definition] of Object.entries(flags as Record<string, unknown>)) {
+    if (!isPlainObject(definition) || Array.isArray(definition)) {
+      errors.push(`${name} 必须是对象`);
+      continue;
+    }
+
+    const flag = definition as Record<string, unknown>;
+    if (typeof flag['enabled'] !== 'boolean') {
+      errors.push(`${name}.enabled 必须是布尔值`);
+    }
+    checkOptionalType(errors, `${name}.description`, flag['description'], 'string');
+    checkOptionalType(errors, `${name}.killSwitch`, flag['killSwitch'], 'boolean');
+    checkRollout(errors, `${name}.rollout`, flag['rollout']);
+
+    const rules = flag['rules'];
+    if (rules === undefined) {
+      continue;
+    }
+    if (!Array.isArray(rules)) {
+      errors.push(`${name}.rules 必须是数组`);
+      continue;
+    }
+    rules.forEach((rule, index) => checkRule(errors, `${name}.rules[${index}]`, rule));
+  }
+
+  return errors;
+}
+
+/**
+ * 检查功能开关规则
+ *
+ * @private
+ */
+function checkRule(errors: string[], path: string, rule: unknown): void {
+  if (!isPlainObject(rule) || Array.isArray(rule)) {
+    errors.push(`${path} 必须是对象`);
+    return;
+  }
+
+  const values = rule as Record<string, unknown>;
+  checkOptionalType(errors, `${path}.name`, values['name'], 'string');
+  checkOptionalType(errors, `${path}.enabled`, values['enabled'], 'boolean');
+  for (const key of ['tenants', 'users', 'roles', 'environments']) {
+    const list = values[key];
+    if (list !== undefined && !(Array.isArray(list) && list.every(item => typeof item === 'string'))) {
+      errors.push(`${path}.${key} 必须是字符串数组`);
+    }
+  }
+  checkRollout(errors, `${path}.rollout`, values['rollout']);
+}
+
+/**
+ * 检查百分比灰度
+ *
+ * @private
+ */
+function checkRollout(errors: string[], path: string, rollout: unknown): void {
+  if (rollout === undefined) {
+    return;
+  }
+  if (!isPlainObject(rollout) || Array.isArray(rollout)) {
+    errors.push(`${path} 必须是对象`);
+    return;
+  }
+
+  const { percentage, by } = rollout as Record<string, unknown>;
+  if (typeof percentage !== 'number' || !(percentage >= 0 && percentage <= 100)) {
+    errors.push(`${path}.percentage 必须是 0-100 之间的数字`);
+  }
+  if (by !== undefined && by !== 'user' && by !== 'tenant') {
+    errors.push(`${path}.by 必须是 'user' 或 'tenant'`);
+  }
+}
+
+/**
+ * 检查可选字段类型
+ *
+ * @private
+ */
+function checkOptionalType(errors: string[], path: string, value: unknown, type: 'string' | 'boolean'): void {
+  if (value !== undefined && typeof value !== type) {
+    errors.push(`${path} 必须是${type === 'string' ? '字符串' : '布尔值'}`);
+  }
+}
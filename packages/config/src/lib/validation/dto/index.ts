@@ -19,5 +19,14 @@ export * from './logging-config.dto.js';
 // 功能开关配置验证DTO
 export * from './features-config.dto.js';
 
+// 使用限额配置验证DTO
+export * from './limits-config.dto.js';
+
+// 品牌配置验证DTO
+export * from './branding-config.dto.js';
+
+// 功能开关定义验证
+export * from './flags-config.dto.js';
+
 // 应用程序配置验证DTO
 export * from './application-config.dto.js';
@@ -0,0 +1,36 @@
+import { IsInt, Min } from 'class-validator';
+
+/**
+ * 使用限额配置验证DTO
+ *
+ * @description 验证使用限额配置的数据结构和类型
+ * 限额可以按租户覆盖，0 表示不限制
+ */
+export class LimitsConfigDto {
+  /**
+   * 最大用户数
+   *
+   * @description 单个租户允许的最大用户数，0 表示不限制
+   */
+  @IsInt()
+  @Min(0)
+  maxUsers!: number;
+
+  /**
+   * 最大存储空间
+   *
+   * @description 单个租户允许使用的最大存储字节数，0 表示不限制
+   */
+  @IsInt()
+  @Min(0)
+  maxStorage!: number;
+
+  /**
+   * 每分钟请求数
+   *
+   * @description 启用限流时每分钟允许的最大请求数
+   */
+  @IsInt()
+  @Min(1)
+  requestsPerMinute!: number;
+}
@@ -1,35 +1,75 @@
-import { IsString, IsBoolean, IsIn } from 'class-validator';
+import { IsString, IsNumber, IsIn, IsOptional, Min, Matches } from 'class-validator';
 
 /**
  * 日志配置验证DTO
  *
  * @description 验证日志相关配置的数据结构和类型
- * 确保日志配置符合要求
+ * 确保日志级别、格式和输出目标配置正确
  */
 export class LoggingConfigDto {
   /**
    * 日志级别
    *
-   * @description 日志记录级别
-   * 支持error、warn、info、debug、trace
+   * @description 日志记录的最低级别
    */
   @IsString()
-  @IsIn(['error', 'warn', 'info', 'debug', 'trace'])
+  @IsIn(['fatal', 'error', 'warn', 'info', 'debug', 'trace'])
   level!: string;
 
   /**
-   * 是否启用请求日志
+   * 日志格式
    *
-   * @description 是否记录HTTP请求日志
+   * @description 日志输出格式
    */
-  @IsBoolean()
-  enableRequestLogging!: boolean;
+  @IsString()
+  @IsIn(['json', 'pretty'])
+  format!: string;
+
+  /**
+   * 日志输出目标
+   *
+   * @description 日志输出目标类型，可以是单个目标或目标列表（同时输出到多个目标）
+   */
+  @IsString({ each: true })
+  @IsIn(['console', 'file'], { each: true })
+  destination!: string | string[];
+
+  /**
+   * 最大日志文件数
+   *
+   * @description 日志轮转时保留的最大文件数
+   */
+  @IsNumber()
+  @Min(1)
+  maxFiles!: number;
+
+  /**
+   * 最大日志文件大小
+   *
+   * @description 单个日志文件的最大大小，如 '10m'、'1g'
+   */
+  @IsString()
+  @Matches(/^\d+[kmg]?$/i)
+  maxSize!: string;
+
+  /**
+   * 按上下文覆盖的日志级别
+   *
+   * @description 以逗号分隔的 `上下文=级别` 列表，上下文以 * 结尾时按前缀匹配，如 'DatabaseConnectionManager=debug,Cache*=warn'
+   */
+  @IsOptional()
+  @IsString()
+  @Matches(/^\s*([^\s=,]+\s*=\s*(fatal|error|warn|info|debug|trace)\s*(,\s*|$))*$/, {
+    message: 'levels 必须是以逗号分隔的 上下文=级别 列表'
+  })
+  levels?: string;
 
   /**
-   * 是否启用响应日志
+   * 单请求调试签名密钥
    *
-   * @description 是否记录HTTP响应日志
+   * @description 用于验证请求头中的调试令牌，为空时不启用单请求调试
    */
-  @IsBoolean()
-  enableResponseLogging!: boolean;
+  @IsOptional()
+  @IsString()
+  debugSecret?: string;
 }
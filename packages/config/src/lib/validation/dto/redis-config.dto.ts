@@ -1,4 +1,4 @@
-import { IsString, IsNumber, IsOptional, IsPort, Min, Max } from 'class-validator';
+import { IsString, IsNumber, IsOptional, Min, Max } from 'class-validator';
 
 /**
  * Redis配置验证DTO
@@ -22,7 +22,8 @@ export class RedisConfigDto {
    * 默认6379，必须是有效的端口号
    */
   @IsNumber()
-  @IsPort()
+  @Min(1)
+  @Max(65535)
   port!: number;
 
   /**
@@ -45,26 +46,4 @@ export class RedisConfigDto {
   @Min(0)
   @Max(15)
   db!: number;
-
-  /**
-   * 最大重试次数
-   *
-   * @description 连接失败时的最大重试次数
-   * 必须在合理范围内
-   */
-  @IsNumber()
-  @Min(1)
-  @Max(10)
-  maxRetriesPerRequest!: number;
-
-  /**
-   * 故障转移重试延迟
-   *
-   * @description 故障转移时的重试延迟时间（毫秒）
-   * 必须大于0
-   */
-  @IsNumber()
-  @Min(50)
-  @Max(5000)
-  retryDelayOnFailover!: number;
 }
@@ -0,0 +1,4 @@
+// 配置文档导出命令入口
+// 以 CommonJS 方式加载 TypeScript 源码：工作区依赖的源码包含 require()，无法直接作为 ES 模块运行
+require('ts-node').register({ project: require('path').join(__dirname, '../../tsconfig.scripts.json') });
+require('./export-config-schema.ts');
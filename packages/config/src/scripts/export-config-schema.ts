@@ -0,0 +1,42 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, relative, resolve } from 'path';
+import { CONFIG_SCHEMA_EXPORT_COMMAND, generateConfigSchemaFiles } from '../lib/schema-export/index.js';
+
+/**
+ * 配置文档导出命令
+ *
+ * @description 根据验证DTO和环境变量映射表生成 .env.example、config.schema.json 和 CONFIG_REFERENCE.md
+ *
+ * ## 用法
+ * - pnpm nx run config:export-schema：写入 packages/config/schema
+ * - pnpm nx run config:export-schema --args="--check"：只检查已提交的文件是否过期，过期时以非零状态退出
+ * - --out <目录>：指定输出目录，默认为当前目录下的 schema
+ */
+const args = process.argv.slice(2);
+const check = args.includes('--check');
+const outIndex = args.indexOf('--out');
+const outputDir = resolve(outIndex >= 0 ? args[outIndex + 1] : 'schema');
+
+const staleFiles: string[] = [];
+
+for (const file of generateConfigSchemaFiles()) {
+  const filePath = join(outputDir, file.fileName);
+  const current = existsSync(filePath) ? readFileSync(filePath, 'utf-8') : undefined;
+
+  if (current === file.content) {
+    continue;
+  }
+
+  if (check) {
+    staleFiles.push(relative(process.cwd(), filePath));
+  } else {
+    mkdirSync(outputDir, { recursive: true });
+    writeFileSync(filePath, file.content);
+    console.log(`已生成 ${relative(process.cwd(), filePath)}`);
+  }
+}
+
+if (staleFiles.length > 0) {
+  console.error(`以下配置文档已过期，请运行 ${CONFIG_SCHEMA_EXPORT_COMMAND} 重新生成：\n${staleFiles.join('\n')}`);
+  process.exit(1);
+}
@@ -11,7 +11,7 @@ import {
 } from '@mikro-orm/mongodb';
 import { DatabaseTypeEnum } from '../types/database-type.enum.js';
 import { getLoggingMikroOptions, getTlsOptions } from './database-config.helpers.js';
-import { PinoLogger } from '@hl8/logger';
+import { loggerRegistry } from '@hl8/logger';
 import { defaultConfiguration } from '@hl8/config';
 
 /**
@@ -64,10 +64,7 @@ import { defaultConfiguration } from '@hl8/config';
  * @since 1.0.0
  */
 export class DatabaseConfigService {
-  private readonly logger = new PinoLogger({
-    level: 'info',
-    destination: { type: 'console' }
-  });
+  private readonly logger = loggerRegistry.getLogger('DatabaseConfigService');
   private readonly dbType: string;
   private readonly dbPoolSize: number;
   private readonly dbConnectionTimeout: number;
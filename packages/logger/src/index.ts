@@ -15,6 +15,7 @@
  * - 自动绑定请求上下文到日志
  * - 支持请求ID、用户ID、追踪ID等上下文信息
  * - 使用 AsyncLocalStorage 实现上下文传递
+ * - 支持 W3C Trace Context 传播，日志输出 trace_id 和 span_id
  *
  * ### Fastify 专用优化
  * - 专为 Fastify 平台设计
@@ -50,11 +51,10 @@
  * })
  * export class AppModule {}
  *
- * // 使用日志服务
+ * // 使用日志服务，日志器是 LoggerModule 根日志器的子日志器
  * @Injectable()
  * export class UserService {
- *   @InjectLogger('UserService')
- *   private readonly logger: PinoLogger;
+ *   constructor(@InjectLogger('UserService') private readonly logger: PinoLogger) {}
  *
  *   async createUser(userData: any) {
  *     this.logger.info('Creating user', { userData });
@@ -65,11 +65,19 @@
 
 // 核心模块导出
 export * from './lib/logger.module.js';
+export * from './lib/logger-registry.js';
 
 // 日志记录器导出
 export * from './lib/pino-logger.js';
 export * from './lib/fastify-middleware.js';
 export * from './lib/nestjs-logger.js';
+export * from './lib/rotating-file-stream.js';
+export * from './lib/log-destinations.js';
+export * from './lib/redaction.js';
+export * from './lib/tracing.js';
+export * from './lib/log-level.js';
+export * from './lib/log-sampling.js';
+export * from './lib/audit-logger.js';
 
 // 类型定义导出
 export * from './lib/types.js';
@@ -80,6 +88,7 @@ export * from './lib/context.js';
 
 // 装饰器导出
 export * from './lib/logger.decorator.js';
+export * from './lib/audit.decorator.js';
 export { LogMethod, RequestContext } from './lib/logger.decorator.js';
 
 // 示例和文档导出（仅在开发环境中使用）
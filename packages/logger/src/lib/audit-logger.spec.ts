@@ -0,0 +1,666 @@
+/**
+ * 审计日志单元测试
+ *
+ * @description 测试审计记录的哈希链和篡改检测、请求上下文中的操作者和租户、
+ * 字段变更和脱敏、文件/流/MongoDB 输出目标、@Audit 装饰器以及 LoggerModule 提供的审计日志器
+ */
+
+import { Test } from '@nestjs/testing';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import {
+  AUDIT_GENESIS_HASH,
+  AuditLogger,
+  AuditRecord,
+  AuditSink,
+  diffAuditState,
+  FileAuditSink,
+  MongoAuditSink,
+  StreamAuditSink,
+  verifyAuditChain,
+} from './audit-logger';
+import { Audit } from './audit.decorator';
+import { RequestStore, storage, withRequestContext } from './context';
+import { resolvePrincipalIdentity } from './fastify-middleware';
+import { LoggerModule } from './logger.module';
+import { loggerRegistry } from './logger-registry';
+import { PinoLogger } from './pino-logger';
+
+/**
+ * 把审计记录保存在内存中的输出目标
+ */
+class MemoryAuditSink implements AuditSink {
+  readonly records: AuditRecord[] = [];
+
+  write(record: AuditRecord): void {
+    this.records.push(record);
+  }
+}
+
+describe('AuditLogger', () => {
+  it('应该以哈希串联审计记录', async () => {
+    const sink = new MemoryAuditSink();
+    const audit = new AuditLogger({ sinks: [sink] });
+
+    const first = await audit.record({
+      action: 'user.create',
+      resource: { type: 'user', id: 'user-1' },
+      outcome: 'success',
+    });
+    const second = await audit.record({
+      action: 'user.delete',
+      resource: { type: 'user', id: 'user-1' },
+      outcome: 'success',
+    });
+
+    expect(first).toMatchObject({
+      sequence: 1,
+      previousHash: AUDIT_GENESIS_HASH,
+      actor: { id: 'system', type: 'system' },
+    });
+    expect(second).toMatchObject({ sequence: 2, previousHash: first.hash });
+    expect(audit.getLastHash()).toBe(second.hash);
+    expect(sink.records).toEqual([first, second]);
+    expect(verifyAuditChain(sink.records)).toEqual({ valid: true });
+  });
+
+  it('应该发现被修改、删除和插入的记录', async () => {
+    const sink = new MemoryAuditSink();
+    const audit = new AuditLogger({ sinks: [sink] });
+    for (const id of ['a', 'b', 'c']) {
+      await audit.record({
+        action: 'tenant.update',
+        resource: { type: 'tenant', id },
+        outcome: 'success',
+      });
+    }
+    const [a, b, c] = sink.records;
+
+    expect(verifyAuditChain([a, { ...b, outcome: 'failure' }, c])).toEqual({
+      valid: false,
+      index: 1,
+      reason: '记录内容与哈希不一致',
+    });
+    expect(verifyAuditChain([a, c])).toEqual({
+      valid: false,
+      index: 1,
+      reason: '序号不连续',
+    });
+    expect(verifyAuditChain([b, c])).toEqual({
+      valid: false,
+      index: 0,
+      reason: '与上一条记录的哈希不一致',
+    });
+    expect(verifyAuditChain([b, c], a.hash)).toEqual({ valid: true });
+  });
+
+  it('应该从已持久化的最后一条记录继续哈希链', async () => {
+    const sink = new MemoryAuditSink();
+    const first = await new AuditLogger({ sinks: [sink] }).record({
+      action: 'user.login',
+      resource: { type: 'session' },
+      outcome: 'success',
+    });
+
+    const resumed = new AuditLogger({ sinks: [sink], lastRecord: first });
+    await resumed.record({
+      action: 'user.logout',
+      resource: { type: 'session' },
+      outcome: 'success',
+    });
+
+    expect(sink.records[1]).toMatchObject({
+      sequence: 2,
+      previousHash: first.hash,
+    });
+    expect(verifyAuditChain(sink.records)).toEqual({ valid: true });
+  });
+
+  it('应该从请求上下文获取操作者、租户、请求ID和追踪ID', async () => {
+    const audit = new AuditLogger({ sinks: [new MemoryAuditSink()] });
+
+    const record = await withRequestContext(
+      {
+        requestId: 'req-1',
+        userId: 'user-1',
+        tenantId: 'tenant-1',
+        traceId: 'a'.repeat(32),
+      },
+      () =>
+        audit.record({
+          action: 'order.cancel',
+          resource: { type: 'order', id: 'order-1' },
+          outcome: 'success',
+        })
+    );
+    const anonymous = await withRequestContext({ requestId: 'req-2' }, () =>
+      audit.record({
+        action: 'user.register',
+        resource: { type: 'user' },
+        outcome: 'success',
+      })
+    );
+
+    expect(record).toMatchObject({
+      actor: { id: 'user-1', type: 'user' },
+      tenantId: 'tenant-1',
+      requestId: 'req-1',
+      traceId: 'a'.repeat(32),
+    });
+    expect(anonymous.actor).toEqual({ id: 'anonymous', type: 'anonymous' });
+  });
+
+  it('操作者应该来自已认证主体，而不是客户端请求头', async () => {
+    const audit = new AuditLogger({ sinks: [new MemoryAuditSink()] });
+    const request = {
+      ip: '10.0.0.1',
+      headers: { 'x-user-id': 'admin', 'x-tenant-id': 'tenant-b' },
+    } as never;
+    const record = (user?: unknown) => {
+      Object.assign(request, { user });
+      const store = new RequestStore(
+        request,
+        null as never,
+        { requestId: 'req-1' },
+        undefined,
+        resolvePrincipalIdentity
+      );
+      return storage.run(store, () =>
+        audit.record({
+          action: 'order.cancel',
+          resource: { type: 'order' },
+          outcome: 'success',
+        })
+      );
+    };
+
+    const forged = await record();
+    const authenticated = await record({ id: 'user-1', tenantId: 'tenant-1' });
+
+    expect(forged.actor).toEqual({
+      id: 'anonymous',
+      type: 'anonymous',
+      ip: '10.0.0.1',
+    });
+    expect(forged.tenantId).toBeUndefined();
+    expect(authenticated).toMatchObject({
+      actor: { id: 'user-1', type: 'user', ip: '10.0.0.1' },
+      tenantId: 'tenant-1',
+    });
+  });
+
+  it('应该记录字段变更并按字段名脱敏', async () => {
+    const audit = new AuditLogger({ sinks: [new MemoryAuditSink()] });
+
+    const record = await audit.record({
+      action: 'user.update',
+      resource: { type: 'user', id: 'user-1' },
+      outcome: 'success',
+      before: { name: 'Alice', role: 'user', password: 'old-secret' },
+      after: { name: 'Alice', role: 'admin', password: 'new-secret' },
+      metadata: { token: 'abc' },
+    });
+
+    expect(record.changes).toEqual([
+      { field: 'password', before: '******', after: '******' },
+      { field: 'role', before: 'user', after: 'admin' },
+    ]);
+    expect(record.metadata).toEqual({ token: '******' });
+  });
+
+  it('应该在输出目标写入失败时拒绝', async () => {
+    const audit = new AuditLogger({
+      sinks: [
+        {
+          write: () => Promise.reject(new Error('disk full')),
+        },
+      ],
+    });
+
+    await expect(
+      audit.record({
+        action: 'user.update',
+        resource: { type: 'user' },
+        outcome: 'success',
+      })
+    ).rejects.toThrow('disk full');
+  });
+
+  it('应该在写入失败后从最后一条成功写入的记录继续哈希链', async () => {
+    const sink = new MemoryAuditSink();
+    let available = false;
+    const audit = new AuditLogger({
+      sinks: [
+        {
+          write: (record) =>
+            available
+              ? sink.write(record)
+              : Promise.reject(new Error('disk full')),
+        },
+      ],
+    });
+    const event = {
+      action: 'user.update',
+      resource: { type: 'user' },
+      outcome: 'success' as const,
+    };
+
+    await expect(audit.record(event)).rejects.toThrow('disk full');
+    expect(audit.getLastHash()).toBe(AUDIT_GENESIS_HASH);
+    available = true;
+    const record = await audit.record(event);
+
+    expect(record).toMatchObject({
+      sequence: 1,
+      previousHash: AUDIT_GENESIS_HASH,
+    });
+    expect(sink.records).toEqual([record]);
+    expect(verifyAuditChain(sink.records)).toEqual({ valid: true });
+  });
+
+  it('应该在部分输出目标写入失败时保持所有输出目标的哈希链一致', async () => {
+    const primary = new MemoryAuditSink();
+    const secondary = new MemoryAuditSink();
+    let available = false;
+    const audit = new AuditLogger({
+      sinks: [
+        primary,
+        {
+          write: (record) =>
+            available
+              ? secondary.write(record)
+              : Promise.reject(new Error('connection lost')),
+        },
+      ],
+    });
+    const event = {
+      action: 'user.update',
+      resource: { type: 'user' },
+      outcome: 'success' as const,
+    };
+
+    await expect(audit.record(event)).rejects.toThrow('connection lost');
+    await expect(audit.record(event)).rejects.toThrow('connection lost');
+    expect(primary.records).toHaveLength(2);
+    expect(secondary.records).toHaveLength(0);
+    expect(audit.getLastHash()).toBe(primary.records[1].hash);
+
+    available = true;
+    const record = await audit.record(event);
+
+    expect(record.sequence).toBe(3);
+    expect(secondary.records).toEqual(primary.records);
+    expect(verifyAuditChain(primary.records)).toEqual({ valid: true });
+  });
+
+  it('应该在关闭时重试写入失败的记录', async () => {
+    const primary = new MemoryAuditSink();
+    const secondary = new MemoryAuditSink();
+    let available = false;
+    const audit = new AuditLogger({
+      sinks: [
+        primary,
+        {
+          write: (record) =>
+            available
+              ? secondary.write(record)
+              : Promise.reject(new Error('connection lost')),
+        },
+      ],
+    });
+
+    await expect(
+      audit.record({
+        action: 'user.delete',
+        resource: { type: 'user' },
+        outcome: 'success',
+      })
+    ).rejects.toThrow('connection lost');
+    await expect(audit.close()).rejects.toThrow('connection lost');
+    available = true;
+    await audit.close();
+
+    expect(secondary.records).toEqual(primary.records);
+  });
+});
+
+describe('diffAuditState', () => {
+  it('应该返回新增、删除和修改的字段', () => {
+    expect(
+      diffAuditState(
+        { name: 'a', tags: ['x'], removed: true },
+        { name: 'b', tags: ['x'], added: { nested: 1 } }
+      )
+    ).toEqual([
+      { field: 'added', after: { nested: 1 } },
+      { field: 'name', before: 'a', after: 'b' },
+      { field: 'removed', before: true },
+    ]);
+  });
+});
+
+describe('审计输出目标', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hl8-audit-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('应该按顺序追加到文件，读回的记录哈希链完整', async () => {
+    const path = join(dir, 'audit', 'audit.log');
+    const audit = new AuditLogger({ sinks: [new FileAuditSink(path)] });
+
+    await Promise.all(
+      ['a', 'b', 'c'].map((id) =>
+        audit.record({
+          action: 'file.upload',
+          resource: { type: 'file', id },
+          outcome: 'success',
+          after: { size: 1, uploadedAt: new Date(0) },
+        })
+      )
+    );
+    await audit.close();
+
+    const records = readFileSync(path, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(records.map((record) => record.resource.id)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+    expect(verifyAuditChain(records)).toEqual({ valid: true });
+  });
+
+  it('重启后应该从文件中的最后一条记录继续哈希链', async () => {
+    const path = join(dir, 'audit.log');
+    const event = {
+      action: 'file.upload',
+      resource: { type: 'file' },
+      outcome: 'success' as const,
+    };
+    const audit = new AuditLogger({ sinks: [new FileAuditSink(path)] });
+    await audit.record(event);
+    // 超过一次读取的块大小，且多字节字符跨越块的边界
+    const last = await audit.record({
+      ...event,
+      metadata: { note: '审'.repeat(30_000) },
+    });
+    await audit.close();
+
+    expect(
+      await new FileAuditSink(join(dir, 'missing.log')).readLast()
+    ).toBeUndefined();
+    expect(await new FileAuditSink(path).readLast()).toEqual(last);
+
+    const restarted = new AuditLogger({ sinks: [new FileAuditSink(path)] });
+    await restarted.resume();
+    const next = await restarted.record(event);
+    await restarted.close();
+
+    expect(next).toMatchObject({ sequence: 3, previousHash: last.hash });
+    const records = readFileSync(path, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(verifyAuditChain(records)).toEqual({ valid: true });
+  });
+
+  it('应该写入流', async () => {
+    const stream = new PassThrough();
+    const audit = new AuditLogger({ sinks: [new StreamAuditSink(stream)] });
+
+    const record = await audit.record({
+      action: 'user.login',
+      resource: { type: 'session' },
+      outcome: 'failure',
+      error: 'invalid password',
+    });
+
+    expect(JSON.parse(String(stream.read()))).toEqual(record);
+  });
+
+  it('应该插入 MongoDB 集合，读回的文档哈希链完整', async () => {
+    const documents: Record<string, unknown>[] = [];
+    const audit = new AuditLogger({
+      sinks: [
+        new MongoAuditSink({
+          insertOne: async (document) => documents.push(document),
+          findOne: async () => null,
+        }),
+      ],
+    });
+
+    const record = await audit.record({
+      action: 'tenant.create',
+      resource: { type: 'tenant', id: 'tenant-1' },
+      outcome: 'success',
+    });
+
+    expect(documents).toEqual([{ _id: record.id, ...record }]);
+    expect(verifyAuditChain(documents as unknown as AuditRecord[])).toEqual({
+      valid: true,
+    });
+  });
+
+  it('应该从 MongoDB 集合中读取序号最大的记录', async () => {
+    const documents: Record<string, unknown>[] = [];
+    const collection = {
+      insertOne: async (document: Record<string, unknown>) =>
+        documents.push(document),
+      findOne: jest.fn(async () =>
+        documents.reduce<Record<string, unknown> | null>(
+          (last, document) =>
+            !last ||
+            (document['sequence'] as number) > (last['sequence'] as number)
+              ? document
+              : last,
+          null
+        )
+      ),
+    };
+    const audit = new AuditLogger({ sinks: [new MongoAuditSink(collection)] });
+    await audit.record({
+      action: 'tenant.create',
+      resource: { type: 'tenant' },
+      outcome: 'success',
+    });
+    const last = await audit.record({
+      action: 'tenant.update',
+      resource: { type: 'tenant' },
+      outcome: 'success',
+    });
+
+    expect(await new MongoAuditSink(collection).readLast()).toEqual(last);
+    expect(collection.findOne).toHaveBeenCalledWith(
+      {},
+      { sort: { sequence: -1 } }
+    );
+  });
+});
+
+describe('Audit 装饰器', () => {
+  let sink: MemoryAuditSink;
+
+  class UserController {
+    private readonly users: Record<string, { role: string }> = {
+      'user-1': { role: 'user' },
+    };
+
+    @Audit({
+      action: 'user.update',
+      resource: 'user',
+      resourceId: ([id]) => String(id),
+      before(this: UserController, id) {
+        return { ...this.users[id as string] };
+      },
+      after: (result) => result as { role: string },
+    })
+    async update(id: string, role: string): Promise<{ role: string }> {
+      if (!this.users[id]) {
+        throw new Error(`用户 ${id} 不存在`);
+      }
+      this.users[id].role = role;
+      return this.users[id];
+    }
+  }
+
+  beforeEach(() => {
+    sink = new MemoryAuditSink();
+    loggerRegistry.setAuditLogger(new AuditLogger({ sinks: [sink] }));
+  });
+
+  afterEach(() => {
+    loggerRegistry.reset();
+  });
+
+  it('应该记录成功的操作和字段变更，操作者取自请求上下文', async () => {
+    const controller = new UserController();
+
+    const result = await withRequestContext(
+      { requestId: 'req-1', userId: 'admin-1', tenantId: 'tenant-1' },
+      () => controller.update('user-1', 'admin')
+    );
+
+    expect(result).toEqual({ role: 'admin' });
+    expect(sink.records).toEqual([
+      expect.objectContaining({
+        actor: { id: 'admin-1', type: 'user' },
+        tenantId: 'tenant-1',
+        action: 'user.update',
+        resource: { type: 'user', id: 'user-1' },
+        outcome: 'success',
+        changes: [{ field: 'role', before: 'user', after: 'admin' }],
+      }),
+    ]);
+  });
+
+  it('应该记录失败的操作并继续抛出错误', async () => {
+    const controller = new UserController();
+
+    await expect(controller.update('user-2', 'admin')).rejects.toThrow(
+      '用户 user-2 不存在'
+    );
+
+    expect(sink.records).toEqual([
+      expect.objectContaining({
+        resource: { type: 'user', id: 'user-2' },
+        outcome: 'failure',
+        error: '用户 user-2 不存在',
+      }),
+    ]);
+  });
+
+  it('应该在审计写入失败时输出诊断日志而不影响方法结果', async () => {
+    const stream = new PassThrough();
+    loggerRegistry.setRootLogger(
+      new PinoLogger({ destination: { type: 'stream', stream } })
+    );
+    loggerRegistry.setAuditLogger(
+      new AuditLogger({
+        sinks: [{ write: () => Promise.reject(new Error('unavailable')) }],
+      })
+    );
+
+    await expect(
+      new UserController().update('user-1', 'admin')
+    ).resolves.toEqual({ role: 'admin' });
+    expect(JSON.parse(String(stream.read()))).toMatchObject({
+      level: 'error',
+      context: 'AuditLogger',
+      msg: '审计记录写入失败',
+      action: 'user.update',
+      error: 'unavailable',
+    });
+  });
+});
+
+describe('LoggerModule 审计日志器', () => {
+  afterEach(() => {
+    loggerRegistry.reset();
+  });
+
+  it('应该按 audit 配置提供审计日志器并注册到 loggerRegistry', async () => {
+    const sink = new MemoryAuditSink();
+    const close = jest.fn();
+    const module = await Test.createTestingModule({
+      imports: [
+        LoggerModule.forRoot({
+          audit: { sinks: [sink, { write: () => undefined, close }] },
+        }),
+      ],
+    }).compile();
+
+    const audit = module.get(AuditLogger);
+    await audit.record({
+      action: 'config.reload',
+      resource: { type: 'config' },
+      outcome: 'success',
+    });
+    await module.close();
+
+    expect(loggerRegistry.getAuditLogger()).toBe(audit);
+    expect(sink.records).toHaveLength(1);
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('应该在初始化时从输出目标中的最后一条记录继续哈希链', async () => {
+    const previous = await new AuditLogger({
+      sinks: [new MemoryAuditSink()],
+    }).record({
+      action: 'config.reload',
+      resource: { type: 'config' },
+      outcome: 'success',
+    });
+    const module = await Test.createTestingModule({
+      imports: [
+        LoggerModule.forRootAsync({
+          useFactory: () => ({
+            audit: {
+              sinks: [
+                { write: () => undefined, readLast: async () => previous },
+              ],
+            },
+          }),
+        }),
+      ],
+    }).compile();
+
+    const record = await module.get(AuditLogger).record({
+      action: 'config.reload',
+      resource: { type: 'config' },
+      outcome: 'success',
+    });
+    await module.close();
+
+    expect(record).toMatchObject({ sequence: 2, previousHash: previous.hash });
+  });
+
+  it('应该在读取最后一条记录失败时初始化失败', async () => {
+    await expect(
+      Test.createTestingModule({
+        imports: [
+          LoggerModule.forRoot({
+            audit: {
+              sinks: [
+                {
+                  write: () => undefined,
+                  readLast: () =>
+                    Promise.reject(new Error('connection refused')),
+                },
+              ],
+            },
+          }),
+        ],
+      }).compile()
+    ).rejects.toThrow('connection refused');
+  });
+});
@@ -0,0 +1,845 @@
+/**
+ * HL8 SAAS平台审计日志
+ *
+ * @description 记录谁在哪个租户中对什么资源做了什么操作以及结果，与诊断日志分开输出
+ * 审计记录按顺序以 SHA-256 哈希串联，任何记录被修改、删除或插入都能通过 verifyAuditChain() 发现
+ *
+ * @fileoverview 审计日志实现文件
+ * @author HL8 SAAS Platform Team
+ * @since 1.0.0
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { Writable } from 'stream';
+import { storage } from './context.js';
+import { createRedactor, Redactor } from './redaction.js';
+import type { RedactionConfig } from './types.js';
+
+/**
+ * 审计操作者类型
+ *
+ * @since 1.0.0
+ */
+export type AuditActorType = 'user' | 'service' | 'system' | 'anonymous';
+
+/**
+ * 审计操作者
+ *
+ * @since 1.0.0
+ */
+export interface AuditActor {
+  /** 操作者ID */
+  id: string;
+  /** 操作者类型 */
+  type: AuditActorType;
+  /** 客户端 IP 地址 */
+  ip?: string;
+}
+
+/**
+ * 审计资源
+ *
+ * @since 1.0.0
+ */
+export interface AuditResource {
+  /** 资源类型，如 'user'、'tenant' */
+  type: string;
+  /** 资源ID */
+  id?: string;
+}
+
+/**
+ * 审计结果
+ *
+ * @since 1.0.0
+ */
+export type AuditOutcome = 'success' | 'failure';
+
+/**
+ * 资源状态
+ *
+ * @description 操作前后资源的字段值，用于计算变更
+ *
+ * @since 1.0.0
+ */
+export type AuditState = Record<string, unknown>;
+
+/**
+ * 字段变更
+ *
+ * @since 1.0.0
+ */
+export interface AuditChange {
+  /** 字段名称 */
+  field: string;
+  /** 操作前的值，新增的字段没有该属性 */
+  before?: unknown;
+  /** 操作后的值，删除的字段没有该属性 */
+  after?: unknown;
+}
+
+/**
+ * 审计事件
+ *
+ * @description 传给 AuditLogger.record() 的事件，操作者、租户、请求ID和追踪ID默认取自当前请求上下文
+ *
+ * @example
+ * ```typescript
+ * const event: AuditEvent = {
+ *   action: 'user.update',
+ *   resource: { type: 'user', id: 'user-1' },
+ *   outcome: 'success',
+ *   before: { email: 'old@example.com' },
+ *   after: { email: 'new@example.com' },
+ * };
+ * ```
+ *
+ * @since 1.0.0
+ */
+export interface AuditEvent {
+  /** 操作名称，如 'user.update' */
+  action: string;
+  /** 操作的资源 */
+  resource: AuditResource;
+  /** 操作结果 */
+  outcome: AuditOutcome;
+  /** 操作者，默认取自当前请求上下文 */
+  actor?: AuditActor;
+  /** 租户ID，默认取自当前请求上下文 */
+  tenantId?: string;
+  /** 操作前的资源状态 */
+  before?: AuditState;
+  /** 操作后的资源状态 */
+  after?: AuditState;
+  /** 失败原因 */
+  error?: string;
+  /** 附加信息 */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * 审计记录
+ *
+ * @description 写入审计输出目标的记录，hash 由 previousHash 和记录的其他字段计算
+ *
+ * @since 1.0.0
+ */
+export interface AuditRecord {
+  /** 记录ID */
+  id: string;
+  /** 在哈希链中的序号，从 1 开始 */
+  sequence: number;
+  /** ISO 8601 时间戳 */
+  timestamp: string;
+  /** 操作者 */
+  actor: AuditActor;
+  /** 租户ID */
+  tenantId?: string;
+  /** 操作名称 */
+  action: string;
+  /** 操作的资源 */
+  resource: AuditResource;
+  /** 操作结果 */
+  outcome: AuditOutcome;
+  /** 字段变更 */
+  changes?: AuditChange[];
+  /** 失败原因 */
+  error?: string;
+  /** 请求ID */
+  requestId?: string;
+  /** 追踪ID */
+  traceId?: string;
+  /** 附加信息 */
+  metadata?: Record<string, unknown>;
+  /** 上一条记录的哈希 */
+  previousHash: string;
+  /** 本条记录的哈希 */
+  hash: string;
+}
+
+/**
+ * 审计输出目标
+ *
+ * @description 写入失败时应抛出错误或返回被拒绝的 Promise，AuditLogger.record() 会把错误交给调用方
+ *
+ * @since 1.0.0
+ */
+export interface AuditSink {
+  /** 写入审计记录 */
+  write(record: AuditRecord): void | Promise<void>;
+  /** 读取已持久化的最后一条记录，AuditLogger.resume() 从这里继续哈希链 */
+  readLast?(): Promise<AuditRecord | undefined>;
+  /** 等待未完成的写入并释放资源 */
+  close?(): void | Promise<void>;
+}
+
+/**
+ * MongoDB 集合
+ *
+ * @description MongoAuditSink 只需要 insertOne 和 findOne，兼容 mongodb 驱动的 Collection，审计模块不依赖驱动本身
+ *
+ * @since 1.0.0
+ */
+export interface AuditCollection {
+  /** 插入一条文档 */
+  insertOne(document: Record<string, unknown>): Promise<unknown>;
+  /** 按排序查询第一条文档 */
+  findOne(
+    filter: Record<string, unknown>,
+    options: { sort: Record<string, 1 | -1> }
+  ): Promise<Record<string, unknown> | null>;
+}
+
+/**
+ * 审计日志器选项
+ *
+ * @since 1.0.0
+ */
+export interface AuditLoggerOptions {
+  /** 输出目标，默认输出到标准输出 */
+  sinks?: AuditSink[];
+  /** 已持久化的最后一条记录，重启后从这里继续哈希链 */
+  lastRecord?: Pick<AuditRecord, 'sequence' | 'hash'>;
+  /** 变更和附加信息的脱敏配置，默认使用内置规则，设置为 false 时不脱敏 */
+  redaction?: RedactionConfig | false;
+}
+
+/**
+ * 哈希链校验结果
+ *
+ * @since 1.0.0
+ */
+export interface AuditChainVerification {
+  /** 哈希链是否完整 */
+  valid: boolean;
+  /** 第一条无效记录的下标 */
+  index?: number;
+  /** 无效的原因 */
+  reason?: string;
+}
+
+/**
+ * 哈希链的起始哈希
+ *
+ * @description 第一条审计记录的 previousHash
+ *
+ * @since 1.0.0
+ */
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * 从文件末尾读取最后一条记录时每次读取的字节数
+ *
+ * @private
+ */
+const READ_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * 没有请求上下文时的默认操作者
+ *
+ * @private
+ */
+const SYSTEM_ACTOR: AuditActor = { id: 'system', type: 'system' };
+
+/**
+ * 尚未串联到哈希链的审计条目
+ *
+ * @private
+ */
+type AuditEntry = Omit<AuditRecord, 'sequence' | 'previousHash' | 'hash'>;
+
+/**
+ * 参与哈希计算的字段
+ *
+ * @private
+ */
+const HASHED_FIELDS: ReadonlyArray<keyof Omit<AuditRecord, 'hash'>> = [
+  'id',
+  'sequence',
+  'timestamp',
+  'actor',
+  'tenantId',
+  'action',
+  'resource',
+  'outcome',
+  'changes',
+  'error',
+  'requestId',
+  'traceId',
+  'metadata',
+  'previousHash',
+];
+
+/**
+ * 审计日志器
+ *
+ * @description 把审计事件转换为哈希串联的审计记录并写入所有输出目标
+ * 审计记录不经过诊断日志的级别、采样和去重，每个事件都会输出
+ *
+ * ## 哈希链
+ * - 每条记录的 hash 是 previousHash 与记录其他字段的规范化 JSON 的 SHA-256
+ * - 记录按 record() 的调用顺序逐条写入，并发调用时也保持调用顺序
+ * - 所有输出目标使用同一条哈希链：至少一个输出目标写入成功后哈希链前进，写入失败的输出目标保留该记录，
+ *   在写入下一条记录前和 close() 时按顺序重试
+ * - 所有输出目标都写入失败时丢弃该记录，下一条记录仍接在上一条记录之后
+ * - 重启后通过 resume() 或 lastRecord 选项从已持久化的最后一条记录继续，LoggerModule 在初始化时调用 resume()
+ *
+ * ## 上下文
+ * - 未指定操作者时，请求中已认证的用户为 user 类型的操作者，未认证的请求为 anonymous，请求之外为 system
+ * - 租户ID、请求ID和追踪ID取自当前请求上下文
+ * - 变更和附加信息在计算哈希前按 redaction 配置脱敏
+ *
+ * @example
+ * ```typescript
+ * const audit = new AuditLogger({
+ *   sinks: [
+ *     new FileAuditSink('./logs/audit.log'),
+ *     new MongoAuditSink(mongoClient.db('aiofix_events').collection('audit_events')),
+ *   ],
+ * });
+ *
+ * await audit.record({
+ *   action: 'user.update',
+ *   resource: { type: 'user', id: user.id },
+ *   outcome: 'success',
+ *   before: { email: 'old@example.com' },
+ *   after: { email: 'new@example.com' },
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class AuditLogger {
+  /** 输出目标 */
+  private readonly sinks: AuditSink[];
+  /** 脱敏器 */
+  private readonly redactor?: Redactor;
+  /** 最后一条记录的序号 */
+  private sequence: number;
+  /** 最后一条记录的哈希 */
+  private lastHash: string;
+  /** 上一次记录，后续记录在其完成后进行 */
+  private pending: Promise<void> = Promise.resolve();
+  /** 每个输出目标尚未写入的记录，按序号排列 */
+  private readonly backlogs = new Map<AuditSink, AuditRecord[]>();
+
+  /**
+   * 创建审计日志器
+   *
+   * @param options - 审计日志器选项
+   */
+  constructor(options: AuditLoggerOptions = {}) {
+    this.sinks = options.sinks ?? [new StreamAuditSink(process.stdout)];
+    this.sinks.forEach((sink) => this.backlogs.set(sink, []));
+    this.redactor = createRedactor(options.redaction);
+    this.sequence = options.lastRecord?.sequence ?? 0;
+    this.lastHash = options.lastRecord?.hash ?? AUDIT_GENESIS_HASH;
+  }
+
+  /**
+   * 记录审计事件
+   *
+   * @param event - 审计事件
+   * @returns {Promise<AuditRecord>} 写入所有输出目标后的审计记录
+   * @throws {Error} 任一输出目标写入失败时抛出；其他输出目标已写入时该记录仍在哈希链中，并等待重试
+   */
+  async record(event: AuditEvent): Promise<AuditRecord> {
+    const store = storage.getStore();
+    const context = store?.getContext();
+    const changes =
+      event.before || event.after
+        ? diffAuditState(event.before, event.after)
+        : undefined;
+
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      actor: event.actor ?? resolveActor(context?.userId, store?.request?.ip),
+      tenantId: event.tenantId ?? context?.tenantId,
+      action: event.action,
+      resource: event.resource,
+      outcome: event.outcome,
+      changes: changes?.map((change) => this.redactChange(change)),
+      error: event.error,
+      requestId: context?.requestId || undefined,
+      traceId: context?.traceId,
+      metadata: this.redact(event.metadata),
+    };
+
+    const append = this.pending.then(() => this.append(entry));
+    // 一次写入失败不阻止后续记录
+    this.pending = append.then(
+      () => undefined,
+      () => undefined
+    );
+    return append;
+  }
+
+  /**
+   * 从输出目标中已持久化的最后一条记录继续哈希链
+   *
+   * @description 读取所有实现了 readLast() 的输出目标，从序号最大的记录继续，序号不大于当前记录时保持不变
+   * 在读取完成前调用的 record() 等待读取完成后再串联
+   * @throws {Error} 读取失败时抛出，调用方不应继续记录，否则哈希链会从当前记录分叉
+   *
+   * @example
+   * ```typescript
+   * const audit = new AuditLogger({ sinks: [new FileAuditSink('./logs/audit.log')] });
+   * await audit.resume();
+   * ```
+   */
+  resume(): Promise<void> {
+    const resume = this.pending.then(async () => {
+      const records = await Promise.all(
+        this.sinks.map((sink) => sink.readLast?.())
+      );
+      records.forEach((record) => {
+        if (record && record.sequence > this.sequence) {
+          this.sequence = record.sequence;
+          this.lastHash = record.hash;
+        }
+      });
+    });
+    this.pending = resume.catch(() => undefined);
+    return resume;
+  }
+
+  /**
+   * 获取最后一条记录的哈希
+   *
+   * @returns {string} 尚未记录时为 lastRecord 的哈希或 AUDIT_GENESIS_HASH
+   */
+  getLastHash(): string {
+    return this.lastHash;
+  }
+
+  /**
+   * 关闭所有输出目标
+   *
+   * @description 在关闭应用前调用，等待未完成的写入并重试写入失败的记录
+   * @throws {Error} 仍有记录未能写入某个输出目标时抛出，输出目标照常关闭
+   */
+  async close(): Promise<void> {
+    await this.pending;
+    const results = await Promise.allSettled(
+      this.sinks.map((sink) => this.flush(sink))
+    );
+    await Promise.all(this.sinks.map((sink) => sink.close?.()));
+
+    const failed = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    if (failed) {
+      throw failed.reason;
+    }
+  }
+
+  /**
+   * 把审计条目串联到哈希链并写入所有输出目标
+   *
+   * @description 记录先加入每个输出目标的待写入队列，至少一个输出目标写入成功后才更新最后一条记录的序号和哈希
+   * 都写入失败时从队列中移除该记录
+   *
+   * @private
+   */
+  private async append(entry: AuditEntry): Promise<AuditRecord> {
+    const { id, ...rest } = entry;
+    const fields: Omit<AuditRecord, 'hash'> = {
+      id,
+      sequence: this.sequence + 1,
+      ...rest,
+      previousHash: this.lastHash,
+    };
+    const record: AuditRecord = { ...fields, hash: computeAuditHash(fields) };
+
+    const results = await Promise.allSettled(
+      this.sinks.map((sink) => {
+        this.backlogs.get(sink)?.push(record);
+        return this.flush(sink);
+      })
+    );
+    if (results.some((result) => result.status === 'fulfilled')) {
+      this.sequence = record.sequence;
+      this.lastHash = record.hash;
+    } else {
+      this.backlogs.forEach((backlog) => backlog.pop());
+    }
+
+    const failed = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected'
+    );
+    if (failed) {
+      throw failed.reason;
+    }
+    return record;
+  }
+
+  /**
+   * 按顺序写入输出目标的待写入记录
+   *
+   * @description 遇到写入失败时停止，失败的记录和之后的记录留在队列中
+   *
+   * @private
+   */
+  private async flush(sink: AuditSink): Promise<void> {
+    const backlog = this.backlogs.get(sink) ?? [];
+    while (backlog.length > 0) {
+      await sink.write(backlog[0]);
+      backlog.shift();
+    }
+  }
+
+  /**
+   * 脱敏审计数据
+   *
+   * @private
+   */
+  private redact<T>(value: T): T {
+    return value && this.redactor ? this.redactor.redact(value) : value;
+  }
+
+  /**
+   * 脱敏字段变更
+   *
+   * @description 变更前后的值以字段名为属性脱敏，使路径规则按字段名生效，字段名本身保留
+   *
+   * @private
+   */
+  private redactChange(change: AuditChange): AuditChange {
+    if (!this.redactor) {
+      return change;
+    }
+
+    const { field } = change;
+    const redacted = this.redactor.redact({
+      before: { [field]: change.before },
+      after: { [field]: change.after },
+    });
+    return {
+      field,
+      ...('before' in change ? { before: redacted.before[field] } : {}),
+      ...('after' in change ? { after: redacted.after[field] } : {}),
+    };
+  }
+}
+
+/**
+ * 文件审计输出目标
+ *
+ * @description 以 JSON Lines 格式按记录顺序追加到文件，目录不存在时自动创建
+ *
+ * @example
+ * ```typescript
+ * const sink = new FileAuditSink('./logs/audit.log');
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class FileAuditSink implements AuditSink {
+  /** 上一次写入，后续写入在其完成后进行 */
+  private pending: Promise<void>;
+
+  /**
+   * 创建文件审计输出目标
+   *
+   * @param path - 文件路径
+   */
+  constructor(private readonly path: string) {
+    this.pending = fs
+      .mkdir(dirname(path), { recursive: true })
+      .then(() => undefined);
+  }
+
+  /**
+   * 追加审计记录
+   *
+   * @param record - 审计记录
+   */
+  write(record: AuditRecord): Promise<void> {
+    const write = this.pending.then(() =>
+      fs.appendFile(this.path, `${JSON.stringify(record)}\n`)
+    );
+    // 一次写入失败不阻止后续写入
+    this.pending = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * 读取文件中的最后一条记录
+   *
+   * @description 从文件末尾按块向前读取，不需要读取整个文件
+   * @returns {Promise<AuditRecord | undefined>} 最后一条记录，文件不存在或为空时为 undefined
+   */
+  async readLast(): Promise<AuditRecord | undefined> {
+    await this.pending;
+
+    let handle: fs.FileHandle;
+    try {
+      handle = await fs.open(this.path, 'r');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    try {
+      let position = (await handle.stat()).size;
+      let tail = Buffer.alloc(0);
+      while (position > 0) {
+        const length = Math.min(READ_CHUNK_SIZE, position);
+        position -= length;
+        const chunk = Buffer.alloc(length);
+        await handle.read(chunk, 0, length, position);
+        tail = Buffer.concat([chunk, tail]);
+
+        // 换行符不会出现在 UTF-8 多字节字符中，可以直接在字节上查找
+        let end = tail.length;
+        while (end > 0 && (tail[end - 1] === 0x0a || tail[end - 1] === 0x0d)) {
+          end--;
+        }
+        const start = end > 0 ? tail.lastIndexOf(0x0a, end - 1) : -1;
+        if (end > 0 && (start >= 0 || position === 0)) {
+          return JSON.parse(tail.subarray(start + 1, end).toString('utf8'));
+        }
+      }
+      return undefined;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * 等待未完成的写入
+   */
+  async close(): Promise<void> {
+    await this.pending;
+  }
+}
+
+/**
+ * 流审计输出目标
+ *
+ * @description 以 JSON Lines 格式写入可写流，关闭时不结束流
+ *
+ * @example
+ * ```typescript
+ * const sink = new StreamAuditSink(process.stdout);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class StreamAuditSink implements AuditSink {
+  /**
+   * 创建流审计输出目标
+   *
+   * @param stream - 可写流
+   */
+  constructor(private readonly stream: Writable) {}
+
+  /**
+   * 写入审计记录
+   *
+   * @param record - 审计记录
+   */
+  write(record: AuditRecord): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.stream.write(`${JSON.stringify(record)}\n`, (error) =>
+        error ? reject(error) : resolve()
+      );
+    });
+  }
+}
+
+/**
+ * MongoDB 审计输出目标
+ *
+ * @description 每条审计记录插入为一个文档，记录ID作为 _id
+ * 集合通常位于事件数据库 aiofix_events（配置项 mongodb.name）中
+ *
+ * @example
+ * ```typescript
+ * const sink = new MongoAuditSink(mongoClient.db('aiofix_events').collection('audit_events'));
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class MongoAuditSink implements AuditSink {
+  /**
+   * 创建 MongoDB 审计输出目标
+   *
+   * @param collection - 审计集合
+   */
+  constructor(private readonly collection: AuditCollection) {}
+
+  /**
+   * 插入审计记录
+   *
+   * @param record - 审计记录
+   */
+  async write(record: AuditRecord): Promise<void> {
+    await this.collection.insertOne({ _id: record.id, ...record });
+  }
+
+  /**
+   * 查询序号最大的记录
+   *
+   * @description 集合应在 sequence 上建立索引
+   * @returns {Promise<AuditRecord | undefined>} 最后一条记录，集合为空时为 undefined
+   */
+  async readLast(): Promise<AuditRecord | undefined> {
+    const document = await this.collection.findOne(
+      {},
+      { sort: { sequence: -1 } }
+    );
+    if (!document) {
+      return undefined;
+    }
+
+    // 去掉存储附加的 _id，返回与写入时相同的记录
+    return Object.fromEntries(
+      Object.entries(document).filter(([key]) => key !== '_id')
+    ) as unknown as AuditRecord;
+  }
+}
+
+/**
+ * 计算资源状态的字段变更
+ *
+ * @description 按字段名排序，值的规范化 JSON 相同的字段视为未变更
+ *
+ * @param before - 操作前的资源状态
+ * @param after - 操作后的资源状态
+ * @returns {AuditChange[]} 字段变更
+ *
+ * @example
+ * ```typescript
+ * diffAuditState({ name: 'a', role: 'user' }, { name: 'b', role: 'user' });
+ * // [{ field: 'name', before: 'a', after: 'b' }]
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function diffAuditState(
+  before: AuditState = {},
+  after: AuditState = {}
+): AuditChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+
+  return fields
+    .sort()
+    .filter(
+      (field) =>
+        stableStringify(before[field]) !== stableStringify(after[field])
+    )
+    .map(
+      (field): AuditChange => ({
+        field,
+        ...(field in before ? { before: before[field] } : {}),
+        ...(field in after ? { after: after[field] } : {}),
+      })
+    );
+}
+
+/**
+ * 计算审计记录的哈希
+ *
+ * @param record - 不含 hash 的审计记录
+ * @returns {string} 64 位小写十六进制的 SHA-256
+ *
+ * @since 1.0.0
+ */
+export function computeAuditHash(record: Omit<AuditRecord, 'hash'>): string {
+  // 只使用审计记录的字段，读取时存储附加的字段（如 MongoDB 的 _id）不影响哈希
+  const fields = Object.fromEntries(
+    HASHED_FIELDS.map((field) => [field, record[field]])
+  );
+  return createHash('sha256')
+    .update(record.previousHash)
+    .update(stableStringify(fields))
+    .digest('hex');
+}
+
+/**
+ * 校验审计记录的哈希链
+ *
+ * @description 依次检查序号是否连续、previousHash 是否等于上一条记录的哈希、hash 是否与内容一致
+ *
+ * @param records - 按序号排列的审计记录
+ * @param previousHash - 第一条记录之前的哈希，校验链的一部分时传入前一条记录的哈希
+ * @returns {AuditChainVerification} 校验结果，无效时包含第一条无效记录的下标和原因
+ *
+ * @example
+ * ```typescript
+ * const result = verifyAuditChain(records);
+ * if (!result.valid) {
+ *   alert(`审计记录 ${result.index} 被篡改: ${result.reason}`);
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function verifyAuditChain(
+  records: AuditRecord[],
+  previousHash = AUDIT_GENESIS_HASH
+): AuditChainVerification {
+  let expectedHash = previousHash;
+
+  for (let index = 0; index < records.length; index++) {
+    const { hash, ...fields } = records[index];
+    if (index > 0 && fields.sequence !== records[index - 1].sequence + 1) {
+      return { valid: false, index, reason: '序号不连续' };
+    }
+    if (fields.previousHash !== expectedHash) {
+      return { valid: false, index, reason: '与上一条记录的哈希不一致' };
+    }
+    if (computeAuditHash(fields) !== hash) {
+      return { valid: false, index, reason: '记录内容与哈希不一致' };
+    }
+    expectedHash = hash;
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 从请求上下文解析操作者
+ *
+ * @private
+ */
+function resolveActor(
+  userId: string | undefined,
+  ip: string | undefined
+): AuditActor {
+  if (!storage.getStore()) {
+    return SYSTEM_ACTOR;
+  }
+  return userId
+    ? { id: userId, type: 'user', ip }
+    : { id: 'anonymous', type: 'anonymous', ip };
+}
+
+/**
+ * 规范化 JSON 序列化
+ *
+ * @description 对象的键按字典序排列，值为 undefined 的键被忽略，与 JSON.stringify 的输出一致
+ * 写入后再读取的记录能得到相同的哈希
+ *
+ * @private
+ */
+function stableStringify(value: unknown): string {
+  if (value === undefined) {
+    return 'undefined';
+  }
+  return JSON.stringify(value, (_key, current: unknown) =>
+    current && typeof current === 'object' && !Array.isArray(current)
+      ? Object.fromEntries(
+          Object.entries(current as Record<string, unknown>).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0
+          )
+        )
+      : current
+  );
+}
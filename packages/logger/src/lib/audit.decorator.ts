@@ -0,0 +1,130 @@
+/**
+ * HL8 SAAS平台审计装饰器
+ *
+ * @description 为控制器和服务方法自动记录审计事件
+ *
+ * @fileoverview 审计装饰器实现文件
+ * @author HL8 SAAS Platform Team
+ * @since 1.0.0
+ */
+
+import type { AuditEvent, AuditState } from './audit-logger.js';
+import { loggerRegistry } from './logger-registry.js';
+
+/**
+ * 审计装饰器选项
+ *
+ * @since 1.0.0
+ */
+export interface AuditOptions {
+  /** 操作名称，如 'user.update' */
+  action: string;
+  /** 资源类型，如 'user' */
+  resource: string;
+  /** 从方法参数和返回值中获取资源ID，失败时返回值为 undefined */
+  resourceId?: (args: unknown[], result?: unknown) => string | undefined;
+  /** 在方法执行前获取资源的原始状态，this 为被装饰方法所属的实例 */
+  before?: (
+    this: unknown,
+    ...args: unknown[]
+  ) => AuditState | undefined | Promise<AuditState | undefined>;
+  /** 从返回值中获取资源的新状态 */
+  after?: (result: unknown, args: unknown[]) => AuditState | undefined;
+}
+
+/**
+ * 审计装饰器
+ *
+ * @description 方法执行完成后通过 loggerRegistry 中的审计日志器记录一条审计事件
+ * 操作者、租户、请求ID和追踪ID取自当前请求上下文 RequestContext
+ *
+ * ## 记录规则
+ * - 方法正常返回时结果为 success，抛出错误时结果为 failure 并记录错误消息，错误继续抛出
+ * - 配置了 before 或 after 时记录资源的字段变更
+ * - 审计记录写入失败时通过 AuditLogger 上下文的诊断日志输出错误，不影响方法的返回值
+ * - 与 @Put 等路由装饰器一起使用时写在路由装饰器下方，路由元数据才会定义在包装后的方法上
+ *
+ * @param options - 审计装饰器选项
+ * @returns {MethodDecorator} 方法装饰器
+ *
+ * @example
+ * ```typescript
+ * @Controller('users')
+ * export class UserController {
+ *   @Put(':id')
+ *   @Audit({
+ *     action: 'user.update',
+ *     resource: 'user',
+ *     resourceId: ([id]) => String(id),
+ *     before(id) {
+ *       return this.userService.findOne(id as string);
+ *     },
+ *     after: result => result as AuditState,
+ *   })
+ *   update(@Param('id') id: string, @Body() dto: UpdateUserDto) {
+ *     return this.userService.update(id, dto);
+ *   }
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function Audit(options: AuditOptions): MethodDecorator {
+  return function (
+    _target: object,
+    _propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) {
+    const originalMethod = descriptor.value;
+
+    descriptor.value = async function (...args: unknown[]) {
+      const before = await options.before?.apply(this, args);
+
+      let result: unknown;
+      try {
+        result = await originalMethod?.apply(this, args);
+      } catch (error) {
+        await recordAudit({
+          action: options.action,
+          resource: { type: options.resource, id: options.resourceId?.(args) },
+          outcome: 'failure',
+          before,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+
+      await recordAudit({
+        action: options.action,
+        resource: {
+          type: options.resource,
+          id: options.resourceId?.(args, result),
+        },
+        outcome: 'success',
+        before,
+        after: options.after?.(result, args),
+      });
+      return result;
+    };
+
+    return descriptor;
+  };
+}
+
+/**
+ * 记录审计事件
+ *
+ * @description 写入失败时只输出诊断日志
+ *
+ * @private
+ */
+async function recordAudit(event: AuditEvent): Promise<void> {
+  try {
+    await loggerRegistry.getAuditLogger().record(event);
+  } catch (error) {
+    loggerRegistry.getLogger('AuditLogger').error('审计记录写入失败', {
+      action: event.action,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
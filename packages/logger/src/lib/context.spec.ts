@@ -8,6 +8,7 @@
 import { RequestContext, RequestMetadata } from './types.js';
 import {
   getCurrentRequestContext,
+  getCurrentTenantId,
   clearCurrentRequestContext,
   updateCurrentRequestMetadata,
   getCurrentRequestMetadata,
@@ -67,6 +68,14 @@ describe('Request Context Management', () => {
     it('应该在没有上下文时返回 null', () => {
       expect(getCurrentRequestContext()).toBeNull();
     });
+
+    it('应该获取当前租户ID', async () => {
+      expect(getCurrentTenantId()).toBeUndefined();
+
+      await withRequestContext({ requestId: 'req-123', tenantId: 'tenant-a' }, async () => {
+        expect(getCurrentTenantId()).toBe('tenant-a');
+      });
+    });
   });
 
   describe('元数据操作', () => {
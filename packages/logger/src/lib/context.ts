@@ -11,7 +11,7 @@
 
 import { AsyncLocalStorage } from 'async_hooks';
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { RequestContext, RequestMetadata, LogLevel } from './types.js';
+import { RequestContext, RequestMetadata, LogLevel, RequestIdentityResolver } from './types.js';
 
 /**
  * 请求上下文存储类
@@ -32,8 +32,10 @@ export class RequestStore {
   public readonly reply: FastifyReply;
   /** 请求上下文 */
   private _context: RequestContext;
-  /** 日志级别 */
-  private _logLevel: LogLevel;
+  /** 请求级别的日志级别，未设置时使用日志器的级别 */
+  private _logLevel?: LogLevel;
+  /** 请求身份解析器，读取上下文时解析用户和租户 */
+  public readonly identityResolver?: RequestIdentityResolver;
 
   /**
    * 创建请求存储实例
@@ -43,7 +45,8 @@ export class RequestStore {
    * @param request - Fastify 请求对象
    * @param reply - Fastify 响应对象
    * @param context - 请求上下文信息
-   * @param logLevel - 日志级别
+   * @param logLevel - 请求级别的日志级别，设置后覆盖该请求中所有日志器的级别
+   * @param identityResolver - 请求身份解析器，上下文中未设置的用户ID和租户ID由其从请求中解析
    *
    * @example
    * ```typescript
@@ -57,18 +60,21 @@ export class RequestStore {
     request: FastifyRequest,
     reply: FastifyReply,
     context: RequestContext,
-    logLevel: LogLevel = 'info'
+    logLevel?: LogLevel,
+    identityResolver?: RequestIdentityResolver
   ) {
     this.request = request;
     this.reply = reply;
     this._context = context;
     this._logLevel = logLevel;
+    this.identityResolver = identityResolver;
   }
 
   /**
    * 获取请求上下文
    *
    * @description 返回当前请求的上下文信息
+   * 上下文中未设置的用户ID和租户ID每次读取时由身份解析器从请求中解析，认证完成后即可读取到已认证的主体
    * @returns {RequestContext} 请求上下文信息
    *
    * @example
@@ -78,7 +84,18 @@ export class RequestStore {
    * ```
    */
   getContext(): RequestContext {
-    return this._context;
+    const identity = this.identityResolver && this.request
+      ? this.identityResolver(this.request)
+      : undefined;
+    if (!identity) {
+      return this._context;
+    }
+
+    return {
+      ...this._context,
+      userId: this._context.userId ?? identity.userId,
+      tenantId: this._context.tenantId ?? identity.tenantId,
+    };
   }
 
   /**
@@ -103,23 +120,23 @@ export class RequestStore {
   /**
    * 获取日志级别
    *
-   * @description 返回当前请求的日志级别
-   * @returns {LogLevel} 日志级别
+   * @description 返回当前请求的日志级别，PinoLogger 优先使用该级别判断是否输出日志
+   * @returns {LogLevel | undefined} 日志级别，未设置时返回 undefined
    *
    * @example
    * ```typescript
    * const level = store.getLogLevel();
-   * console.log(level); // 'info'
+   * console.log(level); // 'trace'
    * ```
    */
-  getLogLevel(): LogLevel {
+  getLogLevel(): LogLevel | undefined {
     return this._logLevel;
   }
 
   /**
    * 设置日志级别
    *
-   * @description 更新当前请求的日志级别
+   * @description 更新当前请求的日志级别，只影响当前请求中的日志
    * @param level - 新的日志级别
    *
    * @example
@@ -223,7 +240,25 @@ export class RequestStore {
    * ```
    */
   getUserId(): string | undefined {
-    return this._context.userId;
+    return this.getContext().userId;
+  }
+
+  /**
+   * 获取租户ID
+   *
+   * @description 从请求上下文中获取租户ID
+   * @returns {string | undefined} 租户ID，如果未设置则返回 undefined
+   *
+   * @example
+   * ```typescript
+   * const tenantId = store.getTenantId();
+   * if (tenantId) {
+   *   console.log(`Tenant: ${tenantId}`);
+   * }
+   * ```
+   */
+  getTenantId(): string | undefined {
+    return this.getContext().tenantId;
   }
 
   /**
@@ -370,6 +405,25 @@ export function getCurrentUserId(): string | undefined {
   return store?.getUserId();
 }
 
+/**
+ * 获取当前租户ID
+ *
+ * @description 从当前请求上下文中获取租户ID
+ * @returns {string | undefined} 当前请求的租户ID，如果不在请求作用域内或未设置则返回 undefined
+ *
+ * @example
+   * ```typescript
+   * const tenantId = getCurrentTenantId();
+   * if (tenantId) {
+   *   console.log(`Current tenant: ${tenantId}`);
+   * }
+   * ```
+   */
+export function getCurrentTenantId(): string | undefined {
+  const store = getCurrentRequestStore();
+  return store?.getTenantId();
+}
+
 /**
  * 设置当前请求上下文
  *
@@ -467,6 +521,7 @@ export function clearCurrentRequestMetadata(): void {
  * 使用请求上下文包装函数
  *
  * @description 在指定的请求上下文中执行函数
+ * 指定的上下文没有 traceId 时继承当前上下文的追踪信息，后台任务的日志与发起请求关联到同一条链路
  * @param context - 请求上下文
  * @param fn - 要执行的函数
  * @returns {Promise<T>} 函数执行结果
@@ -475,5 +530,24 @@ export async function withRequestContext<T>(
   context: RequestContext,
   fn: () => Promise<T>
 ): Promise<T> {
-  return storage.run(new RequestStore(null as unknown as FastifyRequest, null as unknown as FastifyReply, context), fn);
+  const current = getCurrentRequestContext();
+  const inherited: RequestContext =
+    current?.traceId && !context.traceId
+      ? {
+          ...Object.fromEntries(
+            Object.entries({
+              traceId: current.traceId,
+              spanId: current.spanId,
+              traceFlags: current.traceFlags,
+              traceState: current.traceState,
+            }).filter(([, value]) => value !== undefined)
+          ),
+          ...context,
+        }
+      : context;
+
+  return storage.run(
+    new RequestStore(null as unknown as FastifyRequest, null as unknown as FastifyReply, inherited),
+    fn
+  );
 }
@@ -6,7 +6,13 @@
  */
 
 import { FastifyRequest, FastifyReply, FastifyInstance } from 'fastify';
-import { PinoLoggerMiddleware, PinoLoggerMiddlewareOptions } from './fastify-middleware.js';
+import {
+  PinoLoggerMiddleware,
+  PinoLoggerMiddlewareOptions,
+  resolveHeaderIdentity,
+  resolvePrincipalIdentity,
+} from './fastify-middleware.js';
+import { RequestStore } from './context.js';
 import { PinoLogger } from './pino-logger.js';
 
 // Mock Fastify 相关模块
@@ -73,6 +79,7 @@ describe('PinoLoggerMiddleware', () => {
         enableResponseLogging: true,
         excludePaths: [],
         logLevel: 'info',
+        identityResolver: resolvePrincipalIdentity,
       });
     });
 
@@ -195,22 +202,27 @@ describe('PinoLoggerMiddleware', () => {
       middleware = new PinoLoggerMiddleware();
     });
 
-    it('应该创建包含用户信息的请求上下文', () => {
+    it('不应该从客户端请求头中读取用户和租户', () => {
       const requestWithUser = {
         ...mockRequest,
         headers: {
           ...mockRequest.headers,
           'x-user-id': 'user-123',
-          'x-trace-id': 'trace-456',
+          'x-tenant-id': 'tenant-a',
         },
       };
 
-      const context = middleware['createRequestContext'](requestWithUser);
+      const context = middleware['createRequestContext'](requestWithUser, {
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7',
+        traceFlags: 1,
+      });
 
       expect(context).toEqual({
         requestId: 'req-123',
-        userId: 'user-123',
-        traceId: 'trace-456',
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7',
+        traceFlags: 1,
         sessionId: undefined,
         metadata: {
           method: 'GET',
@@ -223,6 +235,73 @@ describe('PinoLoggerMiddleware', () => {
     });
   });
 
+  describe('请求身份', () => {
+    it('默认应该从已认证主体中解析用户和租户，忽略伪造的请求头', () => {
+      const request = {
+        ...mockRequest,
+        headers: { ...mockRequest.headers, 'x-user-id': 'admin', 'x-tenant-id': 'tenant-b' },
+      } as unknown as FastifyRequest;
+      const store = new RequestStore(
+        request,
+        mockReply,
+        { requestId: 'req-123' },
+        undefined,
+        resolvePrincipalIdentity
+      );
+
+      expect(store.getUserId()).toBeUndefined();
+      expect(store.getTenantId()).toBeUndefined();
+
+      // 认证守卫在 onRequest 之后设置 request.user
+      (request as unknown as { user: unknown }).user = { id: 42, tenantId: 'tenant-a' };
+      expect(store.getContext()).toMatchObject({ userId: '42', tenantId: 'tenant-a' });
+    });
+
+    it('应该按 userId、id、sub 的顺序解析用户ID', () => {
+      const withUser = (user: unknown) => ({ ...mockRequest, user }) as unknown as FastifyRequest;
+
+      expect(resolvePrincipalIdentity(withUser({ userId: 'u-1', id: 'u-2' }))?.userId).toBe('u-1');
+      expect(resolvePrincipalIdentity(withUser({ sub: 'u-3' }))?.userId).toBe('u-3');
+      expect(resolvePrincipalIdentity(withUser(undefined))).toBeUndefined();
+    });
+
+    it('上下文中已设置的用户ID不应该被解析结果覆盖', () => {
+      const request = { ...mockRequest, user: { id: 'user-1' } } as unknown as FastifyRequest;
+      const store = new RequestStore(
+        request,
+        mockReply,
+        { requestId: 'req-123', userId: 'system' },
+        undefined,
+        resolvePrincipalIdentity
+      );
+
+      expect(store.getUserId()).toBe('system');
+    });
+
+    it('应该允许在可信网关后使用请求头解析身份', () => {
+      const middleware = new PinoLoggerMiddleware({ identityResolver: resolveHeaderIdentity });
+      const request = {
+        ...mockRequest,
+        headers: { ...mockRequest.headers, 'x-user-id': 'user-123', 'x-tenant-id': 'tenant-a' },
+      } as unknown as FastifyRequest;
+      const store = new RequestStore(
+        request,
+        mockReply,
+        { requestId: 'req-123' },
+        undefined,
+        middleware['options'].identityResolver
+      );
+
+      expect(store.getContext()).toMatchObject({ userId: 'user-123', tenantId: 'tenant-a' });
+    });
+
+    it('未设置解析器时应该使用已认证主体', () => {
+      const middleware = new PinoLoggerMiddleware({ identityResolver: undefined });
+
+      expect(middleware['options'].identityResolver).toBe(resolvePrincipalIdentity);
+    });
+  });
+
   describe('中间件集成', () => {
     beforeEach(() => {
       middleware = new PinoLoggerMiddleware();
@@ -12,7 +12,64 @@
 import { FastifyRequest, FastifyReply, FastifyInstance } from 'fastify';
 import { PinoLogger } from './pino-logger.js';
 import { RequestStore, storage } from './context.js';
-import { LoggerConfig, RequestContext, LogLevel } from './types.js';
+import { logLevelManager } from './log-level.js';
+import {
+  formatTraceparent,
+  parseTraceparent,
+  Span,
+  SpanContext,
+  toRequestContextTrace,
+  Tracer,
+} from './tracing.js';
+import {
+  LoggerConfig,
+  RequestContext,
+  LogLevel,
+  RequestIdentity,
+  RequestIdentityResolver,
+} from './types.js';
+
+/**
+ * 从已认证主体解析请求身份
+ *
+ * @description 默认的请求身份解析器，读取认证守卫或插件设置的 request.user
+ * 用户ID依次取 userId、id、sub，租户ID取 tenantId；未认证的请求没有用户和租户
+ *
+ * @param request - Fastify 请求对象
+ * @returns {RequestIdentity | undefined} 请求身份，未认证时为 undefined
+ */
+export function resolvePrincipalIdentity(request: FastifyRequest): RequestIdentity | undefined {
+  const user = (request as { user?: unknown }).user;
+  if (!user || typeof user !== 'object') {
+    return undefined;
+  }
+
+  const principal = user as Record<string, unknown>;
+  const userId = [principal['userId'], principal['id'], principal['sub']].find(
+    (value) => typeof value === 'string' || typeof value === 'number'
+  );
+  const tenantId = principal['tenantId'];
+  return {
+    userId: userId === undefined ? undefined : String(userId),
+    tenantId: typeof tenantId === 'string' ? tenantId : undefined,
+  };
+}
+
+/**
+ * 从请求头解析请求身份
+ *
+ * @description 读取 x-user-id 和 x-tenant-id 请求头，客户端可以任意设置这两个请求头
+ * 只能在网关完成认证、并且会移除客户端传入的同名请求头时使用
+ *
+ * @param request - Fastify 请求对象
+ * @returns {RequestIdentity} 请求身份
+ */
+export function resolveHeaderIdentity(request: FastifyRequest): RequestIdentity {
+  return {
+    userId: request.headers['x-user-id'] as string | undefined,
+    tenantId: request.headers['x-tenant-id'] as string | undefined,
+  };
+}
 
 /**
  * Fastify 日志中间件选项
@@ -43,6 +100,12 @@ export interface PinoLoggerMiddlewareOptions {
   logLevel?: LogLevel;
   /** 日志配置 */
   loggerConfig?: LoggerConfig;
+  /** 使用已有的日志器输出，设置后忽略 loggerConfig 和 logLevel */
+  logger?: PinoLogger;
+  /** 链路追踪器，默认只传播追踪上下文，不导出 Span */
+  tracer?: Tracer;
+  /** 请求身份解析器，默认为 resolvePrincipalIdentity，从已认证主体中解析用户和租户 */
+  identityResolver?: RequestIdentityResolver;
 }
 
 /**
@@ -56,6 +119,7 @@ export interface PinoLoggerMiddlewareOptions {
  * ### 请求上下文管理
  * - 自动为每个请求创建唯一的请求ID
  * - 支持用户ID、追踪ID等上下文信息
+ * - 用户ID和租户ID由身份解析器从已认证主体中解析，不信任客户端传入的请求头
  * - 使用 AsyncLocalStorage 实现上下文传递
  *
  * ### 自动日志记录
@@ -63,6 +127,24 @@ export interface PinoLoggerMiddlewareOptions {
  * - 支持请求/响应日志的开关控制
  * - 支持路径排除功能
  *
+ * ### 链路追踪
+ * - 解析 W3C traceparent 和 tracestate 请求头，作为请求 Span 的父 Span
+ * - 为每个请求创建 server 类型的 Span，响应完成时结束并交给导出器
+ * - 在响应头中返回请求 Span 的 traceparent 和 tracestate
+ *
+ * ### 采样
+ * - 按 loggerConfig.sampling 中的采样率决定是否输出请求开始和完成日志，按路由设置的采样率使用 Fastify 路由匹配
+ * - 失败的请求默认始终输出完成日志，设置慢请求阈值后只输出耗时达到阈值的请求
+ * - 错误日志不受采样影响
+ *
+ * ### 共享 request.log
+ * - 请求的 request.log 替换为日志器的 Pino 实例，路由处理函数和 Fastify 插件中的日志进入同一个输出管道
+ * - 输出中带有请求ID、追踪ID等请求上下文字段，并使用该请求生效的日志级别
+ *
+ * ### 单请求调试
+ * - 请求头中携带有效的调试令牌时，该请求中的所有日志使用调试级别（默认为 trace）
+ * - 令牌的签名密钥和请求头名称通过 logLevelManager.configureRequestDebug() 配置
+ *
  * ### 错误处理
  * - 自动捕获和记录请求处理过程中的错误
  * - 提供详细的错误信息和堆栈跟踪
@@ -85,6 +167,8 @@ export class PinoLoggerMiddleware {
   private readonly logger: PinoLogger;
   /** 中间件选项 */
   private readonly options: PinoLoggerMiddlewareOptions;
+  /** 链路追踪器 */
+  private readonly tracer: Tracer;
 
   /**
    * 创建 Fastify 日志中间件实例
@@ -110,12 +194,17 @@ export class PinoLoggerMiddleware {
       excludePaths: [],
       logLevel: 'info',
       ...options,
+      // 模块参数未设置时传入 undefined，不能覆盖默认的解析器
+      identityResolver: options.identityResolver ?? resolvePrincipalIdentity,
     };
 
-    this.logger = new PinoLogger({
-      level: this.options.logLevel,
-      ...this.options.loggerConfig,
-    });
+    this.logger =
+      this.options.logger ??
+      new PinoLogger({
+        level: this.options.logLevel,
+        ...this.options.loggerConfig,
+      });
+    this.tracer = this.options.tracer ?? new Tracer();
   }
 
   /**
@@ -169,17 +258,17 @@ export class PinoLoggerMiddleware {
    *
    * @description 为请求创建上下文信息
    * @param request - Fastify 请求对象
+   * @param spanContext - 请求 Span 的上下文
    * @returns {RequestContext} 请求上下文
    *
    * @private
    */
-  private createRequestContext(request: FastifyRequest): RequestContext {
+  private createRequestContext(request: FastifyRequest, spanContext?: SpanContext): RequestContext {
     const requestId = this.generateRequestId(request);
     
     return {
       requestId,
-      userId: request.headers['x-user-id'] as string,
-      traceId: request.headers['x-trace-id'] as string,
+      ...(spanContext ? toRequestContextTrace(spanContext) : {}),
       sessionId: request.headers['x-session-id'] as string,
       metadata: {
         method: request.method,
@@ -206,21 +295,26 @@ export class PinoLoggerMiddleware {
     reply: FastifyReply,
     context: RequestContext
   ): void {
-    if (!this.options.enableRequestLogging) {
+    // 设置请求开始时间，慢请求判断和请求完成日志都需要耗时
+    (request as { startTime?: number }).startTime = Date.now();
+
+    // 开始时决定是否采样，请求开始和完成日志使用同一结果
+    const sampler = this.logger.getSampler();
+    const sampled = sampler.sample(request.routeOptions?.url ?? request.url);
+    (request as { logSampled?: boolean }).logSampled = sampled;
+
+    if (!this.options.enableRequestLogging || !sampler.shouldLogStart(sampled)) {
       return;
     }
 
     // 记录请求开始日志
     this.logger.logRequestStart(request, context);
-
-    // 设置请求开始时间
-    (request as { startTime?: number }).startTime = Date.now();
   }
 
   /**
    * 请求完成处理
    *
-   * @description 处理请求完成时的日志记录
+   * @description 处理请求完成时的日志记录，按采样结果、耗时和请求是否失败决定是否输出
    * @param request - Fastify 请求对象
    * @param reply - Fastify 响应对象
    * @param context - 请求上下文
@@ -238,6 +332,11 @@ export class PinoLoggerMiddleware {
 
     const startTime = (request as { startTime?: number }).startTime;
     const duration = startTime ? Date.now() - startTime : 0;
+    const { logSampled = true, logFailed = false } = request as { logSampled?: boolean; logFailed?: boolean };
+    const failed = logFailed || reply.statusCode >= 500;
+    if (!this.logger.getSampler().shouldLogComplete({ sampled: logSampled, duration, failed })) {
+      return;
+    }
 
     // 记录请求完成日志
     this.logger.logRequestComplete(request, reply, context, duration);
@@ -260,14 +359,65 @@ export class PinoLoggerMiddleware {
     error: Error,
     context: RequestContext
   ): void {
+    // 标记失败的请求，使请求完成日志不受采样影响
+    (request as { logFailed?: boolean }).logFailed = true;
+
     // 记录请求错误日志
     this.logger.logRequestError(request, error, context);
   }
 
+  /**
+   * 创建请求 Span
+   *
+   * @description 以 traceparent 请求头中的远程 Span 为父 Span，没有或无效时创建新的链路
+   * @param request - Fastify 请求对象
+   * @returns {Span} 请求 Span
+   *
+   * @private
+   */
+  private startRequestSpan(request: FastifyRequest): Span {
+    const route = request.routeOptions?.url ?? request.url;
+
+    return this.tracer.startSpan(`${request.method} ${route}`, {
+      kind: 'server',
+      parent: parseTraceparent(request.headers['traceparent'], request.headers['tracestate']) ?? null,
+      attributes: {
+        'http.request.method': request.method,
+        'http.route': route,
+        'url.path': request.url,
+        'client.address': request.ip,
+        'user_agent.original': request.headers['user-agent'],
+      },
+    });
+  }
+
+  /**
+   * 结束请求 Span
+   *
+   * @description 记录响应状态码，5xx 响应的 Span 状态设置为 error，已记录异常时保留异常信息
+   * @param request - Fastify 请求对象
+   * @param reply - Fastify 响应对象
+   *
+   * @private
+   */
+  private endRequestSpan(request: FastifyRequest, reply: FastifyReply): void {
+    const span = (request as { span?: Span }).span;
+    if (!span) {
+      return;
+    }
+
+    span.setAttribute('http.response.status_code', reply.statusCode);
+    if (reply.statusCode >= 500 && span.getStatus().code !== 'error') {
+      span.setStatus({ code: 'error' });
+    }
+    span.end();
+  }
+
   /**
    * 创建 Fastify 插件
    *
    * @description 创建 Fastify 插件函数，用于注册到 Fastify 实例
+   * 插件不做封装隔离，钩子对整个应用的路由生效
    * @returns {Function} Fastify 插件函数
    *
    * @example
@@ -277,23 +427,42 @@ export class PinoLoggerMiddleware {
    * ```
    */
   get plugin() {
-    return async (fastify: FastifyInstance) => {
+    const plugin = async (fastify: FastifyInstance) => {
       // 注册请求钩子
-      fastify.addHook('onRequest', async (request, reply) => {
+      fastify.addHook('onRequest', (request, reply, done) => {
         // 检查是否应该排除此路径
         if (this.shouldExcludePath(request.url)) {
+          done();
           return;
         }
 
+        // 创建请求 Span 并返回 W3C 追踪上下文
+        const span = this.startRequestSpan(request);
+        const spanContext = span.spanContext();
+        (request as { span?: Span }).span = span;
+        reply.header('traceparent', formatTraceparent(spanContext));
+        if (spanContext.traceState) {
+          reply.header('tracestate', spanContext.traceState);
+        }
+
         // 创建请求上下文
-        const context = this.createRequestContext(request);
+        const context = this.createRequestContext(request, spanContext);
         
-        // 创建请求存储
-        const store = new RequestStore(request, reply, context, this.options.logLevel);
+        // 创建请求存储，调试令牌有效时为该请求设置调试级别
+        const store = new RequestStore(
+          request,
+          reply,
+          context,
+          logLevelManager.resolveRequestLevel(request.headers),
+          this.options.identityResolver
+        );
         
-        // 运行在请求上下文中
+        // 在请求上下文中执行后续的钩子和路由处理函数
         storage.run(store, () => {
+          // request.log 使用同一个 Pino 实例输出，带有请求上下文字段和该请求的日志级别
+          request.log = this.logger.getPinoInstance();
           this.handleRequestStart(request, reply, context);
+          done();
         });
       });
 
@@ -317,13 +486,23 @@ export class PinoLoggerMiddleware {
           return;
         }
 
+        (request as { span?: Span }).span?.recordException(error);
         const context = store.getContext();
         this.handleRequestError(request, reply, error, context);
       });
 
+      // 注册响应完成钩子
+      fastify.addHook('onResponse', async (request, reply) => {
+        this.endRequestSpan(request, reply);
+      });
+
       // 注册日志记录器到 Fastify 实例
       fastify.decorate('logger', this.logger);
     };
+
+    // 与 fastify-plugin 相同，跳过封装使钩子作用于整个应用
+    Object.assign(plugin, { [Symbol.for('skip-override')]: true });
+    return plugin;
   }
 
   /**
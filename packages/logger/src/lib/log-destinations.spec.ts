@@ -0,0 +1,159 @@
+/**
+ * 日志输出目标单元测试
+ *
+ * @description 测试多目标输出、按目标过滤级别和易读格式
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough } from 'stream';
+import {
+  createDestinationStream,
+  createPrettyStream,
+  resolveLogDestinations,
+} from './log-destinations';
+import { PinoLogger } from './pino-logger';
+import { closeRotatingFileStreams } from './rotating-file-stream';
+
+/**
+ * 读取流中已写入的日志行
+ */
+function readLines(stream: PassThrough): string[] {
+  const content = stream.read();
+  return content ? String(content).trim().split('\n') : [];
+}
+
+describe('日志输出目标', () => {
+  describe('resolveLogDestinations', () => {
+    it('应该合并 destination 和 destinations', () => {
+      const console = { type: 'console' as const };
+      const file = { type: 'file' as const, path: './logs/app.log' };
+
+      expect(resolveLogDestinations(console, [file])).toEqual([console, file]);
+      expect(resolveLogDestinations(undefined, [file])).toEqual([file]);
+      expect(resolveLogDestinations()).toEqual([]);
+    });
+  });
+
+  describe('createDestinationStream', () => {
+    it('应该拒绝没有提供 stream 的流输出目标', () => {
+      expect(() => createDestinationStream({ type: 'stream' })).toThrow(
+        '必须提供 stream'
+      );
+    });
+  });
+
+  describe('多目标输出', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'hl8-log-destinations-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('应该按每个输出目标的级别分发日志', async () => {
+      const stdout = new PassThrough();
+      const audit = new PassThrough();
+      const errorFile = join(dir, 'error.log');
+      const logger = new PinoLogger({
+        level: 'debug',
+        destination: { type: 'stream', stream: stdout, level: 'info' },
+        destinations: [
+          { type: 'file', path: errorFile, level: 'error' },
+          { type: 'stream', stream: audit },
+        ],
+      });
+
+      logger.debug('debug message');
+      logger.info('info message');
+      logger.error('error message');
+      await closeRotatingFileStreams();
+
+      expect(readLines(stdout).map((line) => JSON.parse(line).msg)).toEqual([
+        'info message',
+        'error message',
+      ]);
+      expect(readLines(audit).map((line) => JSON.parse(line).msg)).toEqual([
+        'debug message',
+        'info message',
+        'error message',
+      ]);
+      expect(
+        readFileSync(errorFile, 'utf-8')
+          .trim()
+          .split('\n')
+          .map((line) => JSON.parse(line).msg)
+      ).toEqual(['error message']);
+    });
+
+    it('应该让未设置级别的输出目标跟随 setLevel', () => {
+      const all = new PassThrough();
+      const errors = new PassThrough();
+      const logger = new PinoLogger({
+        level: 'info',
+        destinations: [
+          { type: 'stream', stream: all },
+          { type: 'stream', stream: errors, level: 'error' },
+        ],
+      });
+
+      logger.debug('hidden');
+      logger.setLevel('debug');
+      logger.debug('visible');
+
+      expect(readLines(all).map((line) => JSON.parse(line).msg)).toEqual([
+        'visible',
+      ]);
+      expect(readLines(errors)).toEqual([]);
+    });
+
+    it('应该为单个输出目标输出易读格式', () => {
+      const stdout = new PassThrough();
+      const logger = new PinoLogger({
+        level: 'info',
+        format: { timestamp: false },
+        destination: { type: 'stream', stream: stdout, format: 'pretty' },
+      });
+
+      logger.log('Application started', 'Bootstrap');
+
+      expect(readLines(stdout)).toEqual([
+        'INFO  [Bootstrap]: Application started',
+      ]);
+    });
+  });
+
+  describe('createPrettyStream', () => {
+    it('应该格式化级别、时间、上下文和附加字段', () => {
+      const target = new PassThrough();
+      const pretty = createPrettyStream(target, {
+        levelFirst: true,
+        timeFormat: 'HH:mm',
+      });
+      const time = new Date(2025, 0, 15, 8, 30).toISOString();
+
+      pretty.write(
+        `{"level":"warn","time":"${time}","pid":1,"msg":"slow query","duration":`
+      );
+      pretty.write('1200}\nnot json\n');
+
+      expect(readLines(target)).toEqual([
+        'WARN  08:30: slow query {"duration":1200}',
+        'not json',
+      ]);
+    });
+
+    it('应该在开启 colorize 时为级别着色', () => {
+      const target = new PassThrough();
+      createPrettyStream(target, { colorize: true, timestamp: false }).write(
+        '{"level":50,"msg":"boom"}\n'
+      );
+
+      expect(readLines(target)).toEqual(['\x1b[31mERROR\x1b[0m: boom']);
+    });
+  });
+});
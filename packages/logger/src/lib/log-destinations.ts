@@ -0,0 +1,263 @@
+/**
+ * HL8 SAAS平台日志输出目标
+ *
+ * @description 根据 LogDestination 创建输出流，支持同时输出到多个目标
+ * 每个输出目标可以单独设置最低日志级别和输出格式（JSON 或易读格式）
+ *
+ * @fileoverview 日志输出目标实现文件
+ * @author HL8 SAAS Platform Team
+ * @since 1.0.0
+ */
+
+import pino from 'pino';
+import { Writable } from 'stream';
+import {
+  formatLogDate,
+  getRotatingFileStream,
+} from './rotating-file-stream.js';
+import { LogDestination, LogFormat } from './types.js';
+
+/**
+ * 日志级别数值与名称的对应关系
+ *
+ * @private
+ */
+const LEVEL_LABELS: Record<number, string> = {
+  10: 'trace',
+  20: 'debug',
+  30: 'info',
+  40: 'warn',
+  50: 'error',
+  60: 'fatal',
+};
+
+/**
+ * 日志级别对应的终端颜色
+ *
+ * @private
+ */
+const LEVEL_COLORS: Record<string, string> = {
+  trace: '\x1b[90m',
+  debug: '\x1b[36m',
+  info: '\x1b[32m',
+  warn: '\x1b[33m',
+  error: '\x1b[31m',
+  fatal: '\x1b[35m',
+};
+
+/**
+ * 易读格式中单独展示、不再输出到附加字段中的属性
+ *
+ * @private
+ */
+const PRETTY_OMITTED_KEYS = [
+  'level',
+  'time',
+  'msg',
+  'pid',
+  'hostname',
+  'context',
+];
+
+/**
+ * 合并日志输出目标
+ *
+ * @description 将 LoggerConfig 中的 destination 和 destinations 合并为一个列表，destination 排在最前
+ *
+ * @param destination - 单个输出目标
+ * @param destinations - 多个输出目标
+ * @returns {LogDestination[]} 输出目标列表，未配置时为空数组
+ *
+ * @since 1.0.0
+ */
+export function resolveLogDestinations(
+  destination?: LogDestination,
+  destinations: LogDestination[] = []
+): LogDestination[] {
+  return destination ? [destination, ...destinations] : [...destinations];
+}
+
+/**
+ * 创建单个输出目标的输出流
+ *
+ * @description 控制台输出到标准输出，文件使用支持轮转的文件输出流，'stream' 直接使用传入的流
+ * 输出格式为 'pretty' 时在目标流之前转换为易读格式
+ *
+ * @param destination - 输出目标
+ * @param format - 易读格式的格式化选项
+ * @returns {pino.DestinationStream} 输出流
+ * @throws {Error} type 为 'stream' 但没有提供 stream 时抛出
+ *
+ * @example
+ * ```typescript
+ * const stream = createDestinationStream({ type: 'console', format: 'pretty' }, { colorize: true });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function createDestinationStream(
+  destination: LogDestination,
+  format: LogFormat = {}
+): pino.DestinationStream {
+  let target: NodeJS.WritableStream;
+
+  switch (destination.type) {
+    case 'file':
+      // 同一文件的日志器共享输出流，按 rotation 配置轮转并响应 SIGHUP
+      target = getRotatingFileStream({
+        ...destination.rotation,
+        path: destination.path || './logs/app.log',
+        append: destination.append !== false,
+      });
+      break;
+    case 'stream':
+      if (!destination.stream) {
+        throw new Error('日志输出目标类型为 stream 时必须提供 stream');
+      }
+      target = destination.stream;
+      break;
+    case 'console':
+    default:
+      if (destination.format !== 'pretty') {
+        return pino.destination(1);
+      }
+      target = process.stdout;
+  }
+
+  return destination.format === 'pretty'
+    ? createPrettyStream(target, format)
+    : target;
+}
+
+/**
+ * 创建多目标输出流
+ *
+ * @description 基于 pino.multistream 将每条日志分发到所有级别满足要求的输出目标
+ * 未设置级别的输出目标接收所有通过日志器级别的日志，因此 setLevel() 仍然对其生效
+ *
+ * @param destinations - 输出目标列表
+ * @param format - 易读格式的格式化选项
+ * @returns {pino.MultiStreamRes} 多目标输出流
+ *
+ * @example
+ * ```typescript
+ * const stream = createMultiDestinationStream([
+ *   { type: 'console', level: 'info', format: 'pretty' },
+ *   { type: 'file', path: './logs/error.log', level: 'error' }
+ * ]);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function createMultiDestinationStream(
+  destinations: LogDestination[],
+  format: LogFormat = {}
+): pino.MultiStreamRes {
+  return pino.multistream(
+    destinations.map((destination) => ({
+      level: destination.level ?? 'trace',
+      stream: createDestinationStream(destination, format),
+    }))
+  );
+}
+
+/**
+ * 创建易读格式输出流
+ *
+ * @description 将 Pino 输出的 JSON 日志行转换为 `时间 级别 [上下文]: 消息 {附加字段}` 格式后写入目标流
+ * 无法解析为 JSON 的行原样写入
+ *
+ * @param target - 目标流
+ * @param format - 格式化选项，timestamp 默认为 true，colorize、levelFirst、pid、hostname 默认为 false
+ * @returns {Writable} 易读格式输出流
+ *
+ * @example
+ * ```typescript
+ * const logger = pino(createPrettyStream(process.stdout, { colorize: true }));
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function createPrettyStream(
+  target: NodeJS.WritableStream,
+  format: LogFormat = {}
+): Writable {
+  let pending = '';
+
+  return new Writable({
+    decodeStrings: false,
+    write(chunk: string | Buffer, _encoding, callback) {
+      const lines = (pending + chunk.toString()).split('\n');
+      pending = lines.pop() ?? '';
+
+      const output = lines
+        .filter((line) => line.length > 0)
+        .map((line) => formatPrettyLine(line, format))
+        .join('');
+
+      if (!output || target.write(output)) {
+        callback();
+      } else {
+        target.once('drain', () => callback());
+      }
+    },
+  });
+}
+
+/**
+ * 格式化单行日志
+ *
+ * @private
+ */
+function formatPrettyLine(line: string, format: LogFormat): string {
+  let entry: Record<string, unknown>;
+  try {
+    entry = JSON.parse(line) as Record<string, unknown>;
+  } catch {
+    return `${line}\n`;
+  }
+
+  const label =
+    typeof entry['level'] === 'number'
+      ? LEVEL_LABELS[entry['level']]
+      : String(entry['level'] ?? '');
+  const level = format.colorize
+    ? `${LEVEL_COLORS[label] ?? ''}${label.toUpperCase().padEnd(5)}\x1b[0m`
+    : label.toUpperCase().padEnd(5);
+  const time =
+    format.timestamp === false || entry['time'] === undefined
+      ? undefined
+      : formatTime(entry['time'], format);
+  const origin = [
+    format.pid && entry['pid'],
+    format.hostname && entry['hostname'],
+  ]
+    .filter(Boolean)
+    .join('@');
+
+  const header = (format.levelFirst ? [level, time] : [time, level])
+    .filter(Boolean)
+    .join(' ');
+  const context = entry['context'] ? ` [${entry['context']}]` : '';
+  const rest = Object.fromEntries(
+    Object.entries(entry).filter(([key]) => !PRETTY_OMITTED_KEYS.includes(key))
+  );
+  const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : '';
+
+  return `${header}${origin ? ` (${origin})` : ''}${context}: ${
+    entry['msg'] ?? ''
+  }${extra}\n`;
+}
+
+/**
+ * 格式化时间
+ *
+ * @description 配置 timeFormat 时按日期模式格式化本地时间，否则保持原样
+ *
+ * @private
+ */
+function formatTime(time: unknown, format: LogFormat): string {
+  return format.timeFormat
+    ? formatLogDate(new Date(time as string | number), format.timeFormat)
+    : String(time);
+}
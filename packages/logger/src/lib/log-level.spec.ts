@@ -0,0 +1,225 @@
+/**
+ * 动态日志级别单元测试
+ *
+ * @description 测试按上下文覆盖日志级别、调试令牌、请求级别以及 Fastify 中间件的单请求调试
+ */
+
+import Fastify from 'fastify';
+import { PassThrough } from 'stream';
+import { withRequestContext, getCurrentRequestStore } from './context';
+import { registerPinoLogger } from './fastify-middleware';
+import {
+  createDebugToken,
+  LogLevelManager,
+  logLevelManager,
+  parseContextLevels,
+  verifyDebugToken,
+} from './log-level';
+import { PinoLogger } from './pino-logger';
+
+const SECRET = 'debug-secret';
+
+/**
+ * 读取流中全部日志的消息
+ */
+function readMessages(stream: PassThrough): unknown[] {
+  return String(stream.read() ?? '')
+    .trim()
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line).msg);
+}
+
+describe('LogLevelManager', () => {
+  it('应该优先使用完全匹配的规则，其次使用最长的前缀规则', () => {
+    const manager = new LogLevelManager();
+    manager.setContextLevels({
+      'Database*': 'warn',
+      'DatabaseConnection*': 'debug',
+      DatabaseConnectionManager: 'trace',
+    });
+
+    expect(manager.getContextLevel('DatabaseConnectionManager')).toBe('trace');
+    expect(manager.getContextLevel('DatabaseConnectionPool')).toBe('debug');
+    expect(manager.getContextLevel('DatabaseMigrator')).toBe('warn');
+    expect(manager.getContextLevel('UserService')).toBeUndefined();
+    expect(manager.getContextLevel(undefined)).toBeUndefined();
+  });
+
+  it('应该拒绝无效的日志级别并保留原有规则', () => {
+    const manager = new LogLevelManager();
+    manager.setContextLevel('UserService', 'debug');
+
+    expect(() =>
+      manager.setContextLevels({ UserService: 'verbose' as never })
+    ).toThrow('无效的日志级别: verbose');
+    expect(manager.getOverrides().levels).toEqual({ UserService: 'debug' });
+    expect(manager.removeContextLevel('UserService')).toBe(true);
+    expect(manager.getOverrides().levels).toEqual({});
+  });
+
+  it('应该解析上下文日志级别列表', () => {
+    expect(
+      parseContextLevels(' DatabaseConnectionManager=debug, Cache*=warn ,')
+    ).toEqual({
+      DatabaseConnectionManager: 'debug',
+      'Cache*': 'warn',
+    });
+    expect(() => parseContextLevels('UserService')).toThrow(
+      '无效的上下文日志级别'
+    );
+    expect(() => parseContextLevels('UserService=loud')).toThrow(
+      '无效的日志级别: loud'
+    );
+  });
+
+  it('应该只接受签名正确且未过期的调试令牌', () => {
+    const now = Date.now();
+    const token = createDebugToken(SECRET, 60_000, now);
+
+    expect(verifyDebugToken(token, SECRET, now)).toBe(true);
+    expect(verifyDebugToken(token, 'other-secret', now)).toBe(false);
+    expect(verifyDebugToken(token, SECRET, now + 60_000)).toBe(false);
+    expect(
+      verifyDebugToken(`${now + 120_000}.${token.split('.')[1]}`, SECRET, now)
+    ).toBe(false);
+    expect(verifyDebugToken('garbage', SECRET, now)).toBe(false);
+  });
+
+  it('应该在配置密钥后按请求头解析调试级别', () => {
+    const manager = new LogLevelManager();
+    const headers = { 'x-log-debug': createDebugToken(SECRET) };
+
+    expect(manager.resolveRequestLevel(headers)).toBeUndefined();
+    manager.configureRequestDebug({
+      secret: SECRET,
+      header: 'X-Log-Debug',
+      level: 'debug',
+    });
+
+    expect(manager.resolveRequestLevel(headers)).toBe('debug');
+    expect(manager.resolveRequestLevel({})).toBeUndefined();
+    expect(manager.getOverrides().requestDebug).toEqual({
+      enabled: true,
+      header: 'X-Log-Debug',
+      level: 'debug',
+    });
+  });
+});
+
+describe('PinoLogger 动态日志级别', () => {
+  afterEach(() => {
+    logLevelManager.reset();
+  });
+
+  it('应该按上下文覆盖级别输出日志', () => {
+    const stream = new PassThrough();
+    const logger = new PinoLogger({
+      level: 'info',
+      context: 'DatabaseConnectionManager',
+      destination: { type: 'stream', stream },
+    });
+    const other = logger.child({ context: 'UserService' });
+
+    logger.debug('before override');
+    logLevelManager.setContextLevel('DatabaseConnectionManager', 'debug');
+    logger.debug('after override');
+    other.debug('other context');
+    logger.log('nest message', 'RoutesResolver');
+    logLevelManager.setContextLevel('RoutesResolver', 'warn');
+    logger.log('silenced nest message', 'RoutesResolver');
+
+    expect(readMessages(stream)).toEqual(['after override', 'nest message']);
+  });
+
+  it('应该输出日志器的上下文名称', () => {
+    const stream = new PassThrough();
+    new PinoLogger({
+      context: 'UserService',
+      destination: { type: 'stream', stream },
+    }).info('hello');
+
+    expect(JSON.parse(String(stream.read()))).toMatchObject({
+      context: 'UserService',
+      msg: 'hello',
+    });
+  });
+
+  it('应该让请求级别只作用于当前请求', async () => {
+    const stream = new PassThrough();
+    const logger = new PinoLogger({
+      level: 'warn',
+      context: 'UserService',
+      destination: { type: 'stream', stream },
+    });
+    logLevelManager.setContextLevel('*', 'error');
+
+    await withRequestContext({ requestId: 'req-debug' }, async () => {
+      getCurrentRequestStore()?.setLogLevel('trace');
+      expect(logger.isLevelEnabled('trace')).toBe(true);
+      logger.trace('debug request');
+    });
+    logger.warn('normal request');
+
+    expect(readMessages(stream)).toEqual(['debug request']);
+  });
+
+  it('应该让子日志器继承当前级别', () => {
+    const logger = new PinoLogger({ level: 'info' });
+    logger.setLevel('debug');
+
+    expect(logger.child({ requestId: 'req-1' }).isLevelEnabled('debug')).toBe(
+      true
+    );
+  });
+});
+
+describe('PinoLoggerMiddleware 单请求调试', () => {
+  afterEach(() => {
+    logLevelManager.reset();
+  });
+
+  it('应该只为携带有效调试令牌的请求输出调试日志', async () => {
+    logLevelManager.configureRequestDebug({ secret: SECRET });
+    const stream = new PassThrough();
+    const logger = new PinoLogger({
+      level: 'info',
+      context: 'UserService',
+      destination: { type: 'stream', stream },
+    });
+    const app = Fastify();
+    await registerPinoLogger(app, {
+      enableRequestLogging: false,
+      enableResponseLogging: false,
+    });
+    app.get('/users', async (request) => {
+      logger.trace(`trace for ${request.headers['x-request-id']}`);
+      return [];
+    });
+
+    await app.inject({
+      method: 'GET',
+      url: '/users',
+      headers: {
+        'x-request-id': 'debug',
+        'x-debug-token': createDebugToken(SECRET),
+      },
+    });
+    await app.inject({
+      method: 'GET',
+      url: '/users',
+      headers: {
+        'x-request-id': 'forged',
+        'x-debug-token': createDebugToken('wrong'),
+      },
+    });
+    await app.inject({
+      method: 'GET',
+      url: '/users',
+      headers: { 'x-request-id': 'plain' },
+    });
+    await app.close();
+
+    expect(readMessages(stream)).toEqual(['trace for debug']);
+  });
+});
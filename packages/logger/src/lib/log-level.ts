@@ -0,0 +1,362 @@
+/**
+ * HL8 SAAS平台动态日志级别
+ *
+ * @description 在运行时按日志器上下文覆盖日志级别，并支持通过签名请求头为单个请求开启调试日志
+ * 覆盖规则保存在进程内共享的 logLevelManager 中，所有 PinoLogger 实例在每次记录日志时读取
+ *
+ * @fileoverview 动态日志级别实现文件
+ * @author HL8 SAAS Platform Team
+ * @since 1.0.0
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { LogLevel } from './types.js';
+
+/**
+ * 日志级别数值
+ *
+ * @description 与 Pino 的级别数值一致，数值越大级别越高
+ *
+ * @since 1.0.0
+ */
+export const LOG_LEVEL_VALUES: Readonly<Record<LogLevel, number>> = {
+  trace: 10,
+  debug: 20,
+  info: 30,
+  warn: 40,
+  error: 50,
+  fatal: 60,
+};
+
+/**
+ * 默认的调试请求头名称
+ *
+ * @since 1.0.0
+ */
+export const DEFAULT_DEBUG_HEADER = 'x-debug-token';
+
+/**
+ * 默认的调试令牌有效期（毫秒）
+ *
+ * @since 1.0.0
+ */
+export const DEFAULT_DEBUG_TOKEN_TTL = 15 * 60 * 1000;
+
+/**
+ * 单请求调试选项
+ *
+ * @since 1.0.0
+ */
+export interface RequestDebugOptions {
+  /** 签名密钥，为空时不启用单请求调试 */
+  secret?: string;
+  /** 携带调试令牌的请求头名称，默认为 'x-debug-token' */
+  header?: string;
+  /** 调试请求使用的日志级别，默认为 'trace' */
+  level?: LogLevel;
+}
+
+/**
+ * 日志级别覆盖状态
+ *
+ * @description 供管理接口展示，不包含签名密钥
+ *
+ * @since 1.0.0
+ */
+export interface LogLevelOverrides {
+  /** 按日志器上下文覆盖的级别 */
+  levels: Record<string, LogLevel>;
+  /** 单请求调试状态 */
+  requestDebug: {
+    /** 是否已启用 */
+    enabled: boolean;
+    /** 请求头名称 */
+    header: string;
+    /** 调试请求使用的日志级别 */
+    level: LogLevel;
+  };
+}
+
+/**
+ * 日志级别管理器
+ *
+ * @description 保存按日志器上下文覆盖的日志级别和单请求调试配置
+ *
+ * ## 上下文匹配
+ * - 上下文名称完全相同的规则优先
+ * - 以 `*` 结尾的规则按前缀匹配，多个前缀规则命中时使用最长的前缀
+ * - 没有规则命中时使用日志器自身的级别
+ *
+ * ## 单请求调试
+ * - 请求头中的令牌由 createDebugToken() 使用相同密钥签发
+ * - 令牌有效时，该请求处理过程中的所有日志使用调试级别，不影响其他请求
+ *
+ * @example
+ * ```typescript
+ * logLevelManager.setContextLevel('DatabaseConnectionManager', 'debug');
+ * logLevelManager.setContextLevel('Cache*', 'warn');
+ * logLevelManager.configureRequestDebug({ secret: process.env.LOG_DEBUG_SECRET });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class LogLevelManager {
+  /** 按上下文覆盖的日志级别 */
+  private readonly contextLevels = new Map<string, LogLevel>();
+  /** 单请求调试选项 */
+  private requestDebug: RequestDebugOptions = {};
+
+  /**
+   * 覆盖上下文的日志级别
+   *
+   * @param context - 日志器上下文名称，以 `*` 结尾时按前缀匹配
+   * @param level - 日志级别
+   * @throws {Error} 日志级别无效时抛出
+   */
+  setContextLevel(context: string, level: LogLevel): void {
+    assertLogLevel(level);
+    this.contextLevels.set(context, level);
+  }
+
+  /**
+   * 移除上下文的日志级别覆盖
+   *
+   * @param context - 日志器上下文名称
+   * @returns {boolean} 存在并已移除时返回 true
+   */
+  removeContextLevel(context: string): boolean {
+    return this.contextLevels.delete(context);
+  }
+
+  /**
+   * 替换全部上下文日志级别覆盖
+   *
+   * @param levels - 上下文名称到日志级别的映射
+   * @throws {Error} 存在无效的日志级别时抛出，此时保持原有规则不变
+   */
+  setContextLevels(levels: Record<string, LogLevel>): void {
+    Object.values(levels).forEach(assertLogLevel);
+    this.contextLevels.clear();
+    Object.entries(levels).forEach(([context, level]) =>
+      this.contextLevels.set(context, level)
+    );
+  }
+
+  /**
+   * 获取上下文的覆盖级别
+   *
+   * @param context - 日志器上下文名称
+   * @returns {LogLevel | undefined} 没有规则命中时返回 undefined
+   */
+  getContextLevel(context: string | undefined): LogLevel | undefined {
+    if (!context || this.contextLevels.size === 0) {
+      return undefined;
+    }
+
+    const exact = this.contextLevels.get(context);
+    if (exact) {
+      return exact;
+    }
+
+    let matched: { prefix: string; level: LogLevel } | undefined;
+    for (const [pattern, level] of this.contextLevels) {
+      const prefix = pattern.slice(0, -1);
+      if (
+        pattern.endsWith('*') &&
+        context.startsWith(prefix) &&
+        prefix.length >= (matched?.prefix.length ?? 0)
+      ) {
+        matched = { prefix, level };
+      }
+    }
+    return matched?.level;
+  }
+
+  /**
+   * 配置单请求调试
+   *
+   * @param options - 单请求调试选项，secret 为空时关闭
+   * @throws {Error} 日志级别无效时抛出
+   */
+  configureRequestDebug(options: RequestDebugOptions = {}): void {
+    if (options.level) {
+      assertLogLevel(options.level);
+    }
+    this.requestDebug = { ...options };
+  }
+
+  /**
+   * 解析请求的调试级别
+   *
+   * @description 从请求头中读取调试令牌并验证签名和有效期
+   * @param headers - 请求头，名称为小写
+   * @returns {LogLevel | undefined} 令牌有效时返回调试级别，否则返回 undefined
+   */
+  resolveRequestLevel(
+    headers: Record<string, string | string[] | undefined>
+  ): LogLevel | undefined {
+    const {
+      secret,
+      header = DEFAULT_DEBUG_HEADER,
+      level = 'trace',
+    } = this.requestDebug;
+    if (!secret) {
+      return undefined;
+    }
+
+    const value = headers[header.toLowerCase()];
+    const token = Array.isArray(value) ? value[0] : value;
+    return token && verifyDebugToken(token, secret) ? level : undefined;
+  }
+
+  /**
+   * 获取当前的覆盖状态
+   *
+   * @returns {LogLevelOverrides} 覆盖状态，不包含签名密钥
+   */
+  getOverrides(): LogLevelOverrides {
+    return {
+      levels: Object.fromEntries(this.contextLevels),
+      requestDebug: {
+        enabled: Boolean(this.requestDebug.secret),
+        header: this.requestDebug.header ?? DEFAULT_DEBUG_HEADER,
+        level: this.requestDebug.level ?? 'trace',
+      },
+    };
+  }
+
+  /**
+   * 清除所有覆盖
+   */
+  reset(): void {
+    this.contextLevels.clear();
+    this.requestDebug = {};
+  }
+}
+
+/**
+ * 进程内共享的日志级别管理器
+ *
+ * @since 1.0.0
+ */
+export const logLevelManager = new LogLevelManager();
+
+/**
+ * 判断日志级别是否满足最低级别
+ *
+ * @param level - 日志级别
+ * @param threshold - 最低级别
+ * @returns {boolean} level 不低于 threshold 时返回 true
+ *
+ * @since 1.0.0
+ */
+export function isLogLevelEnabled(
+  level: LogLevel,
+  threshold: LogLevel
+): boolean {
+  return LOG_LEVEL_VALUES[level] >= LOG_LEVEL_VALUES[threshold];
+}
+
+/**
+ * 解析上下文日志级别列表
+ *
+ * @description 解析 `上下文=级别` 形式、以逗号分隔的列表，用于环境变量和配置文件
+ * @param value - 如 'DatabaseConnectionManager=debug,Cache*=warn'
+ * @returns {Record<string, LogLevel>} 上下文名称到日志级别的映射
+ * @throws {Error} 格式错误或日志级别无效时抛出
+ *
+ * @example
+ * ```typescript
+ * parseContextLevels('DatabaseConnectionManager=debug, Cache*=warn');
+ * // { DatabaseConnectionManager: 'debug', 'Cache*': 'warn' }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function parseContextLevels(value: string): Record<string, LogLevel> {
+  return Object.fromEntries(
+    value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean)
+      .map((item) => {
+        const [context, level] = item.split('=').map((part) => part.trim());
+        if (!context || !level) {
+          throw new Error(`无效的上下文日志级别: ${item}`);
+        }
+        assertLogLevel(level);
+        return [context, level];
+      })
+  );
+}
+
+/**
+ * 签发调试令牌
+ *
+ * @description 令牌格式为 `过期时间戳.签名`，签名为 HMAC-SHA256 的十六进制值
+ * @param secret - 签名密钥
+ * @param ttl - 有效期（毫秒），默认为 15 分钟
+ * @param now - 当前时间戳
+ * @returns {string} 调试令牌
+ *
+ * @example
+ * ```typescript
+ * const token = createDebugToken(secret);
+ * await fetch(url, { headers: { 'x-debug-token': token } });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function createDebugToken(
+  secret: string,
+  ttl = DEFAULT_DEBUG_TOKEN_TTL,
+  now = Date.now()
+): string {
+  const expires = String(now + ttl);
+  return `${expires}.${sign(expires, secret)}`;
+}
+
+/**
+ * 验证调试令牌
+ *
+ * @param token - 调试令牌
+ * @param secret - 签名密钥
+ * @param now - 当前时间戳
+ * @returns {boolean} 签名正确且未过期时返回 true
+ *
+ * @since 1.0.0
+ */
+export function verifyDebugToken(
+  token: string,
+  secret: string,
+  now = Date.now()
+): boolean {
+  const [expires, signature] = token.split('.');
+  if (!/^\d+$/.test(expires ?? '') || !signature || Number(expires) <= now) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(expires, secret));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * 检查日志级别是否有效
+ *
+ * @private
+ */
+function assertLogLevel(level: string): asserts level is LogLevel {
+  if (!Object.prototype.hasOwnProperty.call(LOG_LEVEL_VALUES, level)) {
+    throw new Error(`无效的日志级别: ${level}`);
+  }
+}
+
+/**
+ * 计算签名
+ *
+ * @private
+ */
+function sign(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('hex');
+}
@@ -0,0 +1,277 @@
+/**
+ * 日志采样与去重单元测试
+ *
+ * @description 测试采样率和慢请求规则、重复日志的抑制和汇总，
+ * 以及 Fastify 中间件和 LogPerformance 的采样
+ */
+
+import Fastify from 'fastify';
+import { PassThrough } from 'stream';
+import { registerPinoLogger } from './fastify-middleware';
+import { LogPerformance } from './logger.decorator';
+import { loggerRegistry } from './logger-registry';
+import { LogDeduplicator, LogSampler } from './log-sampling';
+import { PinoLogger } from './pino-logger';
+
+/**
+ * 读取流中的全部日志
+ */
+function readEntries(stream: PassThrough): Record<string, unknown>[] {
+  return String(stream.read() ?? '')
+    .trim()
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+describe('LogSampler', () => {
+  it('应该按路由选择采样率', () => {
+    const sampler = new LogSampler({
+      rate: 0.5,
+      routes: { '/health': 0, '/orders/*': 1, '/orders/export*': 0.1 },
+    });
+
+    expect(sampler.getRate('/health')).toBe(0);
+    expect(sampler.getRate('/orders/:id')).toBe(1);
+    expect(sampler.getRate('/orders/export/:format')).toBe(0.1);
+    expect(sampler.getRate('/users')).toBe(0.5);
+    expect(sampler.getRate()).toBe(0.5);
+  });
+
+  it('应该按随机数采样', () => {
+    const sampler = new LogSampler({ rate: 0.25 }, () => 0.2);
+
+    expect(sampler.sample()).toBe(true);
+    expect(new LogSampler({ rate: 0.25 }, () => 0.3).sample()).toBe(false);
+    expect(new LogSampler({ rate: 0 }, () => 0).sample()).toBe(false);
+    expect(new LogSampler().sample()).toBe(true);
+  });
+
+  it('应该始终记录失败的请求并只记录慢请求', () => {
+    const sampler = new LogSampler({ slowThreshold: 100 });
+
+    expect(sampler.shouldLogStart(true)).toBe(false);
+    expect(sampler.shouldLogComplete({ sampled: true, duration: 99 })).toBe(
+      false
+    );
+    expect(sampler.shouldLogComplete({ sampled: true, duration: 100 })).toBe(
+      true
+    );
+    expect(sampler.shouldLogComplete({ sampled: false, duration: 500 })).toBe(
+      false
+    );
+    expect(
+      sampler.shouldLogComplete({ sampled: false, duration: 1, failed: true })
+    ).toBe(true);
+    expect(
+      new LogSampler({ alwaysLogErrors: false }).shouldLogComplete({
+        sampled: false,
+        duration: 1,
+        failed: true,
+      })
+    ).toBe(false);
+  });
+
+  it('应该拒绝无效的采样率', () => {
+    expect(() => new LogSampler({ rate: 1.5 })).toThrow('无效的采样率: 1.5');
+    expect(() => new LogSampler({ routes: { '/a': -1 } })).toThrow(
+      '无效的采样率: -1'
+    );
+  });
+});
+
+describe('LogDeduplicator', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('应该在窗口内抑制重复日志并在窗口结束时汇总', () => {
+    jest.useFakeTimers();
+    const summaries: number[] = [];
+    const deduplicator = new LogDeduplicator({ window: 1000 });
+    const summarize = (count: number) => summaries.push(count);
+
+    expect(deduplicator.suppress('a', summarize)).toBe(false);
+    expect(deduplicator.suppress('a', summarize)).toBe(true);
+    expect(deduplicator.suppress('a', summarize)).toBe(true);
+    expect(deduplicator.suppress('b', summarize)).toBe(false);
+    jest.advanceTimersByTime(1000);
+
+    expect(summaries).toEqual([2]);
+    expect(deduplicator.suppress('a', summarize)).toBe(false);
+  });
+
+  it('应该淘汰最早的记录并输出其汇总', () => {
+    const summaries: string[] = [];
+    const deduplicator = new LogDeduplicator({ maxEntries: 2 });
+
+    deduplicator.suppress('a', () => undefined);
+    deduplicator.suppress('a', () => summaries.push('a'));
+    deduplicator.suppress('b', () => undefined);
+    deduplicator.suppress('c', () => undefined);
+
+    expect(summaries).toEqual(['a']);
+    expect(deduplicator.suppress('a', () => undefined)).toBe(false);
+    deduplicator.flushAll();
+  });
+});
+
+describe('PinoLogger 重复日志去重', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('应该只输出第一条重复日志和一条汇总', () => {
+    jest.useFakeTimers();
+    const stream = new PassThrough();
+    const logger = new PinoLogger({
+      context: 'CacheService',
+      deduplication: { window: 5000 },
+      destination: { type: 'stream', stream },
+    });
+
+    for (let i = 0; i < 5; i++) {
+      logger.warn('Cache miss');
+    }
+    logger.warn('Cache evicted');
+    logger.error('Cache miss');
+    jest.advanceTimersByTime(5000);
+
+    expect(readEntries(stream)).toEqual([
+      expect.objectContaining({ level: 'warn', msg: 'Cache miss' }),
+      expect.objectContaining({ level: 'warn', msg: 'Cache evicted' }),
+      expect.objectContaining({ level: 'error', msg: 'Cache miss' }),
+      expect.objectContaining({
+        level: 'warn',
+        context: 'CacheService',
+        msg: 'Suppressed 4 similar messages',
+        suppressed: 4,
+        suppressedMessage: 'Cache miss',
+      }),
+    ]);
+  });
+
+  it('应该分别输出消息相同但数据不同的日志', () => {
+    jest.useFakeTimers();
+    const stream = new PassThrough();
+    const logger = new PinoLogger({
+      deduplication: { window: 5000 },
+      destination: { type: 'stream', stream },
+    });
+    const declined = new Error('card declined');
+
+    logger.error('Payment failed', { orderId: 'order-1', error: declined });
+    logger.error('Payment failed', { orderId: 'order-2', error: declined });
+    logger.error('Payment failed', { error: new Error('gateway timeout'), orderId: 'order-2' });
+    logger.error('Payment failed', { error: declined, orderId: 'order-1' });
+    jest.advanceTimersByTime(5000);
+
+    expect(readEntries(stream).map((entry) => entry['orderId'] ?? entry['msg'])).toEqual([
+      'order-1',
+      'order-2',
+      'order-2',
+      'Suppressed 1 similar messages',
+    ]);
+  });
+
+  it('应该默认不去重', () => {
+    const stream = new PassThrough();
+    const logger = new PinoLogger({ destination: { type: 'stream', stream } });
+
+    logger.info('tick');
+    logger.info('tick');
+
+    expect(readEntries(stream)).toHaveLength(2);
+  });
+});
+
+describe('PinoLoggerMiddleware 采样', () => {
+  it('应该只记录被采样、慢速或失败的请求', async () => {
+    const stream = new PassThrough();
+    const app = Fastify();
+    await registerPinoLogger(app, {
+      loggerConfig: {
+        destination: { type: 'stream', stream },
+        sampling: { rate: 0, routes: { '/users/*': 1 } },
+      },
+    });
+    app.get('/health', async () => 'ok');
+    app.get('/users/:id', async () => ({ id: 1 }));
+    app.get('/fail', async () => {
+      throw new Error('boom');
+    });
+
+    await app.inject({ method: 'GET', url: '/health' });
+    await app.inject({ method: 'GET', url: '/users/1' });
+    await app.inject({ method: 'GET', url: '/fail' });
+    await app.close();
+
+    expect(
+      readEntries(stream).map((entry) => `${entry['msg']} ${entry['url']}`)
+    ).toEqual([
+      'Request started /users/1',
+      'Request completed /users/1',
+      'Request error /fail',
+      'Request completed /fail',
+    ]);
+  });
+
+  it('应该在设置慢请求阈值时只记录慢请求的完成日志', async () => {
+    const stream = new PassThrough();
+    const app = Fastify();
+    await registerPinoLogger(app, {
+      loggerConfig: {
+        destination: { type: 'stream', stream },
+        sampling: { slowThreshold: 50 },
+      },
+    });
+    app.get('/fast', async () => 'ok');
+    app.get('/slow', async () => {
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      return 'ok';
+    });
+
+    await app.inject({ method: 'GET', url: '/fast' });
+    await app.inject({ method: 'GET', url: '/slow' });
+    await app.close();
+
+    expect(
+      readEntries(stream).map((entry) => `${entry['msg']} ${entry['url']}`)
+    ).toEqual(['Request completed /slow']);
+  });
+});
+
+describe('LogPerformance 采样', () => {
+  afterEach(() => {
+    loggerRegistry.reset();
+  });
+
+  it('应该按根日志器的采样配置记录性能日志，失败时始终记录', async () => {
+    const stream = new PassThrough();
+    loggerRegistry.setRootLogger(
+      new PinoLogger({
+        destination: { type: 'stream', stream },
+        sampling: { rate: 0 },
+      })
+    );
+    class ReportService {
+      @LogPerformance()
+      async build(fail: boolean): Promise<void> {
+        if (fail) {
+          throw new Error('report failed');
+        }
+      }
+    }
+    const service = new ReportService();
+
+    await service.build(false);
+    await expect(service.build(true)).rejects.toThrow('report failed');
+
+    expect(readEntries(stream)).toEqual([
+      expect.objectContaining({
+        context: 'ReportService',
+        msg: 'ReportService.build performance (error)',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * HL8 SAAS平台日志采样与去重
+ *
+ * @description 控制高频日志的输出量：按比例采样请求日志和性能日志，
+ * 并在时间窗口内合并重复的日志，窗口结束时输出被抑制数量的汇总
+ *
+ * @fileoverview 日志采样与去重实现文件
+ * @author HL8 SAAS Platform Team
+ * @since 1.0.0
+ */
+
+import { LogDeduplicationConfig, LogSamplingConfig } from './types.js';
+
+/**
+ * 默认的去重时间窗口（毫秒）
+ *
+ * @since 1.0.0
+ */
+export const DEFAULT_DEDUPLICATION_WINDOW = 60 * 1000;
+
+/**
+ * 默认的去重记录数量上限
+ *
+ * @since 1.0.0
+ */
+export const DEFAULT_DEDUPLICATION_MAX_ENTRIES = 1000;
+
+/**
+ * 采样结果
+ *
+ * @description 请求或方法调用结束时用于判断是否输出完成日志
+ *
+ * @since 1.0.0
+ */
+export interface SamplingOutcome {
+  /** 开始时的采样结果 */
+  sampled: boolean;
+  /** 耗时（毫秒） */
+  duration: number;
+  /** 是否失败 */
+  failed?: boolean;
+}
+
+/**
+ * 日志采样器
+ *
+ * @description 在请求或方法调用开始时按采样率决定是否采样，结束时结合耗时和结果决定是否输出日志
+ *
+ * ## 判断规则
+ * - 失败的请求在 alwaysLogErrors 为 true（默认）时始终输出
+ * - 其他请求需要被采样，设置了 slowThreshold 时耗时还需要达到阈值
+ * - 按路由的采样率中，完全相同的路由优先，其次使用最长的 `*` 前缀
+ *
+ * @example
+ * ```typescript
+ * const sampler = new LogSampler({ rate: 0.1, routes: { '/health': 0 } });
+ * const sampled = sampler.sample(request.routeOptions.url);
+ * // ...
+ * if (sampler.shouldLogComplete({ sampled, duration, failed: reply.statusCode >= 500 })) {
+ *   logger.info('Request completed');
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class LogSampler {
+  /** 默认采样率 */
+  private readonly rate: number;
+  /** 按路由的采样率 */
+  private readonly routes: Array<[string, number]>;
+  /** 是否始终记录失败的请求 */
+  private readonly alwaysLogErrors: boolean;
+  /** 慢请求阈值 */
+  private readonly slowThreshold?: number;
+
+  /**
+   * 创建日志采样器
+   *
+   * @param config - 采样配置
+   * @param random - 随机数生成函数，返回 [0, 1) 之间的数
+   * @throws {Error} 采样率不在 0 到 1 之间时抛出
+   */
+  constructor(
+    config: LogSamplingConfig = {},
+    private readonly random: () => number = Math.random
+  ) {
+    this.rate = assertRate(config.rate ?? 1);
+    this.routes = Object.entries(config.routes ?? {}).map(([route, rate]) => [
+      route,
+      assertRate(rate),
+    ]);
+    this.alwaysLogErrors = config.alwaysLogErrors ?? true;
+    this.slowThreshold = config.slowThreshold;
+  }
+
+  /**
+   * 获取采样率
+   *
+   * @param route - 路由，为空时返回默认采样率
+   * @returns {number} 采样率
+   */
+  getRate(route?: string): number {
+    if (!route) {
+      return this.rate;
+    }
+
+    let matched: { prefix: string; rate: number } | undefined;
+    for (const [pattern, rate] of this.routes) {
+      if (pattern === route) {
+        return rate;
+      }
+      const prefix = pattern.slice(0, -1);
+      if (
+        pattern.endsWith('*') &&
+        route.startsWith(prefix) &&
+        prefix.length >= (matched?.prefix.length ?? 0)
+      ) {
+        matched = { prefix, rate };
+      }
+    }
+    return matched?.rate ?? this.rate;
+  }
+
+  /**
+   * 按采样率决定是否采样
+   *
+   * @param route - 路由
+   * @returns {boolean} 被采样时返回 true
+   */
+  sample(route?: string): boolean {
+    const rate = this.getRate(route);
+    return rate >= 1 || (rate > 0 && this.random() < rate);
+  }
+
+  /**
+   * 判断是否输出开始日志
+   *
+   * @description 设置了 slowThreshold 时开始时无法判断耗时，不输出开始日志
+   * @param sampled - 开始时的采样结果
+   * @returns {boolean} 需要输出时返回 true
+   */
+  shouldLogStart(sampled: boolean): boolean {
+    return sampled && this.slowThreshold === undefined;
+  }
+
+  /**
+   * 判断是否输出完成日志
+   *
+   * @param outcome - 采样结果、耗时和是否失败
+   * @returns {boolean} 需要输出时返回 true
+   */
+  shouldLogComplete(outcome: SamplingOutcome): boolean {
+    if (outcome.failed && this.alwaysLogErrors) {
+      return true;
+    }
+    return (
+      outcome.sampled &&
+      (this.slowThreshold === undefined ||
+        outcome.duration >= this.slowThreshold)
+    );
+  }
+}
+
+/**
+ * 重复日志记录
+ *
+ * @private
+ */
+interface DeduplicationEntry {
+  /** 窗口开始时间 */
+  start: number;
+  /** 被抑制的数量 */
+  suppressed: number;
+  /** 输出汇总日志 */
+  summarize?: (suppressed: number) => void;
+  /** 窗口结束时输出汇总的定时器 */
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * 日志去重器
+ *
+ * @description 在时间窗口内只放行相同键的第一条日志，之后的日志被抑制并计数
+ * 窗口结束时通过最后一次抑制时传入的回调输出汇总，定时器不会阻止进程退出
+ *
+ * @example
+ * ```typescript
+ * const deduplicator = new LogDeduplicator({ window: 10_000 });
+ * if (!deduplicator.suppress(`warn:${message}`, count => logger.warn(`Suppressed ${count} similar messages`))) {
+ *   logger.warn(message);
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class LogDeduplicator {
+  /** 时间窗口 */
+  private readonly window: number;
+  /** 记录数量上限 */
+  private readonly maxEntries: number;
+  /** 按键保存的记录，按窗口开始时间排列 */
+  private readonly entries = new Map<string, DeduplicationEntry>();
+
+  /**
+   * 创建日志去重器
+   *
+   * @param config - 去重配置
+   */
+  constructor(config: LogDeduplicationConfig = {}) {
+    this.window = config.window ?? DEFAULT_DEDUPLICATION_WINDOW;
+    this.maxEntries = config.maxEntries ?? DEFAULT_DEDUPLICATION_MAX_ENTRIES;
+  }
+
+  /**
+   * 判断日志是否应被抑制
+   *
+   * @param key - 日志的去重键
+   * @param summarize - 窗口结束时输出汇总的回调，参数为被抑制的数量
+   * @param now - 当前时间戳
+   * @returns {boolean} 窗口内已出现过相同的日志时返回 true
+   */
+  suppress(
+    key: string,
+    summarize: (suppressed: number) => void,
+    now = Date.now()
+  ): boolean {
+    const entry = this.entries.get(key);
+    if (entry && now - entry.start < this.window) {
+      entry.suppressed++;
+      entry.summarize = summarize;
+      if (!entry.timer) {
+        entry.timer = setTimeout(
+          () => this.flush(key),
+          entry.start + this.window - now
+        );
+        entry.timer.unref();
+      }
+      return true;
+    }
+
+    if (entry) {
+      this.flush(key);
+    }
+    this.entries.set(key, { start: now, suppressed: 0 });
+    if (this.entries.size > this.maxEntries) {
+      const [oldest] = this.entries.keys();
+      this.flush(oldest);
+    }
+    return false;
+  }
+
+  /**
+   * 输出所有汇总并清除记录
+   *
+   * @description 在关闭应用前调用，避免丢失尚未结束的窗口中的抑制数量
+   */
+  flushAll(): void {
+    [...this.entries.keys()].forEach((key) => this.flush(key));
+  }
+
+  /**
+   * 输出汇总并移除记录
+   *
+   * @private
+   */
+  private flush(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return;
+    }
+
+    this.entries.delete(key);
+    clearTimeout(entry.timer);
+    if (entry.suppressed > 0) {
+      entry.summarize?.(entry.suppressed);
+    }
+  }
+}
+
+/**
+ * 创建日志去重器
+ *
+ * @param config - 去重配置，为 false 或未设置时不去重
+ * @returns {LogDeduplicator | undefined} 日志去重器
+ *
+ * @since 1.0.0
+ */
+export function createDeduplicator(
+  config?: LogDeduplicationConfig | boolean
+): LogDeduplicator | undefined {
+  if (!config) {
+    return undefined;
+  }
+  return new LogDeduplicator(config === true ? {} : config);
+}
+
+/**
+ * 检查采样率是否有效
+ *
+ * @private
+ */
+function assertRate(rate: number): number {
+  if (!(rate >= 0 && rate <= 1)) {
+    throw new Error(`无效的采样率: ${rate}`);
+  }
+  return rate;
+}
@@ -0,0 +1,165 @@
+/**
+ * 日志器注册表单元测试
+ *
+ * @description 测试根日志器的注册和替换、上下文子日志器的复用、
+ * LoggerModule 的根日志器以及 @InjectLogger 和方法装饰器使用共享日志器
+ */
+
+import 'reflect-metadata';
+import { Injectable } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { PassThrough } from 'stream';
+import { LOGGER_PROVIDER } from './constants';
+import { InjectLogger, LogMethod } from './logger.decorator';
+import { LoggerModule } from './logger.module';
+import {
+  getLoggerToken,
+  loggerRegistry,
+  LoggerRegistry,
+} from './logger-registry';
+import { PinoLogger } from './pino-logger';
+
+/**
+ * 读取流中的全部日志
+ */
+function readEntries(stream: PassThrough): Record<string, unknown>[] {
+  return String(stream.read() ?? '')
+    .trim()
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+@Injectable()
+class UserService {
+  constructor(
+    @InjectLogger('UserService') private readonly logger: PinoLogger
+  ) {}
+
+  create(): void {
+    this.logger.info('user created');
+  }
+}
+
+@Injectable()
+class OrderService {
+  @InjectLogger('OrderService')
+  readonly logger!: PinoLogger;
+}
+
+describe('LoggerRegistry', () => {
+  it('应该为同一上下文返回同一个子日志器', () => {
+    const stream = new PassThrough();
+    const registry = new LoggerRegistry();
+    registry.setRootLogger(
+      new PinoLogger({ destination: { type: 'stream', stream } })
+    );
+
+    const logger = registry.getLogger('UserService');
+    logger.info('hello');
+
+    expect(registry.getLogger('UserService')).toBe(logger);
+    expect(registry.getLogger()).toBe(registry.getRootLogger());
+    expect(readEntries(stream)).toEqual([
+      expect.objectContaining({ context: 'UserService', msg: 'hello' }),
+    ]);
+  });
+
+  it('应该在替换根日志器后让已分发的子日志器使用新的配置', () => {
+    const registry = new LoggerRegistry();
+    const logger = registry.getLogger('UserService');
+    const stream = new PassThrough();
+
+    registry.setRootLogger(
+      new PinoLogger({
+        level: 'debug',
+        destination: { type: 'stream', stream },
+      })
+    );
+    logger.debug('after root replaced');
+
+    expect(registry.getLogger('UserService')).toBe(logger);
+    expect(readEntries(stream)).toEqual([
+      expect.objectContaining({
+        context: 'UserService',
+        msg: 'after root replaced',
+      }),
+    ]);
+  });
+
+  it('应该在未注册根日志器时使用默认配置', () => {
+    const registry = new LoggerRegistry();
+
+    expect(registry.getRootLogger()).toBeInstanceOf(PinoLogger);
+    expect(registry.getRootLogger().getLevel()).toBe('info');
+  });
+});
+
+describe('LoggerModule 根日志器', () => {
+  afterEach(() => {
+    loggerRegistry.reset();
+  });
+
+  it('应该注册根日志器并通过依赖注入提供上下文日志器', async () => {
+    const stream = new PassThrough();
+    const module = await Test.createTestingModule({
+      imports: [
+        LoggerModule.forRoot({
+          config: { destination: { type: 'stream', stream } },
+        }),
+      ],
+      providers: [UserService, OrderService],
+    }).compile();
+
+    module.get(UserService).create();
+
+    expect(loggerRegistry.getRootLogger()).toBe(module.get(LOGGER_PROVIDER));
+    expect(module.get(getLoggerToken('UserService'))).toBe(
+      loggerRegistry.getLogger('UserService')
+    );
+    expect(module.get(OrderService).logger).toBe(
+      loggerRegistry.getLogger('OrderService')
+    );
+    expect(readEntries(stream)).toEqual([
+      expect.objectContaining({ context: 'UserService', msg: 'user created' }),
+    ]);
+    await module.close();
+  });
+
+  it('应该让装饰器和未由容器创建的类使用根日志器的配置', async () => {
+    class ReportJob {
+      @InjectLogger('ReportJob')
+      readonly logger!: PinoLogger;
+
+      @LogMethod({ level: 'debug' })
+      async run(): Promise<string> {
+        return 'done';
+      }
+    }
+    const stream = new PassThrough();
+    const module = await Test.createTestingModule({
+      imports: [
+        LoggerModule.forRoot({
+          config: { level: 'debug', destination: { type: 'stream', stream } },
+        }),
+      ],
+    }).compile();
+
+    const job = new ReportJob();
+    job.logger.info('job started');
+    await job.run();
+
+    expect(readEntries(stream)).toEqual([
+      expect.objectContaining({ context: 'ReportJob', msg: 'job started' }),
+      expect.objectContaining({
+        context: 'ReportJob',
+        msg: 'ReportJob.run called',
+      }),
+      expect.objectContaining({
+        context: 'ReportJob',
+        msg: 'ReportJob.run completed',
+      }),
+    ]);
+    await module.close();
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * HL8 SAAS平台日志器注册表
+ *
+ * @description 保存进程内共享的根日志器，并按上下文名称分发子日志器
+ * LoggerModule 创建根日志器后注册到这里，装饰器和各服务从这里获取 child({ context }) 子日志器，
+ * 因此都使用 LoggerModule.forRoot 中的输出目标、级别和脱敏配置
+ * 审计日志器同样注册在这里，供 @Audit 装饰器使用
+ *
+ * @fileoverview 日志器注册表实现文件
+ * @author HL8 SAAS Platform Team
+ * @since 1.0.0
+ */
+
+import { AuditLogger } from './audit-logger.js';
+import { LOGGER_PROVIDER } from './constants.js';
+import { PinoLogger } from './pino-logger.js';
+
+/**
+ * 日志器注册表
+ *
+ * @description 管理根日志器和按上下文缓存的子日志器
+ *
+ * ## 根日志器
+ * - LoggerModule 初始化时通过 setRootLogger() 注册
+ * - 尚未注册时使用默认配置创建，与未导入 LoggerModule 时的输出一致
+ *
+ * ## 子日志器
+ * - 同一上下文名称始终返回同一个子日志器实例，热路径上不会重复创建
+ * - 根日志器被替换后，已分发的子日志器会切换到新的根日志器，调用方持有的引用保持有效
+ *   因此服务可以在构造时获取日志器，而不依赖 LoggerModule 的初始化顺序
+ *
+ * @example
+ * ```typescript
+ * const logger = loggerRegistry.getLogger('UserService');
+ * logger.info('User created');
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class LoggerRegistry {
+  /** 根日志器 */
+  private root?: PinoLogger;
+  /** 按上下文名称缓存的子日志器 */
+  private readonly loggers = new Map<string, PinoLogger>();
+  /** 通过 @InjectLogger 声明的上下文名称 */
+  private readonly contexts = new Set<string>();
+  /** 审计日志器 */
+  private audit?: AuditLogger;
+
+  /**
+   * 注册根日志器
+   *
+   * @param root - 根日志器
+   */
+  setRootLogger(root: PinoLogger): void {
+    this.root = root;
+    this.loggers.forEach((logger, context) =>
+      logger.rebind(root.child({ context }))
+    );
+  }
+
+  /**
+   * 获取根日志器
+   *
+   * @returns {PinoLogger} 根日志器，尚未注册时使用默认配置创建
+   */
+  getRootLogger(): PinoLogger {
+    if (!this.root) {
+      this.root = new PinoLogger();
+    }
+    return this.root;
+  }
+
+  /**
+   * 获取上下文日志器
+   *
+   * @param context - 上下文名称，为空时返回根日志器
+   * @returns {PinoLogger} 以 context 字段输出上下文名称的子日志器
+   */
+  getLogger(context?: string): PinoLogger {
+    if (!context) {
+      return this.getRootLogger();
+    }
+
+    let logger = this.loggers.get(context);
+    if (!logger) {
+      logger = this.getRootLogger().child({ context });
+      this.loggers.set(context, logger);
+    }
+    return logger;
+  }
+
+  /**
+   * 注册审计日志器
+   *
+   * @param audit - 审计日志器
+   */
+  setAuditLogger(audit: AuditLogger): void {
+    this.audit = audit;
+  }
+
+  /**
+   * 获取审计日志器
+   *
+   * @returns {AuditLogger} 审计日志器，尚未注册时使用默认配置创建
+   */
+  getAuditLogger(): AuditLogger {
+    if (!this.audit) {
+      this.audit = new AuditLogger();
+    }
+    return this.audit;
+  }
+
+  /**
+   * 登记上下文名称
+   *
+   * @description 由 @InjectLogger 在装饰时调用，LoggerModule 为登记的上下文创建注入令牌
+   * @param context - 上下文名称
+   */
+  registerContext(context: string): void {
+    this.contexts.add(context);
+  }
+
+  /**
+   * 获取已登记的上下文名称
+   *
+   * @returns {string[]} 上下文名称列表
+   */
+  getRegisteredContexts(): string[] {
+    return [...this.contexts];
+  }
+
+  /**
+   * 清除根日志器、缓存的子日志器和审计日志器
+   *
+   * @description 已登记的上下文名称保留，对应的装饰器只在类定义时执行一次
+   * 清除前分发的子日志器不再跟随之后注册的根日志器
+   */
+  reset(): void {
+    this.root = undefined;
+    this.loggers.clear();
+    this.audit = undefined;
+  }
+}
+
+/**
+ * 进程内共享的日志器注册表
+ *
+ * @since 1.0.0
+ */
+export const loggerRegistry = new LoggerRegistry();
+
+/**
+ * 获取日志器注入令牌
+ *
+ * @param context - 上下文名称，为空时返回根日志器的令牌
+ * @returns {string} 依赖注入令牌
+ *
+ * @example
+ * ```typescript
+ * @Inject(getLoggerToken('UserService'))
+ * private readonly logger: PinoLogger;
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function getLoggerToken(context?: string): string {
+  return context ? `${LOGGER_PROVIDER}:${context}` : LOGGER_PROVIDER;
+}
@@ -9,46 +9,71 @@
  * @since 1.0.0
  */
 
+import { Inject, Optional } from '@nestjs/common';
 import { PinoLogger } from './pino-logger.js';
 import type { RequestContext } from './types.js';
-import { getCurrentRequestContext, updateCurrentRequestMetadata } from './context.js';
+import { updateCurrentRequestMetadata } from './context.js';
+import { getLoggerToken, loggerRegistry } from './logger-registry.js';
 
 /**
  * 日志注入装饰器
  *
- * @description 用于在类中注入日志记录器实例
- * 支持自动上下文绑定和日志级别设置
+ * @description 注入 LoggerModule 根日志器的子日志器，日志中的 context 字段为指定的上下文名称
+ *
+ * ## 注入方式
+ * - 构造函数参数：从依赖注入容器解析，需要导入 LoggerModule
+ * - 类属性：导入 LoggerModule 时由依赖注入容器赋值，否则从 loggerRegistry 获取，
+ *   因此也可以用于不由 NestJS 创建的类
+ *
+ * 同一上下文名称始终得到同一个日志器实例
  *
  * @param context - 日志上下文名称
- * @returns {PropertyDecorator} 属性装饰器
+ * @returns {PropertyDecorator & ParameterDecorator} 属性或参数装饰器
  *
  * @example
  * ```typescript
+ * @Injectable()
  * class UserService {
- *   @InjectLogger('UserService')
- *   private readonly logger: PinoLogger;
+ *   constructor(@InjectLogger('UserService') private readonly logger: PinoLogger) {}
  *
  *   createUser(userData: any) {
  *     this.logger.info('Creating user', { userData });
  *   }
  * }
+ *
+ * class UserImporter {
+ *   @InjectLogger('UserImporter')
+ *   private readonly logger: PinoLogger;
+ * }
  * ```
  */
-export function InjectLogger(context?: string): PropertyDecorator {
-  return function (target: any, propertyKey: string | symbol | undefined) {
+export function InjectLogger(context?: string): PropertyDecorator & ParameterDecorator {
+  if (context) {
+    loggerRegistry.registerContext(context);
+  }
+  const token = getLoggerToken(context);
+
+  return function (target: object, propertyKey: string | symbol | undefined, parameterIndex?: number) {
+    if (typeof parameterIndex === 'number') {
+      Inject(token)(target, propertyKey, parameterIndex);
+      return;
+    }
     if (!propertyKey) return;
-    // 定义属性描述符，使用 getter 来延迟创建日志记录器
+
+    Optional()(target, propertyKey);
+    Inject(token)(target, propertyKey);
+    // 依赖注入容器赋值时保存在实例上，未赋值时从注册表获取
     Object.defineProperty(target, propertyKey, {
       get() {
-        // 创建日志记录器实例
-        const logger = new PinoLogger({ level: 'trace' });
-        
-        // 设置上下文
-        if (context) {
-          logger.setContext({ requestId: '', metadata: { context } });
-        }
-
-        return logger;
+        return loggerRegistry.getLogger(context);
+      },
+      set(logger: PinoLogger) {
+        Object.defineProperty(this, propertyKey, {
+          value: logger,
+          writable: true,
+          enumerable: true,
+          configurable: true,
+        });
       },
       enumerable: true,
       configurable: true,
@@ -60,7 +85,8 @@ export function InjectLogger(context?: string): PropertyDecorator {
  * 请求日志装饰器
  *
  * @description 自动记录方法调用的开始和结束日志
- * 支持自定义日志级别和消息格式
+ * 支持自定义日志级别和消息格式，includeArgs 和 includeResult 记录的数据同样经过默认脱敏规则处理
+ * 日志通过 loggerRegistry 中以类名为上下文的子日志器记录
  *
  * @param options - 日志选项
  * @returns {MethodDecorator} 方法装饰器
@@ -91,8 +117,9 @@ export function LogMethod(options: {
     } = options;
 
     descriptor.value = async function (...args: unknown[]) {
-      const logger = new PinoLogger();
-      const methodName = `${(target as { constructor: { name: string } }).constructor.name}.${String(propertyKey)}`;
+      const className = (target as { constructor: { name: string } }).constructor.name;
+      const logger = loggerRegistry.getLogger(className);
+      const methodName = `${className}.${String(propertyKey)}`;
       const logMessage = message || `${methodName} called`;
 
       try {
@@ -139,6 +166,7 @@ export function LogMethod(options: {
  *
  * @description 自动记录方法执行时间和性能指标
  * 支持性能阈值警告和详细性能分析
+ * 日志通过 loggerRegistry 中以类名为上下文的子日志器记录，并按根日志器的 sampling 配置采样
  *
  * @param options - 性能日志选项
  * @returns {MethodDecorator} 方法装饰器
@@ -169,8 +197,10 @@ export function LogPerformance(options: {
     } = options;
 
     descriptor.value = async function (...args: unknown[]) {
-      const logger = new PinoLogger();
-      const methodName = `${(target as { constructor: { name: string } }).constructor.name}.${String(propertyKey)}`;
+      const className = (target as { constructor: { name: string } }).constructor.name;
+      const logger = loggerRegistry.getLogger(className);
+      const methodName = `${className}.${String(propertyKey)}`;
+      const sampled = logger.getSampler().sample();
       const startTime = Date.now();
       const startMemory = includeMemory ? process.memoryUsage() : undefined;
 
@@ -182,6 +212,11 @@ export function LogPerformance(options: {
         const duration = Date.now() - startTime;
         const endMemory = includeMemory ? process.memoryUsage() : undefined;
 
+        // 按日志器的采样配置决定是否记录
+        if (!logger.getSampler().shouldLogComplete({ sampled, duration })) {
+          return result;
+        }
+
         // 确定日志级别
         const logLevel = duration > threshold ? 'warn' : level;
 
@@ -208,7 +243,10 @@ export function LogPerformance(options: {
       } catch (error) {
         const duration = Date.now() - startTime;
 
-        // 记录错误性能日志
+        // 记录错误性能日志，alwaysLogErrors 为 false 时同样按采样配置决定
+        if (!logger.getSampler().shouldLogComplete({ sampled, duration, failed: true })) {
+          throw error;
+        }
         logger.error(`${methodName} performance (error)`, {
           method: methodName,
           duration,
@@ -234,6 +272,7 @@ export function LogPerformance(options: {
  *
  * @description 自动捕获和记录方法执行过程中的错误
  * 支持错误分类、错误统计和错误通知功能
+ * 日志通过 loggerRegistry 中以类名为上下文的子日志器记录
  *
  * @param options - 错误日志选项
  * @returns {MethodDecorator} 方法装饰器
@@ -264,8 +303,9 @@ export function LogError(options: {
     } = options;
 
     descriptor.value = async function (...args: unknown[]) {
-      const logger = new PinoLogger();
-      const methodName = `${(target as { constructor: { name: string } }).constructor.name}.${String(propertyKey)}`;
+      const className = (target as { constructor: { name: string } }).constructor.name;
+      const logger = loggerRegistry.getLogger(className);
+      const methodName = `${className}.${String(propertyKey)}`;
 
       try {
         // 执行原方法
@@ -399,11 +439,10 @@ export function LogContext(context: Record<string, unknown>): ClassDecorator & M
 /**
  * 获取日志记录器实例
  *
- * @description 获取当前请求的日志记录器实例
- * 自动绑定请求上下文和用户信息
+ * @description 获取 LoggerModule 根日志器的子日志器，请求上下文在记录日志时自动绑定
  *
  * @param context - 日志上下文
- * @returns {PinoLogger} 日志记录器实例
+ * @returns {PinoLogger} 日志记录器实例，未指定上下文时返回根日志器
  *
  * @example
  * ```typescript
@@ -412,19 +451,7 @@ export function LogContext(context: Record<string, unknown>): ClassDecorator & M
  * ```
  */
 export function getLogger(context?: string): PinoLogger {
-  const logger = new PinoLogger();
-  
-  if (context) {
-    logger.setContext({ requestId: '', metadata: { context } });
-  }
-
-  // 绑定当前请求上下文
-  const requestContext = getCurrentRequestContext();
-  if (requestContext) {
-    logger.setContext(requestContext);
-  }
-
-  return logger;
+  return loggerRegistry.getLogger(context);
 }
 
 /**
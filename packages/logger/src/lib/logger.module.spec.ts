@@ -2,11 +2,25 @@
  * LoggerModule 单元测试
  *
  * @description 测试 LoggerModule 的配置和依赖注入功能
- * 包括同步配置、异步配置、提供者创建等功能
+ * 包括同步配置、异步配置、提供者创建、NestJS 应用日志器替换和 Fastify 集成等功能
  */
 
+/**
+ * 读取流中的全部日志
+ */
+function readEntries(stream: PassThrough): Record<string, unknown>[] {
+  return String(stream.read() ?? '')
+    .trim()
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+import { ConsoleLogger, INestApplication, Logger } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
-import { LoggerModule } from './logger.module.js';
+import Fastify from 'fastify';
+import { PassThrough } from 'stream';
+import { LoggerModule, useFastifyLogger } from './logger.module.js';
 import { PinoLogger } from './pino-logger.js';
 import { PinoLoggerMiddleware } from './fastify-middleware.js';
 import { LOGGER_MODULE_PARAMS, LOGGER_PROVIDER } from './constants.js';
@@ -98,6 +112,32 @@ describe('LoggerModule', () => {
         module.get<LOGGER_PROVIDERMiddleware>('FASTIFY_LOGGER_MIDDLEWARE');
       }).toThrow();
     });
+
+    it('应该按 destinations 同时输出到多个目标', async () => {
+      const all = new PassThrough();
+      const errors = new PassThrough();
+
+      module = await Test.createTestingModule({
+        imports: [
+          LoggerModule.forRoot({
+            config: {
+              level: 'info',
+              destinations: [
+                { type: 'stream', stream: all },
+                { type: 'stream', stream: errors, level: 'error' }
+              ]
+            }
+          })
+        ],
+      }).compile();
+
+      const logger = module.get<PinoLogger>(LOGGER_PROVIDER);
+      logger.info('started');
+      logger.error('failed');
+
+      expect(String(all.read()).trim().split('\n')).toHaveLength(2);
+      expect(JSON.parse(String(errors.read()))).toMatchObject({ level: 'error', msg: 'failed' });
+    });
   });
 
   describe('forRootAsync', () => {
@@ -191,6 +231,87 @@ describe('LoggerModule', () => {
     });
   });
 
+  describe('NestJS 应用集成', () => {
+    afterEach(() => {
+      Logger.overrideLogger(new ConsoleLogger());
+    });
+
+    it('应该在初始化时替换 NestJS 日志器并输出缓存的启动日志', async () => {
+      const stream = new PassThrough();
+      Logger.attachBuffer();
+      Logger.log('Mapped {/users, GET} route', 'RouterExplorer');
+
+      module = await Test.createTestingModule({
+        imports: [LoggerModule.forRoot({ config: { destination: { type: 'stream', stream } } })],
+      }).compile();
+      expect(stream.read()).toBeNull();
+
+      await module.init();
+      new Logger('Bootstrap').warn('listening');
+
+      expect(readEntries(stream)).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ level: 'info', context: 'RouterExplorer', msg: 'Mapped {/users, GET} route' }),
+          expect.objectContaining({ level: 'warn', context: 'Bootstrap', msg: 'listening' }),
+        ])
+      );
+    });
+
+    it('应该在 replaceNestLogger 为 false 时保留 NestJS 日志器', async () => {
+      const stream = new PassThrough();
+      const consoleSpy = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+      module = await Test.createTestingModule({
+        imports: [
+          LoggerModule.forRoot({
+            config: { destination: { type: 'stream', stream } },
+            replaceNestLogger: false,
+          }),
+        ],
+      }).compile();
+      await module.init();
+      Logger.log('hello', 'Bootstrap');
+      consoleSpy.mockRestore();
+
+      expect(stream.read()).toBeNull();
+    });
+
+    it('应该在 Fastify 上注册日志插件并让 request.log 共享根日志器的输出', async () => {
+      const stream = new PassThrough();
+      module = await Test.createTestingModule({
+        imports: [
+          LoggerModule.forRoot({
+            config: { destination: { type: 'stream', stream } },
+            enableRequestLogging: true,
+            enableResponseLogging: true,
+          }),
+        ],
+      }).compile();
+      const fastify = Fastify();
+      const app = {
+        get: (token: string) => module.get(token),
+        getHttpAdapter: () => ({ getInstance: () => fastify }),
+      } as unknown as INestApplication;
+
+      await useFastifyLogger(app);
+      fastify.get('/users', async (request) => {
+        request.log.info({ count: 2 }, 'users loaded');
+        request.log.debug('hidden');
+        return [];
+      });
+      await fastify.inject({ method: 'GET', url: '/users', headers: { 'x-request-id': 'req-1' } });
+      await fastify.close();
+
+      const entries = readEntries(stream);
+      expect(entries.map((entry) => entry['msg'])).toEqual([
+        'Request started',
+        'users loaded',
+        'Request completed',
+      ]);
+      expect(entries[1]).toMatchObject({ level: 'info', count: 2, requestId: 'req-1' });
+    });
+  });
+
   describe('辅助函数', () => {
     it('应该创建日志提供者', () => {
       const config = {
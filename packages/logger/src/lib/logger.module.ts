@@ -9,11 +9,26 @@
  * @since 1.0.0
  */
 
-import { DynamicModule, Global, Module, NestModule } from '@nestjs/common';
+import {
+  DynamicModule,
+  Global,
+  Inject,
+  INestApplication,
+  Logger,
+  Module,
+  NestModule,
+  OnModuleDestroy,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import { FastifyInstance } from 'fastify';
 import { PinoLogger } from './pino-logger.js';
 import { PinoLoggerMiddleware } from './fastify-middleware.js';
-import { LoggerModuleParams, LoggerModuleAsyncParams } from './types.js';
+import { NestJSLogger } from './nestjs-logger.js';
+import { AuditLogger } from './audit-logger.js';
+import type { LoggerModuleParams, LoggerModuleAsyncParams } from './types.js';
 import { LOGGER_MODULE_PARAMS, LOGGER_PROVIDER } from './constants.js';
+import { getLoggerToken, loggerRegistry } from './logger-registry.js';
 
 /**
  * HL8 SAAS平台日志模块
@@ -38,11 +53,26 @@ import { LOGGER_MODULE_PARAMS, LOGGER_PROVIDER } from './constants.js';
  * - 支持请求ID、用户ID、追踪ID等上下文信息
  * - 使用 AsyncLocalStorage 实现上下文传递
  *
+ * ### 共享根日志器
+ * - 按模块配置创建的根日志器注册到 loggerRegistry
+ * - @InjectLogger、LogMethod 等装饰器和各服务使用根日志器的子日志器，不再各自创建日志器
+ * - @InjectLogger('UserService') 声明的上下文日志器可以通过依赖注入获取
+ *
  * ### 中间件支持
  * - 自动请求/响应日志记录
  * - 支持路径排除和自定义配置
  * - 完整的错误处理和日志记录
  *
+ * ### NestJS 应用日志器
+ * - 模块初始化时以根日志器替换 NestJS 的应用日志器，效果与 app.useLogger() 相同
+ * - 同时输出 NestFactory.create(..., { bufferLogs: true }) 缓存的启动日志，无需在 main.ts 中手动处理
+ * - 设置 replaceNestLogger: false 时保留 NestJS 默认的日志器
+ * - 使用 Fastify 适配器时，通过 useFastifyLogger(app) 注册请求日志插件，request.log 与根日志器共享同一个 Pino 实例
+ *
+ * ### 审计日志
+ * - 按 audit 配置创建 AuditLogger，可以直接注入，并注册到 loggerRegistry 供 @Audit 装饰器使用
+ * - 审计记录与诊断日志使用各自的输出目标，模块销毁时等待未完成的审计写入
+ *
  * @example
  * ```typescript
  * // 同步配置
@@ -74,7 +104,20 @@ import { LOGGER_MODULE_PARAMS, LOGGER_PROVIDER } from './constants.js';
  */
 @Global()
 @Module({})
-export class LoggerModule implements NestModule {
+export class LoggerModule implements NestModule, OnModuleInit, OnModuleDestroy {
+  /**
+   * 创建日志模块实例
+   *
+   * @param params - 模块参数，未通过 forRoot 或 forRootAsync 导入时为空
+   * @param logger - 根日志器，未通过 forRoot 或 forRootAsync 导入时为空
+   * @param audit - 审计日志器，未通过 forRoot 或 forRootAsync 导入时为空
+   */
+  constructor(
+    @Optional() @Inject(LOGGER_MODULE_PARAMS) private readonly params?: LoggerModuleParams,
+    @Optional() @Inject(LOGGER_PROVIDER) private readonly logger?: PinoLogger,
+    @Optional() private readonly audit?: AuditLogger
+  ) {}
+
   /**
    * 同步配置日志模块
    *
@@ -90,8 +133,11 @@ export class LoggerModule implements NestModule {
    *   imports: [LoggerModule.forRoot({
    *     config: {
    *       level: 'info',
-   *       destination: { type: 'file', path: './logs/app.log' }
-     *     },
+   *       destinations: [
+   *         { type: 'console', format: 'pretty' },
+   *         { type: 'file', path: './logs/error.log', level: 'error' }
+   *       ]
+   *     },
    *     enableRequestLogging: true,
    *     enableResponseLogging: true
    *   })],
@@ -100,6 +146,7 @@ export class LoggerModule implements NestModule {
    * ```
    */
   static forRoot(params: LoggerModuleParams = {}): DynamicModule {
+    const contextProviders = createContextLoggerProviders();
     const providers: any[] = [
       {
         provide: LOGGER_MODULE_PARAMS,
@@ -107,27 +154,25 @@ export class LoggerModule implements NestModule {
       },
       {
         provide: LOGGER_PROVIDER,
-        useFactory: (moduleParams: LoggerModuleParams) => {
-          return new PinoLogger(moduleParams.config);
-        },
+        useFactory: createRootLogger,
+        inject: [LOGGER_MODULE_PARAMS],
+      },
+      {
+        provide: AuditLogger,
+        useFactory: createAuditLogger,
         inject: [LOGGER_MODULE_PARAMS],
       },
+      ...contextProviders,
     ];
 
-    const exports = [LOGGER_PROVIDER];
+    const exports: any[] = [LOGGER_PROVIDER, AuditLogger, ...contextProviders.map(provider => provider.provide)];
 
     // 如果启用了请求日志记录，添加中间件提供者
     if (params.enableRequestLogging || params.enableResponseLogging) {
       providers.push({
         provide: 'FASTIFY_LOGGER_MIDDLEWARE',
-        useFactory: (moduleParams: LoggerModuleParams): PinoLoggerMiddleware => {
-          return new PinoLoggerMiddleware({
-            enableRequestLogging: moduleParams.enableRequestLogging,
-            enableResponseLogging: moduleParams.enableResponseLogging,
-            loggerConfig: moduleParams.config,
-          });
-        },
-        inject: [LOGGER_MODULE_PARAMS],
+        useFactory: createLoggerMiddleware,
+        inject: [LOGGER_MODULE_PARAMS, LOGGER_PROVIDER],
       });
 
       exports.push('FASTIFY_LOGGER_MIDDLEWARE');
@@ -170,6 +215,7 @@ export class LoggerModule implements NestModule {
    * ```
    */
   static forRootAsync(params: LoggerModuleAsyncParams): DynamicModule {
+    const contextProviders = createContextLoggerProviders();
     const providers: any[] = [
       {
         provide: LOGGER_MODULE_PARAMS,
@@ -178,26 +224,24 @@ export class LoggerModule implements NestModule {
       },
       {
         provide: LOGGER_PROVIDER,
-        useFactory: (moduleParams: LoggerModuleParams) => {
-          return new PinoLogger(moduleParams.config);
-        },
+        useFactory: createRootLogger,
         inject: [LOGGER_MODULE_PARAMS],
       },
+      {
+        provide: AuditLogger,
+        useFactory: createAuditLogger,
+        inject: [LOGGER_MODULE_PARAMS],
+      },
+      ...contextProviders,
     ];
 
-    const exports = [LOGGER_PROVIDER];
+    const exports: any[] = [LOGGER_PROVIDER, AuditLogger, ...contextProviders.map(provider => provider.provide)];
 
     // 添加中间件提供者（总是添加，因为配置是动态的）
     providers.push({
       provide: 'FASTIFY_LOGGER_MIDDLEWARE',
-      useFactory: (moduleParams: LoggerModuleParams): PinoLoggerMiddleware => {
-        return new PinoLoggerMiddleware({
-          enableRequestLogging: moduleParams.enableRequestLogging,
-          enableResponseLogging: moduleParams.enableResponseLogging,
-          loggerConfig: moduleParams.config,
-        });
-      },
-      inject: [LOGGER_MODULE_PARAMS],
+      useFactory: createLoggerMiddleware,
+      inject: [LOGGER_MODULE_PARAMS, LOGGER_PROVIDER],
     });
 
     exports.push('FASTIFY_LOGGER_MIDDLEWARE');
@@ -221,6 +265,91 @@ export class LoggerModule implements NestModule {
     // 中间件配置在 Fastify 插件中处理
     // 这里可以添加其他中间件配置
   }
+
+  /**
+   * 替换 NestJS 应用日志器
+   *
+   * @description 以根日志器替换 NestJS 的应用日志器，并输出 bufferLogs 缓存的日志
+   * 在路由注册之后、应用监听之前执行，缓存的启动日志按原顺序输出到根日志器
+   */
+  onModuleInit(): void {
+    if (!this.logger || this.params?.replaceNestLogger === false) {
+      return;
+    }
+
+    Logger.overrideLogger(new NestJSLogger(this.logger));
+    Logger.flush();
+  }
+
+  /**
+   * 关闭审计日志器
+   *
+   * @description 等待未完成的审计写入
+   */
+  async onModuleDestroy(): Promise<void> {
+    await this.audit?.close();
+  }
+}
+
+/**
+ * 创建根日志器
+ *
+ * @description 按模块配置创建根日志器并注册到 loggerRegistry，
+ * 装饰器和各服务从注册表获取的子日志器随之使用该配置
+ *
+ * @private
+ */
+function createRootLogger(moduleParams: LoggerModuleParams): PinoLogger {
+  const logger = new PinoLogger(moduleParams.config);
+  loggerRegistry.setRootLogger(logger);
+  return logger;
+}
+
+/**
+ * 创建审计日志器
+ *
+ * @description 按模块的 audit 配置创建审计日志器，从输出目标中已持久化的最后一条记录继续哈希链后注册到 loggerRegistry
+ * 读取最后一条记录失败时模块初始化失败，避免哈希链在重启后分叉
+ *
+ * @private
+ */
+async function createAuditLogger(moduleParams: LoggerModuleParams): Promise<AuditLogger> {
+  const audit = new AuditLogger(moduleParams.audit);
+  await audit.resume();
+  loggerRegistry.setAuditLogger(audit);
+  return audit;
+}
+
+/**
+ * 创建日志中间件
+ *
+ * @description 中间件使用根日志器输出，请求日志和 request.log 与应用日志共享同一个 Pino 实例
+ *
+ * @private
+ */
+function createLoggerMiddleware(moduleParams: LoggerModuleParams, logger: PinoLogger): PinoLoggerMiddleware {
+  return new PinoLoggerMiddleware({
+    enableRequestLogging: moduleParams.enableRequestLogging,
+    enableResponseLogging: moduleParams.enableResponseLogging,
+    loggerConfig: moduleParams.config,
+    logger,
+    identityResolver: moduleParams.identityResolver,
+  });
+}
+
+/**
+ * 创建上下文日志器提供者
+ *
+ * @description 为通过 @InjectLogger 登记的每个上下文名称提供子日志器，依赖根日志器以保证其先完成注册
+ *
+ * @private
+ */
+function createContextLoggerProviders() {
+  return loggerRegistry.getRegisteredContexts().map(context => ({
+    provide: getLoggerToken(context),
+    useFactory: () => loggerRegistry.getLogger(context),
+    inject: [LOGGER_PROVIDER],
+  }));
 }
 
 /**
@@ -248,11 +377,15 @@ export function createLoggerProviders(config: Record<string, unknown> = {}) {
     },
     {
       provide: LOGGER_PROVIDER,
-      useFactory: (moduleParams: LoggerModuleParams) => {
-        return new PinoLogger(moduleParams.config);
-      },
+      useFactory: createRootLogger,
+      inject: [LOGGER_MODULE_PARAMS],
+    },
+    {
+      provide: AuditLogger,
+      useFactory: createAuditLogger,
       inject: [LOGGER_MODULE_PARAMS],
     },
+    ...createContextLoggerProviders(),
   ];
 }
 
@@ -278,15 +411,16 @@ export function createLoggerMiddlewareProviders(config: Record<string, unknown>
   return [
     {
       provide: 'FASTIFY_LOGGER_MIDDLEWARE',
-      useFactory: (moduleParams: LoggerModuleParams) => {
+      useFactory: (moduleParams: LoggerModuleParams, logger: PinoLogger) => {
         return new PinoLoggerMiddleware({
           enableRequestLogging: moduleParams.enableRequestLogging,
           enableResponseLogging: moduleParams.enableResponseLogging,
           loggerConfig: moduleParams.config,
+          logger,
           ...config,
         });
       },
-      inject: [LOGGER_MODULE_PARAMS],
+      inject: [LOGGER_MODULE_PARAMS, LOGGER_PROVIDER],
     },
   ];
 }
@@ -341,4 +475,32 @@ export function getLoggerInstance(moduleRef: { get: (token: string) => PinoLogge
  */
 export function getLoggerMiddlewareInstance(moduleRef: { get: (token: string) => PinoLoggerMiddleware }): PinoLoggerMiddleware {
   return moduleRef.get('FASTIFY_LOGGER_MIDDLEWARE');
-}
\ No newline at end of file
+}
+
+/**
+ * 在 Fastify 适配器上注册日志插件
+ *
+ * @description 按日志模块的配置创建日志中间件并注册到 NestJS 应用的 Fastify 实例
+ * 中间件使用根日志器，请求日志、request.log 和应用日志共享同一个 Pino 实例和输出管道
+ * NestJS 应用日志器和 bufferLogs 缓存的日志由 LoggerModule 在初始化时处理，这里只负责 Fastify 部分
+ *
+ * @param app - 使用 Fastify 适配器的 NestJS 应用，需要导入 LoggerModule.forRoot 或 forRootAsync
+ * @returns {Promise<void>} 注册完成
+ *
+ * @example
+ * ```typescript
+ * const app = await NestFactory.create<NestFastifyApplication>(AppModule, new FastifyAdapter(), {
+ *   bufferLogs: true,
+ * });
+ * await useFastifyLogger(app);
+ * await app.listen(3000, '0.0.0.0');
+ * ```
+ */
+export async function useFastifyLogger(app: INestApplication): Promise<void> {
+  const middleware = createLoggerMiddleware(
+    app.get<LoggerModuleParams>(LOGGER_MODULE_PARAMS),
+    app.get<PinoLogger>(LOGGER_PROVIDER)
+  );
+  const fastify: FastifyInstance = app.getHttpAdapter().getInstance();
+  await fastify.register(middleware.plugin);
+}
@@ -60,7 +60,7 @@ export class NestJSLogger implements LoggerService {
    *
    * @description 初始化日志记录器，设置配置选项
    *
-   * @param config - 日志配置选项
+   * @param config - 日志配置选项，传入 PinoLogger 时直接使用该日志器输出
    *
    * @example
    * ```typescript
@@ -68,10 +68,13 @@ export class NestJSLogger implements LoggerService {
    *   level: 'info',
    *   destination: { type: 'file', path: './logs/app.log' }
    * });
+   *
+   * // 使用共享的根日志器
+   * const appLogger = new NestJSLogger(loggerRegistry.getRootLogger());
    * ```
    */
-  constructor(config: LoggerConfig = {}) {
-    this.pinoLogger = new PinoLogger(config);
+  constructor(config: LoggerConfig | PinoLogger = {}) {
+    this.pinoLogger = config instanceof PinoLogger ? config : new PinoLogger(config);
   }
 
   /**
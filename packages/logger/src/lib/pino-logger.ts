@@ -9,6 +9,8 @@
  * @since 1.0.0
  */
 
+import { createHash } from 'crypto';
+import { inspect } from 'util';
 import pino from 'pino';
 import { FastifyRequest, FastifyReply } from 'fastify';
 import {
@@ -18,6 +20,14 @@ import {
   LoggerConfig,
 } from './types.js';
 import { storage } from './context.js';
+import { isLogLevelEnabled, logLevelManager } from './log-level.js';
+import { createDeduplicator, LogDeduplicator, LogSampler } from './log-sampling.js';
+import { createRedactor, Redactor } from './redaction.js';
+import {
+  createDestinationStream,
+  createMultiDestinationStream,
+  resolveLogDestinations,
+} from './log-destinations.js';
 
 /**
  * Pino 日志记录器类
@@ -37,11 +47,26 @@ import { storage } from './context.js';
  * - 自动绑定请求上下文到日志
  * - 支持请求ID、用户ID、追踪ID等上下文信息
  * - 使用 AsyncLocalStorage 实现上下文传递
+ * - 当前 Span 的追踪信息以 trace_id 和 span_id 字段输出，与链路追踪系统关联
+ *
+ * ### 敏感数据脱敏
+ * - 默认按内置规则脱敏认证请求头、Cookie、密码、令牌等属性
+ * - 日志消息和字符串值中的 Bearer 令牌、JWT、银行卡号、邮箱同样会被脱敏
+ * - 通过 redaction 配置追加规则、切换脱敏方式或关闭脱敏
+ *
+ * ### 动态日志级别
+ * - 每条日志依次按请求级别、上下文覆盖级别、日志器级别判断是否输出
+ * - 请求级别来自请求上下文，例如通过签名请求头开启的单请求调试
+ * - 上下文覆盖级别来自 logLevelManager，按 config.context 或 child({ context }) 匹配
+ *
+ * ### 采样与去重
+ * - sampling 配置请求日志和性能日志的采样率、慢请求阈值，错误请求默认始终记录
+ * - deduplication 开启后，时间窗口内重复的日志只输出一次，窗口结束时输出被抑制数量的汇总
  *
  * ### 灵活的配置选项
  * - 支持多种日志级别
- * - 可配置输出目标和格式化选项
- * - 支持日志轮转和压缩
+ * - 可同时输出到控制台、文件和自定义流，每个输出目标可单独设置级别和格式
+ * - 支持按大小和日期轮转日志文件，压缩并清理历史文件
  *
  * @example
  * ```typescript
@@ -56,11 +81,19 @@ import { storage } from './context.js';
  */
 export class PinoLogger implements LoggerInterface {
   /** Pino 日志器实例 */
-  private readonly pino: pino.Logger;
+  private pino: pino.Logger;
   /** 当前日志级别 */
   private _level: LogLevel;
   /** 日志配置 */
-  private readonly config: LoggerConfig;
+  private config: LoggerConfig;
+  /** 日志脱敏器，关闭脱敏时为 undefined */
+  private redactor?: Redactor;
+  /** 日志器上下文名称 */
+  private contextName?: string;
+  /** 请求日志采样器 */
+  private sampler: LogSampler;
+  /** 重复日志去重器，未开启去重时为 undefined */
+  private deduplicator?: LogDeduplicator;
 
   /**
    * 创建 Pino 日志记录器实例
@@ -81,9 +114,14 @@ export class PinoLogger implements LoggerInterface {
   constructor(config: LoggerConfig = {}) {
     this.config = config;
     this._level = config.level || 'info';
+    this.redactor = createRedactor(config.redaction);
+    this.contextName = config.context;
+    this.sampler = new LogSampler(config.sampling);
+    this.deduplicator = createDeduplicator(config.deduplication);
 
-    // 创建 Pino 实例
-    this.pino = this.createPinoInstance();
+    // 创建 Pino 实例，设置了上下文名称时作为 context 字段输出
+    const instance = this.createPinoInstance();
+    this.pino = this.contextName ? instance.child({ context: this.contextName }) : instance;
   }
 
   /**
@@ -95,49 +133,71 @@ export class PinoLogger implements LoggerInterface {
    * @private
    */
   private createPinoInstance(): pino.Logger {
+    const redactor = this.redactor;
+
     const pinoConfig: pino.LoggerOptions = {
-      level: this._level,
+      // 级别由 isLevelEnabled() 判断，Pino 实例接收所有级别
+      level: 'trace',
       timestamp: pino.stdTimeFunctions.isoTime,
+      hooks: {
+        logMethod(inputArgs, method) {
+          // logger.info('消息', { ...数据 }) 中的数据对象作为日志字段输出
+          const [message, data, ...rest] = inputArgs as unknown[];
+          const args =
+            typeof message === 'string' && typeof data === 'object' && data !== null && !Array.isArray(data)
+              ? [data, message, ...rest]
+              : (inputArgs as unknown[]);
+          const redacted = redactor
+            ? args.map(arg => (typeof arg === 'string' ? redactor.redactString(arg) : arg))
+            : args;
+          return method.apply(this, redacted as Parameters<pino.LogFn>);
+        },
+      },
       formatters: {
         level: (label: string) => ({ level: label }),
+        bindings: (bindings: pino.Bindings) =>
+          redactor ? redactor.redact(bindings) : bindings,
         log: (object: Record<string, unknown>) => {
           // 添加请求上下文信息
           const store = storage.getStore();
+          let result = object;
           if (store) {
             const context = store.getContext();
-            return {
+            result = {
               ...object,
               requestId: context.requestId,
               userId: context.userId,
-              traceId: context.traceId,
+              trace_id: context.traceId,
+              span_id: context.spanId,
               ...context.metadata,
             };
           }
-          return object;
+          // 脱敏在添加上下文之后进行，覆盖上下文元数据中的敏感信息
+          return redactor ? redactor.redact(result) : result;
         },
       },
     };
 
     // 配置输出目标
-    if (this.config.destination) {
-      switch (this.config.destination.type) {
-        case 'file':
-          return pino(
-            pinoConfig,
-            pino.destination({
-              dest: this.config.destination.path || './logs/app.log',
-              append: this.config.destination.append !== false,
-            })
-          );
-        case 'stream':
-          return pino(pinoConfig, this.config.destination.stream);
-        case 'console':
-        default:
-          return pino(pinoConfig);
-      }
+    const destinations = resolveLogDestinations(
+      this.config.destination,
+      this.config.destinations
+    );
+    if (destinations.length === 0) {
+      return pino(pinoConfig);
+    }
+
+    const [destination] = destinations;
+    if (destinations.length === 1 && !destination.level) {
+      return destination.type === 'console' && destination.format !== 'pretty'
+        ? pino(pinoConfig)
+        : pino(pinoConfig, createDestinationStream(destination, this.config.format));
     }
 
-    return pino(pinoConfig);
+    return pino(
+      pinoConfig,
+      createMultiDestinationStream(destinations, this.config.format)
+    );
   }
 
   /**
@@ -153,7 +213,9 @@ export class PinoLogger implements LoggerInterface {
    * ```
    */
   trace(message: string, ...args: unknown[]): void {
-    this.pino.trace(message, ...(args as any[]));
+    if (this.shouldLog('trace', message, args)) {
+      this.pino.trace(message, ...(args as any[]));
+    }
   }
 
   /**
@@ -169,7 +231,9 @@ export class PinoLogger implements LoggerInterface {
    * ```
    */
   debug(message: string, ...args: unknown[]): void {
-    this.pino.debug(message, ...(args as any[]));
+    if (this.shouldLog('debug', message, args)) {
+      this.pino.debug(message, ...(args as any[]));
+    }
   }
 
   /**
@@ -185,7 +249,9 @@ export class PinoLogger implements LoggerInterface {
    * ```
    */
   info(message: string, ...args: unknown[]): void {
-    this.pino.info(message, ...(args as any[]));
+    if (this.shouldLog('info', message, args)) {
+      this.pino.info(message, ...(args as any[]));
+    }
   }
 
   /**
@@ -201,6 +267,9 @@ export class PinoLogger implements LoggerInterface {
    * ```
    */
   log(message: unknown, context?: string): void {
+    if (!this.isLevelEnabled('info', context) || this.isDuplicate('info', String(message), context, [message])) {
+      return;
+    }
     if (context) {
       this.pino.info({ context }, String(message));
     } else {
@@ -221,6 +290,9 @@ export class PinoLogger implements LoggerInterface {
    * ```
    */
   verbose(message: unknown, context?: string): void {
+    if (!this.isLevelEnabled('trace', context) || this.isDuplicate('trace', String(message), context, [message])) {
+      return;
+    }
     if (context) {
       this.pino.trace({ context }, String(message));
     } else {
@@ -241,7 +313,9 @@ export class PinoLogger implements LoggerInterface {
    * ```
    */
   warn(message: string, ...args: unknown[]): void {
-    this.pino.warn(message, ...(args as any[]));
+    if (this.shouldLog('warn', message, args)) {
+      this.pino.warn(message, ...(args as any[]));
+    }
   }
 
   /**
@@ -257,7 +331,9 @@ export class PinoLogger implements LoggerInterface {
    * ```
    */
   error(message: string, ...args: unknown[]): void {
-    this.pino.error(message, ...(args as any[]));
+    if (this.shouldLog('error', message, args)) {
+      this.pino.error(message, ...(args as any[]));
+    }
   }
 
   /**
@@ -273,7 +349,9 @@ export class PinoLogger implements LoggerInterface {
    * ```
    */
   fatal(message: string, ...args: unknown[]): void {
-    this.pino.fatal(message, ...(args as any[]));
+    if (this.shouldLog('fatal', message, args)) {
+      this.pino.fatal(message, ...(args as any[]));
+    }
   }
 
   /**
@@ -289,13 +367,114 @@ export class PinoLogger implements LoggerInterface {
    */
   setLevel(level: LogLevel): void {
     this._level = level;
-    this.pino.level = level;
+  }
+
+  /**
+   * 判断日志级别是否会输出
+   *
+   * @description 依次使用请求上下文中的级别、logLevelManager 中按上下文覆盖的级别和日志器级别作为最低级别
+   * 构造日志数据的开销较大时，可以先调用此方法判断
+   * @param level - 日志级别
+   * @param context - 上下文名称，默认为日志器的上下文名称
+   * @returns {boolean} 会输出时返回 true
+   *
+   * @example
+   * ```typescript
+   * if (logger.isLevelEnabled('debug')) {
+   *   logger.debug('Query plan', { plan: explain(query) });
+   * }
+   * ```
+   */
+  isLevelEnabled(level: LogLevel, context: string | undefined = this.contextName): boolean {
+    return isLogLevelEnabled(level, this.resolveLevel(context));
+  }
+
+  /**
+   * 获取 Pino 实例
+   *
+   * @description 返回共享输出目标、脱敏规则和请求上下文字段的 Pino 子实例，级别为当前生效的级别
+   * 供 Fastify 的 request.log 等需要 Pino 接口的场景使用，在请求中获取时使用该请求的调试级别
+   * @returns {pino.Logger} Pino 实例
+   *
+   * @example
+   * ```typescript
+   * request.log = logger.getPinoInstance();
+   * ```
+   */
+  getPinoInstance(): pino.Logger {
+    return this.pino.child({}, { level: this.resolveLevel(this.contextName) });
+  }
+
+  /**
+   * 解析生效的日志级别
+   *
+   * @description 请求级别优先，其次是上下文覆盖级别，最后是日志器自身的级别
+   *
+   * @private
+   */
+  private resolveLevel(context: string | undefined): LogLevel {
+    return storage.getStore()?.getLogLevel() ?? logLevelManager.getContextLevel(context) ?? this._level;
+  }
+
+  /**
+   * 判断带数据对象的日志是否会输出
+   *
+   * @description 数据对象中的 context 字段（如 NestJSLogger 传入的上下文）优先于日志器的上下文名称
+   *
+   * @private
+   */
+  private shouldLog(level: LogLevel, message: string, args: unknown[]): boolean {
+    const [data] = args;
+    const dataContext = (data as { context?: unknown } | undefined)?.context;
+    const context = typeof dataContext === 'string' ? dataContext : this.contextName;
+    return this.isLevelEnabled(level, context) && !this.isDuplicate(level, message, context, args);
+  }
+
+  /**
+   * 判断日志是否为时间窗口内的重复日志
+   *
+   * @description 级别、上下文、消息和结构化数据都相同视为重复，被抑制的日志在窗口结束时汇总输出
+   * 消息相同但数据不同（如不同的错误对象或用户ID）的日志分别输出
+   *
+   * @private
+   */
+  private isDuplicate(
+    level: LogLevel,
+    message: string,
+    context: string | undefined,
+    payload: unknown[]
+  ): boolean {
+    if (!this.deduplicator) {
+      return false;
+    }
+
+    // 日志器自身的上下文名称已在绑定信息中，只有传入的上下文需要单独输出
+    const fields = context === this.contextName ? {} : { context };
+    const key = `${level}:${context ?? ''}:${message}:${hashPayload(payload)}`;
+    return this.deduplicator.suppress(key, suppressed =>
+      this.pino[level]({ ...fields, suppressed, suppressedMessage: message }, `Suppressed ${suppressed} similar messages`)
+    );
+  }
+
+  /**
+   * 获取日志采样器
+   *
+   * @description 供请求日志中间件和 LogPerformance 按 sampling 配置决定是否输出日志
+   * @returns {LogSampler} 日志采样器
+   *
+   * @example
+   * ```typescript
+   * const sampled = logger.getSampler().sample('/users/:id');
+   * ```
+   */
+  getSampler(): LogSampler {
+    return this.sampler;
   }
 
   /**
    * 获取当前日志级别
    *
-   * @description 返回当前设置的日志级别
+   * @description 返回日志器自身的级别，不包含上下文覆盖和请求级别
    * @returns {LogLevel} 当前日志级别
    *
    * @example
@@ -363,13 +542,46 @@ export class PinoLogger implements LoggerInterface {
    * ```
    */
   child(bindings: Record<string, unknown>): PinoLogger {
-    const childPino = this.pino.child(bindings);
-    const childLogger = new PinoLogger(this.config);
-    // 替换内部的 Pino 实例
-    (childLogger as unknown as { pino: pino.Logger }).pino = childPino;
+    // Pino 的子日志器不会对绑定信息应用 formatters.bindings，需要在这里脱敏
+    const childPino = this.pino.child(
+      this.redactor ? this.redactor.redact(bindings) : bindings
+    );
+    // 子日志器共享配置、脱敏器和输出目标，不创建新的 Pino 实例
+    const childLogger = Object.create(PinoLogger.prototype) as PinoLogger;
+    childLogger.pino = childPino;
+    childLogger.config = this.config;
+    childLogger.redactor = this.redactor;
+    childLogger.sampler = this.sampler;
+    childLogger.deduplicator = this.deduplicator;
+    // 子日志器继承当前级别，bindings 中的 context 作为子日志器的上下文名称
+    childLogger._level = this._level;
+    childLogger.contextName =
+      typeof bindings['context'] === 'string' ? bindings['context'] : this.contextName;
     return childLogger;
   }
 
+  /**
+   * 切换到另一个日志器的输出
+   *
+   * @description 使用 source 的 Pino 实例、配置、级别和上下文名称替换当前日志器的状态
+   * 供 LoggerRegistry 在根日志器替换后更新已分发的子日志器，持有当前实例的调用方无需重新获取
+   * @param source - 提供输出的日志器
+   *
+   * @example
+   * ```typescript
+   * logger.rebind(root.child({ context: 'UserService' }));
+   * ```
+   */
+  rebind(source: PinoLogger): void {
+    this.pino = source.pino;
+    this.config = source.config;
+    this.redactor = source.redactor;
+    this.sampler = source.sampler;
+    this.deduplicator = source.deduplicator;
+    this._level = source._level;
+    this.contextName = source.contextName;
+  }
+
   /**
    * 创建请求日志器
    *
@@ -395,7 +607,8 @@ export class PinoLogger implements LoggerInterface {
     const requestLogger = this.child({
       requestId: context.requestId,
       userId: context.userId,
-      traceId: context.traceId,
+      trace_id: context.traceId,
+      span_id: context.spanId,
       method: request.method,
       url: request.url,
       userAgent: request.headers['user-agent'],
@@ -542,3 +755,18 @@ export class PinoLogger implements LoggerInterface {
   }
 }
 
+/**
+ * 计算日志数据的哈希
+ *
+ * @description 使用 util.inspect 序列化，键按字典序排列，错误对象包含消息和堆栈，循环引用不会抛出异常
+ *
+ * @private
+ */
+function hashPayload(payload: unknown[]): string {
+  if (payload.length === 0) {
+    return '';
+  }
+  return createHash('sha1')
+    .update(inspect(payload, { depth: 5, sorted: true, breakLength: Infinity }))
+    .digest('base64');
+}
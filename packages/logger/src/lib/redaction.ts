@@ -0,0 +1,395 @@
+/**
+ * HL8 SAAS平台日志脱敏
+ *
+ * @description 在日志写出之前移除、掩码或摘要敏感数据
+ * 支持按属性路径和按文本模式两类规则，PinoLogger 默认启用
+ *
+ * @fileoverview 日志脱敏实现文件
+ * @author HL8 SAAS Platform Team
+ * @since 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import {
+  RedactionCensor,
+  RedactionConfig,
+  RedactionPathRule,
+  RedactionPatternRule,
+} from './types.js';
+
+/**
+ * 默认掩码
+ *
+ * @since 1.0.0
+ */
+export const DEFAULT_REDACTION_MASK = '******';
+
+/**
+ * 内置路径规则
+ *
+ * @description 任意层级的认证请求头、Cookie、密码、令牌和密钥属性
+ *
+ * @since 1.0.0
+ */
+export const DEFAULT_REDACTION_PATHS: readonly string[] = [
+  '**.authorization',
+  '**.proxy-authorization',
+  '**.cookie',
+  '**.set-cookie',
+  '**.x-api-key',
+  '**.password',
+  '**.passwordConfirmation',
+  '**.currentPassword',
+  '**.newPassword',
+  '**.secret',
+  '**.clientSecret',
+  '**.token',
+  '**.accessToken',
+  '**.refreshToken',
+  '**.idToken',
+  '**.apiKey',
+  '**.privateKey',
+];
+
+/**
+ * 内置模式规则
+ *
+ * @description Bearer 令牌、JWT、通过 Luhn 校验的 15 到 19 位银行卡号和邮箱地址
+ * 银行卡号不匹配 13 位数字，避免误伤毫秒时间戳
+ *
+ * @since 1.0.0
+ */
+export const DEFAULT_REDACTION_PATTERNS: readonly RedactionPatternRule[] = [
+  { name: 'bearer-token', pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi },
+  {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+  },
+  {
+    name: 'card-number',
+    pattern: /\b\d(?:[ -]?\d){14,18}\b/g,
+    validate: isLuhnValid,
+  },
+  { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+];
+
+/**
+ * 编译后的路径规则
+ *
+ * @private
+ */
+interface CompiledPathRule {
+  segments: string[];
+  censor: RedactionCensor;
+}
+
+/**
+ * 路径规则删除属性的标记
+ *
+ * @private
+ */
+const REMOVED = Symbol('removed');
+
+/**
+ * 日志脱敏器
+ *
+ * @description 复制日志对象并按规则处理敏感数据，不修改原对象
+ *
+ * ## 处理规则
+ * - 路径规则命中的属性整体处理，值为对象时也会整体替换
+ * - 模式规则作用于日志消息和所有未被路径规则命中的字符串值
+ * - 对象按 JSON 序列化的语义遍历：调用 toJSON()，只保留自有可枚举属性
+ * - Error 保留原型和 message、stack，循环引用替换为 '[Circular]'
+ *
+ * @example
+ * ```typescript
+ * const redactor = new Redactor({ paths: ['request.body.idCard'], censor: 'mask' });
+ * redactor.redact({ request: { headers: { authorization: 'Bearer abc' } } });
+ * // { request: { headers: { authorization: '******' } } }
+ * redactor.redactString('contact: alice@example.com'); // 'contact: ******'
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class Redactor {
+  /** 路径规则 */
+  private readonly pathRules: CompiledPathRule[];
+  /** 模式规则 */
+  private readonly patternRules: RedactionPatternRule[];
+  /** 默认脱敏方式 */
+  private readonly censor: RedactionCensor;
+  /** 掩码 */
+  private readonly mask: string;
+
+  /**
+   * 创建日志脱敏器
+   *
+   * @param config - 脱敏配置
+   */
+  constructor(config: RedactionConfig = {}) {
+    const useDefaults = config.useDefaults !== false;
+    this.censor = config.censor ?? 'mask';
+    this.mask = config.mask ?? DEFAULT_REDACTION_MASK;
+
+    const paths: Array<string | RedactionPathRule> = [
+      ...(useDefaults ? DEFAULT_REDACTION_PATHS : []),
+      ...(config.paths ?? []),
+    ];
+    this.pathRules = paths.map((rule) => {
+      const { path, censor } =
+        typeof rule === 'string' ? { path: rule, censor: undefined } : rule;
+      return {
+        segments: path.toLowerCase().split('.'),
+        censor: censor ?? this.censor,
+      };
+    });
+
+    this.patternRules = [
+      ...(useDefaults ? DEFAULT_REDACTION_PATTERNS : []),
+      ...(config.patterns ?? []),
+    ].map((rule) => ({
+      ...rule,
+      pattern: rule.pattern.global
+        ? rule.pattern
+        : new RegExp(rule.pattern.source, `${rule.pattern.flags}g`),
+    }));
+  }
+
+  /**
+   * 脱敏任意值
+   *
+   * @param value - 日志数据
+   * @returns {T} 脱敏后的副本
+   */
+  redact<T>(value: T): T {
+    return this.visit(value, [], new WeakSet()) as T;
+  }
+
+  /**
+   * 脱敏字符串
+   *
+   * @description 依次应用所有模式规则
+   * @param text - 文本
+   * @returns {string} 脱敏后的文本
+   */
+  redactString(text: string): string {
+    return this.patternRules.reduce(
+      (result, rule) =>
+        result.replace(rule.pattern, (match) =>
+          rule.validate && !rule.validate(match)
+            ? match
+            : this.censorText(match, rule.censor ?? this.censor)
+        ),
+      text
+    );
+  }
+
+  /**
+   * 遍历并脱敏值
+   *
+   * @private
+   */
+  private visit(
+    value: unknown,
+    path: string[],
+    seen: WeakSet<object>
+  ): unknown {
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+
+    if (value instanceof Error) {
+      seen.add(value);
+      const copy = Object.create(Object.getPrototypeOf(value)) as Record<
+        string,
+        unknown
+      >;
+      for (const key of Object.getOwnPropertyNames(value)) {
+        this.assign(
+          copy,
+          key,
+          (value as unknown as Record<string, unknown>)[key],
+          path,
+          seen
+        );
+      }
+      return copy;
+    }
+
+    const json = (value as { toJSON?: () => unknown }).toJSON;
+    if (typeof json === 'function') {
+      return this.visit(json.call(value), path, seen);
+    }
+
+    seen.add(value);
+    if (Array.isArray(value)) {
+      const result = value.map((item) => this.visit(item, path, seen));
+      seen.delete(value);
+      return result;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      this.assign(result, key, item, path, seen);
+    }
+    seen.delete(value);
+    return result;
+  }
+
+  /**
+   * 按路径规则处理属性后写入副本
+   *
+   * @private
+   */
+  private assign(
+    target: Record<string, unknown>,
+    key: string,
+    value: unknown,
+    path: string[],
+    seen: WeakSet<object>
+  ) {
+    const childPath = [...path, key.toLowerCase()];
+    const rule = this.pathRules.find((candidate) =>
+      matchPath(candidate.segments, 0, childPath, 0)
+    );
+    const redacted = rule
+      ? this.censorValue(value, rule.censor)
+      : this.visit(value, childPath, seen);
+
+    if (redacted !== REMOVED) {
+      target[key] = redacted;
+    }
+  }
+
+  /**
+   * 处理路径规则命中的值
+   *
+   * @private
+   */
+  private censorValue(value: unknown, censor: RedactionCensor): unknown {
+    if (value === undefined) {
+      return undefined;
+    }
+    switch (censor) {
+      case 'remove':
+        return REMOVED;
+      case 'hash':
+        return hashValue(
+          typeof value === 'string'
+            ? value
+            : JSON.stringify(value) ?? String(value)
+        );
+      case 'mask':
+      default:
+        return this.mask;
+    }
+  }
+
+  /**
+   * 处理模式规则匹配的文本
+   *
+   * @private
+   */
+  private censorText(text: string, censor: RedactionCensor): string {
+    switch (censor) {
+      case 'remove':
+        return '';
+      case 'hash':
+        return hashValue(text);
+      case 'mask':
+      default:
+        return this.mask;
+    }
+  }
+}
+
+/**
+ * 创建日志脱敏器
+ *
+ * @description 配置为 false 时返回 undefined，表示不脱敏
+ *
+ * @param config - 脱敏配置
+ * @returns {Redactor | undefined} 日志脱敏器
+ *
+ * @since 1.0.0
+ */
+export function createRedactor(
+  config?: RedactionConfig | false
+): Redactor | undefined {
+  return config === false ? undefined : new Redactor(config);
+}
+
+/**
+ * 匹配属性路径
+ *
+ * @description `*` 匹配一层属性，`**` 匹配零层或多层属性
+ *
+ * @private
+ */
+function matchPath(
+  pattern: string[],
+  patternIndex: number,
+  path: string[],
+  pathIndex: number
+): boolean {
+  if (patternIndex === pattern.length) {
+    return pathIndex === path.length;
+  }
+
+  const segment = pattern[patternIndex];
+  if (segment === '**') {
+    for (let index = pathIndex; index <= path.length; index++) {
+      if (matchPath(pattern, patternIndex + 1, path, index)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  return (
+    pathIndex < path.length &&
+    (segment === '*' || segment === path[pathIndex]) &&
+    matchPath(pattern, patternIndex + 1, path, pathIndex + 1)
+  );
+}
+
+/**
+ * 计算摘要
+ *
+ * @private
+ */
+function hashValue(value: string): string {
+  return `sha256:${createHash('sha256')
+    .update(value)
+    .digest('hex')
+    .slice(0, 16)}`;
+}
+
+/**
+ * Luhn 校验
+ *
+ * @private
+ */
+function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return sum % 10 === 0;
+}
@@ -0,0 +1,288 @@
+/**
+ * RotatingFileStream 单元测试
+ *
+ * @description 测试日志文件的大小轮转、日期轮转、压缩、保留数量清理和重新打开
+ */
+
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gunzipSync } from 'zlib';
+import { PinoLogger } from './pino-logger';
+import {
+  closeRotatingFileStreams,
+  formatLogDate,
+  getRotatingFileStream,
+  parseLogSize,
+  RotatingFileStream,
+} from './rotating-file-stream';
+
+/**
+ * 写入多行日志并等待输出流关闭
+ */
+async function writeLines(
+  stream: RotatingFileStream,
+  lines: string[]
+): Promise<void> {
+  for (const line of lines) {
+    stream.write(`${line}\n`);
+  }
+  await new Promise<void>((resolve) => stream.end(resolve));
+}
+
+describe('RotatingFileStream', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'hl8-log-rotation-'));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('parseLogSize', () => {
+    it('应该解析带单位的文件大小', () => {
+      expect(parseLogSize('100')).toBe(100);
+      expect(parseLogSize('512k')).toBe(512 * 1024);
+      expect(parseLogSize('10m')).toBe(10 * 1024 * 1024);
+      expect(parseLogSize('1GB')).toBe(1024 * 1024 * 1024);
+    });
+
+    it('应该拒绝无效的文件大小', () => {
+      expect(() => parseLogSize('ten megabytes')).toThrow('无效的日志文件大小');
+    });
+  });
+
+  describe('formatLogDate', () => {
+    it('应该按日期模式格式化本地时间', () => {
+      expect(
+        formatLogDate(new Date(2025, 0, 5, 8, 3), 'YYYY-MM-DD-HH-mm')
+      ).toBe('2025-01-05-08-03');
+    });
+  });
+
+  describe('大小轮转', () => {
+    it('应该在超过 maxSize 时轮转文件', async () => {
+      const path = join(dir, 'app.log');
+      const stream = new RotatingFileStream({ path, maxSize: '10' });
+
+      await writeLines(stream, ['aaaaaaaa', 'bbbbbbbb', 'cccccccc']);
+
+      expect(readFileSync(path, 'utf-8')).toBe('cccccccc\n');
+      expect(readFileSync(join(dir, 'app.1.log'), 'utf-8')).toBe('aaaaaaaa\n');
+      expect(readFileSync(join(dir, 'app.2.log'), 'utf-8')).toBe('bbbbbbbb\n');
+    });
+
+    it('应该从已有文件的大小继续计算', async () => {
+      const path = join(dir, 'app.log');
+      writeFileSync(path, 'existing\n');
+
+      await writeLines(new RotatingFileStream({ path, maxSize: '12' }), [
+        'next',
+      ]);
+
+      expect(readFileSync(join(dir, 'app.1.log'), 'utf-8')).toBe('existing\n');
+      expect(readFileSync(path, 'utf-8')).toBe('next\n');
+    });
+  });
+
+  describe('日期轮转', () => {
+    it('应该在日期周期变化时轮转并以旧周期命名', async () => {
+      const path = join(dir, 'app.log');
+      const now = jest
+        .spyOn(Date, 'now')
+        .mockReturnValue(new Date(2025, 0, 15, 23, 59).getTime());
+      const stream = new RotatingFileStream({
+        path,
+        datePattern: 'YYYY-MM-DD',
+      });
+
+      stream.write('day one\n');
+      await new Promise((resolve) => stream.write('day one again\n', resolve));
+      now.mockReturnValue(new Date(2025, 0, 16, 0, 1).getTime());
+      await writeLines(stream, ['day two']);
+
+      expect(readFileSync(join(dir, 'app.2025-01-15.1.log'), 'utf-8')).toBe(
+        'day one\nday one again\n'
+      );
+      expect(readFileSync(path, 'utf-8')).toBe('day two\n');
+    });
+
+    it('应该在启动时轮转上一周期遗留的文件', async () => {
+      const path = join(dir, 'app.log');
+      writeFileSync(path, 'yesterday\n');
+      const yesterday = new Date(2025, 0, 14, 12);
+      utimesSync(path, yesterday, yesterday);
+      jest
+        .spyOn(Date, 'now')
+        .mockReturnValue(new Date(2025, 0, 15, 12).getTime());
+
+      await writeLines(
+        new RotatingFileStream({ path, datePattern: 'YYYY-MM-DD' }),
+        ['today']
+      );
+
+      expect(readFileSync(join(dir, 'app.2025-01-14.1.log'), 'utf-8')).toBe(
+        'yesterday\n'
+      );
+      expect(readFileSync(path, 'utf-8')).toBe('today\n');
+    });
+  });
+
+  describe('压缩和清理', () => {
+    it('应该压缩历史文件', async () => {
+      const path = join(dir, 'app.log');
+
+      await writeLines(
+        new RotatingFileStream({ path, maxSize: '10', compress: true }),
+        ['aaaaaaaa', 'bbbbbbbb']
+      );
+
+      expect(existsSync(join(dir, 'app.1.log'))).toBe(false);
+      expect(
+        gunzipSync(readFileSync(join(dir, 'app.1.log.gz'))).toString()
+      ).toBe('aaaaaaaa\n');
+    });
+
+    it('应该只保留最新的 maxFiles 个历史文件', async () => {
+      const path = join(dir, 'app.log');
+      writeFileSync(join(dir, 'other.1.log'), 'unrelated\n');
+
+      await writeLines(
+        new RotatingFileStream({
+          path,
+          maxSize: '10',
+          maxFiles: 2,
+          compress: true,
+        }),
+        ['aaaaaaaa', 'bbbbbbbb', 'cccccccc', 'dddddddd', 'eeeeeeee']
+      );
+
+      expect(readdirSync(dir).sort()).toEqual([
+        'app.3.log.gz',
+        'app.4.log.gz',
+        'app.log',
+        'other.1.log',
+      ]);
+      expect(
+        gunzipSync(readFileSync(join(dir, 'app.4.log.gz'))).toString()
+      ).toBe('dddddddd\n');
+    });
+    it('清理时不应删除以相同前缀命名的其他日志文件', async () => {
+      const path = join(dir, 'app.log');
+      writeFileSync(join(dir, 'app.error.1.log'), 'error\n');
+      writeFileSync(join(dir, 'app.audit.2025-01-14.3.log'), 'audit\n');
+
+      await writeLines(
+        new RotatingFileStream({ path, maxSize: '10', maxFiles: 1 }),
+        ['aaaaaaaa', 'bbbbbbbb', 'cccccccc']
+      );
+
+      expect(readdirSync(dir).sort()).toEqual([
+        'app.2.log',
+        'app.audit.2025-01-14.3.log',
+        'app.error.1.log',
+        'app.log',
+      ]);
+    });
+
+    it('按日期轮转时清理不应删除以相同前缀命名的其他日志文件', async () => {
+      const path = join(dir, 'app.log');
+      writeFileSync(join(dir, 'app.error.2025-01-14.1.log'), 'error\n');
+      writeFileSync(join(dir, 'app.2025-01-13.1.log'), 'old\n');
+      const old = new Date(2025, 0, 13, 12);
+      utimesSync(join(dir, 'app.2025-01-13.1.log'), old, old);
+      jest
+        .spyOn(Date, 'now')
+        .mockReturnValue(new Date(2025, 0, 15, 12).getTime());
+
+      await writeLines(
+        new RotatingFileStream({
+          path,
+          datePattern: 'YYYY-MM-DD',
+          maxSize: '10',
+          maxFiles: 1,
+        }),
+        ['aaaaaaaa', 'bbbbbbbb']
+      );
+
+      expect(readdirSync(dir).sort()).toEqual([
+        'app.2025-01-15.1.log',
+        'app.error.2025-01-14.1.log',
+        'app.log',
+      ]);
+    });
+  });
+
+  describe('重新打开', () => {
+    it('应该在文件被外部移动后写入新文件', async () => {
+      const path = join(dir, 'app.log');
+      const stream = new RotatingFileStream({ path });
+
+      await new Promise((resolve) => stream.write('before\n', resolve));
+      renameSync(path, join(dir, 'app.log.old'));
+      stream.reopen();
+      await writeLines(stream, ['after']);
+
+      expect(readFileSync(join(dir, 'app.log.old'), 'utf-8')).toBe('before\n');
+      expect(readFileSync(path, 'utf-8')).toBe('after\n');
+    });
+
+    it('应该在收到 SIGHUP 时重新打开共享的输出流', async () => {
+      const path = join(dir, 'app.log');
+      const stream = getRotatingFileStream({ path });
+      expect(getRotatingFileStream({ path })).toBe(stream);
+
+      await new Promise((resolve) => stream.write('before\n', resolve));
+      renameSync(path, join(dir, 'app.log.old'));
+      // Jest 沙箱中的 process.emit 不会触发沙箱内注册的监听器，直接调用
+      process
+        .listeners('SIGHUP')
+        .forEach((listener) => (listener as () => void)());
+      stream.write('after\n');
+      await closeRotatingFileStreams();
+
+      expect(readFileSync(path, 'utf-8')).toBe('after\n');
+      expect(process.listeners('SIGHUP')).toHaveLength(0);
+    });
+  });
+
+  describe('PinoLogger 集成', () => {
+    it('应该通过 destination.rotation 轮转日志文件', async () => {
+      const path = join(dir, 'app.log');
+      const logger = new PinoLogger({
+        level: 'info',
+        destination: {
+          type: 'file',
+          path,
+          rotation: { maxSize: '200', maxFiles: 1 },
+        },
+      });
+
+      for (let index = 0; index < 5; index++) {
+        logger.child({ index }).info('rotated message');
+      }
+      await closeRotatingFileStreams();
+
+      const files = readdirSync(dir).sort();
+      expect(files).toHaveLength(2);
+      expect(files[1]).toBe('app.log');
+      const lines = readFileSync(path, 'utf-8').trim().split('\n');
+      expect(JSON.parse(lines[lines.length - 1])).toMatchObject({
+        msg: 'rotated message',
+        index: 4,
+      });
+    });
+  });
+});
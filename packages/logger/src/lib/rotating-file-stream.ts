@@ -0,0 +1,535 @@
+/**
+ * HL8 SAAS平台日志文件轮转输出流
+ *
+ * @description 提供按大小和日期轮转的日志文件输出流
+ * 支持旧文件 gzip 压缩、保留数量清理、异步写入和收到 SIGHUP 信号后重新打开文件
+ *
+ * @fileoverview 日志文件轮转输出流实现文件
+ * @author HL8 SAAS Platform Team
+ * @since 1.0.0
+ */
+
+import { createReadStream, createWriteStream, WriteStream } from 'fs';
+import { mkdir, readdir, rename, stat, unlink } from 'fs/promises';
+import { basename, dirname, extname, join, resolve } from 'path';
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import { LogRotation } from './types.js';
+
+/**
+ * 日志文件轮转输出流选项
+ *
+ * @description 在 LogRotation 的基础上增加文件路径和追加模式
+ */
+export interface RotatingFileStreamOptions extends LogRotation {
+  /** 日志文件路径 */
+  path: string;
+  /** 是否追加到已有文件，默认为 true */
+  append?: boolean;
+}
+
+/**
+ * 日志文件大小单位对应的字节数
+ *
+ * @private
+ */
+const SIZE_UNITS: Record<string, number> = {
+  '': 1,
+  k: 1024,
+  m: 1024 * 1024,
+  g: 1024 * 1024 * 1024,
+};
+
+/**
+ * 解析日志文件大小
+ *
+ * @description 将 '10m'、'512K'、'1GB' 等格式的大小转换为字节数，不带单位时按字节计算
+ * 与配置模块 LOG_MAX_SIZE 的格式保持一致
+ *
+ * @param size - 文件大小
+ * @returns {number} 字节数
+ * @throws {Error} 大小格式无效时抛出
+ *
+ * @example
+ * ```typescript
+ * parseLogSize('10m'); // 10485760
+ * parseLogSize('512KB'); // 524288
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function parseLogSize(size: string): number {
+  const match = /^(\d+(?:\.\d+)?)\s*([kmg]?)b?$/i.exec(size.trim());
+  if (!match) {
+    throw new Error(`无效的日志文件大小: ${size}`);
+  }
+  return Math.floor(Number(match[1]) * SIZE_UNITS[match[2].toLowerCase()]);
+}
+
+/**
+ * 按日期模式格式化时间
+ *
+ * @description 支持 YYYY、MM、DD、HH、mm、ss、SSS 占位符，使用本地时间
+ * 日期模式同时决定轮转周期，如 'YYYY-MM-DD' 按天轮转，'YYYY-MM-DD-HH' 按小时轮转
+ *
+ * @param date - 时间
+ * @param pattern - 日期模式
+ * @returns {string} 格式化后的字符串
+ *
+ * @example
+ * ```typescript
+ * formatLogDate(new Date(2025, 0, 15, 8), 'YYYY-MM-DD'); // '2025-01-15'
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function formatLogDate(date: Date, pattern: string): string {
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+    SSS: pad(date.getMilliseconds(), 3),
+  };
+  return pattern.replace(/YYYY|MM|DD|HH|mm|ss|SSS/g, token => tokens[token]);
+}
+
+/**
+ * 日志文件轮转输出流
+ *
+ * @description 将日志写入文件，并按配置轮转、压缩和清理历史文件
+ *
+ * ## 轮转规则
+ * - 配置 maxSize 时，写入后超过该大小的文件会被轮转
+ * - 配置 datePattern 时，按日期模式格式化的周期变化后轮转，启动时会检查已有文件的修改时间
+ * - 历史文件命名为 `app.1.log`，配置 datePattern 时为 `app.2025-01-15.1.log`，序号越大越新
+ * - 配置 compress 时历史文件压缩为 `.gz`，压缩在后台进行，不阻塞日志写入
+ * - 配置 maxFiles 时只保留最新的 maxFiles 个历史文件，不包括当前正在写入的文件
+ *
+ * ## 写入
+ * 使用异步文件流写入，轮转期间到达的日志由 Writable 缓冲，按顺序写入新文件
+ * 结束流（end）时会等待缓冲的日志、压缩和清理完成
+ *
+ * ## 外部轮转
+ * 与 logrotate 等工具配合时，调用 reopen() 或向进程发送 SIGHUP 信号重新打开日志文件，
+ * 通过 PinoLogger 创建的文件输出流会自动响应 SIGHUP
+ *
+ * @example
+ * ```typescript
+ * const stream = new RotatingFileStream({
+ *   path: './logs/app.log',
+ *   maxSize: '10m',
+ *   maxFiles: 5,
+ *   datePattern: 'YYYY-MM-DD',
+ *   compress: true
+ * });
+ * const logger = pino(stream);
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class RotatingFileStream extends Writable {
+  /** 日志文件绝对路径 */
+  readonly path: string;
+  /** 单个文件的最大字节数 */
+  private readonly maxBytes?: number;
+  /** 当前文件流 */
+  private file?: WriteStream;
+  /** 当前文件已写入的字节数 */
+  private size = 0;
+  /** 当前文件所属的日期周期 */
+  private period?: string;
+  /** 是否需要在下次写入前重新打开文件 */
+  private reopenRequested = false;
+  /** 后台压缩和清理任务 */
+  private housekeeping: Promise<void> = Promise.resolve();
+
+  /**
+   * 创建日志文件轮转输出流
+   *
+   * @param options - 轮转选项
+   * @throws {Error} maxSize 格式无效时抛出
+   */
+  constructor(private readonly options: RotatingFileStreamOptions) {
+    super({ decodeStrings: false });
+    this.path = resolve(options.path);
+    this.maxBytes = options.maxSize ? parseLogSize(options.maxSize) : undefined;
+  }
+
+  /**
+   * 重新打开日志文件
+   *
+   * @description 日志文件被外部工具移动或删除后调用，下一条日志会写入新创建的文件
+   *
+   * @example
+   * ```typescript
+   * process.on('SIGHUP', () => stream.reopen());
+   * ```
+   */
+  reopen(): void {
+    this.reopenRequested = true;
+  }
+
+  /**
+   * 写入日志
+   *
+   * @private
+   */
+  override _write(
+    chunk: string | Buffer,
+    encoding: BufferEncoding,
+    callback: (error?: Error | null) => void
+  ): void {
+    this.writeChunk(chunk).then(() => callback(), callback);
+  }
+
+  /**
+   * 结束写入
+   *
+   * @description 关闭当前文件并等待后台压缩和清理完成
+   *
+   * @private
+   */
+  override _final(callback: (error?: Error | null) => void): void {
+    this.closeFile()
+      .then(() => this.housekeeping)
+      .then(() => callback(), callback);
+  }
+
+  /**
+   * 写入单条日志，必要时先轮转文件
+   *
+   * @private
+   */
+  private async writeChunk(chunk: string | Buffer): Promise<void> {
+    if (this.reopenRequested) {
+      this.reopenRequested = false;
+      await this.closeFile();
+    }
+    if (!this.file) {
+      await this.openFile();
+    }
+
+    const period = this.currentPeriod();
+    if (period !== this.period) {
+      if (this.size > 0) {
+        await this.rotate();
+      }
+      this.period = period;
+    }
+
+    const length = Buffer.byteLength(chunk);
+    if (
+      this.maxBytes !== undefined &&
+      this.size > 0 &&
+      this.size + length > this.maxBytes
+    ) {
+      await this.rotate();
+    }
+
+    this.size += length;
+    const file = this.file as WriteStream;
+    if (!file.write(chunk)) {
+      await new Promise<void>((done) => file.once('drain', done));
+    }
+  }
+
+  /**
+   * 打开日志文件
+   *
+   * @description 追加模式下从已有文件的大小和修改时间恢复状态
+   *
+   * @private
+   */
+  private async openFile(): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const append = this.options.append !== false;
+
+    const existing = append
+      ? await stat(this.path).catch(() => undefined)
+      : undefined;
+    this.size = existing?.size ?? 0;
+    this.period = this.options.datePattern
+      ? formatLogDate(
+          existing && existing.size > 0 ? existing.mtime : new Date(Date.now()),
+          this.options.datePattern
+        )
+      : undefined;
+
+    const file = createWriteStream(this.path, { flags: append ? 'a' : 'w' });
+    await new Promise<void>((done, fail) => {
+      file.once('open', () => done());
+      file.once('error', fail);
+    });
+    file.on('error', (error) => this.destroy(error));
+    this.file = file;
+  }
+
+  /**
+   * 关闭日志文件
+   *
+   * @private
+   */
+  private async closeFile(): Promise<void> {
+    const file = this.file;
+    this.file = undefined;
+    if (file) {
+      await new Promise<void>((done) => file.end(() => done()));
+    }
+  }
+
+  /**
+   * 轮转日志文件
+   *
+   * @description 关闭当前文件并重命名为历史文件，然后打开新文件
+   * 压缩和清理放入后台任务执行
+   *
+   * @private
+   */
+  private async rotate(): Promise<void> {
+    const period = this.period;
+    await this.closeFile();
+
+    const archive = await this.nextArchivePath(period);
+    await rename(this.path, archive);
+    await this.openFile();
+
+    this.housekeeping = this.housekeeping.then(() =>
+      this.compressAndPrune(archive)
+    );
+  }
+
+  /**
+   * 压缩历史文件并清理超出保留数量的文件
+   *
+   * @description 失败时只写入 stderr，不影响日志写入
+   *
+   * @private
+   */
+  private async compressAndPrune(archive: string): Promise<void> {
+    try {
+      if (this.options.compress) {
+        await pipeline(
+          createReadStream(archive),
+          createGzip(),
+          createWriteStream(`${archive}.gz`)
+        );
+        await unlink(archive);
+      }
+      if (this.options.maxFiles !== undefined) {
+        await this.prune(this.options.maxFiles);
+      }
+    } catch (error) {
+      process.stderr.write(
+        `日志文件轮转清理失败 ${archive}: ${
+          error instanceof Error ? error.message : String(error)
+        }\n`
+      );
+    }
+  }
+
+  /**
+   * 删除超出保留数量的历史文件
+   *
+   * @private
+   */
+  private async prune(maxFiles: number): Promise<void> {
+    const archives = await this.listArchives();
+    const stale = archives.slice(0, Math.max(archives.length - maxFiles, 0));
+    await Promise.all(
+      stale.map((archive) => unlink(join(dirname(this.path), archive.name)))
+    );
+  }
+
+  /**
+   * 生成下一个历史文件路径
+   *
+   * @private
+   */
+  private async nextArchivePath(period?: string): Promise<string> {
+    const { stem, ext } = this.splitName();
+    const prefix = period ? `${stem}.${period}` : stem;
+    const pattern = new RegExp(
+      `^${escapeRegExp(prefix)}\\.(\\d+)${escapeRegExp(ext)}(?:\\.gz)?$`
+    );
+    const names = await readdir(dirname(this.path));
+    const sequence = names.reduce(
+      (max, name) => Math.max(max, Number(pattern.exec(name)?.[1] ?? 0)),
+      0
+    );
+
+    return join(dirname(this.path), `${prefix}.${sequence + 1}${ext}`);
+  }
+
+  /**
+   * 列出历史文件
+   *
+   * @description 按修改时间从旧到新排序，修改时间相同时按序号排序
+   * 只匹配本文件按 datePattern 生成的历史文件，不会匹配同目录下以相同前缀命名的其他日志文件（如 `app.error.1.log`）
+   *
+   * @private
+   */
+  private async listArchives(): Promise<
+    Array<{ name: string; sequence: number; mtime: number }>
+  > {
+    const { stem, ext } = this.splitName();
+    const period = this.options.datePattern
+      ? `\\.${datePatternSource(this.options.datePattern)}`
+      : '';
+    const pattern = new RegExp(
+      `^${escapeRegExp(stem)}${period}\\.(\\d+)${escapeRegExp(ext)}(?:\\.gz)?$`
+    );
+    const directory = dirname(this.path);
+
+    const names = await readdir(directory).catch(() => [] as string[]);
+    const archives = await Promise.all(
+      names
+        .flatMap((name) => {
+          const match = pattern.exec(name);
+          return match ? [{ name, sequence: Number(match[1]) }] : [];
+        })
+        .map(async (archive) => ({
+          ...archive,
+          mtime: (await stat(join(directory, archive.name))).mtimeMs,
+        }))
+    );
+
+    return archives.sort(
+      (a, b) => a.mtime - b.mtime || a.sequence - b.sequence
+    );
+  }
+
+  /**
+   * 拆分日志文件名
+   *
+   * @private
+   */
+  private splitName(): { stem: string; ext: string } {
+    const ext = extname(this.path);
+    return { stem: basename(this.path, ext), ext };
+  }
+
+  /**
+   * 当前时间所属的日期周期
+   *
+   * @private
+   */
+  private currentPeriod(): string | undefined {
+    return this.options.datePattern
+      ? formatLogDate(new Date(Date.now()), this.options.datePattern)
+      : undefined;
+  }
+}
+
+/**
+ * 已打开的日志文件输出流，按文件绝对路径索引
+ *
+ * @private
+ */
+const openStreams = new Map<string, RotatingFileStream>();
+
+/**
+ * SIGHUP 信号处理函数
+ *
+ * @private
+ */
+const reopenOnSignal = () => openStreams.forEach((stream) => stream.reopen());
+
+/**
+ * 获取日志文件输出流
+ *
+ * @description 同一文件只打开一个输出流，多个日志器（包括子日志器）共享该流，避免并发轮转
+ * 首次打开文件时注册 SIGHUP 处理函数，收到信号后重新打开所有日志文件
+ *
+ * @param options - 轮转选项，文件已打开时忽略
+ * @returns {RotatingFileStream} 日志文件输出流
+ *
+ * @example
+ * ```typescript
+ * const stream = getRotatingFileStream({ path: './logs/app.log', maxSize: '10m', maxFiles: 5 });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function getRotatingFileStream(
+  options: RotatingFileStreamOptions
+): RotatingFileStream {
+  const path = resolve(options.path);
+  const existing = openStreams.get(path);
+  if (existing && !existing.destroyed && !existing.writableEnded) {
+    return existing;
+  }
+
+  const stream = new RotatingFileStream(options);
+  stream.once('close', () => {
+    if (openStreams.get(path) === stream) {
+      openStreams.delete(path);
+    }
+    if (openStreams.size === 0) {
+      process.removeListener('SIGHUP', reopenOnSignal);
+    }
+  });
+
+  if (openStreams.size === 0) {
+    process.on('SIGHUP', reopenOnSignal);
+  }
+  openStreams.set(path, stream);
+  return stream;
+}
+
+/**
+ * 关闭所有日志文件输出流
+ *
+ * @description 在应用关闭时调用，等待缓冲的日志写入以及压缩和清理完成
+ *
+ * @returns {Promise<void>} 全部输出流关闭后完成
+ *
+ * @example
+ * ```typescript
+ * app.enableShutdownHooks();
+ * process.on('beforeExit', () => closeRotatingFileStreams());
+ * ```
+ *
+ * @since 1.0.0
+ */
+export async function closeRotatingFileStreams(): Promise<void> {
+  const streams = [...openStreams.values()];
+  await Promise.all(
+    streams.map(
+      (stream) =>
+        new Promise<void>((done) => {
+          stream.once('close', () => done());
+          stream.end();
+        })
+    )
+  );
+}
+
+/**
+ * 将日期模式转换为正则表达式源码
+ *
+ * @description 日期标记匹配对应位数的数字，其他字符按字面匹配
+ *
+ * @private
+ */
+function datePatternSource(pattern: string): string {
+  return pattern
+    .split(/(YYYY|MM|DD|HH|mm|ss|SSS)/)
+    .map((part, index) =>
+      index % 2 ? `\\d{${part.length}}` : escapeRegExp(part)
+    )
+    .join('');
+}
+
+/**
+ * 转义正则表达式特殊字符
+ *
+ * @private
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
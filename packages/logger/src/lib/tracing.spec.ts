@@ -0,0 +1,288 @@
+/**
+ * 链路追踪单元测试
+ *
+ * @description 测试 W3C traceparent 的解析和生成、Span 的父子关系和导出、
+ * 后台任务的追踪上下文传递以及 Fastify 中间件的请求 Span
+ */
+
+import Fastify from 'fastify';
+import { PassThrough } from 'stream';
+import { getCurrentRequestContext, withRequestContext } from './context';
+import { registerPinoLogger } from './fastify-middleware';
+import { PinoLogger } from './pino-logger';
+import {
+  createTraceHeaders,
+  formatTraceparent,
+  InMemorySpanExporter,
+  parseTraceparent,
+  Tracer,
+} from './tracing';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+/**
+ * 读取流中的全部日志
+ */
+function readEntries(stream: PassThrough): Record<string, unknown>[] {
+  return String(stream.read() ?? '')
+    .trim()
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+describe('W3C Trace Context', () => {
+  it('应该解析 traceparent 和 tracestate', () => {
+    expect(
+      parseTraceparent(TRACEPARENT, [
+        'congo=t61rcWkgMzE',
+        'rojo=00f067aa0ba902b7',
+      ])
+    ).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: 1,
+      traceState: 'congo=t61rcWkgMzE,rojo=00f067aa0ba902b7',
+    });
+  });
+
+  it('应该拒绝无效的 traceparent', () => {
+    expect(parseTraceparent(undefined)).toBeUndefined();
+    expect(parseTraceparent('trace-456')).toBeUndefined();
+    expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`)
+    ).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)
+    ).toBeUndefined();
+    expect(
+      parseTraceparent(`00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`)
+    ).toBeUndefined();
+    expect(parseTraceparent(`${TRACEPARENT}-extra`)).toBeUndefined();
+  });
+
+  it('应该忽略更高版本的额外字段', () => {
+    expect(parseTraceparent(`01-${TRACE_ID}-${SPAN_ID}-00-extra`)).toEqual({
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: 0,
+    });
+  });
+
+  it('应该生成 traceparent 和传播请求头', () => {
+    const context = {
+      traceId: TRACE_ID,
+      spanId: SPAN_ID,
+      traceFlags: 1,
+      traceState: 'congo=1',
+    };
+
+    expect(formatTraceparent(context)).toBe(TRACEPARENT);
+    expect(createTraceHeaders(context)).toEqual({
+      traceparent: TRACEPARENT,
+      tracestate: 'congo=1',
+    });
+    expect(createTraceHeaders()).toEqual({});
+  });
+});
+
+describe('Tracer', () => {
+  let exporter: InMemorySpanExporter;
+  let tracer: Tracer;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer = new Tracer({ exporter, serviceName: 'api' });
+  });
+
+  it('应该创建根 Span 并在结束时导出', () => {
+    const span = tracer.startSpan('job', {
+      attributes: { 'job.name': 'cleanup' },
+    });
+    span.addEvent('started');
+    span.end();
+    span.end();
+
+    const [data] = exporter.getFinishedSpans();
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+    expect(data).toMatchObject({
+      name: 'job',
+      kind: 'internal',
+      serviceName: 'api',
+      traceId: expect.stringMatching(/^[0-9a-f]{32}$/),
+      spanId: expect.stringMatching(/^[0-9a-f]{16}$/),
+      traceFlags: 1,
+      attributes: { 'job.name': 'cleanup' },
+      status: { code: 'unset' },
+      events: [{ name: 'started' }],
+    });
+    expect(data.parentSpanId).toBeUndefined();
+  });
+
+  it('应该继承远程父 Span 并且不导出未采样的 Span', () => {
+    const parent = parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-00`, 'congo=1');
+
+    const span = tracer.startSpan('unsampled', { parent });
+    span.end();
+
+    expect(span.spanContext()).toMatchObject({
+      traceId: TRACE_ID,
+      traceFlags: 0,
+      traceState: 'congo=1',
+    });
+    expect(span.spanContext().spanId).not.toBe(SPAN_ID);
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it('应该在 withSpan 中传递追踪上下文并记录异常', async () => {
+    const stream = new PassThrough();
+    const logger = new PinoLogger({ destination: { type: 'stream', stream } });
+
+    await expect(
+      withRequestContext({ requestId: 'req-1' }, () =>
+        tracer.withSpan('parent', async (parent) => {
+          await tracer.withSpan('child', async () => {
+            logger.info('inside child');
+          });
+          logger.info('inside parent');
+          expect(getCurrentRequestContext()).toMatchObject({
+            requestId: 'req-1',
+            spanId: parent.spanContext().spanId,
+          });
+          throw new Error('job failed');
+        })
+      )
+    ).rejects.toThrow('job failed');
+
+    const [child, parent] = exporter.getFinishedSpans();
+    expect(child.parentSpanId).toBe(parent.spanId);
+    expect(child.traceId).toBe(parent.traceId);
+    expect(parent.status).toEqual({ code: 'error', message: 'job failed' });
+    expect(parent.events[0]).toMatchObject({
+      name: 'exception',
+      attributes: { 'exception.message': 'job failed' },
+    });
+    expect(readEntries(stream)).toEqual([
+      expect.objectContaining({
+        msg: 'inside child',
+        requestId: 'req-1',
+        trace_id: child.traceId,
+        span_id: child.spanId,
+      }),
+      expect.objectContaining({
+        msg: 'inside parent',
+        trace_id: parent.traceId,
+        span_id: parent.spanId,
+      }),
+    ]);
+  });
+
+  it('应该让 withRequestContext 继承当前追踪上下文', async () => {
+    await tracer.withSpan('request', async (span) => {
+      await withRequestContext({ requestId: 'job-1' }, async () => {
+        expect(getCurrentRequestContext()).toEqual({
+          requestId: 'job-1',
+          traceId: span.spanContext().traceId,
+          spanId: span.spanContext().spanId,
+          traceFlags: 1,
+        });
+        tracer.startSpan('background').end();
+      });
+    });
+
+    const [background, request] = exporter.getFinishedSpans();
+    expect(background.parentSpanId).toBe(request.spanId);
+  });
+
+  it('应该忽略导出器的异常', () => {
+    const failing = new Tracer({
+      exporter: {
+        export: () => {
+          throw new Error('collector down');
+        },
+      },
+    });
+
+    expect(() => failing.startSpan('job').end()).not.toThrow();
+  });
+});
+
+describe('PinoLoggerMiddleware 链路追踪', () => {
+  it('应该为请求创建 Span、返回 traceparent 并在日志中输出 trace_id', async () => {
+    const exporter = new InMemorySpanExporter();
+    const stream = new PassThrough();
+    const app = Fastify();
+    await registerPinoLogger(app, {
+      tracer: new Tracer({ exporter }),
+      loggerConfig: { destination: { type: 'stream', stream } },
+    });
+    const logger = new PinoLogger({ destination: { type: 'stream', stream } });
+    app.get('/users/:id', async () => {
+      logger.info('loading user');
+      return { ok: true };
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/users/1',
+      headers: { traceparent: TRACEPARENT, tracestate: 'congo=1' },
+    });
+    await app.close();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span).toMatchObject({
+      name: 'GET /users/:id',
+      kind: 'server',
+      traceId: TRACE_ID,
+      parentSpanId: SPAN_ID,
+      traceState: 'congo=1',
+      attributes: {
+        'http.route': '/users/:id',
+        'http.response.status_code': 200,
+      },
+    });
+    expect(response.headers['traceparent']).toBe(
+      `00-${TRACE_ID}-${span.spanId}-01`
+    );
+    expect(response.headers['tracestate']).toBe('congo=1');
+    const entries = readEntries(stream);
+    expect(entries.map((entry) => entry['msg'])).toEqual([
+      'Request started',
+      'loading user',
+      'Request completed',
+    ]);
+    entries.forEach((entry) =>
+      expect(entry).toMatchObject({ trace_id: TRACE_ID, span_id: span.spanId })
+    );
+  });
+
+  it('应该在没有 traceparent 时开始新的链路', async () => {
+    const exporter = new InMemorySpanExporter();
+    const app = Fastify();
+    await registerPinoLogger(app, {
+      tracer: new Tracer({ exporter }),
+      enableRequestLogging: false,
+      enableResponseLogging: false,
+    });
+    app.get('/fail', async () => {
+      throw new Error('boom');
+    });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: '/fail',
+      headers: { traceparent: 'invalid' },
+    });
+    await app.close();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.parentSpanId).toBeUndefined();
+    expect(span.status).toEqual({ code: 'error', message: 'boom' });
+    expect(response.headers['traceparent']).toBe(
+      `00-${span.traceId}-${span.spanId}-01`
+    );
+  });
+});
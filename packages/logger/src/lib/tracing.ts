@@ -0,0 +1,702 @@
+/**
+ * HL8 SAAS平台链路追踪
+ *
+ * @description 实现 W3C Trace Context 的解析和传播，并为请求和后台任务创建 Span
+ * Span 结束后交给可替换的导出器，测试中可以使用内存导出器
+ *
+ * @fileoverview 链路追踪实现文件
+ * @author HL8 SAAS Platform Team
+ * @since 1.0.0
+ */
+
+import { randomBytes } from 'crypto';
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { getCurrentRequestContext, RequestStore, storage } from './context.js';
+import { RequestContext } from './types.js';
+
+/**
+ * Span 上下文
+ *
+ * @description 对应 W3C traceparent 和 tracestate 请求头中的信息
+ *
+ * @since 1.0.0
+ */
+export interface SpanContext {
+  /** 追踪ID，32 位小写十六进制 */
+  traceId: string;
+  /** Span ID，16 位小写十六进制 */
+  spanId: string;
+  /** 追踪标志，最低位表示是否采样 */
+  traceFlags: number;
+  /** 厂商相关的追踪状态，即 tracestate 请求头的值 */
+  traceState?: string;
+}
+
+/**
+ * Span 类型
+ *
+ * @since 1.0.0
+ */
+export type SpanKind =
+  | 'internal'
+  | 'server'
+  | 'client'
+  | 'producer'
+  | 'consumer';
+
+/**
+ * Span 属性
+ *
+ * @since 1.0.0
+ */
+export type SpanAttributes = Record<
+  string,
+  string | number | boolean | undefined
+>;
+
+/**
+ * Span 状态
+ *
+ * @since 1.0.0
+ */
+export interface SpanStatus {
+  /** 状态码 */
+  code: 'unset' | 'ok' | 'error';
+  /** 错误描述 */
+  message?: string;
+}
+
+/**
+ * Span 事件
+ *
+ * @since 1.0.0
+ */
+export interface SpanEvent {
+  /** 事件名称 */
+  name: string;
+  /** 发生时间（毫秒时间戳） */
+  time: number;
+  /** 事件属性 */
+  attributes?: SpanAttributes;
+}
+
+/**
+ * 已结束的 Span 数据
+ *
+ * @description 交给导出器的 Span 快照
+ *
+ * @since 1.0.0
+ */
+export interface SpanData extends SpanContext {
+  /** Span 名称 */
+  name: string;
+  /** Span 类型 */
+  kind: SpanKind;
+  /** 父 Span ID，根 Span 没有 */
+  parentSpanId?: string;
+  /** 服务名称 */
+  serviceName?: string;
+  /** 开始时间（毫秒时间戳） */
+  startTime: number;
+  /** 结束时间（毫秒时间戳） */
+  endTime: number;
+  /** 持续时间（毫秒） */
+  duration: number;
+  /** Span 属性 */
+  attributes: SpanAttributes;
+  /** Span 状态 */
+  status: SpanStatus;
+  /** Span 事件 */
+  events: SpanEvent[];
+}
+
+/**
+ * Span 导出器
+ *
+ * @description 接收已结束且被采样的 Span，负责把它们发送到追踪后端
+ * 导出失败不会影响业务代码
+ *
+ * @example
+ * ```typescript
+ * const exporter: SpanExporter = {
+ *   export: spans => fetch(collectorUrl, { method: 'POST', body: JSON.stringify(spans) }).then(() => undefined)
+ * };
+ * ```
+ *
+ * @since 1.0.0
+ */
+export interface SpanExporter {
+  /** 导出 Span */
+  export(spans: SpanData[]): void | Promise<void>;
+  /** 关闭导出器 */
+  shutdown?(): void | Promise<void>;
+}
+
+/**
+ * 创建 Span 的选项
+ *
+ * @since 1.0.0
+ */
+export interface StartSpanOptions {
+  /** Span 类型，默认为 'internal' */
+  kind?: SpanKind;
+  /** 父 Span 上下文，默认为当前请求上下文中的 Span，传 null 时创建根 Span */
+  parent?: SpanContext | null;
+  /** Span 属性 */
+  attributes?: SpanAttributes;
+  /** 开始时间（毫秒时间戳），默认为当前时间 */
+  startTime?: number;
+}
+
+/**
+ * 链路追踪器选项
+ *
+ * @since 1.0.0
+ */
+export interface TracerOptions {
+  /** Span 导出器，不配置时只传播追踪上下文，不导出 Span */
+  exporter?: SpanExporter;
+  /** 服务名称，写入导出的 Span */
+  serviceName?: string;
+}
+
+/**
+ * W3C traceparent 格式
+ *
+ * @private
+ */
+const TRACEPARENT_PATTERN =
+  /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+
+/**
+ * 采样标志位
+ *
+ * @private
+ */
+const SAMPLED_FLAG = 0x01;
+
+/**
+ * 内存 Span 导出器
+ *
+ * @description 把 Span 保存在内存中，用于测试和本地调试
+ *
+ * @example
+ * ```typescript
+ * const exporter = new InMemorySpanExporter();
+ * const tracer = new Tracer({ exporter });
+ * tracer.startSpan('job').end();
+ * exporter.getFinishedSpans(); // [{ name: 'job', ... }]
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  /** 已导出的 Span */
+  private spans: SpanData[] = [];
+  /** 是否已关闭 */
+  private stopped = false;
+
+  /**
+   * 导出 Span
+   *
+   * @param spans - 已结束的 Span
+   */
+  export(spans: SpanData[]): void {
+    if (!this.stopped) {
+      this.spans.push(...spans);
+    }
+  }
+
+  /**
+   * 关闭导出器
+   *
+   * @description 关闭后不再保存新的 Span
+   */
+  shutdown(): void {
+    this.stopped = true;
+  }
+
+  /**
+   * 获取已导出的 Span
+   *
+   * @returns {SpanData[]} 按结束顺序排列的 Span
+   */
+  getFinishedSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  /**
+   * 清空已导出的 Span
+   */
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+/**
+ * Span
+ *
+ * @description 表示一次操作的耗时区间，通过 Tracer.startSpan() 创建
+ * 调用 end() 后不再记录属性和事件，被采样的 Span 交给导出器
+ *
+ * @example
+ * ```typescript
+ * const span = tracer.startSpan('db.query', { kind: 'client', attributes: { 'db.system': 'postgresql' } });
+ * try {
+ *   await query();
+ * } catch (error) {
+ *   span.recordException(error as Error);
+ *   throw error;
+ * } finally {
+ *   span.end();
+ * }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class Span {
+  /** Span 属性 */
+  private readonly attributes: SpanAttributes;
+  /** Span 事件 */
+  private readonly events: SpanEvent[] = [];
+  /** Span 状态 */
+  private status: SpanStatus = { code: 'unset' };
+  /** 开始时间 */
+  private readonly startTime: number;
+  /** 结束时间，未结束时为 undefined */
+  private endTime?: number;
+
+  /**
+   * 创建 Span
+   *
+   * @param name - Span 名称
+   * @param context - Span 上下文
+   * @param options - Span 选项
+   * @param onEnd - Span 结束时的回调
+   */
+  constructor(
+    public readonly name: string,
+    private readonly context: SpanContext,
+    private readonly options: StartSpanOptions & { parentSpanId?: string },
+    private readonly onEnd: (span: SpanData) => void
+  ) {
+    this.attributes = { ...options.attributes };
+    this.startTime = options.startTime ?? Date.now();
+  }
+
+  /**
+   * 获取 Span 上下文
+   *
+   * @returns {SpanContext} Span 上下文
+   */
+  spanContext(): SpanContext {
+    return { ...this.context };
+  }
+
+  /**
+   * 是否仍在记录
+   *
+   * @returns {boolean} 未结束时为 true
+   */
+  isRecording(): boolean {
+    return this.endTime === undefined;
+  }
+
+  /**
+   * 设置属性
+   *
+   * @param key - 属性名
+   * @param value - 属性值
+   * @returns {this} 当前 Span
+   */
+  setAttribute(
+    key: string,
+    value: string | number | boolean | undefined
+  ): this {
+    if (this.isRecording()) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  /**
+   * 批量设置属性
+   *
+   * @param attributes - 属性
+   * @returns {this} 当前 Span
+   */
+  setAttributes(attributes: SpanAttributes): this {
+    Object.entries(attributes).forEach(([key, value]) =>
+      this.setAttribute(key, value)
+    );
+    return this;
+  }
+
+  /**
+   * 添加事件
+   *
+   * @param name - 事件名称
+   * @param attributes - 事件属性
+   * @returns {this} 当前 Span
+   */
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    if (this.isRecording()) {
+      this.events.push({ name, time: Date.now(), attributes });
+    }
+    return this;
+  }
+
+  /**
+   * 获取状态
+   *
+   * @returns {SpanStatus} Span 状态
+   */
+  getStatus(): SpanStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * 设置状态
+   *
+   * @param status - Span 状态
+   * @returns {this} 当前 Span
+   */
+  setStatus(status: SpanStatus): this {
+    if (this.isRecording()) {
+      this.status = status;
+    }
+    return this;
+  }
+
+  /**
+   * 记录异常
+   *
+   * @description 添加 exception 事件并把状态设置为 error
+   * @param error - 异常
+   * @returns {this} 当前 Span
+   */
+  recordException(error: Error): this {
+    this.addEvent('exception', {
+      'exception.type': error.name,
+      'exception.message': error.message,
+      'exception.stacktrace': error.stack,
+    });
+    return this.setStatus({ code: 'error', message: error.message });
+  }
+
+  /**
+   * 结束 Span
+   *
+   * @description 重复调用时只有第一次生效
+   * @param endTime - 结束时间（毫秒时间戳），默认为当前时间
+   */
+  end(endTime: number = Date.now()): void {
+    if (!this.isRecording()) {
+      return;
+    }
+    this.endTime = endTime;
+
+    this.onEnd({
+      ...this.context,
+      name: this.name,
+      kind: this.options.kind ?? 'internal',
+      parentSpanId: this.options.parentSpanId,
+      startTime: this.startTime,
+      endTime,
+      duration: endTime - this.startTime,
+      attributes: { ...this.attributes },
+      status: { ...this.status },
+      events: [...this.events],
+    });
+  }
+}
+
+/**
+ * 链路追踪器
+ *
+ * @description 创建 Span 并把被采样的 Span 交给导出器
+ *
+ * ## 父 Span
+ * - 默认使用当前请求上下文中的 traceId 和 spanId 作为父 Span
+ * - 没有父 Span 时生成新的 traceId，并标记为采样
+ * - 子 Span 继承父 Span 的追踪标志和 tracestate
+ *
+ * ## 后台任务
+ * - withSpan() 在新的 Span 中执行函数，函数内的日志输出该 Span 的 trace_id 和 span_id
+ * - 函数抛出异常时记录到 Span 并把状态设置为 error
+ *
+ * @example
+ * ```typescript
+ * const exporter = new InMemorySpanExporter();
+ * const tracer = new Tracer({ exporter, serviceName: 'api' });
+ *
+ * await tracer.withSpan('send-welcome-email', async span => {
+ *   span.setAttribute('user.id', userId);
+ *   logger.info('Sending email'); // 输出 trace_id 和 span_id
+ * });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export class Tracer {
+  /** 链路追踪器选项 */
+  private readonly options: TracerOptions;
+
+  /**
+   * 创建链路追踪器
+   *
+   * @param options - 链路追踪器选项
+   */
+  constructor(options: TracerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * 创建 Span
+   *
+   * @param name - Span 名称
+   * @param options - Span 选项
+   * @returns {Span} 新的 Span，需要调用 end() 结束
+   */
+  startSpan(name: string, options: StartSpanOptions = {}): Span {
+    const parent =
+      options.parent === undefined
+        ? getCurrentSpanContext()
+        : options.parent ?? undefined;
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? generateId(16),
+      spanId: generateId(8),
+      traceFlags: parent?.traceFlags ?? SAMPLED_FLAG,
+      traceState: parent?.traceState,
+    };
+
+    return new Span(
+      name,
+      context,
+      { ...options, parentSpanId: parent?.spanId },
+      (span) => this.exportSpan(span)
+    );
+  }
+
+  /**
+   * 在新的 Span 中执行函数
+   *
+   * @description 函数在继承当前请求上下文的新上下文中执行，其中的 traceId 和 spanId 替换为新 Span 的值
+   * @param name - Span 名称
+   * @param fn - 要执行的函数
+   * @param options - Span 选项
+   * @returns {Promise<T>} 函数执行结果
+   */
+  async withSpan<T>(
+    name: string,
+    fn: (span: Span) => Promise<T> | T,
+    options: StartSpanOptions = {}
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    const current = storage.getStore();
+    const context: RequestContext = {
+      ...(current?.getContext() ?? { requestId: '' }),
+      ...toRequestContextTrace(span.spanContext()),
+    };
+    const store = new RequestStore(
+      current?.request ?? (null as unknown as FastifyRequest),
+      current?.reply ?? (null as unknown as FastifyReply),
+      context,
+      current?.getLogLevel(),
+      current?.identityResolver
+    );
+
+    return storage.run(store, async () => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        if (error instanceof Error) {
+          span.recordException(error);
+        } else {
+          span.setStatus({ code: 'error', message: String(error) });
+        }
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * 关闭导出器
+   *
+   * @returns {Promise<void>} 关闭完成
+   */
+  async shutdown(): Promise<void> {
+    await this.options.exporter?.shutdown?.();
+  }
+
+  /**
+   * 导出已结束的 Span
+   *
+   * @description 只导出被采样的 Span，导出器的异常被忽略
+   *
+   * @private
+   */
+  private exportSpan(span: SpanData): void {
+    const exporter = this.options.exporter;
+    if (!exporter || (span.traceFlags & SAMPLED_FLAG) === 0) {
+      return;
+    }
+
+    try {
+      const result = exporter.export([
+        { ...span, serviceName: this.options.serviceName },
+      ]);
+      if (result instanceof Promise) {
+        result.catch(() => undefined);
+      }
+    } catch {
+      // 导出失败不影响业务代码
+    }
+  }
+}
+
+/**
+ * 解析 W3C traceparent 请求头
+ *
+ * @description 版本为 ff、traceId 或 spanId 全为 0 以及格式错误时返回 undefined
+ * 版本 00 不允许有额外字段，更高版本忽略额外字段
+ *
+ * @param traceparent - traceparent 请求头
+ * @param tracestate - tracestate 请求头，多个请求头按逗号合并
+ * @returns {SpanContext | undefined} 远程 Span 上下文
+ *
+ * @example
+ * ```typescript
+ * parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+ * // { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1 }
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function parseTraceparent(
+  traceparent: string | string[] | undefined,
+  tracestate?: string | string[]
+): SpanContext | undefined {
+  const header = Array.isArray(traceparent) ? traceparent[0] : traceparent;
+  const match = header ? TRACEPARENT_PATTERN.exec(header.trim()) : null;
+  if (!match) {
+    return undefined;
+  }
+
+  const [, version, traceId, spanId, flags, extra] = match;
+  if (
+    version === 'ff' ||
+    (version === '00' && extra !== undefined) ||
+    /^0+$/.test(traceId) ||
+    /^0+$/.test(spanId)
+  ) {
+    return undefined;
+  }
+
+  const state = (
+    Array.isArray(tracestate) ? tracestate.join(',') : tracestate
+  )?.trim();
+  return {
+    traceId,
+    spanId,
+    traceFlags: parseInt(flags, 16),
+    ...(state ? { traceState: state } : {}),
+  };
+}
+
+/**
+ * 生成 W3C traceparent 请求头
+ *
+ * @param context - Span 上下文
+ * @returns {string} traceparent 请求头的值
+ *
+ * @since 1.0.0
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-${context.traceFlags
+    .toString(16)
+    .padStart(2, '0')}`;
+}
+
+/**
+ * 生成传播追踪上下文的请求头
+ *
+ * @description 用于向下游服务或消息队列传递当前追踪上下文
+ * @param context - Span 上下文，默认为当前请求上下文中的 Span
+ * @returns {Record<string, string>} traceparent 和 tracestate 请求头，没有追踪上下文时为空对象
+ *
+ * @example
+ * ```typescript
+ * await fetch(url, { headers: { ...createTraceHeaders() } });
+ * ```
+ *
+ * @since 1.0.0
+ */
+export function createTraceHeaders(
+  context: SpanContext | undefined = getCurrentSpanContext()
+): Record<string, string> {
+  if (!context) {
+    return {};
+  }
+  return {
+    traceparent: formatTraceparent(context),
+    ...(context.traceState ? { tracestate: context.traceState } : {}),
+  };
+}
+
+/**
+ * 获取当前 Span 上下文
+ *
+ * @description 从当前请求上下文中读取 traceId 和 spanId
+ * @returns {SpanContext | undefined} 不在请求上下文中或没有追踪信息时返回 undefined
+ *
+ * @since 1.0.0
+ */
+export function getCurrentSpanContext(): SpanContext | undefined {
+  const context = getCurrentRequestContext();
+  if (!context?.traceId || !context.spanId) {
+    return undefined;
+  }
+  return {
+    traceId: context.traceId,
+    spanId: context.spanId,
+    traceFlags: context.traceFlags ?? SAMPLED_FLAG,
+    traceState: context.traceState,
+  };
+}
+
+/**
+ * 把 Span 上下文转换为请求上下文中的追踪字段
+ *
+ * @param context - Span 上下文
+ * @returns {Pick<RequestContext, 'traceId' | 'spanId' | 'traceFlags' | 'traceState'>} 追踪字段
+ *
+ * @since 1.0.0
+ */
+export function toRequestContextTrace(
+  context: SpanContext
+): Pick<RequestContext, 'traceId' | 'spanId' | 'traceFlags' | 'traceState'> {
+  return {
+    traceId: context.traceId,
+    spanId: context.spanId,
+    traceFlags: context.traceFlags,
+    ...(context.traceState ? { traceState: context.traceState } : {}),
+  };
+}
+
+/**
+ * 生成随机十六进制 ID
+ *
+ * @description 重新生成全 0 的 ID，W3C 规范中全 0 为无效值
+ *
+ * @private
+ */
+function generateId(bytes: number): string {
+  let id: string;
+  do {
+    id = randomBytes(bytes).toString('hex');
+  } while (/^0+$/.test(id));
+  return id;
+}
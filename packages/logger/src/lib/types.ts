@@ -10,6 +10,7 @@
  */
 
 import { FastifyRequest } from 'fastify';
+import type { AuditLoggerOptions } from './audit-logger.js';
 
 /**
  * 请求元数据类型
@@ -93,17 +94,32 @@ export interface LogFormat {
  * const config: LoggerConfig = {
  *   level: 'info',
  *   format: { timestamp: true, colorize: true },
- *   destination: { type: 'file', path: './logs/app.log' }
+ *   destinations: [
+ *     { type: 'console', format: 'pretty' },
+ *     { type: 'file', path: './logs/error.log', level: 'error' }
+ *   ]
  * };
  * ```
  */
 export interface LoggerConfig {
   /** 日志级别 */
   level?: LogLevel;
+  /**
+   * 日志器上下文名称
+   *
+   * @description 作为 context 字段输出，并用于匹配 logLevelManager 中按上下文覆盖的日志级别
+   */
+  context?: string;
   /** 日志格式化选项 */
   format?: LogFormat;
   /** 日志输出目标 */
   destination?: LogDestination;
+  /**
+   * 多个日志输出目标
+   *
+   * @description 每条日志同时写入所有级别满足要求的输出目标，与 destination 同时配置时 destination 排在最前
+   */
+  destinations?: LogDestination[];
   /** 是否启用请求日志 */
   enableRequestLogging?: boolean;
   /** 是否启用响应日志 */
@@ -112,17 +128,36 @@ export interface LoggerConfig {
   excludePaths?: string[];
   /** 自定义请求ID生成器 */
   requestIdGenerator?: (req: FastifyRequest) => string;
+  /**
+   * 敏感数据脱敏配置
+   *
+   * @description 默认启用内置的路径规则和模式规则，设置为 false 时关闭脱敏
+   */
+  redaction?: RedactionConfig | false;
+  /**
+   * 请求日志采样配置
+   *
+   * @description 作用于 PinoLoggerMiddleware 的请求开始和完成日志以及 LogPerformance 的性能日志，默认全部记录
+   */
+  sampling?: LogSamplingConfig;
+  /**
+   * 重复日志去重配置
+   *
+   * @description 时间窗口内相同级别、上下文、消息和数据的日志只输出第一条，窗口结束时输出一条被抑制数量的汇总日志
+   * 设置为 true 时使用默认配置，默认不去重
+   */
+  deduplication?: LogDeduplicationConfig | boolean;
 }
 
 /**
  * 日志输出目标类型
  *
  * @description 定义日志输出的目标类型
- * 支持控制台、文件、流等多种输出方式
+ * 支持控制台、文件、流等多种输出方式，每个输出目标可以单独设置最低级别和输出格式
  *
  * @example
  * ```typescript
- * const dest: LogDestination = { type: 'file', path: './logs/app.log' };
+ * const dest: LogDestination = { type: 'file', path: './logs/error.log', level: 'error' };
  * ```
  */
 export interface LogDestination {
@@ -136,13 +171,17 @@ export interface LogDestination {
   append?: boolean;
   /** 文件轮转配置 */
   rotation?: LogRotation;
+  /** 该输出目标的最低日志级别，默认接收所有通过日志器级别的日志 */
+  level?: LogLevel;
+  /** 输出格式，'pretty' 为易读格式（使用 LoggerConfig.format 中的格式化选项），默认为 'json' */
+  format?: 'json' | 'pretty';
 }
 
 /**
  * 日志轮转配置
  *
  * @description 定义日志文件的轮转配置
- * 支持按大小、时间等条件进行日志轮转
+ * 支持按大小、时间等条件进行日志轮转，由 RotatingFileStream 实现
  *
  * @example
  * ```typescript
@@ -154,16 +193,133 @@ export interface LogDestination {
  * ```
  */
 export interface LogRotation {
-  /** 最大文件大小 */
+  /** 最大文件大小，如 '10m'、'512k'、'1g' */
   maxSize?: string;
-  /** 最大文件数量 */
+  /** 保留的历史文件数量，不包括当前正在写入的文件 */
   maxFiles?: number;
-  /** 日期模式 */
+  /** 日期模式，支持 YYYY、MM、DD、HH、mm，周期变化时轮转 */
   datePattern?: string;
-  /** 是否压缩旧文件 */
+  /** 是否使用 gzip 压缩历史文件 */
   compress?: boolean;
 }
 
+/**
+ * 脱敏方式
+ *
+ * @description 定义敏感数据的处理方式
+ * - remove：删除属性，模式规则删除匹配的文本
+ * - mask：替换为掩码，默认为 '******'
+ * - hash：替换为 SHA-256 摘要前缀，如 'sha256:9f86d081884c7d65'，便于关联同一值而不暴露原文
+ */
+export type RedactionCensor = 'remove' | 'mask' | 'hash';
+
+/**
+ * 路径脱敏规则
+ *
+ * @description 按日志对象中的属性路径脱敏，属性名不区分大小写
+ * `*` 匹配一层任意属性，`**` 匹配任意多层属性，如 'req.headers.authorization'、'*.password'、'**.token'
+ *
+ * @example
+ * ```typescript
+ * const rule: RedactionPathRule = { path: 'request.body.idCard', censor: 'hash' };
+ * ```
+ */
+export interface RedactionPathRule {
+  /** 属性路径 */
+  path: string;
+  /** 脱敏方式，默认使用 RedactionConfig.censor */
+  censor?: RedactionCensor;
+}
+
+/**
+ * 模式脱敏规则
+ *
+ * @description 在日志消息和所有字符串值中查找匹配的文本并脱敏
+ *
+ * @example
+ * ```typescript
+ * const rule: RedactionPatternRule = { name: 'phone', pattern: /1[3-9]\d{9}/g, censor: 'mask' };
+ * ```
+ */
+export interface RedactionPatternRule {
+  /** 规则名称 */
+  name: string;
+  /** 匹配模式，未设置 g 标志时会自动添加 */
+  pattern: RegExp;
+  /** 脱敏方式，默认使用 RedactionConfig.censor */
+  censor?: RedactionCensor;
+  /** 额外校验函数，返回 false 时保留匹配的文本，如银行卡号的 Luhn 校验 */
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * 敏感数据脱敏配置
+ *
+ * @description 定义日志脱敏的规则和方式
+ * 内置规则覆盖认证请求头、Cookie、密码、令牌、密钥等属性以及 Bearer 令牌、JWT、银行卡号、邮箱等文本
+ *
+ * @example
+ * ```typescript
+ * const redaction: RedactionConfig = {
+ *   paths: ['request.body.idCard', { path: '**.phone', censor: 'hash' }],
+ *   censor: 'mask'
+ * };
+ * ```
+ */
+export interface RedactionConfig {
+  /** 额外的路径规则 */
+  paths?: Array<string | RedactionPathRule>;
+  /** 额外的模式规则 */
+  patterns?: RedactionPatternRule[];
+  /** 默认脱敏方式，默认为 'mask' */
+  censor?: RedactionCensor;
+  /** 掩码，默认为 '******' */
+  mask?: string;
+  /** 是否启用内置规则，默认为 true */
+  useDefaults?: boolean;
+}
+
+/**
+ * 日志采样配置
+ *
+ * @description 定义高频日志的采样方式，错误请求默认始终记录
+ * 同时设置采样率和 slowThreshold 时，只记录被采样且耗时达到阈值的请求
+ *
+ * @example
+ * ```typescript
+ * const sampling: LogSamplingConfig = {
+ *   rate: 0.1,
+ *   routes: { '/health': 0, '/orders/*': 1 },
+ *   slowThreshold: 500
+ * };
+ * ```
+ */
+export interface LogSamplingConfig {
+  /** 采样率，取值 0 到 1，默认为 1 */
+  rate?: number;
+  /** 按路由设置的采样率，键为路由（如 '/users/:id'）或以 `*` 结尾的路由前缀，优先于 rate */
+  routes?: Record<string, number>;
+  /** 是否始终记录失败的请求（抛出异常或状态码不低于 500），默认为 true */
+  alwaysLogErrors?: boolean;
+  /** 慢请求阈值（毫秒），设置后只记录耗时达到阈值的请求，且不输出请求开始日志 */
+  slowThreshold?: number;
+}
+
+/**
+ * 日志去重配置
+ *
+ * @example
+ * ```typescript
+ * const deduplication: LogDeduplicationConfig = { window: 10_000 };
+ * ```
+ */
+export interface LogDeduplicationConfig {
+  /** 时间窗口（毫秒），默认为 60000 */
+  window?: number;
+  /** 同时跟踪的不同日志数量上限，超出时淘汰最早的记录，默认为 1000 */
+  maxEntries?: number;
+}
+
 /**
  * 请求上下文信息
  *
@@ -184,14 +340,50 @@ export interface RequestContext {
   requestId: string;
   /** 用户ID */
   userId?: string;
-  /** 追踪ID */
+  /** 租户ID */
+  tenantId?: string;
+  /** 追踪ID，来自 W3C traceparent 或新生成的 32 位十六进制 ID */
   traceId?: string;
+  /** 当前 Span ID */
+  spanId?: string;
+  /** W3C 追踪标志，最低位表示是否采样 */
+  traceFlags?: number;
+  /** W3C tracestate */
+  traceState?: string;
   /** 会话ID */
   sessionId?: string;
   /** 自定义上下文数据 */
   metadata?: RequestMetadata;
 }
 
+/**
+ * 请求身份
+ *
+ * @description 请求所属的用户和租户，由 RequestIdentityResolver 从请求中解析
+ */
+export interface RequestIdentity {
+  /** 用户ID */
+  userId?: string;
+  /** 租户ID */
+  tenantId?: string;
+}
+
+/**
+ * 请求身份解析器
+ *
+ * @description 从请求中解析用户和租户，在读取请求上下文时调用，因此可以读取认证守卫之后才设置的已认证主体
+ * 租户配置覆盖、功能开关和审计操作者都依赖解析结果，只能使用可信的来源
+ *
+ * @example
+ * ```typescript
+ * const resolver: RequestIdentityResolver = (request) => {
+ *   const user = (request as { user?: { id: string; tenantId: string } }).user;
+ *   return user ? { userId: user.id, tenantId: user.tenantId } : undefined;
+ * };
+ * ```
+ */
+export type RequestIdentityResolver = (request: FastifyRequest) => RequestIdentity | undefined;
+
 /**
  * 日志条目接口
  *
@@ -301,6 +493,12 @@ export interface LoggerModuleParams {
   enableRequestLogging?: boolean;
   /** 是否启用响应日志 */
   enableResponseLogging?: boolean;
+  /** 是否在模块初始化时替换 NestJS 应用日志器并输出 bufferLogs 缓存的日志，默认为 true */
+  replaceNestLogger?: boolean;
+  /** 审计日志配置，审计记录与诊断日志分开输出 */
+  audit?: AuditLoggerOptions;
+  /** 请求身份解析器，默认从已认证主体 request.user 中解析，见 resolvePrincipalIdentity */
+  identityResolver?: RequestIdentityResolver;
 }
 
 /**